@@ -0,0 +1,128 @@
+import { distributedLockService, INSTANCE_ID, LockLostError } from '@/services/distributedLock';
+import { redisService } from '@/services/redis';
+import { pool } from '@/database/config';
+import { LockBackend } from '@/types';
+
+const mockClient = { query: jest.fn(), release: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/redis', () => ({
+  redisService: {
+    acquireLock: jest.fn(),
+    renewLock: jest.fn(),
+    releaseLock: jest.fn(),
+    getLock: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+  },
+}));
+
+describe('DistributedLockService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (pool.connect as jest.Mock).mockResolvedValue(mockClient);
+  });
+
+  it('takes a Redis lease with a token naming this instance and releases it with the same token', async () => {
+    jest.mocked(redisService.acquireLock).mockResolvedValue(true);
+    mockClient.query.mockResolvedValue({ rows: [{ acquired: true }] });
+
+    const lease = await distributedLockService.acquire('price-processing');
+
+    expect(lease).toMatchObject({ backend: LockBackend.REDIS, lost: false });
+    expect(JSON.parse(lease!.token)).toMatchObject({ holder: INSTANCE_ID });
+    expect(redisService.acquireLock).toHaveBeenCalledWith('lock:price-processing', lease!.token, 30000);
+    await expect(distributedLockService.getHolder('price-processing')).resolves.toMatchObject({ holder: INSTANCE_ID });
+
+    await distributedLockService.release(lease!);
+
+    expect(redisService.releaseLock).toHaveBeenCalledWith('lock:price-processing', lease!.token);
+    expect(mockClient.query).toHaveBeenLastCalledWith(expect.stringContaining('pg_advisory_unlock'), [expect.any(Number), 'price-processing']);
+  });
+
+  it('gives the Redis lease back when an instance without Redis holds the advisory lock', async () => {
+    jest.mocked(redisService.acquireLock).mockResolvedValue(true);
+    mockClient.query.mockResolvedValue({ rows: [{ acquired: false }] });
+
+    await expect(distributedLockService.acquire('repricing')).resolves.toBeNull();
+    expect(redisService.releaseLock).toHaveBeenCalledWith('lock:repricing', expect.any(String));
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  it('marks the lease lost and aborts its signal when a renewal finds it taken over', async () => {
+    jest.useFakeTimers();
+    jest.mocked(redisService.acquireLock).mockResolvedValue(true);
+    jest.mocked(redisService.renewLock).mockResolvedValue(false);
+    mockClient.query.mockResolvedValue({ rows: [{ acquired: true }] });
+
+    try {
+      await expect(
+        distributedLockService.runExclusive('reservation-expiry', async signal => {
+          await jest.advanceTimersByTimeAsync(10000);
+          expect(signal.aborted).toBe(true);
+        })
+      ).rejects.toBeInstanceOf(LockLostError);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('returns null while another instance holds the lease', async () => {
+    jest.mocked(redisService.acquireLock).mockResolvedValue(false);
+
+    await expect(distributedLockService.acquire('price-processing')).resolves.toBeNull();
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a PostgreSQL advisory lock when Redis is down', async () => {
+    jest.mocked(redisService.acquireLock).mockRejectedValue(new Error('connect ECONNREFUSED'));
+    mockClient.query.mockResolvedValueOnce({ rows: [{ acquired: true }] }).mockResolvedValueOnce({ rows: [] });
+
+    const lease = await distributedLockService.acquire('repricing');
+
+    expect(lease).toMatchObject({ backend: LockBackend.POSTGRES });
+    expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('pg_try_advisory_lock'), [expect.any(Number), 'repricing']);
+
+    await distributedLockService.release(lease!);
+
+    expect(mockClient.query).toHaveBeenLastCalledWith(expect.stringContaining('pg_advisory_unlock'), [expect.any(Number), 'repricing']);
+    expect(mockClient.release).toHaveBeenCalledWith();
+  });
+
+  it('skips the job when the lock is held elsewhere', async () => {
+    jest.mocked(redisService.acquireLock).mockResolvedValue(false);
+    const job = jest.fn();
+
+    await expect(distributedLockService.runExclusive('reservation-expiry', job)).resolves.toBe(false);
+    expect(job).not.toHaveBeenCalled();
+  });
+
+  it('reports the holder stored in Redis with the remaining lease', async () => {
+    jest.mocked(redisService.getLock).mockResolvedValue({
+      token: JSON.stringify({ id: 'token-1', holder: 'api-2:42', acquiredAt: '2024-06-01T02:00:00.000Z' }),
+      ttlMs: 12000,
+    });
+
+    await expect(distributedLockService.getHolder('price-processing')).resolves.toEqual({
+      name: 'price-processing',
+      backend: LockBackend.REDIS,
+      holder: 'api-2:42',
+      acquiredAt: new Date('2024-06-01T02:00:00.000Z'),
+      expiresInMs: 12000,
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { calculateAmortization, financingService, FinancingError } from '@/services/financing';
+import { financingRateRepository } from '@/repositories/financingRateRepository';
+import { Vehicle, VehicleStatus } from '@/types';
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+  },
+}));
+
+const buildVehicle = (overrides: Partial<Vehicle> = {}): Vehicle => ({
+  id: 'vehicle-1',
+  brand: 'Toyota',
+  model: 'Corolla',
+  year: new Date().getFullYear() - 3,
+  mileage: 45000,
+  price: 20000,
+  technicalSpecs: {
+    engine: '1.8L 4-Cylinder',
+    transmission: 'Automatic',
+    fuelType: 'Gasoline',
+    color: 'White',
+    doors: 4,
+    seats: 5,
+  },
+  status: VehicleStatus.AVAILABLE,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('calculateAmortization', () => {
+  it('computes the standard monthly payment', () => {
+    const result = calculateAmortization(10000, 12, 12);
+
+    expect(result.monthlyPayment).toBe(888.49);
+    expect(result.schedule).toHaveLength(12);
+  });
+
+  it('closes the balance at exactly zero', () => {
+    const result = calculateAmortization(15750, 9.5, 48);
+    const last = result.schedule[result.schedule.length - 1];
+    const principalPaid = result.schedule.reduce((sum, entry) => sum + entry.principal, 0);
+
+    expect(last?.balance).toBe(0);
+    expect(Math.round(principalPaid * 100) / 100).toBe(15750);
+    expect(result.totalPaid).toBeCloseTo(15750 + result.totalInterest, 2);
+  });
+
+  it('splits the principal evenly when the rate is zero', () => {
+    const result = calculateAmortization(1200, 0, 12);
+
+    expect(result.monthlyPayment).toBe(100);
+    expect(result.totalInterest).toBe(0);
+    expect(result.totalPaid).toBe(1200);
+  });
+});
+
+describe('FinancingService.quote', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the rate table when no rate is requested', async () => {
+    const findApplicable = jest.spyOn(financingRateRepository, 'findApplicable').mockResolvedValue({
+      id: 'rate-1',
+      termMonths: 36,
+      minVehicleAge: 0,
+      annualRate: 10,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const quote = await financingService.quote(buildVehicle(), { downPayment: 5000, termMonths: 36 });
+
+    expect(findApplicable).toHaveBeenCalledWith(36, 3);
+    expect(quote.principal).toBe(15000);
+    expect(quote.annualRate).toBe(10);
+    expect(quote.rateSource).toBe('rate_table');
+  });
+
+  it('rejects a down payment that covers the whole price', async () => {
+    await expect(
+      financingService.quote(buildVehicle(), { downPayment: 20000, termMonths: 36, annualRate: 8 })
+    ).rejects.toBeInstanceOf(FinancingError);
+  });
+
+  it('fails when no rate matches the term', async () => {
+    jest.spyOn(financingRateRepository, 'findApplicable').mockResolvedValue(null);
+
+    await expect(
+      financingService.quote(buildVehicle(), { downPayment: 0, termMonths: 84 })
+    ).rejects.toBeInstanceOf(FinancingError);
+  });
+});
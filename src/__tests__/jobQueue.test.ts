@@ -0,0 +1,123 @@
+import { QueueWorker, retryDelayMs } from '@/services/jobQueue';
+import { jobQueueRepository } from '@/repositories/jobQueueRepository';
+import { metricsService } from '@/services/metrics';
+import { QueuedJob, QueuedJobStatus } from '@/types';
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/metrics', () => ({
+  metricsService: {
+    recordQueueJobEnqueued: jest.fn(),
+    recordQueueJobClaimed: jest.fn(),
+    recordQueueJobAttempt: jest.fn(),
+  },
+}));
+
+const OPTIONS = { concurrency: 2, pollIntervalMs: 1000, backoffMs: 1000, maxBackoffMs: 60000, staleAfterMs: 600000 };
+
+const buildJob = (overrides: Partial<QueuedJob> = {}): QueuedJob => ({
+  id: 'job-1',
+  type: 'order-documents',
+  payload: { orderId: 'order-1' },
+  status: QueuedJobStatus.RUNNING,
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date(),
+  lockedBy: 'worker-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('retryDelayMs', () => {
+  it('doubles the delay on every attempt up to the maximum', () => {
+    expect([1, 2, 3, 4].map(attempts => retryDelayMs(attempts, OPTIONS))).toEqual([1000, 2000, 4000, 8000]);
+    expect(retryDelayMs(10, OPTIONS)).toBe(60000);
+  });
+});
+
+describe('QueueWorker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(jobQueueRepository, 'complete').mockResolvedValue(true);
+    jest.spyOn(jobQueueRepository, 'scheduleRetry').mockResolvedValue(true);
+    jest.spyOn(jobQueueRepository, 'moveToDeadLetter').mockResolvedValue(null);
+  });
+
+  it('runs the handler for the job type and marks the job completed', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const worker = new QueueWorker({ 'order-documents': handler }, OPTIONS, 'worker-1');
+    const job = buildJob();
+
+    await worker.process(job);
+
+    expect(handler).toHaveBeenCalledWith({ orderId: 'order-1' }, job);
+    expect(jobQueueRepository.complete).toHaveBeenCalledWith('job-1', 'worker-1');
+    expect(metricsService.recordQueueJobAttempt).toHaveBeenCalledWith('order-documents', 'completed', expect.any(Number));
+  });
+
+  it('schedules a retry with backoff while attempts remain', async () => {
+    const worker = new QueueWorker({ 'order-documents': jest.fn().mockRejectedValue(new Error('disk full')) }, OPTIONS, 'worker-1');
+    const before = Date.now();
+
+    await worker.process(buildJob({ attempts: 2 }));
+
+    const [id, workerId, error, runAt] = jest.mocked(jobQueueRepository.scheduleRetry).mock.calls[0]!;
+    expect([id, workerId, error]).toEqual(['job-1', 'worker-1', 'disk full']);
+    expect(runAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+    expect(jobQueueRepository.moveToDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters the job on its last attempt', async () => {
+    const worker = new QueueWorker({ 'order-documents': jest.fn().mockRejectedValue(new Error('disk full')) }, OPTIONS, 'worker-1');
+
+    await worker.process(buildJob({ attempts: 3 }));
+
+    expect(jobQueueRepository.moveToDeadLetter).toHaveBeenCalledWith('job-1', 'worker-1', 'disk full');
+    expect(jobQueueRepository.scheduleRetry).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters jobs of a type without handler straight away', async () => {
+    const worker = new QueueWorker({}, OPTIONS, 'worker-1');
+
+    await worker.process(buildJob({ type: 'thumbnails' }));
+
+    expect(jobQueueRepository.moveToDeadLetter).toHaveBeenCalledWith(
+      'job-1',
+      'worker-1',
+      'No handler registered for job type thumbnails'
+    );
+  });
+
+  it('only claims as many jobs as there are free slots', async () => {
+    let finish: () => void = () => undefined;
+    const handler = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const claim = jest.spyOn(jobQueueRepository, 'claim').mockResolvedValueOnce([buildJob()]).mockResolvedValue([]);
+    const worker = new QueueWorker({ 'order-documents': handler }, OPTIONS, 'worker-1');
+
+    await worker.poll();
+    await worker.poll();
+
+    expect(claim.mock.calls.map(call => call[1])).toEqual([2, 1]);
+
+    finish();
+    await worker.stop();
+    expect(jobQueueRepository.complete).toHaveBeenCalled();
+  });
+});
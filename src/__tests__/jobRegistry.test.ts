@@ -0,0 +1,163 @@
+import { JobAlreadyRunningError, JobDefinition, JobRegistry } from '@/services/jobRegistry';
+import { distributedLockService } from '@/services/distributedLock';
+import { jobRunRepository } from '@/repositories/jobRunRepository';
+import { jobSettingsRepository } from '@/repositories/jobSettingsRepository';
+import { JobRun, JobRunStatus, JobTrigger, LockBackend } from '@/types';
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/distributedLock', () => ({
+  INSTANCE_ID: 'test-host:1',
+  LockLostError: class LockLostError extends Error {},
+  distributedLockService: {
+    acquire: jest.fn(),
+    release: jest.fn(),
+  },
+}));
+
+const buildLease = (controller = new AbortController()) => ({
+  name: 'job:test',
+  backend: LockBackend.REDIS,
+  token: 'token',
+  acquiredAt: new Date(),
+  lost: false,
+  signal: controller.signal,
+});
+
+let lease = buildLease();
+
+const buildJob = (overrides: Partial<JobDefinition> = {}): JobDefinition => ({
+  name: 'test',
+  description: 'Test job',
+  schedule: '* * * * *',
+  timeoutMs: 1000,
+  retry: { attempts: 3, backoffMs: 1 },
+  run: jest.fn().mockResolvedValue({ processed: 1 }),
+  ...overrides,
+});
+
+describe('JobRegistry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lease = buildLease();
+    jest.mocked(distributedLockService.acquire).mockResolvedValue(lease);
+    jest.spyOn(jobSettingsRepository, 'isPaused').mockResolvedValue(false);
+    jest.spyOn(jobRunRepository, 'failInterrupted').mockResolvedValue(0);
+    jest.spyOn(jobRunRepository, 'create').mockImplementation(async data => ({
+      id: 'run-1',
+      jobName: data.jobName,
+      trigger: data.trigger,
+      status: JobRunStatus.RUNNING,
+      attempts: 0,
+      instance: data.instance,
+      logs: [],
+      startedAt: new Date(),
+    }));
+    jest.spyOn(jobRunRepository, 'finish').mockImplementation(async (id, data) => ({
+      id,
+      jobName: 'test',
+      trigger: JobTrigger.SCHEDULE,
+      instance: 'test-host:1',
+      startedAt: new Date(),
+      ...data,
+    } as JobRun));
+  });
+
+  it('rejects invalid schedules and duplicate names', () => {
+    expect(() => new JobRegistry([buildJob({ schedule: 'every minute' })])).toThrow('Invalid schedule');
+    expect(() => new JobRegistry([buildJob(), buildJob()])).toThrow('already registered');
+  });
+
+  it('retries failed attempts and records the result with the attempt count', async () => {
+    const run = jest.fn()
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce({ processed: 2 });
+    const registry = new JobRegistry([buildJob({ run })]);
+
+    const result = await registry.runScheduled('test');
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ status: JobRunStatus.SUCCEEDED, attempts: 2, result: { processed: 2 } });
+    expect(result!.logs.map(entry => entry.message)).toEqual(['Attempt 1 failed: connection reset', 'Retrying in 1 ms']);
+    expect(distributedLockService.release).toHaveBeenCalledWith(lease);
+  });
+
+  it('marks the run failed once the retries are used up', async () => {
+    const registry = new JobRegistry([buildJob({ run: jest.fn().mockRejectedValue(new Error('boom')) })]);
+
+    await expect(registry.runScheduled('test')).resolves.toMatchObject({
+      status: JobRunStatus.FAILED,
+      attempts: 3,
+      error: 'boom',
+    });
+  });
+
+  it('times out a hanging attempt without retrying it', async () => {
+    let signal: AbortSignal | undefined;
+    const run = jest.fn(async (context: { signal: AbortSignal }) => {
+      signal = context.signal;
+      await new Promise(resolve => context.signal.addEventListener('abort', resolve));
+    });
+    const registry = new JobRegistry([buildJob({ timeoutMs: 10, run })]);
+
+    await expect(registry.runScheduled('test')).resolves.toMatchObject({ status: JobRunStatus.TIMED_OUT, attempts: 1 });
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(signal!.aborted).toBe(true);
+  });
+
+  it('aborts the attempt and fails the run without retrying once the job lock is lost', async () => {
+    const controller = new AbortController();
+    jest.mocked(distributedLockService.acquire).mockResolvedValue(buildLease(controller));
+    let signal: AbortSignal | undefined;
+    const run = jest.fn(async (context: { signal: AbortSignal }) => {
+      signal = context.signal;
+      const aborted = new Promise(resolve => context.signal.addEventListener('abort', resolve));
+      controller.abort();
+      await aborted;
+    });
+    const registry = new JobRegistry([buildJob({ run })]);
+
+    await expect(registry.runScheduled('test')).resolves.toMatchObject({ status: JobRunStatus.FAILED, attempts: 1 });
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(signal!.aborted).toBe(true);
+  });
+
+  it('skips scheduled ticks while paused but still runs manual triggers', async () => {
+    const job = buildJob();
+    const registry = new JobRegistry([job]);
+    jest.mocked(jobSettingsRepository.isPaused).mockResolvedValue(true);
+
+    await expect(registry.runScheduled('test')).resolves.toBeNull();
+    expect(job.run).not.toHaveBeenCalled();
+
+    const run = await registry.trigger('test', 'admin-1');
+
+    expect(run.trigger).toBe(JobTrigger.MANUAL);
+    expect(jobRunRepository.create).toHaveBeenCalledWith(expect.objectContaining({ triggeredBy: 'admin-1' }));
+  });
+
+  it('refuses a manual trigger while another instance holds the job lock', async () => {
+    jest.mocked(distributedLockService.acquire).mockResolvedValue(null);
+    const registry = new JobRegistry([buildJob()]);
+
+    await expect(registry.trigger('test')).rejects.toBeInstanceOf(JobAlreadyRunningError);
+    expect(distributedLockService.acquire).toHaveBeenCalledWith('job:test');
+    expect(jobRunRepository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,224 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Pool } from 'pg';
+import { AppliedMigration, MigrationRunner, checksum, discoverMigrations, planMigrations } from '@/database/migrationRunner';
+import { logger } from '@/services/logger';
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const applied = (version: number, name: string, sql: string): AppliedMigration => ({
+  version,
+  name,
+  checksum: checksum(sql),
+  appliedAt: new Date(),
+  executionMs: 1,
+});
+
+describe('discoverMigrations', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'migrations-'));
+    mkdirSync(join(directory, 'down'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('orders migrations by version and pairs them with their down file', () => {
+    writeFileSync(join(directory, '010_second.sql'), 'SELECT 10;');
+    writeFileSync(join(directory, '002_first.sql'), 'SELECT 2;');
+    writeFileSync(join(directory, 'down', '002_first.sql'), 'SELECT -2;');
+    writeFileSync(join(directory, 'README.md'), 'not a migration');
+
+    const migrations = discoverMigrations(directory);
+
+    expect(migrations.map(migration => [migration.version, migration.name, migration.downSql])).toEqual([
+      [2, 'first', 'SELECT -2;'],
+      [10, 'second', undefined],
+    ]);
+  });
+
+  it('rejects two files with the same version', () => {
+    writeFileSync(join(directory, '003_one.sql'), 'SELECT 1;');
+    writeFileSync(join(directory, '003_other.sql'), 'SELECT 1;');
+
+    expect(() => discoverMigrations(directory)).toThrow('Two migrations share version 3');
+  });
+
+  it('finds a down migration for every migration in the repository', () => {
+    const migrations = discoverMigrations(join(__dirname, '..', 'database', 'migrations'));
+
+    expect(migrations.filter(migration => migration.downSql === undefined).map(migration => migration.fileName)).toEqual([]);
+  });
+});
+
+describe('planMigrations', () => {
+  const files = [
+    { version: 1, name: 'initial', fileName: '001_initial.sql', sql: 'SELECT 1;', checksum: checksum('SELECT 1;') },
+    { version: 2, name: 'late', fileName: '002_late.sql', sql: 'SELECT 2;', checksum: checksum('SELECT 2;') },
+    { version: 3, name: 'edited', fileName: '003_edited.sql', sql: 'SELECT 33;', checksum: checksum('SELECT 33;') },
+    { version: 5, name: 'next', fileName: '005_next.sql', sql: 'SELECT 5;', checksum: checksum('SELECT 5;') },
+  ];
+
+  it('classifies pending, modified, missing and out of order migrations', () => {
+    const plan = planMigrations(files, [
+      applied(1, 'initial', 'SELECT 1;'),
+      applied(3, 'edited', 'SELECT 3;'),
+      applied(4, 'removed', 'SELECT 4;'),
+    ]);
+
+    expect(plan.pending.map(file => file.version)).toEqual([2, 5]);
+    expect(plan.modified.map(file => file.version)).toEqual([3]);
+    expect(plan.missing.map(migration => migration.version)).toEqual([4]);
+    expect(plan.outOfOrder.map(file => file.version)).toEqual([2]);
+  });
+
+  it('has everything pending on an empty database', () => {
+    const plan = planMigrations(files, []);
+
+    expect(plan.pending).toHaveLength(4);
+    expect(plan.modified).toEqual([]);
+    expect(plan.outOfOrder).toEqual([]);
+  });
+});
+
+describe('MigrationRunner', () => {
+  const mockClient = { query: jest.fn(), release: jest.fn() };
+  const mockPool = { connect: jest.fn() };
+  let directory: string;
+  let history: AppliedMigration[];
+
+  const createRunner = (): MigrationRunner => new MigrationRunner(mockPool as unknown as Pool, directory);
+
+  const statements = (): string[] => mockClient.query.mock.calls.map(call => String(call[0]).trim());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = mkdtempSync(join(tmpdir(), 'migrations-'));
+    mkdirSync(join(directory, 'down'));
+    history = [];
+
+    mockPool.connect.mockResolvedValue(mockClient);
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('SELECT * FROM schema_migrations')) {
+        return { rows: history.map(migration => ({ ...migration, applied_at: migration.appliedAt, execution_ms: migration.executionMs })) };
+      }
+      return { rows: [] };
+    });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('applies each pending migration in its own transaction together with its history row', async () => {
+    writeFileSync(join(directory, '001_first.sql'), 'CREATE TABLE first ();');
+    writeFileSync(join(directory, '002_second.sql'), 'CREATE TABLE second ();');
+
+    const files = await createRunner().up();
+
+    expect(files.map(file => file.version)).toEqual([1, 2]);
+    expect(statements().filter(sql => !sql.startsWith('CREATE TABLE IF NOT EXISTS') && !sql.startsWith('SELECT'))).toEqual([
+      'BEGIN',
+      'CREATE TABLE first ();',
+      expect.stringContaining('INSERT INTO schema_migrations'),
+      'COMMIT',
+      'BEGIN',
+      'CREATE TABLE second ();',
+      expect.stringContaining('INSERT INTO schema_migrations'),
+      'COMMIT',
+    ]);
+    expect(statements()[0]).toContain('pg_advisory_lock');
+    expect(statements()[statements().length - 1]).toContain('pg_advisory_unlock');
+    expect(mockClient.release).toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith('Applying migration', { file: '002_second.sql' });
+  });
+
+  it('rolls back a failing migration without recording it and stops there', async () => {
+    writeFileSync(join(directory, '001_broken.sql'), 'CREATE TABLE broken (;');
+    writeFileSync(join(directory, '002_next.sql'), 'CREATE TABLE next ();');
+    const query = mockClient.query.getMockImplementation()!;
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql === 'CREATE TABLE broken (;') {
+        throw new Error('syntax error at or near ";"');
+      }
+      return query(sql);
+    });
+
+    await expect(createRunner().up()).rejects.toThrow('syntax error');
+
+    expect(statements()).toContain('ROLLBACK');
+    expect(statements()).not.toContain('COMMIT');
+    expect(statements().some(sql => sql.startsWith('INSERT INTO schema_migrations'))).toBe(false);
+    expect(statements()).not.toContain('CREATE TABLE next ();');
+    expect(statements()[statements().length - 1]).toContain('pg_advisory_unlock');
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  it('refuses to run once an applied migration has changed', async () => {
+    writeFileSync(join(directory, '001_first.sql'), 'CREATE TABLE first (id INTEGER);');
+    writeFileSync(join(directory, '002_second.sql'), 'CREATE TABLE second ();');
+    history = [applied(1, 'first', 'CREATE TABLE first ();')];
+
+    await expect(createRunner().up()).rejects.toThrow('001_first.sql changed after it was applied');
+
+    expect(statements()).not.toContain('BEGIN');
+    expect(statements()).not.toContain('CREATE TABLE second ();');
+  });
+
+  it('reverts the last migration and deletes its history row', async () => {
+    writeFileSync(join(directory, '001_first.sql'), 'CREATE TABLE first ();');
+    writeFileSync(join(directory, 'down', '001_first.sql'), 'DROP TABLE first;');
+    history = [applied(1, 'first', 'CREATE TABLE first ();')];
+
+    const reverted = await createRunner().down();
+
+    expect(reverted.map(migration => migration.version)).toEqual([1]);
+    expect(mockClient.query).toHaveBeenCalledWith('DELETE FROM schema_migrations WHERE version = $1', [1]);
+    expect(statements()).toEqual(expect.arrayContaining(['BEGIN', 'DROP TABLE first;', 'COMMIT']));
+  });
+
+  it('refuses to revert a migration without a down file', async () => {
+    writeFileSync(join(directory, '001_first.sql'), 'CREATE TABLE first ();');
+    history = [applied(1, 'first', 'CREATE TABLE first ();')];
+
+    await expect(createRunner().down()).rejects.toThrow('No down migration for 1_first');
+
+    expect(statements()).not.toContain('BEGIN');
+    expect(statements().some(sql => sql.startsWith('DELETE FROM schema_migrations'))).toBe(false);
+  });
+
+  it('replays the migrations into a scratch schema, compares columns and rolls everything back', async () => {
+    writeFileSync(join(directory, '001_vehicles.sql'), 'CREATE TABLE vehicles (id UUID);');
+    const query = mockClient.query.getMockImplementation()!;
+    mockClient.query.mockImplementation(async (sql: string, values?: unknown[]) => {
+      if (sql.includes('information_schema.columns')) {
+        return values![0] === 'public'
+          ? { rows: [{ table_name: 'vehicles', column_name: 'id' }, { table_name: 'vehicles', column_name: 'deleted_at' }, { table_name: 'schema_migrations', column_name: 'version' }] }
+          : { rows: [{ table_name: 'vehicles', column_name: 'id' }] };
+      }
+      return query(sql);
+    });
+
+    await expect(createRunner().detectSchemaDrift()).resolves.toEqual({
+      missingColumns: [],
+      unexpectedColumns: ['vehicles.deleted_at'],
+    });
+
+    expect(statements().slice(0, 3)).toEqual([
+      'BEGIN',
+      'CREATE SCHEMA migration_drift_check',
+      'SET LOCAL search_path TO migration_drift_check',
+    ]);
+    expect(statements()).toContain('CREATE TABLE vehicles (id UUID);');
+    expect(statements()[statements().length - 1]).toBe('ROLLBACK');
+  });
+});
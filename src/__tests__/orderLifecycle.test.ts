@@ -0,0 +1,206 @@
+import { orderLifecycleService, InvalidOrderTransitionError } from '@/services/orderLifecycle';
+import { orderRepository } from '@/repositories/orderRepository';
+import { vehicleRepository, VehicleUnavailableError } from '@/repositories/vehicleRepository';
+import { reservationRepository } from '@/repositories/reservationRepository';
+import { orderDocumentService } from '@/services/orderDocuments';
+import { Order, OrderStatus, Reservation, ReservationStatus, Vehicle, VehicleStatus } from '@/types';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/database/unitOfWork', () => ({
+  withTransaction: jest.fn((work: (client: unknown) => Promise<unknown>) => work(mockClient)),
+  withClient: jest.fn((client: unknown, work: (client: unknown) => Promise<unknown>) => work(client ?? mockClient)),
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/orderDocuments', () => ({
+  orderDocumentService: {
+    scheduleGeneration: jest.fn(),
+  },
+}));
+
+const buildOrder = (status: OrderStatus): Order => ({
+  id: 'order-id',
+  vehicleId: 'vehicle-id',
+  userId: 'customer-id',
+  status,
+  totalAmount: 18000,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const buildVehicle = (status: VehicleStatus): Vehicle => ({
+  id: 'vehicle-id',
+  brand: 'Toyota',
+  model: 'Corolla',
+  year: 2020,
+  mileage: 45000,
+  price: 18000,
+  technicalSpecs: {
+    engine: '1.8L 4-Cylinder',
+    transmission: 'Automatic',
+    fuelType: 'Gasoline',
+    color: 'White',
+    doors: 4,
+    seats: 5,
+  },
+  status,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('Order lifecycle', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('transition rules', () => {
+    it('should allow the happy path pending -> paid -> delivered', () => {
+      expect(orderLifecycleService.canTransition(OrderStatus.PENDING, OrderStatus.PAID)).toBe(true);
+      expect(orderLifecycleService.canTransition(OrderStatus.PAID, OrderStatus.DELIVERED)).toBe(true);
+    });
+
+    it('should allow cancelling pending and paid orders', () => {
+      expect(orderLifecycleService.canTransition(OrderStatus.PENDING, OrderStatus.CANCELLED)).toBe(true);
+      expect(orderLifecycleService.canTransition(OrderStatus.PAID, OrderStatus.CANCELLED)).toBe(true);
+    });
+
+    it('should treat delivered and cancelled as terminal states', () => {
+      expect(orderLifecycleService.getAllowedTransitions(OrderStatus.DELIVERED)).toEqual([]);
+      expect(orderLifecycleService.getAllowedTransitions(OrderStatus.CANCELLED)).toEqual([]);
+    });
+
+    it('should reject skipping or reversing states', () => {
+      expect(orderLifecycleService.canTransition(OrderStatus.PENDING, OrderStatus.DELIVERED)).toBe(false);
+      expect(orderLifecycleService.canTransition(OrderStatus.PAID, OrderStatus.PENDING)).toBe(false);
+      expect(orderLifecycleService.canTransition(OrderStatus.CANCELLED, OrderStatus.DELIVERED)).toBe(false);
+    });
+
+    it('should list the allowed next states in the error', () => {
+      expect.assertions(3);
+      try {
+        orderLifecycleService.assertTransition(OrderStatus.PENDING, OrderStatus.DELIVERED);
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidOrderTransitionError);
+        expect((error as InvalidOrderTransitionError).currentStatus).toBe(OrderStatus.PENDING);
+        expect((error as InvalidOrderTransitionError).allowedTransitions).toEqual([
+          OrderStatus.PAID,
+          OrderStatus.CANCELLED,
+        ]);
+      }
+    });
+  });
+
+  describe('vehicle status mapping', () => {
+    it('should map order states to vehicle states', () => {
+      expect(orderLifecycleService.getVehicleStatusFor(OrderStatus.PENDING)).toBe(VehicleStatus.RESERVED);
+      expect(orderLifecycleService.getVehicleStatusFor(OrderStatus.PAID)).toBe(VehicleStatus.SOLD);
+      expect(orderLifecycleService.getVehicleStatusFor(OrderStatus.DELIVERED)).toBe(VehicleStatus.SOLD);
+      expect(orderLifecycleService.getVehicleStatusFor(OrderStatus.CANCELLED)).toBe(VehicleStatus.AVAILABLE);
+    });
+  });
+
+  describe('place', () => {
+    beforeEach(() => {
+      jest.spyOn(orderRepository, 'create').mockResolvedValue(buildOrder(OrderStatus.PENDING));
+      jest.spyOn(orderRepository, 'addStatusHistory').mockResolvedValue({} as never);
+      jest.spyOn(vehicleRepository, 'updateStatus').mockResolvedValue(null);
+    });
+
+    it('should reserve an available vehicle inside the transaction', async () => {
+      jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockResolvedValue(buildVehicle(VehicleStatus.AVAILABLE));
+
+      const order = await orderLifecycleService.place(
+        { vehicleId: 'vehicle-id', userId: 'customer-id', totalAmount: 18000 },
+        { actorId: 'customer-id' }
+      );
+
+      expect(order?.status).toBe(OrderStatus.PENDING);
+      expect(vehicleRepository.updateStatus).toHaveBeenCalledWith('vehicle-id', VehicleStatus.RESERVED, mockClient);
+      expect(orderRepository.addStatusHistory).toHaveBeenCalledWith(
+        expect.objectContaining({ fromStatus: null, toStatus: OrderStatus.PENDING, changedBy: 'customer-id' }),
+        mockClient
+      );
+    });
+
+    it('should reject the order when the locked vehicle is no longer available', async () => {
+      jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockResolvedValue(buildVehicle(VehicleStatus.SOLD));
+
+      await expect(orderLifecycleService.place({ vehicleId: 'vehicle-id', userId: 'customer-id', totalAmount: 18000 }))
+        .rejects.toMatchObject({ currentStatus: VehicleStatus.SOLD });
+      expect(orderRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should convert the customer\'s own hold into the order', async () => {
+      const hold = { id: 'hold-id', userId: 'customer-id', status: ReservationStatus.ACTIVE } as Reservation;
+      jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockResolvedValue(buildVehicle(VehicleStatus.RESERVED));
+      jest.spyOn(reservationRepository, 'findActiveByVehicleId').mockResolvedValue(hold);
+      const convert = jest.spyOn(reservationRepository, 'markConverted').mockResolvedValue(hold);
+
+      await orderLifecycleService.place({ vehicleId: 'vehicle-id', userId: 'customer-id', totalAmount: 18000 });
+
+      expect(convert).toHaveBeenCalledWith('hold-id', mockClient);
+    });
+
+    it('should not let another customer order a held vehicle', async () => {
+      const hold = { id: 'hold-id', userId: 'someone-else', status: ReservationStatus.ACTIVE } as Reservation;
+      jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockResolvedValue(buildVehicle(VehicleStatus.RESERVED));
+      jest.spyOn(reservationRepository, 'findActiveByVehicleId').mockResolvedValue(hold);
+
+      await expect(orderLifecycleService.place({ vehicleId: 'vehicle-id', userId: 'customer-id', totalAmount: 18000 }))
+        .rejects.toBeInstanceOf(VehicleUnavailableError);
+    });
+  });
+
+  describe('transition', () => {
+    it('should update the order, the vehicle and the history in one transaction', async () => {
+      jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValue(buildOrder(OrderStatus.PENDING));
+      jest.spyOn(orderRepository, 'updateStatus').mockResolvedValue(buildOrder(OrderStatus.PAID));
+      jest.spyOn(orderRepository, 'addStatusHistory').mockResolvedValue({} as never);
+      jest.spyOn(vehicleRepository, 'updateStatus').mockResolvedValue(null);
+
+      const order = await orderLifecycleService.transition('order-id', OrderStatus.PAID, {
+        actorId: 'user-id',
+        reason: 'Transfer received',
+      });
+
+      expect(order?.status).toBe(OrderStatus.PAID);
+      expect(vehicleRepository.updateStatus).toHaveBeenCalledWith('vehicle-id', VehicleStatus.SOLD, mockClient);
+      expect(orderRepository.addStatusHistory).toHaveBeenCalledWith({
+        orderId: 'order-id',
+        fromStatus: OrderStatus.PENDING,
+        toStatus: OrderStatus.PAID,
+        changedBy: 'user-id',
+        reason: 'Transfer received',
+      }, mockClient);
+      expect(orderDocumentService.scheduleGeneration).toHaveBeenCalledWith('order-id');
+    });
+
+    it('should reject an illegal transition without writing anything', async () => {
+      jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValue(buildOrder(OrderStatus.CANCELLED));
+      const update = jest.spyOn(orderRepository, 'updateStatus');
+
+      await expect(orderLifecycleService.transition('order-id', OrderStatus.DELIVERED))
+        .rejects.toBeInstanceOf(InvalidOrderTransitionError);
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+});
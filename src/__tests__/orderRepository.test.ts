@@ -0,0 +1,115 @@
+import { pool } from '@/database/config';
+import { orderRepository } from '@/repositories/orderRepository';
+import { OrderStatus } from '@/types';
+
+const mockClient = { query: jest.fn(), release: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+const createdAt = new Date('2024-05-01T10:00:00Z');
+
+const orderRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'order-id',
+  vehicle_id: 'vehicle-id',
+  user_id: 'customer-id',
+  salesperson_id: 'sales-id',
+  status: 'pending',
+  total_amount: '18000.50',
+  down_payment: '2000.00',
+  notes: 'Wants the winter tyres',
+  created_at: createdAt,
+  updated_at: createdAt,
+  ...overrides,
+});
+
+describe('Order repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (pool.connect as jest.Mock).mockResolvedValue(mockClient);
+  });
+
+  describe('row mapping', () => {
+    it('should map columns to the order and parse numeric amounts', async () => {
+      mockClient.query.mockResolvedValue({ rows: [orderRow()] });
+
+      await expect(orderRepository.findById('order-id')).resolves.toEqual({
+        id: 'order-id',
+        vehicleId: 'vehicle-id',
+        userId: 'customer-id',
+        salespersonId: 'sales-id',
+        status: OrderStatus.PENDING,
+        totalAmount: 18000.5,
+        downPayment: 2000,
+        notes: 'Wants the winter tyres',
+        createdAt,
+        updatedAt: createdAt,
+      });
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should leave out the down payment when there is none', async () => {
+      mockClient.query.mockResolvedValue({ rows: [orderRow({ down_payment: null })] });
+
+      const order = await orderRepository.findById('order-id');
+
+      expect(order).not.toHaveProperty('downPayment');
+    });
+
+    it('should return null for an unknown order', async () => {
+      mockClient.query.mockResolvedValue({ rows: [] });
+
+      await expect(orderRepository.findById('missing-id')).resolves.toBeNull();
+    });
+  });
+
+  describe('create', () => {
+    it('should insert a pending order inside the caller\'s transaction', async () => {
+      const txClient = { query: jest.fn().mockResolvedValue({ rows: [orderRow({ down_payment: null })] }) };
+
+      const order = await orderRepository.create({ vehicleId: 'vehicle-id', userId: 'customer-id', totalAmount: 18000.5 }, txClient as never);
+
+      expect(order.status).toBe(OrderStatus.PENDING);
+      expect(txClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO orders'),
+        ['vehicle-id', 'customer-id', null, OrderStatus.PENDING, 18000.5, null, null]
+      );
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should combine the filters and paginate', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ count: '21' }] })
+        .mockResolvedValueOnce({ rows: [orderRow()] });
+
+      const result = await orderRepository.findAll(
+        { userId: 'customer-id', status: OrderStatus.PENDING },
+        { page: 2, limit: 10, offset: 10 }
+      );
+
+      expect(mockClient.query.mock.calls[0][0]).toBe('SELECT COUNT(*) FROM orders WHERE user_id = $1 AND status = $2');
+      expect(mockClient.query.mock.calls[1][0]).toContain('LIMIT $3 OFFSET $4');
+      expect(mockClient.query.mock.calls[1][1]).toEqual(['customer-id', OrderStatus.PENDING, 10, 10]);
+      expect(result).toMatchObject({ total: 21, page: 2, limit: 10, totalPages: 3 });
+      expect(result.orders).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { paymentService, PaymentNotAllowedError } from '@/services/payment';
+import { orderLifecycleService } from '@/services/orderLifecycle';
+import { orderDocumentService } from '@/services/orderDocuments';
+import { orderRepository } from '@/repositories/orderRepository';
+import { paymentRepository } from '@/repositories/paymentRepository';
+import { tradeInRepository } from '@/repositories/tradeInRepository';
+import { logger } from '@/services/logger';
+import { Order, OrderPayment, OrderStatus, PaymentMethod } from '@/types';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/database/unitOfWork', () => ({
+  withTransaction: jest.fn((work: (client: unknown) => Promise<unknown>) => work(mockClient)),
+  withClient: jest.fn((client: unknown, work: (client: unknown) => Promise<unknown>) => work(client ?? mockClient)),
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/orderDocuments', () => ({
+  orderDocumentService: {
+    scheduleGeneration: jest.fn(),
+  },
+}));
+
+const buildOrder = (status: OrderStatus, totalAmount = 18000): Order => ({
+  id: 'order-id',
+  vehicleId: 'vehicle-id',
+  userId: 'customer-id',
+  status,
+  totalAmount,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const buildPayment = (amount: number, overrides: Partial<OrderPayment> = {}): OrderPayment => ({
+  id: 'payment-id',
+  orderId: 'order-id',
+  method: PaymentMethod.BANK_TRANSFER,
+  amount,
+  receivedAt: new Date(),
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('Payment ledger', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(tradeInRepository, 'getAcceptedCredit').mockResolvedValue(0);
+  });
+
+  describe('computeBalance', () => {
+    it('should subtract payments and accepted trade-in credit from the total', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(5000.1);
+      jest.spyOn(tradeInRepository, 'getAcceptedCredit').mockResolvedValue(3000.2);
+
+      const balance = await paymentService.computeBalance(buildOrder(OrderStatus.PENDING), mockClient as never);
+
+      expect(balance).toEqual({
+        orderId: 'order-id',
+        totalAmount: 18000,
+        tradeInCredit: 3000.2,
+        paidAmount: 5000.1,
+        outstandingBalance: 9999.7,
+      });
+      expect(paymentRepository.getPaidTotal).toHaveBeenCalledWith('order-id', mockClient);
+    });
+  });
+
+  describe('settleIfPaid', () => {
+    const balance = (outstandingBalance: number) => ({
+      orderId: 'order-id',
+      totalAmount: 18000,
+      tradeInCredit: 0,
+      paidAmount: 18000 - outstandingBalance,
+      outstandingBalance,
+    });
+
+    it('should move a fully paid pending order to paid', async () => {
+      const apply = jest.spyOn(orderLifecycleService, 'applyTransition').mockResolvedValue(buildOrder(OrderStatus.PAID));
+
+      const order = await paymentService.settleIfPaid(buildOrder(OrderStatus.PENDING), balance(0), 'user-id', mockClient as never);
+
+      expect(order.status).toBe(OrderStatus.PAID);
+      expect(apply).toHaveBeenCalledWith(
+        expect.objectContaining({ status: OrderStatus.PENDING }),
+        OrderStatus.PAID,
+        { actorId: 'user-id', reason: 'Balance settled' },
+        mockClient
+      );
+    });
+
+    it('should leave an order with an outstanding balance untouched', async () => {
+      const apply = jest.spyOn(orderLifecycleService, 'applyTransition');
+
+      const order = await paymentService.settleIfPaid(buildOrder(OrderStatus.PENDING), balance(0.01), undefined, mockClient as never);
+
+      expect(order.status).toBe(OrderStatus.PENDING);
+      expect(apply).not.toHaveBeenCalled();
+    });
+
+    it('should not transition orders that are no longer pending', async () => {
+      const apply = jest.spyOn(orderLifecycleService, 'applyTransition');
+
+      await paymentService.settleIfPaid(buildOrder(OrderStatus.DELIVERED), balance(0), undefined, mockClient as never);
+
+      expect(apply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resettle', () => {
+    it('should settle a pending order whose new total is already covered', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(17500);
+      const apply = jest.spyOn(orderLifecycleService, 'applyTransition').mockResolvedValue(buildOrder(OrderStatus.PAID, 17500));
+
+      const order = await paymentService.resettle(buildOrder(OrderStatus.PENDING, 17500), 'user-id', mockClient as never);
+
+      expect(order.status).toBe(OrderStatus.PAID);
+      expect(apply).toHaveBeenCalledWith(expect.anything(), OrderStatus.PAID, expect.anything(), mockClient);
+    });
+
+    it('should refuse a total below what has already been paid', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(10000);
+      const apply = jest.spyOn(orderLifecycleService, 'applyTransition');
+
+      await expect(paymentService.resettle(buildOrder(OrderStatus.PENDING, 9000), undefined, mockClient as never))
+        .rejects.toMatchObject({ name: 'PaymentNotAllowedError', balance: expect.objectContaining({ outstandingBalance: -1000 }) });
+      expect(apply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('record', () => {
+    beforeEach(() => {
+      jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValue(buildOrder(OrderStatus.PENDING));
+    });
+
+    it('should record a partial payment and keep the order pending', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValueOnce(0).mockResolvedValueOnce(5000);
+      jest.spyOn(paymentRepository, 'create').mockResolvedValue(buildPayment(5000));
+      const apply = jest.spyOn(orderLifecycleService, 'applyTransition');
+
+      const result = await paymentService.record('order-id', { method: PaymentMethod.CASH, amount: 5000 }, 'user-id');
+
+      expect(result?.balance.outstandingBalance).toBe(13000);
+      expect(result?.order.status).toBe(OrderStatus.PENDING);
+      expect(paymentRepository.create).toHaveBeenCalledWith(
+        { method: PaymentMethod.CASH, amount: 5000, orderId: 'order-id', recordedBy: 'user-id' },
+        mockClient
+      );
+      expect(apply).not.toHaveBeenCalled();
+      expect(orderDocumentService.scheduleGeneration).not.toHaveBeenCalled();
+    });
+
+    it('should mark the order paid once the last payment settles it', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValueOnce(13000).mockResolvedValueOnce(18000);
+      jest.spyOn(paymentRepository, 'create').mockResolvedValue(buildPayment(5000));
+      jest.spyOn(orderLifecycleService, 'applyTransition').mockResolvedValue(buildOrder(OrderStatus.PAID));
+
+      const result = await paymentService.record('order-id', { method: PaymentMethod.CARD, amount: 5000 });
+
+      expect(result?.balance.outstandingBalance).toBe(0);
+      expect(result?.order.status).toBe(OrderStatus.PAID);
+      expect(orderDocumentService.scheduleGeneration).toHaveBeenCalledWith('order-id');
+    });
+
+    it('should reject a payment larger than the outstanding balance', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(15000);
+      const create = jest.spyOn(paymentRepository, 'create');
+
+      await expect(paymentService.record('order-id', { method: PaymentMethod.CASH, amount: 3000.01 }))
+        .rejects.toMatchObject({ name: 'PaymentNotAllowedError', balance: expect.objectContaining({ outstandingBalance: 3000 }) });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should reject payments on a cancelled order', async () => {
+      jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValue(buildOrder(OrderStatus.CANCELLED));
+
+      await expect(paymentService.record('order-id', { method: PaymentMethod.CASH, amount: 100 }))
+        .rejects.toBeInstanceOf(PaymentNotAllowedError);
+    });
+  });
+
+  describe('void', () => {
+    it('should refund a payment and reopen the balance of a pending order', async () => {
+      jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValue(buildOrder(OrderStatus.PENDING));
+      jest.spyOn(paymentRepository, 'findById').mockResolvedValue(buildPayment(5000));
+      const voided = buildPayment(5000, { voidedAt: new Date(), voidReason: 'Card chargeback' });
+      jest.spyOn(paymentRepository, 'void').mockResolvedValue(voided);
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(0);
+
+      const result = await paymentService.void('order-id', 'payment-id', 'user-id', 'Card chargeback');
+
+      expect(result?.payment).toBe(voided);
+      expect(result?.balance.outstandingBalance).toBe(18000);
+      expect(paymentRepository.void).toHaveBeenCalledWith('payment-id', { voidedBy: 'user-id', reason: 'Card chargeback' }, mockClient);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should warn when a refund reopens the balance of a settled order', async () => {
+      jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValue(buildOrder(OrderStatus.PAID));
+      jest.spyOn(paymentRepository, 'findById').mockResolvedValue(buildPayment(5000));
+      jest.spyOn(paymentRepository, 'void').mockResolvedValue(buildPayment(5000, { voidedAt: new Date() }));
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(13000);
+
+      const result = await paymentService.void('order-id', 'payment-id');
+
+      expect(result?.order.status).toBe(OrderStatus.PAID);
+      expect(logger.warn).toHaveBeenCalledWith('Voided payment reopened the balance of a settled order', expect.objectContaining({
+        orderId: 'order-id',
+        outstandingBalance: 5000,
+      }));
+    });
+
+    it('should not void a payment twice or one from another order', async () => {
+      jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValue(buildOrder(OrderStatus.PENDING));
+      const findPayment = jest.spyOn(paymentRepository, 'findById');
+
+      findPayment.mockResolvedValueOnce(buildPayment(5000, { voidedAt: new Date() }));
+      await expect(paymentService.void('order-id', 'payment-id')).rejects.toBeInstanceOf(PaymentNotAllowedError);
+
+      findPayment.mockResolvedValueOnce(buildPayment(5000, { orderId: 'other-order' }));
+      await expect(paymentService.void('order-id', 'payment-id')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,448 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { PriceProcessorService, PriceImportError } from '@/services/priceProcessor';
+import { createPriceSources, PriceFile, PriceSource } from '@/services/priceSources';
+import { createS3Client, hasS3Credentials } from '@/services/s3';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { priceImportRunRepository } from '@/repositories/priceImportRunRepository';
+import { vehiclePricingService } from '@/services/vehiclePricing';
+import { distributedLockService } from '@/services/distributedLock';
+import { logger } from '@/services/logger';
+import {
+  PriceChangeSource,
+  PriceImportReport,
+  PriceImportRun,
+  PriceImportRunStatus,
+  PriceImportSource,
+  PriceUpdate,
+  PriceUpdateRowStatus,
+  Vehicle,
+  VehicleStatus,
+} from '@/types';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/database/unitOfWork', () => ({
+  withTransaction: jest.fn((work: (client: unknown) => Promise<unknown>) => work(mockClient)),
+  withClient: jest.fn((client: unknown, work: (client: unknown) => Promise<unknown>) => work(client ?? mockClient)),
+}));
+
+jest.mock('@/services/s3', () => ({
+  createS3Client: jest.fn(() => ({})),
+  hasS3Credentials: jest.fn(() => false),
+}));
+
+jest.mock('@/services/distributedLock', () => ({
+  distributedLockService: {
+    acquire: jest.fn(async (name: string) => ({ name })),
+    release: jest.fn(),
+    getHolder: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+const ID_A = '11111111-1111-4111-8111-111111111111';
+const ID_B = '22222222-2222-4222-8222-222222222222';
+const ID_C = '33333333-3333-4333-8333-333333333333';
+const ID_D = '44444444-4444-4444-8444-444444444444';
+
+const buildUpdate = (row: number, vehicleId: string, newPrice: number): PriceUpdate => ({
+  vehicleId,
+  newPrice,
+  timestamp: new Date(),
+  row,
+});
+
+const buildVehicle = (id: string, price: number): Vehicle => ({
+  id,
+  brand: 'Toyota',
+  model: 'Corolla',
+  year: 2020,
+  mileage: 45000,
+  price,
+  technicalSpecs: {
+    engine: '1.8L 4-Cylinder',
+    transmission: 'Automatic',
+    fuelType: 'Gasoline',
+    color: 'White',
+    doors: 4,
+    seats: 5,
+  },
+  status: VehicleStatus.AVAILABLE,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const mockPriceChange = (oldPrice: number) =>
+  jest.fn(async (vehicleId: string, newPrice: number) => ({
+    vehicle: buildVehicle(vehicleId, newPrice),
+    change: {
+      id: `change-${vehicleId}`,
+      vehicleId,
+      oldPrice,
+      newPrice,
+      source: PriceChangeSource.IMPORT,
+      changedAt: new Date(),
+    },
+  }));
+
+describe('PriceProcessorService batch application', () => {
+  let service: PriceProcessorService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.PRICE_IMPORT_CHUNK_SIZE = '2';
+    process.env.PRICE_IMPORT_CONCURRENCY = '2';
+    service = new PriceProcessorService();
+    jest.spyOn(vehicleRepository, 'findExistingIds').mockResolvedValue(new Set([ID_A, ID_B, ID_C]));
+  });
+
+  it('applies valid rows through the pricing service with the import source', async () => {
+    const changePrice = jest.spyOn(vehiclePricingService, 'changePrice').mockImplementation(mockPriceChange(20000));
+
+    const report = await service.processUpdatesConcurrently([
+      buildUpdate(1, ID_A, 18000),
+      buildUpdate(2, ID_B, 15000),
+    ], 'prices.csv');
+
+    expect(report.applied).toBe(2);
+    expect(report.rows.map(row => row.status)).toEqual([PriceUpdateRowStatus.APPLIED, PriceUpdateRowStatus.APPLIED]);
+    expect(report.rows[0]).toMatchObject({ row: 1, oldPrice: 20000, newPrice: 18000 });
+    expect(changePrice).toHaveBeenCalledWith(ID_A, 18000, expect.objectContaining({ source: PriceChangeSource.IMPORT }), mockClient);
+  });
+
+  it('rejects invalid IDs, non-positive prices, duplicates and unknown vehicles before touching the database', async () => {
+    const changePrice = jest.spyOn(vehiclePricingService, 'changePrice').mockImplementation(mockPriceChange(20000));
+
+    const report = await service.processUpdatesConcurrently([
+      buildUpdate(1, 'not-a-uuid', 10000),
+      buildUpdate(2, ID_A, 0),
+      buildUpdate(3, ID_B, NaN),
+      buildUpdate(4, ID_C, 12000),
+      buildUpdate(5, ID_C, 12500),
+      buildUpdate(6, ID_D, 9000),
+    ], 'prices.csv');
+
+    expect(report.totalRows).toBe(6);
+    expect(report.rejected).toBe(6);
+    expect(report.rows.map(row => row.reason)).toEqual([
+      'Invalid vehicle ID',
+      'Price must be a positive number',
+      'Price must be a positive number',
+      'Duplicate vehicle ID (rows 4, 5)',
+      'Duplicate vehicle ID (rows 4, 5)',
+      'Vehicle not found',
+    ]);
+    expect(changePrice).not.toHaveBeenCalled();
+  });
+
+  it('reports unchanged prices as skipped', async () => {
+    jest.spyOn(vehiclePricingService, 'changePrice').mockResolvedValue({
+      vehicle: buildVehicle(ID_A, 18000),
+      change: null,
+    });
+
+    const report = await service.processUpdatesConcurrently([buildUpdate(1, ID_A, 18000)], 'prices.csv');
+
+    expect(report.skipped).toBe(1);
+    expect(report.rows[0]).toMatchObject({ status: PriceUpdateRowStatus.SKIPPED, reason: 'Price unchanged' });
+  });
+
+  it('rejects the whole chunk when one of its rows fails, leaving other chunks applied', async () => {
+    const applied = mockPriceChange(20000);
+    jest.spyOn(vehiclePricingService, 'changePrice').mockImplementation(async (vehicleId, newPrice) => {
+      if (vehicleId === ID_B) {
+        throw new Error('numeric field overflow');
+      }
+      return applied(vehicleId, newPrice);
+    });
+
+    // Chunk size 2: [A, B] fails as a unit, [C] commits
+    const report = await service.processUpdatesConcurrently([
+      buildUpdate(1, ID_A, 18000),
+      buildUpdate(2, ID_B, 15000),
+      buildUpdate(3, ID_C, 12000),
+    ], 'prices.csv');
+
+    expect(report.rows).toEqual([
+      expect.objectContaining({ row: 1, status: PriceUpdateRowStatus.REJECTED, reason: 'Chunk rolled back after row 2 failed' }),
+      expect.objectContaining({ row: 2, status: PriceUpdateRowStatus.REJECTED, reason: 'numeric field overflow' }),
+      expect.objectContaining({ row: 3, status: PriceUpdateRowStatus.APPLIED }),
+    ]);
+  });
+
+  it('exposes the queue as empty once the batch has been applied', async () => {
+    jest.spyOn(vehiclePricingService, 'changePrice').mockImplementation(mockPriceChange(20000));
+
+    await service.processUpdatesConcurrently([buildUpdate(1, ID_A, 18000)], 'prices.csv');
+
+    expect(service.getProcessingStatus()).toMatchObject({ isProcessing: false, queueLength: 0 });
+  });
+});
+
+describe('PriceProcessorService preview', () => {
+  let service: PriceProcessorService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.PRICE_CHANGE_WARNING_PERCENT = '20';
+    service = new PriceProcessorService([]);
+    jest.spyOn(vehicleRepository, 'findExistingIds').mockResolvedValue(new Set([ID_A, ID_B, ID_C]));
+    jest.spyOn(vehicleRepository, 'findPricesByIds').mockResolvedValue(new Map([
+      [ID_A, 20000],
+      [ID_B, 10000],
+      [ID_C, 15000],
+    ]));
+  });
+
+  it('returns the per-vehicle diff and flags changes beyond the threshold without applying anything', async () => {
+    const changePrice = jest.spyOn(vehiclePricingService, 'changePrice');
+
+    const preview = await service.previewUpload('supplier.csv', Buffer.from(
+      `vehicle_id,new_price\n${ID_A},19000\n${ID_B},7000\n${ID_C},15000\n${ID_D},9000\n`
+    ));
+
+    expect(preview).toMatchObject({ totalRows: 4, unchanged: 1, warnings: 1, requiresApproval: true, thresholdPercent: 20 });
+    expect(preview.changes).toEqual([
+      { row: 1, vehicleId: ID_A, oldPrice: 20000, newPrice: 19000, difference: -1000, percentChange: -5 },
+      expect.objectContaining({ row: 2, vehicleId: ID_B, percentChange: -30, warning: expect.stringContaining('20%') }),
+    ]);
+    expect(preview.rejected).toEqual([expect.objectContaining({ row: 4, reason: 'Vehicle not found' })]);
+    expect(changePrice).not.toHaveBeenCalled();
+  });
+
+  it('does not require approval when every change is within the threshold', async () => {
+    const preview = await service.buildPreview([buildUpdate(1, ID_A, 22000)], 'prices.csv');
+
+    expect(preview.changes[0]).toMatchObject({ percentChange: 10 });
+    expect(preview.changes[0]!.warning).toBeUndefined();
+    expect(preview.requiresApproval).toBe(false);
+  });
+});
+
+describe('Price sources', () => {
+  const originalSources = process.env.PRICE_SOURCES;
+
+  afterEach(() => {
+    process.env.PRICE_SOURCES = originalSources;
+    jest.mocked(hasS3Credentials).mockReturnValue(false);
+  });
+
+  it('disables the S3 source instead of failing when AWS credentials are missing', () => {
+    process.env.PRICE_SOURCES = 's3,local,upload';
+
+    const sources = createPriceSources();
+
+    expect(sources.map(source => source.name)).toEqual([PriceImportSource.LOCAL, PriceImportSource.UPLOAD]);
+    expect(createS3Client).not.toHaveBeenCalled();
+  });
+
+  it('keeps processing the remaining sources when one of them fails', async () => {
+    const failing: PriceSource = {
+      name: PriceImportSource.S3,
+      list: jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED')),
+      open: jest.fn(),
+      markProcessed: jest.fn(),
+    };
+    const empty: PriceSource = {
+      name: PriceImportSource.LOCAL,
+      list: jest.fn().mockResolvedValue([]),
+      open: jest.fn(),
+      markProcessed: jest.fn(),
+    };
+    const service = new PriceProcessorService([failing, empty]);
+
+    await service.startProcessing();
+
+    expect(empty.list).toHaveBeenCalled();
+    expect(service.getProcessingStatus()).toMatchObject({
+      isProcessing: false,
+      sources: [PriceImportSource.S3, PriceImportSource.LOCAL],
+      lastRun: expect.objectContaining({ error: 's3: connect ECONNREFUSED' }),
+    });
+    expect(logger.warn).toHaveBeenCalledWith('Price processing completed with failures', { failedSources: 1, rejectedRows: 0 });
+  });
+
+  it('returns null without touching the sources or the last run when another instance is processing', async () => {
+    const source: PriceSource = {
+      name: PriceImportSource.LOCAL,
+      list: jest.fn().mockResolvedValue([]),
+      open: jest.fn(),
+      markProcessed: jest.fn(),
+    };
+    const service = new PriceProcessorService([source]);
+    const first = await service.startProcessing();
+    jest.mocked(distributedLockService.acquire).mockResolvedValueOnce(null);
+
+    await expect(service.startProcessing()).resolves.toBeNull();
+
+    expect(source.list).toHaveBeenCalledTimes(1);
+    expect(service.getProcessingStatus().lastRun).toBe(first);
+  });
+});
+
+describe('Price file registry', () => {
+  let directory: string;
+  let source: PriceSource;
+  let service: PriceProcessorService;
+
+  const report: PriceImportReport = {
+    source: 'local:prices.csv',
+    startedAt: new Date(),
+    finishedAt: new Date(),
+    totalRows: 0,
+    applied: 0,
+    skipped: 0,
+    rejected: 0,
+    rows: [],
+  };
+
+  const buildRun = (overrides: Partial<PriceImportRun> = {}): PriceImportRun => ({
+    id: 'run-id',
+    source: PriceImportSource.LOCAL,
+    objectKey: 'prices.csv',
+    fingerprint: 'sha256-of-prices',
+    attempt: 1,
+    status: PriceImportRunStatus.COMPLETED,
+    totalRows: 0,
+    appliedRows: 0,
+    skippedRows: 0,
+    rejectedRows: 0,
+    startedAt: new Date(),
+    ...overrides,
+  });
+
+  // Reprocessing continues in the background; the lease is released once it is done
+  const backgroundDone = async (): Promise<void> => {
+    for (let i = 0; i < 50 && jest.mocked(distributedLockService.release).mock.calls.length === 0; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    directory = mkdtempSync(join(tmpdir(), 'prices-'));
+    source = {
+      name: PriceImportSource.LOCAL,
+      list: jest.fn().mockResolvedValue([]),
+      open: jest.fn(() => Readable.from(['vehicle_id,new_price\n'])),
+      markProcessed: jest.fn(async (file: PriceFile) => join(directory, file.key)),
+    };
+    service = new PriceProcessorService([source]);
+    jest.spyOn(service, 'buildPreview').mockResolvedValue({ requiresApproval: false } as never);
+    jest.spyOn(service, 'processUpdatesConcurrently').mockResolvedValue(report);
+    jest.spyOn(priceImportRunRepository, 'complete').mockResolvedValue(buildRun());
+    jest.spyOn(priceImportRunRepository, 'setArchivedPath').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('applies each file once and archives the ones already registered without applying them again', async () => {
+    const fresh: PriceFile = { key: 'new.csv', fingerprint: 'sha256-new' };
+    const seen: PriceFile = { key: 'prices.csv', fingerprint: 'sha256-of-prices' };
+    jest.mocked(source.list).mockResolvedValue([fresh, seen]);
+    jest.spyOn(priceImportRunRepository, 'claim').mockImplementation(async (claim) =>
+      claim.objectKey === 'new.csv' ? buildRun({ id: 'new-run', objectKey: 'new.csv', status: PriceImportRunStatus.PROCESSING }) : null
+    );
+
+    await service.startProcessing();
+
+    expect(priceImportRunRepository.claim).toHaveBeenCalledWith({
+      source: PriceImportSource.LOCAL,
+      objectKey: 'prices.csv',
+      fingerprint: 'sha256-of-prices',
+    });
+    expect(source.open).toHaveBeenCalledTimes(1);
+    expect(source.open).toHaveBeenCalledWith(fresh);
+    expect(priceImportRunRepository.complete).toHaveBeenCalledWith('new-run', report);
+    expect(source.markProcessed).toHaveBeenCalledTimes(2);
+    expect(priceImportRunRepository.setArchivedPath).toHaveBeenCalledTimes(1);
+    expect(priceImportRunRepository.setArchivedPath).toHaveBeenCalledWith('new-run', join(directory, 'new.csv'));
+  });
+
+  it('records a failing file on its run and still archives it', async () => {
+    jest.mocked(source.list).mockResolvedValue([{ key: 'broken.csv', fingerprint: 'sha256-broken' }]);
+    jest.spyOn(priceImportRunRepository, 'claim').mockResolvedValue(buildRun({ status: PriceImportRunStatus.PROCESSING }));
+    jest.mocked(service.processUpdatesConcurrently).mockRejectedValue(new Error('database unavailable'));
+    const fail = jest.spyOn(priceImportRunRepository, 'fail').mockResolvedValue(buildRun({ status: PriceImportRunStatus.FAILED }));
+
+    await service.startProcessing();
+
+    expect(fail).toHaveBeenCalledWith('run-id', 'database unavailable');
+    expect(source.markProcessed).toHaveBeenCalled();
+  });
+
+  it('reprocesses a registered file from its archived copy as the next attempt', async () => {
+    const archivedPath = join(directory, 'prices.csv');
+    writeFileSync(archivedPath, 'vehicle_id,new_price\n');
+    jest.spyOn(priceImportRunRepository, 'findById').mockResolvedValue(buildRun({ archivedPath }));
+    jest.spyOn(priceImportRunRepository, 'getLatestAttempt').mockResolvedValue(2);
+    const retry = buildRun({ id: 'retry-run', attempt: 3, status: PriceImportRunStatus.PROCESSING });
+    jest.spyOn(priceImportRunRepository, 'claim').mockResolvedValue(retry);
+
+    await expect(service.reprocess('run-id', 'admin-id')).resolves.toBe(retry);
+    await backgroundDone();
+
+    expect(priceImportRunRepository.claim).toHaveBeenCalledWith({
+      source: PriceImportSource.LOCAL,
+      objectKey: 'prices.csv',
+      fingerprint: 'sha256-of-prices',
+      attempt: 3,
+      archivedPath,
+      requestedBy: 'admin-id',
+    });
+    expect(source.open).toHaveBeenCalledWith({ key: 'prices.csv', fingerprint: 'sha256-of-prices', location: archivedPath });
+    expect(priceImportRunRepository.complete).toHaveBeenCalledWith('retry-run', report);
+    expect(service.getProcessingStatus().isProcessing).toBe(false);
+  });
+
+  it('refuses to reprocess a local file whose archived copy is gone and releases the lease', async () => {
+    jest.spyOn(priceImportRunRepository, 'findById').mockResolvedValue(buildRun({ archivedPath: join(directory, 'missing.csv') }));
+    const claim = jest.spyOn(priceImportRunRepository, 'claim');
+
+    await expect(service.reprocess('run-id')).rejects.toThrow('Archived copy of the local file is no longer available');
+
+    expect(claim).not.toHaveBeenCalled();
+    expect(distributedLockService.release).toHaveBeenCalled();
+  });
+
+  it('rejects a reprocess that lost the race for the next attempt', async () => {
+    const archivedPath = join(directory, 'prices.csv');
+    writeFileSync(archivedPath, 'vehicle_id,new_price\n');
+    jest.spyOn(priceImportRunRepository, 'findById').mockResolvedValue(buildRun({ archivedPath }));
+    jest.spyOn(priceImportRunRepository, 'getLatestAttempt').mockResolvedValue(1);
+    jest.spyOn(priceImportRunRepository, 'claim').mockResolvedValue(null);
+
+    await expect(service.reprocess('run-id')).rejects.toBeInstanceOf(PriceImportError);
+    expect(distributedLockService.release).toHaveBeenCalled();
+  });
+
+  it('returns null for an unknown run', async () => {
+    jest.spyOn(priceImportRunRepository, 'findById').mockResolvedValue(null);
+
+    await expect(service.reprocess('missing-run')).resolves.toBeNull();
+    expect(distributedLockService.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import { evaluateRules, repricingService } from '@/services/repricing';
+import { priceProcessorService } from '@/services/priceProcessor';
+import { repricingRuleRepository } from '@/repositories/repricingRuleRepository';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { PriceChangeSource, RepricingCandidate, RepricingRule } from '@/types';
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/s3', () => ({
+  createS3Client: jest.fn(() => ({})),
+  hasS3Credentials: jest.fn(() => false),
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-01T02:00:00Z');
+
+const daysAgo = (days: number): Date => new Date(NOW.getTime() - days * DAY_MS);
+
+const buildRule = (overrides: Partial<RepricingRule> = {}): RepricingRule => ({
+  id: 'rule-1',
+  name: 'Aged stock',
+  priority: 100,
+  startAfterDays: 45,
+  intervalDays: 15,
+  adjustmentPercent: -3,
+  isActive: true,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+const buildCandidate = (overrides: Partial<RepricingCandidate> = {}): RepricingCandidate => ({
+  id: '11111111-1111-4111-8111-111111111111',
+  brand: 'Toyota',
+  model: 'Corolla',
+  year: 2019,
+  mileage: 60000,
+  price: 20000,
+  createdAt: daysAgo(50),
+  ...overrides,
+});
+
+describe('evaluateRules', () => {
+  it('reduces the price once the vehicle has been in stock long enough', () => {
+    expect(evaluateRules([buildRule()], buildCandidate({ createdAt: daysAgo(44) }), NOW).price).toBe(20000);
+    expect(evaluateRules([buildRule()], buildCandidate(), NOW)).toEqual({ price: 19400, rules: ['Aged stock'] });
+  });
+
+  it('waits for the interval since the last rule-driven change', () => {
+    expect(evaluateRules([buildRule()], buildCandidate({ lastRuleChangeAt: daysAgo(10) }), NOW).price).toBe(20000);
+    expect(evaluateRules([buildRule()], buildCandidate({ lastRuleChangeAt: daysAgo(15) }), NOW).price).toBe(19400);
+  });
+
+  it('only applies rules whose brand, year and mileage scope match', () => {
+    const vehicle = buildCandidate();
+
+    expect(evaluateRules([buildRule({ brand: 'toyota' })], vehicle, NOW).price).toBe(19400);
+    expect(evaluateRules([buildRule({ brand: 'Honda' })], vehicle, NOW).price).toBe(20000);
+    expect(evaluateRules([buildRule({ minYear: 2020 })], vehicle, NOW).price).toBe(20000);
+    expect(evaluateRules([buildRule({ maxMileage: 50000 })], vehicle, NOW).price).toBe(20000);
+  });
+
+  it('chains rules in order and never goes below the floor price', () => {
+    const rules = [
+      buildRule({ adjustmentPercent: -10 }),
+      {
+        id: 'rule-2',
+        name: 'Round to 100',
+        priority: 200,
+        startAfterDays: 0,
+        roundTo: 100,
+        floorPrice: 18500,
+        isActive: true,
+        createdAt: NOW,
+        updatedAt: NOW,
+      },
+    ];
+
+    expect(evaluateRules(rules, buildCandidate({ price: 20555 }), NOW)).toEqual({
+      price: 18500,
+      rules: ['Aged stock', 'Round to 100'],
+    });
+  });
+
+  it('only rounds on a day an adjustment fires, so rounding alone never resets the interval', () => {
+    const rounding = buildRule({ id: 'rule-2', name: 'Round to 100', priority: 200, startAfterDays: 0, roundTo: 100 });
+    delete rounding.adjustmentPercent;
+    delete rounding.intervalDays;
+
+    expect(evaluateRules([rounding], buildCandidate({ price: 20555 }), NOW)).toEqual({ price: 20555, rules: [] });
+    expect(evaluateRules([buildRule(), rounding], buildCandidate({ price: 20555, lastRuleChangeAt: daysAgo(10) }), NOW))
+      .toEqual({ price: 20555, rules: [] });
+    expect(evaluateRules([buildRule(), rounding], buildCandidate({ price: 20555, lastRuleChangeAt: daysAgo(15) }), NOW))
+      .toEqual({ price: 19900, rules: ['Aged stock', 'Round to 100'] });
+  });
+
+  it('does not raise a price that is already below the floor', () => {
+    const rule = buildRule({ floorPrice: 25000 });
+
+    expect(evaluateRules([rule], buildCandidate(), NOW)).toEqual({ price: 20000, rules: [] });
+  });
+});
+
+describe('RepricingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(repricingRuleRepository, 'findAll').mockResolvedValue([buildRule({ floorPrice: 18500 })]);
+    jest.spyOn(vehicleRepository, 'findRepricingCandidates').mockResolvedValue([buildCandidate()]);
+  });
+
+  it('simulates the nightly steps over the next days without writing', async () => {
+    const applyUpdates = jest.spyOn(priceProcessorService, 'applyUpdates');
+
+    const simulation = await repricingService.simulate(40, undefined, NOW);
+
+    expect(simulation.vehicles[0]!.steps.map(step => [step.daysInStock, step.newPrice])).toEqual([
+      [51, 19400],
+      [66, 18818],
+      [81, 18500],
+    ]);
+    expect(simulation).toMatchObject({ vehiclesAffected: 1, totalReduction: 1500 });
+    expect(applyUpdates).not.toHaveBeenCalled();
+  });
+
+  it('sends due changes through the price processor as rule changes', async () => {
+    const applyUpdates = jest.spyOn(priceProcessorService, 'applyUpdates').mockResolvedValue({
+      source: 'rules:2024-06-01',
+      startedAt: NOW,
+      finishedAt: NOW,
+      totalRows: 1,
+      applied: 1,
+      skipped: 0,
+      rejected: 0,
+      rows: [],
+    });
+
+    await repricingService.run(NOW);
+
+    expect(applyUpdates).toHaveBeenCalledWith(
+      [expect.objectContaining({ newPrice: 19400, reason: 'Repricing rules: Aged stock' })],
+      'rules:2024-06-01',
+      PriceChangeSource.RULE
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { reservationService } from '@/services/reservation';
+import { orderLifecycleService } from '@/services/orderLifecycle';
+import { orderRepository } from '@/repositories/orderRepository';
+import { reservationRepository } from '@/repositories/reservationRepository';
+import { vehicleRepository, VehicleUnavailableError } from '@/repositories/vehicleRepository';
+import { logger } from '@/services/logger';
+import { Order, OrderStatus, Reservation, ReservationStatus, Vehicle, VehicleStatus } from '@/types';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/database/unitOfWork', () => ({
+  withTransaction: jest.fn((work: (client: unknown) => Promise<unknown>) => work(mockClient)),
+  withClient: jest.fn((client: unknown, work: (client: unknown) => Promise<unknown>) => work(client ?? mockClient)),
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/orderDocuments', () => ({
+  orderDocumentService: {
+    scheduleGeneration: jest.fn(),
+  },
+}));
+
+const buildReservation = (overrides: Partial<Reservation> = {}): Reservation => ({
+  id: 'hold-id',
+  vehicleId: 'vehicle-id',
+  userId: 'customer-id',
+  status: ReservationStatus.ACTIVE,
+  expiresAt: new Date(Date.now() + 48 * 60 * 60 * 1000),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('Reservations', () => {
+  // The locked vehicle row, as the transactions would see it
+  let vehicleStatus: VehicleStatus;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    vehicleStatus = VehicleStatus.AVAILABLE;
+
+    jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockImplementation(async (id) =>
+      ({ id, status: vehicleStatus } as Vehicle)
+    );
+    jest.spyOn(vehicleRepository, 'updateStatus').mockImplementation(async (id, status) => {
+      vehicleStatus = status;
+      return { id, status } as Vehicle;
+    });
+    jest.spyOn(vehicleRepository, 'updateStatusIfCurrent').mockImplementation(async (ids, currentStatus, status) => {
+      if (vehicleStatus !== currentStatus) {
+        return 0;
+      }
+      vehicleStatus = status;
+      return ids.length;
+    });
+    jest.spyOn(reservationRepository, 'create').mockImplementation(async (data) =>
+      buildReservation({ vehicleId: data.vehicleId, userId: data.userId, expiresAt: data.expiresAt })
+    );
+  });
+
+  describe('hold', () => {
+    it('should reserve an available vehicle for the default hold period', async () => {
+      const reservation = await reservationService.hold('vehicle-id', 'customer-id', { depositAmount: 500 });
+
+      expect(reservation?.status).toBe(ReservationStatus.ACTIVE);
+      expect(vehicleStatus).toBe(VehicleStatus.RESERVED);
+      expect(reservationRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ vehicleId: 'vehicle-id', userId: 'customer-id', depositAmount: 500 }),
+        mockClient
+      );
+    });
+
+    it('should refuse a second hold on the same vehicle', async () => {
+      await reservationService.hold('vehicle-id', 'customer-id');
+
+      await expect(reservationService.hold('vehicle-id', 'other-customer'))
+        .rejects.toMatchObject({ name: 'VehicleUnavailableError', currentStatus: VehicleStatus.RESERVED });
+      expect(reservationRepository.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap the requested duration at the maximum hold period', async () => {
+      const before = Date.now();
+
+      await reservationService.hold('vehicle-id', 'customer-id', { durationHours: 10000 });
+
+      const { expiresAt } = (reservationRepository.create as jest.Mock).mock.calls[0][0];
+      const maxMs = reservationService.getMaxHoldHours() * 60 * 60 * 1000;
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + maxMs);
+      expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + maxMs);
+    });
+  });
+
+  describe('expireDueHolds', () => {
+    it('should release the vehicles of lapsed holds back to available', async () => {
+      await reservationService.hold('vehicle-id', 'customer-id');
+      jest.spyOn(reservationRepository, 'expireDue').mockResolvedValue([
+        buildReservation({ status: ReservationStatus.EXPIRED }),
+      ]);
+
+      const expired = await reservationService.expireDueHolds();
+
+      expect(expired).toBe(1);
+      expect(vehicleStatus).toBe(VehicleStatus.AVAILABLE);
+      expect(vehicleRepository.updateStatusIfCurrent).toHaveBeenCalledWith(
+        ['vehicle-id'],
+        VehicleStatus.RESERVED,
+        VehicleStatus.AVAILABLE,
+        mockClient
+      );
+      expect(logger.logBusinessEvent).toHaveBeenCalledWith('reservation_expired', 'reservation', 'hold-id', {
+        vehicleId: 'vehicle-id',
+      });
+    });
+
+    it('should not touch a vehicle that was sold while its hold lapsed', async () => {
+      vehicleStatus = VehicleStatus.SOLD;
+      jest.spyOn(reservationRepository, 'expireDue').mockResolvedValue([
+        buildReservation({ status: ReservationStatus.EXPIRED }),
+      ]);
+
+      await reservationService.expireDueHolds();
+
+      expect(vehicleStatus).toBe(VehicleStatus.SOLD);
+    });
+
+    it('should do nothing when no hold has lapsed', async () => {
+      jest.spyOn(reservationRepository, 'expireDue').mockResolvedValue([]);
+
+      await expect(reservationService.expireDueHolds()).resolves.toBe(0);
+      expect(vehicleRepository.updateStatusIfCurrent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('converting a hold into an order', () => {
+    beforeEach(() => {
+      jest.spyOn(orderRepository, 'create').mockImplementation(async (data) =>
+        ({ id: 'order-id', vehicleId: data.vehicleId, userId: data.userId, status: OrderStatus.PENDING } as Order)
+      );
+      jest.spyOn(orderRepository, 'addStatusHistory').mockResolvedValue({} as never);
+    });
+
+    it('should let the holder order the vehicle and mark the hold converted', async () => {
+      const hold = await reservationService.hold('vehicle-id', 'customer-id');
+      jest.spyOn(reservationRepository, 'findActiveByVehicleId').mockResolvedValue(hold);
+      const convert = jest.spyOn(reservationRepository, 'markConverted')
+        .mockResolvedValue(buildReservation({ status: ReservationStatus.CONVERTED }));
+
+      const order = await orderLifecycleService.place({ vehicleId: 'vehicle-id', userId: 'customer-id', totalAmount: 18000 });
+
+      expect(order?.status).toBe(OrderStatus.PENDING);
+      expect(convert).toHaveBeenCalledWith('hold-id', mockClient);
+      expect(vehicleStatus).toBe(VehicleStatus.RESERVED);
+    });
+
+    it('should keep the held vehicle away from other customers', async () => {
+      const hold = await reservationService.hold('vehicle-id', 'customer-id');
+      jest.spyOn(reservationRepository, 'findActiveByVehicleId').mockResolvedValue(hold);
+      const convert = jest.spyOn(reservationRepository, 'markConverted');
+
+      await expect(orderLifecycleService.place({ vehicleId: 'vehicle-id', userId: 'other-customer', totalAmount: 18000 }))
+        .rejects.toBeInstanceOf(VehicleUnavailableError);
+      expect(orderRepository.create).not.toHaveBeenCalled();
+      expect(convert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { salesReportRepository } from '@/repositories/salesReportRepository';
+import { pool } from '@/database/config';
+
+const mockClient = { query: jest.fn(), release: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+describe('SalesReportRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (pool.connect as jest.Mock).mockResolvedValue(mockClient);
+    mockClient.query.mockResolvedValue({ rows: [] });
+  });
+
+  it('includes every order of the last day when dateTo is a plain date', async () => {
+    const dateTo = new Date('2026-10-18');
+
+    await salesReportRepository.getStatusAggregates({ dateFrom: new Date('2026-10-01'), dateTo, dateToIsDay: true });
+
+    const [query, values] = mockClient.query.mock.calls[0]!;
+    expect(query).toContain("o.created_at < $2::timestamptz + INTERVAL '1 day'");
+    expect(query).not.toContain('o.created_at <=');
+    expect(values).toEqual([new Date('2026-10-01'), dateTo]);
+  });
+
+  it('keeps an exact dateTo timestamp as an inclusive bound', async () => {
+    const dateTo = new Date('2026-10-18T15:30:00Z');
+
+    await salesReportRepository.getSeries('day', { dateTo });
+
+    const [query, values] = mockClient.query.mock.calls[0]!;
+    expect(query).toContain('o.created_at <= $1');
+    expect(values[0]).toBe(dateTo);
+  });
+});
@@ -0,0 +1,169 @@
+import { tradeInService, TradeInError } from '@/services/tradeIn';
+import { orderLifecycleService } from '@/services/orderLifecycle';
+import { orderDocumentService } from '@/services/orderDocuments';
+import { vehicleCatalogService } from '@/services/vehicleCatalog';
+import { orderRepository } from '@/repositories/orderRepository';
+import { paymentRepository } from '@/repositories/paymentRepository';
+import { tradeInRepository } from '@/repositories/tradeInRepository';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { Order, OrderStatus, TradeIn, TradeInCondition, TradeInStatus, Vehicle, VehicleStatus } from '@/types';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/database/unitOfWork', () => ({
+  withTransaction: jest.fn((work: (client: unknown) => Promise<unknown>) => work(mockClient)),
+  withClient: jest.fn((client: unknown, work: (client: unknown) => Promise<unknown>) => work(client ?? mockClient)),
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/orderDocuments', () => ({
+  orderDocumentService: {
+    scheduleGeneration: jest.fn(),
+  },
+}));
+
+const buildOrder = (status: OrderStatus): Order => ({
+  id: 'order-id',
+  vehicleId: 'vehicle-id',
+  userId: 'customer-id',
+  status,
+  totalAmount: 18000,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const buildTradeIn = (overrides: Partial<TradeIn> = {}): TradeIn => ({
+  id: 'trade-in-id',
+  orderId: 'order-id',
+  customerId: 'customer-id',
+  brand: 'seat',
+  model: 'ibiza',
+  year: 2015,
+  mileage: 120000,
+  conditionGrade: TradeInCondition.GOOD,
+  appraisedValue: 4000,
+  status: TradeInStatus.APPRAISED,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('Trade-ins', () => {
+  // Credit the repository reports once the trade-in has been accepted
+  let acceptedCredit: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    acceptedCredit = 0;
+
+    jest.spyOn(tradeInRepository, 'findByIdForUpdate').mockResolvedValue(buildTradeIn());
+    jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValue(buildOrder(OrderStatus.PENDING));
+    jest.spyOn(tradeInRepository, 'getAcceptedCredit').mockImplementation(async () => acceptedCredit);
+    jest.spyOn(tradeInRepository, 'decide').mockImplementation(async (_id, data) => {
+      acceptedCredit = 4000;
+      return buildTradeIn({ status: data.status });
+    });
+  });
+
+  describe('accept', () => {
+    it('should credit the appraised value against the order balance', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(5000);
+
+      const result = await tradeInService.accept('trade-in-id', { actorId: 'sales-id' });
+
+      expect(result?.balance).toEqual({
+        orderId: 'order-id',
+        totalAmount: 18000,
+        tradeInCredit: 4000,
+        paidAmount: 5000,
+        outstandingBalance: 9000,
+      });
+      expect(result?.order.status).toBe(OrderStatus.PENDING);
+      expect(tradeInRepository.decide).toHaveBeenCalledWith('trade-in-id', {
+        status: TradeInStatus.ACCEPTED,
+        decidedBy: 'sales-id',
+      }, mockClient);
+    });
+
+    it('should settle the order when the credit covers the rest of the balance', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(14000);
+      jest.spyOn(orderLifecycleService, 'applyTransition').mockResolvedValue(buildOrder(OrderStatus.PAID));
+
+      const result = await tradeInService.accept('trade-in-id');
+
+      expect(result?.balance.outstandingBalance).toBe(0);
+      expect(result?.order.status).toBe(OrderStatus.PAID);
+      expect(orderDocumentService.scheduleGeneration).toHaveBeenCalledWith('order-id');
+    });
+
+    it('should refuse a credit larger than the outstanding balance', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(15000);
+
+      await expect(tradeInService.accept('trade-in-id')).rejects.toThrow('Trade-in value exceeds the outstanding balance of the order');
+      expect(tradeInRepository.decide).not.toHaveBeenCalled();
+    });
+
+    it('should only accept appraised trade-ins attached to a pending order', async () => {
+      jest.spyOn(tradeInRepository, 'findByIdForUpdate').mockResolvedValueOnce(buildTradeIn({ status: TradeInStatus.REJECTED }));
+      await expect(tradeInService.accept('trade-in-id')).rejects.toThrow('Trade-in has already been rejected');
+
+      const unattached = buildTradeIn();
+      delete unattached.orderId;
+      jest.spyOn(tradeInRepository, 'findByIdForUpdate').mockResolvedValueOnce(unattached);
+      await expect(tradeInService.accept('trade-in-id')).rejects.toBeInstanceOf(TradeInError);
+
+      jest.spyOn(orderRepository, 'findByIdForUpdate').mockResolvedValueOnce(buildOrder(OrderStatus.CANCELLED));
+      await expect(tradeInService.accept('trade-in-id')).rejects.toThrow('Trade-ins can only be applied to pending orders');
+
+      expect(tradeInRepository.decide).not.toHaveBeenCalled();
+    });
+
+    it('should move the car into inventory under its catalog names when asked to', async () => {
+      jest.spyOn(paymentRepository, 'getPaidTotal').mockResolvedValue(0);
+      jest.spyOn(vehicleCatalogService, 'normalize').mockResolvedValue({ brand: 'SEAT', model: 'Ibiza' });
+      const create = jest.spyOn(vehicleRepository, 'create').mockResolvedValue({ id: 'new-vehicle-id' } as Vehicle);
+      jest.spyOn(tradeInRepository, 'linkVehicle').mockResolvedValue(buildTradeIn({ vehicleId: 'new-vehicle-id' }));
+
+      const result = await tradeInService.accept('trade-in-id', { convertToVehicle: true, listPrice: 6500 });
+
+      expect(vehicleCatalogService.normalize).toHaveBeenCalledWith('seat', 'ibiza', { strict: false });
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        brand: 'SEAT',
+        model: 'Ibiza',
+        price: 6500,
+        status: VehicleStatus.MAINTENANCE,
+      }), mockClient);
+      expect(result?.tradeIn.vehicleId).toBe('new-vehicle-id');
+    });
+  });
+
+  describe('convertToVehicle', () => {
+    it('should not convert the same trade-in twice', async () => {
+      jest.spyOn(tradeInRepository, 'findByIdForUpdate').mockResolvedValue(
+        buildTradeIn({ status: TradeInStatus.ACCEPTED, vehicleId: 'vehicle-id' })
+      );
+      const create = jest.spyOn(vehicleRepository, 'create');
+
+      await expect(tradeInService.convertToVehicle('trade-in-id')).rejects.toThrow('already been converted');
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+});
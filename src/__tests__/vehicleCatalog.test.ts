@@ -0,0 +1,149 @@
+import { vehicleCatalogService, CatalogError } from '@/services/vehicleCatalog';
+import { brandRepository, catalogKey, catalogKeySql } from '@/repositories/brandRepository';
+import { brandModelRepository } from '@/repositories/brandModelRepository';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { Brand, BrandModel } from '@/types';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/database/unitOfWork', () => ({
+  withTransaction: jest.fn((work: (client: unknown) => Promise<unknown>) => work(mockClient)),
+  withClient: jest.fn((client: unknown, work: (client: unknown) => Promise<unknown>) => work(client ?? mockClient)),
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+const mercedes: Brand = {
+  id: 'brand-id',
+  name: 'Mercedes-Benz',
+  aliases: ['Mercedes', 'MB'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const cClass: BrandModel = {
+  id: 'model-id',
+  brandId: 'brand-id',
+  name: 'C-Class',
+  aliases: ['Clase C'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('Vehicle catalog', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('catalogKey', () => {
+    it('should ignore case, spaces and punctuation', () => {
+      expect(catalogKey('Mercedes-Benz')).toBe('mercedesbenz');
+      expect(catalogKey('  mercedes benz ')).toBe('mercedesbenz');
+      expect(catalogKey('MERCEDES.BENZ')).toBe('mercedesbenz');
+      expect(catalogKey('C-Class')).toBe(catalogKey('c class'));
+    });
+
+    it('should keep digits so numbered models stay distinct', () => {
+      expect(catalogKey('Serie 3')).not.toBe(catalogKey('Serie 5'));
+      expect(catalogKey('CX-5')).toBe('cx5');
+    });
+
+    it('should build the SQL expression used by the unique indexes', () => {
+      expect(catalogKeySql('name')).toBe(`regexp_replace(lower(name), '[^a-z0-9]', '', 'g')`);
+    });
+  });
+
+  describe('findByName', () => {
+    it('should look brands up by the normalized key against names and aliases', async () => {
+      mockClient.query.mockResolvedValue({ rows: [] });
+
+      await brandRepository.findByName('Mercedes Benz');
+
+      const [sql, values] = mockClient.query.mock.calls[0];
+      expect(values).toEqual(['mercedesbenz']);
+      expect(sql).toContain('unnest(aliases)');
+    });
+  });
+
+  describe('normalize', () => {
+    it('should map aliases to the catalog names', async () => {
+      jest.spyOn(brandRepository, 'findByName').mockResolvedValue(mercedes);
+      jest.spyOn(brandModelRepository, 'findByName').mockResolvedValue(cClass);
+
+      await expect(vehicleCatalogService.normalize('mercedes', 'clase c')).resolves.toEqual({
+        brand: 'Mercedes-Benz',
+        model: 'C-Class',
+      });
+      expect(brandModelRepository.findByName).toHaveBeenCalledWith('brand-id', 'clase c');
+    });
+
+    it('should reject unknown brands and models in strict mode', async () => {
+      jest.spyOn(brandRepository, 'findByName').mockResolvedValueOnce(null).mockResolvedValueOnce(mercedes);
+      jest.spyOn(brandModelRepository, 'findByName').mockResolvedValue(null);
+
+      await expect(vehicleCatalogService.normalize('Mercedez', 'C-Class')).rejects.toThrow('Unknown brand "Mercedez"');
+      await expect(vehicleCatalogService.normalize('Mercedes', 'Z-Class'))
+        .rejects.toThrow(new CatalogError('Unknown model "Z-Class" for Mercedes-Benz. Add it to the catalog first'));
+    });
+
+    it('should keep unknown names as given in lenient mode', async () => {
+      jest.spyOn(brandRepository, 'findByName').mockResolvedValueOnce(null).mockResolvedValueOnce(mercedes);
+      jest.spyOn(brandModelRepository, 'findByName').mockResolvedValue(null);
+
+      await expect(vehicleCatalogService.normalize(' Lada ', ' Niva ', { strict: false }))
+        .resolves.toEqual({ brand: 'Lada', model: 'Niva' });
+      await expect(vehicleCatalogService.normalize('mb', ' Z-Class ', { strict: false }))
+        .resolves.toEqual({ brand: 'Mercedes-Benz', model: 'Z-Class' });
+    });
+  });
+
+  describe('renaming', () => {
+    it('should rename the vehicles listed under the old brand name in the same transaction', async () => {
+      jest.spyOn(brandRepository, 'findById').mockResolvedValue(mercedes);
+      jest.spyOn(brandRepository, 'update').mockResolvedValue({ ...mercedes, name: 'Mercedes' });
+      const rename = jest.spyOn(vehicleRepository, 'renameBrand').mockResolvedValue(3);
+
+      await vehicleCatalogService.updateBrand('brand-id', { name: 'Mercedes' });
+
+      expect(rename).toHaveBeenCalledWith('Mercedes-Benz', 'Mercedes', mockClient);
+    });
+
+    it('should not touch vehicles when only the aliases change', async () => {
+      jest.spyOn(brandRepository, 'findById').mockResolvedValue(mercedes);
+      jest.spyOn(brandRepository, 'update').mockResolvedValue({ ...mercedes, aliases: ['Benz'] });
+      const rename = jest.spyOn(vehicleRepository, 'renameBrand');
+
+      await vehicleCatalogService.updateBrand('brand-id', { aliases: ['Benz'] });
+
+      expect(rename).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleting', () => {
+    it('should refuse to delete a brand that vehicles still use', async () => {
+      jest.spyOn(brandRepository, 'findById').mockResolvedValue(mercedes);
+      jest.spyOn(vehicleRepository, 'countByBrandModel').mockResolvedValue(2);
+      const remove = jest.spyOn(brandRepository, 'delete');
+
+      await expect(vehicleCatalogService.deleteBrand('brand-id')).rejects.toBeInstanceOf(CatalogError);
+      expect(remove).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { pool } from '@/database/config';
+import { vehicleRepository, encodeCursor, decodeCursor, InvalidCursorError, VehicleCursor } from '@/repositories/vehicleRepository';
+import { VehicleSortField } from '@/types';
+
+const mockClient = { query: jest.fn(), release: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+const cursor: VehicleCursor = {
+  sort: VehicleSortField.CREATED_AT,
+  order: 'desc',
+  value: '2024-05-01 10:15:30.123456+00',
+  id: '5f0c7f4e-8a0e-4d8e-9d55-3b1a4c2e7f10',
+  direction: 'next',
+};
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const vehicleRow = (id: string, sortKey: string) => ({
+  id,
+  brand: 'Toyota',
+  model: 'Corolla',
+  year: 2020,
+  mileage: 45000,
+  price: '18000.00',
+  technical_specs: {},
+  status: 'available',
+  sort_key: sortKey,
+  recent_high_price: null,
+  last_reduced_at: null,
+});
+
+describe('Vehicle cursors', () => {
+  describe('codec', () => {
+    it('should round-trip a cursor through an opaque URL-safe string', () => {
+      const encoded = encodeCursor(cursor);
+
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(encoded)).toEqual(cursor);
+    });
+
+    it('should keep the sort value exactly as PostgreSQL rendered it', () => {
+      expect(decodeCursor(encodeCursor({ ...cursor, value: '18999.99' })).value).toBe('18999.99');
+    });
+
+    it('should reject strings that are not cursors', () => {
+      expect(() => decodeCursor('not-a-cursor')).toThrow(InvalidCursorError);
+      expect(() => decodeCursor(encode(null))).toThrow(InvalidCursorError);
+      expect(() => decodeCursor(encode([1, 2]))).toThrow(InvalidCursorError);
+    });
+
+    it('should reject cursors with an unknown sort, order or direction', () => {
+      expect(() => decodeCursor(encode({ ...cursor, sort: 'color' }))).toThrow(InvalidCursorError);
+      expect(() => decodeCursor(encode({ ...cursor, order: 'sideways' }))).toThrow(InvalidCursorError);
+      expect(() => decodeCursor(encode({ ...cursor, direction: 'up' }))).toThrow(InvalidCursorError);
+    });
+
+    it('should reject cursors whose value or id is not a string', () => {
+      expect(() => decodeCursor(encode({ ...cursor, value: 18000 }))).toThrow(InvalidCursorError);
+      const withoutId: Partial<VehicleCursor> = { ...cursor };
+      delete withoutId.id;
+      expect(() => decodeCursor(encode(withoutId))).toThrow(InvalidCursorError);
+    });
+  });
+
+  describe('findAll', () => {
+    const pagination = { page: 1, limit: 2, offset: 0 };
+    let rows: ReturnType<typeof vehicleRow>[];
+
+    const listQuery = (): [string, unknown[]] => mockClient.query.mock.calls[1] as [string, unknown[]];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      rows = [];
+      (pool.connect as jest.Mock).mockResolvedValue(mockClient);
+      mockClient.query.mockImplementation(async (sql: string) =>
+        sql.includes('COUNT(*)') ? { rows: [{ count: '5' }] } : { rows }
+      );
+    });
+
+    it('should break ties on the id and hand out a cursor for the last row', async () => {
+      rows = [vehicleRow('id-1', '18000.00'), vehicleRow('id-2', '18000.00'), vehicleRow('id-3', '17000.00')];
+
+      const result = await vehicleRepository.findAll({}, pagination, { sort: VehicleSortField.PRICE, order: 'desc' });
+
+      expect(listQuery()[0]).toContain('ORDER BY price DESC, id DESC');
+      expect(result.vehicles.map(vehicle => vehicle.id)).toEqual(['id-1', 'id-2']);
+      expect(decodeCursor(result.nextCursor!)).toEqual({
+        sort: VehicleSortField.PRICE,
+        order: 'desc',
+        value: '18000.00',
+        id: 'id-2',
+        direction: 'next',
+      });
+      expect(result.prevCursor).toBeNull();
+    });
+
+    it('should continue after the cursor row using a row comparison on the sort value and id', async () => {
+      const next = encodeCursor({ ...cursor, sort: VehicleSortField.PRICE, value: '18000.00', id: 'id-2' });
+      rows = [vehicleRow('id-3', '17000.00')];
+
+      const result = await vehicleRepository.findAll({}, pagination, { sort: VehicleSortField.PRICE, order: 'desc', cursor: next });
+
+      const [sql, values] = listQuery();
+      expect(sql).toContain('AND (price, id) < ($1::numeric, $2::uuid)');
+      expect(sql).not.toContain('OFFSET');
+      expect(values).toEqual(['18000.00', 'id-2', 3]);
+      expect(result.nextCursor).toBeNull();
+      expect(result.prevCursor).not.toBeNull();
+    });
+
+    it('should walk backwards from a previous-page cursor and restore the listing order', async () => {
+      const prev = encodeCursor({ ...cursor, sort: VehicleSortField.PRICE, order: 'asc', value: '17000.00', id: 'id-3', direction: 'prev' });
+      rows = [vehicleRow('id-2', '16000.00'), vehicleRow('id-1', '15000.00')];
+
+      const result = await vehicleRepository.findAll({}, pagination, { sort: VehicleSortField.PRICE, order: 'asc', cursor: prev });
+
+      expect(listQuery()[0]).toContain('AND (price, id) < ($1::numeric, $2::uuid)');
+      expect(listQuery()[0]).toContain('ORDER BY price DESC, id DESC');
+      expect(result.vehicles.map(vehicle => vehicle.id)).toEqual(['id-1', 'id-2']);
+      expect(result.prevCursor).toBeNull();
+      expect(result.nextCursor).not.toBeNull();
+    });
+
+    it('should refuse a cursor issued for a different sort', async () => {
+      await expect(vehicleRepository.findAll({}, pagination, { sort: VehicleSortField.YEAR, cursor: encodeCursor(cursor) }))
+        .rejects.toThrow('Cursor does not match the requested sort');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { pool } from '@/database/config';
+import { vehicleRepository, PRICE_BANDS } from '@/repositories/vehicleRepository';
+
+const mockClient = { query: jest.fn(), release: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+// Facet queries are told apart by the expression they group by
+const facetOf = (sql: string): string => {
+  if (sql.includes('CASE')) return 'price';
+  if (sql.includes('year /')) return 'year';
+  if (sql.includes('fuelType')) return 'fuelType';
+  if (sql.includes('transmission')) return 'transmission';
+  return 'brand';
+};
+
+describe('Vehicle facets', () => {
+  let facetRows: Record<string, { value: string; count: string }[]>;
+
+  const callFor = (facet: string): [string, unknown[]] =>
+    mockClient.query.mock.calls.find(call => facetOf(call[0]) === facet) as [string, unknown[]];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    facetRows = { brand: [], fuelType: [], transmission: [], price: [], year: [] };
+    (pool.connect as jest.Mock).mockResolvedValue(mockClient);
+    mockClient.query.mockImplementation(async (sql: string) => ({ rows: facetRows[facetOf(sql)] }));
+  });
+
+  it('should turn the grouped counts into facet values', async () => {
+    facetRows.brand = [{ value: 'Toyota', count: '12' }, { value: 'Seat', count: '4' }];
+    facetRows.fuelType = [{ value: 'Gasoline', count: '10' }];
+    facetRows.transmission = [{ value: 'Manual', count: '9' }];
+
+    const facets = await vehicleRepository.getFacets();
+
+    expect(facets.brand).toEqual([{ value: 'Toyota', count: 12 }, { value: 'Seat', count: 4 }]);
+    expect(facets.fuelType).toEqual([{ value: 'Gasoline', count: 10 }]);
+    expect(facets.transmission).toEqual([{ value: 'Manual', count: 9 }]);
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  it('should order price bands from the cheapest and keep the open-ended top band', async () => {
+    facetRows.price = [{ value: '6', count: '1' }, { value: '2', count: '7' }, { value: '0', count: '2' }];
+
+    const facets = await vehicleRepository.getFacets();
+
+    expect(facets.priceBand).toEqual([
+      { min: 0, max: 5000, count: 2 },
+      { min: 10000, max: 15000, count: 7 },
+      { min: 50000, max: null, count: 1 },
+    ]);
+    expect(callFor('price')[0]).toContain(`WHEN price >= ${PRICE_BANDS[6]!.min} THEN 6`);
+  });
+
+  it('should group years into five-year bands, newest first', async () => {
+    facetRows.year = [{ value: '2010', count: '3' }, { value: '2020', count: '5' }];
+
+    const facets = await vehicleRepository.getFacets();
+
+    expect(facets.yearBand).toEqual([
+      { min: 2020, max: 2024, count: 5 },
+      { min: 2010, max: 2014, count: 3 },
+    ]);
+  });
+
+  it('should leave each facet\'s own filter out of its counts', async () => {
+    await vehicleRepository.getFacets({ brand: 'toyota', priceMin: 10000, priceMax: 20000, yearMin: 2015 });
+
+    const [brandSql, brandValues] = callFor('brand');
+    expect(brandSql).not.toContain('brand ILIKE');
+    expect(brandValues).toEqual([2015, 10000, 20000]);
+
+    const [priceSql, priceValues] = callFor('price');
+    expect(priceSql).not.toMatch(/price [<>]= \$/);
+    expect(priceValues).toEqual(['%toyota%', 2015]);
+
+    const [, yearValues] = callFor('year');
+    expect(yearValues).toEqual(['%toyota%', 10000, 20000]);
+
+    const [, fuelTypeValues] = callFor('fuelType');
+    expect(fuelTypeValues).toEqual(['%toyota%', 2015, 10000, 20000]);
+  });
+
+  it('should return empty facets when the counts fail', async () => {
+    mockClient.query.mockRejectedValue(new Error('connection reset'));
+
+    await expect(vehicleRepository.getFacets()).resolves.toEqual({
+      brand: [],
+      fuelType: [],
+      transmission: [],
+      priceBand: [],
+      yearBand: [],
+    });
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import { vehiclePricingService } from '@/services/vehiclePricing';
+import { vehicleRepository, computePriceDrop } from '@/repositories/vehicleRepository';
+import { priceHistoryRepository } from '@/repositories/priceHistoryRepository';
+import { PriceChangeSource, Vehicle, VehiclePriceChange } from '@/types';
+
+const mockClient = { query: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/database/unitOfWork', () => ({
+  withTransaction: jest.fn((work: (client: unknown) => Promise<unknown>) => work(mockClient)),
+  withClient: jest.fn((client: unknown, work: (client: unknown) => Promise<unknown>) => work(client ?? mockClient)),
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+const buildVehicle = (price: number): Vehicle => ({ id: 'vehicle-id', price } as Vehicle);
+
+describe('Vehicle pricing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('computePriceDrop', () => {
+    const since = new Date('2024-05-20T10:00:00Z');
+
+    it('should report the drop from the recent high in amount and percent', () => {
+      expect(computePriceDrop(17100, 18000, since)).toEqual({
+        previousPrice: 18000,
+        amount: 900,
+        percent: 5,
+        since,
+      });
+    });
+
+    it('should round the amount to cents and the percent to one decimal', () => {
+      expect(computePriceDrop(19999.99, 20999.5, since)).toMatchObject({ amount: 999.51, percent: 4.8 });
+    });
+
+    it('should not report a drop when the price is back at or above the recent high', () => {
+      expect(computePriceDrop(18000, 18000, since)).toBeNull();
+      expect(computePriceDrop(18500, 18000, since)).toBeNull();
+    });
+  });
+
+  describe('changePrice', () => {
+    it('should update the price and record the change with its source', async () => {
+      const change = { id: 'change-id' } as VehiclePriceChange;
+      jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockResolvedValue(buildVehicle(18000));
+      jest.spyOn(vehicleRepository, 'updatePrice').mockResolvedValue(buildVehicle(17500));
+      jest.spyOn(priceHistoryRepository, 'create').mockResolvedValue(change);
+
+      const result = await vehiclePricingService.changePrice('vehicle-id', 17500, {
+        source: PriceChangeSource.MANUAL,
+        actorId: 'user-id',
+        reason: 'Weekend offer',
+      });
+
+      expect(result).toEqual({ vehicle: buildVehicle(17500), change });
+      expect(priceHistoryRepository.create).toHaveBeenCalledWith({
+        vehicleId: 'vehicle-id',
+        oldPrice: 18000,
+        newPrice: 17500,
+        source: PriceChangeSource.MANUAL,
+        actorId: 'user-id',
+        reason: 'Weekend offer',
+      }, mockClient);
+    });
+
+    it('should record nothing when the price does not change', async () => {
+      jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockResolvedValue(buildVehicle(18000));
+      const updatePrice = jest.spyOn(vehicleRepository, 'updatePrice');
+      const record = jest.spyOn(priceHistoryRepository, 'create');
+
+      const result = await vehiclePricingService.changePrice('vehicle-id', 18000, { source: PriceChangeSource.IMPORT });
+
+      expect(result?.change).toBeNull();
+      expect(updatePrice).not.toHaveBeenCalled();
+      expect(record).not.toHaveBeenCalled();
+    });
+
+    it('should join the caller\'s transaction when given a client', async () => {
+      const callerClient = { query: jest.fn() };
+      jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockResolvedValue(buildVehicle(18000));
+      jest.spyOn(vehicleRepository, 'updatePrice').mockResolvedValue(buildVehicle(17000));
+      jest.spyOn(priceHistoryRepository, 'create').mockResolvedValue({} as VehiclePriceChange);
+
+      await vehiclePricingService.changePrice('vehicle-id', 17000, { source: PriceChangeSource.RULE }, callerClient as never);
+
+      expect(vehicleRepository.updatePrice).toHaveBeenCalledWith('vehicle-id', 17000, callerClient);
+      expect(priceHistoryRepository.create).toHaveBeenCalledWith(expect.objectContaining({ source: PriceChangeSource.RULE }), callerClient);
+    });
+  });
+
+  describe('updateVehicle', () => {
+    it('should route a price in a listing edit through the price history', async () => {
+      jest.spyOn(vehicleRepository, 'findByIdForUpdate').mockResolvedValue(buildVehicle(18000));
+      jest.spyOn(vehicleRepository, 'updatePrice').mockResolvedValue(buildVehicle(16000));
+      jest.spyOn(priceHistoryRepository, 'create').mockResolvedValue({} as VehiclePriceChange);
+      const update = jest.spyOn(vehicleRepository, 'update').mockResolvedValue(buildVehicle(16000));
+
+      await vehiclePricingService.updateVehicle('vehicle-id', { price: 16000, mileage: 46000 }, { source: PriceChangeSource.MANUAL });
+
+      expect(priceHistoryRepository.create).toHaveBeenCalledWith(expect.objectContaining({ oldPrice: 18000, newPrice: 16000 }), mockClient);
+      expect(update).toHaveBeenCalledWith('vehicle-id', { mileage: 46000 }, mockClient);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { pool } from '@/database/config';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { VehicleSortField } from '@/types';
+
+const mockClient = { query: jest.fn(), release: jest.fn() };
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    logError: jest.fn(),
+    logBusinessEvent: jest.fn(),
+    logDatabaseOperation: jest.fn(),
+  },
+}));
+
+const searchRow = (id: string, rank: string, highlight: string) => ({
+  id,
+  brand: 'Toyota',
+  model: 'Corolla',
+  year: 2020,
+  mileage: 45000,
+  price: '18000.00',
+  technical_specs: {},
+  status: 'available',
+  sort_key: rank,
+  search_rank: rank,
+  search_highlight: highlight,
+  recent_high_price: null,
+  last_reduced_at: null,
+});
+
+describe('Vehicle search', () => {
+  const pagination = { page: 1, limit: 20, offset: 0 };
+  let rows: ReturnType<typeof searchRow>[];
+
+  const listQuery = (): [string, unknown[]] => mockClient.query.mock.calls[1] as [string, unknown[]];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rows = [];
+    (pool.connect as jest.Mock).mockResolvedValue(mockClient);
+    mockClient.query.mockImplementation(async (sql: string) =>
+      sql.includes('COUNT(*)') ? { rows: [{ count: String(rows.length) }] } : { rows }
+    );
+  });
+
+  it('should match the query in Spanish and English and pass it as a bound parameter', async () => {
+    await vehicleRepository.findAll({ q: 'híbrido "bajo consumo" -diesel' }, pagination);
+
+    const [countSql, values] = mockClient.query.mock.calls[0];
+    expect(countSql).toContain(
+      "search_vector @@ (websearch_to_tsquery('spanish', $1) || websearch_to_tsquery('english', $1))"
+    );
+    expect(countSql).not.toContain('bajo consumo');
+    expect(values[0]).toBe('híbrido "bajo consumo" -diesel');
+  });
+
+  it('should rank text searches by relevance and return the rank and highlighted snippet', async () => {
+    rows = [searchRow('id-1', '0.8', 'Toyota <mark>Corolla</mark> híbrido')];
+
+    const result = await vehicleRepository.findAll({ q: 'corolla' }, pagination);
+
+    expect(listQuery()[0]).toMatch(/ORDER BY ts_rank_cd\(search_vector, .*\) DESC, id DESC/);
+    expect(result.vehicles[0]?.match).toEqual({ rank: 0.8, highlight: 'Toyota <mark>Corolla</mark> híbrido' });
+  });
+
+  it('should keep an explicit sort for text searches', async () => {
+    await vehicleRepository.findAll({ q: 'corolla' }, pagination, { sort: VehicleSortField.PRICE, order: 'asc' });
+
+    expect(listQuery()[0]).toContain('ORDER BY price ASC, id ASC');
+    expect(listQuery()[0]).toContain('AS search_rank');
+  });
+
+  it('should fall back to the newest first when relevance is requested without a query', async () => {
+    const result = await vehicleRepository.findAll({}, pagination, { sort: VehicleSortField.RELEVANCE });
+
+    expect(listQuery()[0]).toContain('ORDER BY created_at DESC, id DESC');
+    expect(listQuery()[0]).not.toContain('search_rank');
+    expect(result.vehicles).toEqual([]);
+  });
+
+  it('should combine the text search with the other filters', async () => {
+    await vehicleRepository.findAll({ q: 'corolla', brand: 'toyota', priceMax: 20000 }, pagination);
+
+    const [countSql, values] = mockClient.query.mock.calls[0];
+    expect(countSql).toContain('brand ILIKE $2');
+    expect(countSql).toContain('price <= $3');
+    expect(values.slice(0, 3)).toEqual(['corolla', '%toyota%', 20000]);
+  });
+});
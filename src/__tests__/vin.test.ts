@@ -0,0 +1,84 @@
+import { computeVinCheckDigit, decodeVin, isValidVin, normalizeVin } from '@/services/vin';
+
+jest.mock('@/database/config', () => ({
+  pool: {
+    query: jest.fn(),
+    connect: jest.fn(),
+  },
+}));
+
+describe('VIN validation', () => {
+  it('accepts VINs whose check digit matches', () => {
+    expect(isValidVin('1M8GDM9AXKP042788')).toBe(true);
+    expect(isValidVin('11111111111111111')).toBe(true);
+  });
+
+  it('normalizes case and surrounding whitespace before checking', () => {
+    expect(normalizeVin(' 1m8gdm9axkp042788 ')).toBe('1M8GDM9AXKP042788');
+    expect(isValidVin(' 1m8gdm9axkp042788 ')).toBe(true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidVin('1M8GDM9A1KP042788')).toBe(false);
+  });
+
+  it('rejects wrong lengths and the letters I, O and Q', () => {
+    expect(isValidVin('1M8GDM9AXKP04278')).toBe(false);
+    expect(isValidVin('1M8GDM9AXKP0427888')).toBe(false);
+    expect(isValidVin('IM8GDM9AXKP042788')).toBe(false);
+  });
+
+  it('uses X when the remainder is 10', () => {
+    expect(computeVinCheckDigit('1M8GDM9AXKP042788')).toBe('X');
+  });
+});
+
+describe('decodeVin', () => {
+  // 2018 Honda (WMI JHM), check digit computed for the fixture
+  const hondaVin = (() => {
+    const base = 'JHMFC1F30JX000001';
+    return base.slice(0, 8) + computeVinCheckDigit(base) + base.slice(9);
+  })();
+
+  it('derives region, manufacturer and model year', () => {
+    const decoded = decodeVin(hondaVin);
+
+    expect(decoded.wmi).toBe('JHM');
+    expect(decoded.region).toBe('Asia');
+    expect(decoded.manufacturer).toBe('Honda');
+    expect(decoded.checkDigitValid).toBe(true);
+    expect(decoded.modelYear).toBe(2018);
+    expect(decoded.modelYearCandidates).toEqual([1988, 2018]);
+    expect(decoded.mismatches).toEqual([]);
+  });
+
+  it('uses position 7 to pick the 1980-2009 cycle', () => {
+    expect(decodeVin('1M8GDM9AXKP042788').modelYear).toBe(1989);
+  });
+
+  it('flags a brand entered differently from the manufacturer code', () => {
+    const decoded = decodeVin(hondaVin, { brand: 'Toyota', year: 2018 });
+
+    expect(decoded.mismatches).toHaveLength(1);
+    expect(decoded.mismatches[0]).toMatchObject({ field: 'brand', expected: 'Honda', actual: 'Toyota' });
+  });
+
+  it('ignores case and punctuation when comparing brands', () => {
+    expect(decodeVin(hondaVin, { brand: 'HONDA' }).mismatches).toEqual([]);
+  });
+
+  it('flags a year outside the model year cycle', () => {
+    const decoded = decodeVin(hondaVin, { brand: 'Honda', year: 2020 });
+
+    expect(decoded.mismatches).toHaveLength(1);
+    expect(decoded.mismatches[0]).toMatchObject({ field: 'year', expected: 2018, actual: 2020 });
+  });
+
+  it('leaves the manufacturer unknown for codes outside the offline table', () => {
+    const decoded = decodeVin('11111111111111111', { brand: 'Toyota' });
+
+    expect(decoded.manufacturer).toBeNull();
+    expect(decoded.region).toBe('North America');
+    expect(decoded.mismatches.filter(m => m.field === 'brand')).toEqual([]);
+  });
+});
@@ -11,6 +11,13 @@ import { closePool } from '@/database/config';
 import authRoutes from '@/routes/auth';
 import vehicleRoutes from '@/routes/vehicles';
 import orderRoutes from '@/routes/orders';
+import reservationRoutes from '@/routes/reservations';
+import financingRoutes from '@/routes/financing';
+import tradeInRoutes from '@/routes/tradeIns';
+import catalogRoutes from '@/routes/catalog';
+import repricingRoutes from '@/routes/repricing';
+import jobRoutes from '@/routes/jobs';
+import queueRoutes from '@/routes/queue';
 import healthRoutes from '@/routes/health';
 
 dotenv.config();
@@ -62,10 +69,24 @@ app.use((req, res, next) => {
   next();
 });
 
+// Photos stored on local disk are served directly; S3 photos use the bucket URL
+if (process.env.PHOTO_STORAGE !== 's3') {
+  app.use('/uploads', express.static(process.env.UPLOAD_PATH || './uploads', {
+    setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+  }));
+}
+
 const apiVersion = process.env.API_VERSION || 'v1';
 app.use(`/api/${apiVersion}/auth`, authRoutes);
 app.use(`/api/${apiVersion}/vehicles`, vehicleRoutes);
 app.use(`/api/${apiVersion}/orders`, orderRoutes);
+app.use(`/api/${apiVersion}/reservations`, reservationRoutes);
+app.use(`/api/${apiVersion}/financing`, financingRoutes);
+app.use(`/api/${apiVersion}/trade-ins`, tradeInRoutes);
+app.use(`/api/${apiVersion}/catalog`, catalogRoutes);
+app.use(`/api/${apiVersion}/repricing`, repricingRoutes);
+app.use(`/api/${apiVersion}/jobs`, jobRoutes);
+app.use(`/api/${apiVersion}/queue`, queueRoutes);
 app.use(`/api/${apiVersion}`, healthRoutes);
 
 app.get('/', (req, res) => {
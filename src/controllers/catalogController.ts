@@ -0,0 +1,274 @@
+import { Request, Response } from 'express';
+import { vehicleCatalogService, CatalogError } from '@/services/vehicleCatalog';
+import { logger } from '@/services/logger';
+
+const isUniqueViolation = (error: unknown): boolean => (error as { code?: string }).code === '23505';
+
+export class CatalogController {
+  async listBrands(req: Request, res: Response): Promise<Response> {
+    try {
+      const brands = await vehicleCatalogService.listBrands();
+
+      return res.json({
+        success: true,
+        data: { brands },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_catalog_brands' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get brands',
+      });
+    }
+  }
+
+  async createBrand(req: Request, res: Response): Promise<Response> {
+    try {
+      const { name, aliases } = req.body;
+
+      const brand = await vehicleCatalogService.createBrand({
+        name: name.trim(),
+        ...(aliases !== undefined && { aliases }),
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: { brand },
+        message: 'Brand created successfully',
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({
+          success: false,
+          error: 'A brand with this name already exists',
+        });
+      }
+      logger.logError(error as Error, { operation: 'create_catalog_brand' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create brand',
+      });
+    }
+  }
+
+  async updateBrand(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const { name, aliases } = req.body;
+
+      const brand = await vehicleCatalogService.updateBrand(id, {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(aliases !== undefined && { aliases }),
+      });
+
+      if (!brand) {
+        return res.status(404).json({
+          success: false,
+          error: 'Brand not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { brand },
+        message: 'Brand updated successfully',
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({
+          success: false,
+          error: 'A brand with this name already exists',
+        });
+      }
+      logger.logError(error as Error, { operation: 'update_catalog_brand', brandId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update brand',
+      });
+    }
+  }
+
+  async deleteBrand(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const deleted = await vehicleCatalogService.deleteBrand(id);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Brand not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Brand deleted successfully',
+      });
+    } catch (error) {
+      if (error instanceof CatalogError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'delete_catalog_brand', brandId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete brand',
+      });
+    }
+  }
+
+  async listModels(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const models = await vehicleCatalogService.listModels(id);
+      if (!models) {
+        return res.status(404).json({
+          success: false,
+          error: 'Brand not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { models },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_catalog_models', brandId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get models',
+      });
+    }
+  }
+
+  async createModel(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const { name, aliases } = req.body;
+
+      const model = await vehicleCatalogService.createModel(id, {
+        name: name.trim(),
+        ...(aliases !== undefined && { aliases }),
+      });
+
+      if (!model) {
+        return res.status(404).json({
+          success: false,
+          error: 'Brand not found',
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: { model },
+        message: 'Model created successfully',
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({
+          success: false,
+          error: 'A model with this name already exists for the brand',
+        });
+      }
+      logger.logError(error as Error, { operation: 'create_catalog_model', brandId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create model',
+      });
+    }
+  }
+
+  async updateModel(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const { name, aliases } = req.body;
+
+      const model = await vehicleCatalogService.updateModel(id, {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(aliases !== undefined && { aliases }),
+      });
+
+      if (!model) {
+        return res.status(404).json({
+          success: false,
+          error: 'Model not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { model },
+        message: 'Model updated successfully',
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({
+          success: false,
+          error: 'A model with this name already exists for the brand',
+        });
+      }
+      logger.logError(error as Error, { operation: 'update_catalog_model', modelId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update model',
+      });
+    }
+  }
+
+  async deleteModel(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const deleted = await vehicleCatalogService.deleteModel(id);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Model not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Model deleted successfully',
+      });
+    } catch (error) {
+      if (error instanceof CatalogError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'delete_catalog_model', modelId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete model',
+      });
+    }
+  }
+}
+
+export const catalogController = new CatalogController();
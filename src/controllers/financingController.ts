@@ -0,0 +1,173 @@
+import { Request, Response } from 'express';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { financingRateRepository } from '@/repositories/financingRateRepository';
+import { financingService, FinancingError } from '@/services/financing';
+import { logger } from '@/services/logger';
+
+export class FinancingController {
+  async quote(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const vehicle = await vehicleRepository.findById(id);
+      if (!vehicle) {
+        return res.status(404).json({
+          success: false,
+          error: 'Vehicle not found',
+        });
+      }
+
+      const { downPayment = 0, termMonths, annualRate } = req.body;
+
+      const quote = await financingService.quote(vehicle, {
+        downPayment: parseFloat(downPayment),
+        termMonths: parseInt(termMonths),
+        ...(annualRate !== undefined && { annualRate: parseFloat(annualRate) }),
+      });
+
+      return res.json({
+        success: true,
+        data: { quote },
+      });
+    } catch (error) {
+      if (error instanceof FinancingError) {
+        return res.status(422).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'financing_quote', vehicleId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to calculate financing quote',
+      });
+    }
+  }
+
+  async listRates(req: Request, res: Response): Promise<Response> {
+    try {
+      const activeOnly = req.query.active === 'true';
+      const rates = await financingRateRepository.findAll(activeOnly);
+
+      return res.json({
+        success: true,
+        data: { rates },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_financing_rates' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get financing rates',
+      });
+    }
+  }
+
+  async createRate(req: Request, res: Response): Promise<Response> {
+    try {
+      const { termMonths, minVehicleAge, maxVehicleAge, annualRate, isActive } = req.body;
+
+      const rate = await financingRateRepository.create({
+        termMonths: parseInt(termMonths),
+        annualRate: parseFloat(annualRate),
+        ...(minVehicleAge !== undefined && { minVehicleAge: parseInt(minVehicleAge) }),
+        ...(maxVehicleAge !== undefined && { maxVehicleAge: maxVehicleAge === null ? null : parseInt(maxVehicleAge) }),
+        ...(isActive !== undefined && { isActive }),
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: { rate },
+        message: 'Financing rate created successfully',
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        return res.status(409).json({
+          success: false,
+          error: 'A rate for this term and minimum vehicle age already exists',
+        });
+      }
+      logger.logError(error as Error, { operation: 'create_financing_rate' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create financing rate',
+      });
+    }
+  }
+
+  async updateRate(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const { termMonths, minVehicleAge, maxVehicleAge, annualRate, isActive } = req.body;
+
+      const rate = await financingRateRepository.update(id, {
+        ...(termMonths !== undefined && { termMonths: parseInt(termMonths) }),
+        ...(minVehicleAge !== undefined && { minVehicleAge: parseInt(minVehicleAge) }),
+        ...(maxVehicleAge !== undefined && { maxVehicleAge: maxVehicleAge === null ? null : parseInt(maxVehicleAge) }),
+        ...(annualRate !== undefined && { annualRate: parseFloat(annualRate) }),
+        ...(isActive !== undefined && { isActive }),
+      });
+
+      if (!rate) {
+        return res.status(404).json({
+          success: false,
+          error: 'Financing rate not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { rate },
+        message: 'Financing rate updated successfully',
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        return res.status(409).json({
+          success: false,
+          error: 'A rate for this term and minimum vehicle age already exists',
+        });
+      }
+      logger.logError(error as Error, { operation: 'update_financing_rate', rateId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update financing rate',
+      });
+    }
+  }
+
+  async deleteRate(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const deleted = await financingRateRepository.delete(id);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Financing rate not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Financing rate deleted successfully',
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_financing_rate', rateId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete financing rate',
+      });
+    }
+  }
+}
+
+export const financingController = new FinancingController();
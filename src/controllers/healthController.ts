@@ -3,7 +3,7 @@ import { testConnection } from '@/database/config';
 import { redisService } from '@/services/redis';
 import { metricsService } from '@/services/metrics';
 import { logger } from '@/services/logger';
-import { HealthCheckResponse } from '@/types';
+import { HealthCheckResponse, PriceImportRunStatus, PriceImportSource } from '@/types';
 
 export class HealthController {
   async healthCheck(req: Request, res: Response): Promise<void> {
@@ -100,10 +100,12 @@ export class HealthController {
     try {
       const { priceProcessorService } = await import('@/services/priceProcessor');
       const status = priceProcessorService.getProcessingStatus();
+      // Another replica may be the one processing, so the holder comes from the shared lock
+      const lock = await priceProcessorService.getLockHolder();
 
       res.json({
         success: true,
-        data: status,
+        data: { ...status, lock },
       });
     } catch (error) {
       logger.logError(error as Error, { operation: 'get_price_processor_status' });
@@ -114,10 +116,14 @@ export class HealthController {
     }
   }
 
+  // Kept for existing clients; the price import is now a registered job, so this is
+  // POST /jobs/price-import/trigger and the run shows up in the job history
   async triggerPriceProcessing(req: Request, res: Response): Promise<void> {
     try {
       const { priceProcessorService } = await import('@/services/priceProcessor');
-      
+      const { jobRegistry, PRICE_IMPORT_JOB } = await import('@/services/scheduledJobs');
+      const { JobAlreadyRunningError } = await import('@/services/jobRegistry');
+
       if (priceProcessorService.isCurrentlyProcessing()) {
         res.status(409).json({
           success: false,
@@ -126,20 +132,283 @@ export class HealthController {
         return;
       }
 
-      // Start processing in background
-      priceProcessorService.startProcessing().catch(error => {
-        logger.logError(error as Error, { operation: 'background_price_processing' });
+      try {
+        const run = await jobRegistry.trigger(PRICE_IMPORT_JOB, req.user?.userId);
+
+        res.json({
+          success: true,
+          data: { run },
+          message: 'Price processing started',
+        });
+      } catch (error) {
+        if (!(error instanceof JobAlreadyRunningError)) {
+          throw error;
+        }
+        res.status(409).json({
+          success: false,
+          error: 'Price processing already in progress',
+        });
+      }
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'trigger_price_processing' });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to trigger price processing',
       });
+    }
+  }
+
+  async listPriceImportRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { priceImportRunRepository } = await import('@/repositories/priceImportRunRepository');
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const status = req.query.status as PriceImportRunStatus | undefined;
+
+      const result = await priceImportRunRepository.findAll({ page, limit, offset: (page - 1) * limit }, status);
 
       res.json({
         success: true,
-        message: 'Price processing started',
+        data: result,
       });
     } catch (error) {
-      logger.logError(error as Error, { operation: 'trigger_price_processing' });
+      logger.logError(error as Error, { operation: 'list_price_import_runs' });
       res.status(500).json({
         success: false,
-        error: 'Failed to trigger price processing',
+        error: 'Failed to get price import runs',
+      });
+    }
+  }
+
+  async getPriceImportRun(req: Request, res: Response): Promise<void> {
+    try {
+      const { priceImportRunRepository } = await import('@/repositories/priceImportRunRepository');
+      const run = await priceImportRunRepository.findById(req.params.id as string);
+
+      if (!run) {
+        res.status(404).json({
+          success: false,
+          error: 'Price import run not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { run },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_price_import_run', runId: req.params.id });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get price import run',
+      });
+    }
+  }
+
+  async reprocessPriceImport(req: Request, res: Response): Promise<void> {
+    try {
+      const { priceProcessorService, PriceImportError } = await import('@/services/priceProcessor');
+
+      try {
+        const run = await priceProcessorService.reprocess(req.params.id as string, req.user?.userId);
+        if (!run) {
+          res.status(404).json({
+            success: false,
+            error: 'Price import run not found',
+          });
+          return;
+        }
+
+        res.status(202).json({
+          success: true,
+          data: { run },
+          message: 'Price file reprocessing started',
+        });
+      } catch (error) {
+        if (error instanceof PriceImportError) {
+          res.status(409).json({
+            success: false,
+            error: error.message,
+          });
+          return;
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'reprocess_price_import', runId: req.params.id });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reprocess price file',
+      });
+    }
+  }
+
+  async uploadPriceFile(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: 'A CSV file is required in the "file" field',
+        });
+        return;
+      }
+
+      const { priceProcessorService, PriceImportError } = await import('@/services/priceProcessor');
+
+      try {
+        const { file, job } = await priceProcessorService.acceptUpload(req.file.originalname, req.file.buffer);
+
+        res.status(202).json({
+          success: true,
+          data: {
+            objectKey: file.key,
+            fingerprint: file.fingerprint,
+            jobId: job.id,
+          },
+          message: 'Price file uploaded and queued for processing',
+        });
+      } catch (error) {
+        if (error instanceof PriceImportError) {
+          res.status(409).json({
+            success: false,
+            error: error.message,
+          });
+          return;
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'upload_price_file', fileName: req.file?.originalname });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to upload price file',
+      });
+    }
+  }
+
+  async previewPrices(req: Request, res: Response): Promise<void> {
+    try {
+      const { priceProcessorService, PriceImportError } = await import('@/services/priceProcessor');
+      const { source, key } = req.body as { source?: PriceImportSource; key?: string };
+
+      if (!req.file && !source) {
+        res.status(400).json({
+          success: false,
+          error: 'Upload a CSV in the "file" field or name a source and key',
+        });
+        return;
+      }
+
+      try {
+        const preview = req.file
+          ? await priceProcessorService.previewUpload(req.file.originalname, req.file.buffer)
+          : await priceProcessorService.previewSourceFile(source!, key!);
+
+        if (!preview) {
+          res.status(404).json({
+            success: false,
+            error: 'No pending price file with that key in the source',
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: { preview },
+        });
+      } catch (error) {
+        if (error instanceof PriceImportError) {
+          res.status(409).json({
+            success: false,
+            error: error.message,
+          });
+          return;
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'preview_prices' });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to preview price changes',
+      });
+    }
+  }
+
+  async approvePriceImport(req: Request, res: Response): Promise<void> {
+    try {
+      const { priceProcessorService, PriceImportError } = await import('@/services/priceProcessor');
+
+      try {
+        const run = await priceProcessorService.approve(req.params.id as string, req.user?.userId, req.body.note);
+        if (!run) {
+          res.status(404).json({
+            success: false,
+            error: 'Price import run not found',
+          });
+          return;
+        }
+
+        res.status(202).json({
+          success: true,
+          data: { run },
+          message: 'Price changes approved, applying them',
+        });
+      } catch (error) {
+        if (error instanceof PriceImportError) {
+          res.status(409).json({
+            success: false,
+            error: error.message,
+          });
+          return;
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'approve_price_import', runId: req.params.id });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to approve price changes',
+      });
+    }
+  }
+
+  async rejectPriceImport(req: Request, res: Response): Promise<void> {
+    try {
+      const { priceProcessorService, PriceImportError } = await import('@/services/priceProcessor');
+
+      try {
+        const run = await priceProcessorService.reject(req.params.id as string, req.user?.userId, req.body.note);
+        if (!run) {
+          res.status(404).json({
+            success: false,
+            error: 'Price import run not found',
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: { run },
+          message: 'Price changes rejected',
+        });
+      } catch (error) {
+        if (error instanceof PriceImportError) {
+          res.status(409).json({
+            success: false,
+            error: error.message,
+          });
+          return;
+        }
+        throw error;
+      }
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'reject_price_import', runId: req.params.id });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reject price changes',
       });
     }
   }
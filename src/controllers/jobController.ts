@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { jobRegistry } from '@/services/scheduledJobs';
+import { JobAlreadyRunningError, JobNotFoundError } from '@/services/jobRegistry';
+import { jobRunRepository } from '@/repositories/jobRunRepository';
+import { logger } from '@/services/logger';
+import { JobRunStatus } from '@/types';
+
+const notFound = (res: Response, error: JobNotFoundError): Response =>
+  res.status(404).json({
+    success: false,
+    error: error.message,
+  });
+
+export class JobController {
+  async listJobs(req: Request, res: Response): Promise<Response> {
+    try {
+      const jobs = await jobRegistry.list();
+
+      return res.json({
+        success: true,
+        data: { jobs },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_jobs' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get jobs',
+      });
+    }
+  }
+
+  async pauseJob(req: Request, res: Response): Promise<Response> {
+    try {
+      const job = await jobRegistry.pause(req.params.name as string, req.user?.userId);
+
+      return res.json({
+        success: true,
+        data: { job },
+        message: 'Job paused',
+      });
+    } catch (error) {
+      if (error instanceof JobNotFoundError) {
+        return notFound(res, error);
+      }
+      logger.logError(error as Error, { operation: 'pause_job', job: req.params.name });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to pause job',
+      });
+    }
+  }
+
+  async resumeJob(req: Request, res: Response): Promise<Response> {
+    try {
+      const job = await jobRegistry.resume(req.params.name as string, req.user?.userId);
+
+      return res.json({
+        success: true,
+        data: { job },
+        message: 'Job resumed',
+      });
+    } catch (error) {
+      if (error instanceof JobNotFoundError) {
+        return notFound(res, error);
+      }
+      logger.logError(error as Error, { operation: 'resume_job', job: req.params.name });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to resume job',
+      });
+    }
+  }
+
+  // Runs the job now, even if it is paused; the run is returned as soon as it starts
+  async triggerJob(req: Request, res: Response): Promise<Response> {
+    try {
+      const run = await jobRegistry.trigger(req.params.name as string, req.user?.userId);
+
+      return res.status(202).json({
+        success: true,
+        data: { run },
+        message: 'Job started',
+      });
+    } catch (error) {
+      if (error instanceof JobNotFoundError) {
+        return notFound(res, error);
+      }
+      if (error instanceof JobAlreadyRunningError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'trigger_job', job: req.params.name });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to trigger job',
+      });
+    }
+  }
+
+  async listRuns(req: Request, res: Response): Promise<Response> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const status = req.query.status as JobRunStatus | undefined;
+
+      const result = await jobRegistry.getRuns(req.params.name as string, { page, limit, offset: (page - 1) * limit }, status);
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof JobNotFoundError) {
+        return notFound(res, error);
+      }
+      logger.logError(error as Error, { operation: 'list_job_runs', job: req.params.name });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get job runs',
+      });
+    }
+  }
+
+  async getRun(req: Request, res: Response): Promise<Response> {
+    try {
+      const run = await jobRunRepository.findById(req.params.id as string);
+      if (!run) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job run not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { run },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_job_run', runId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get job run',
+      });
+    }
+  }
+}
+
+export const jobController = new JobController();
@@ -1,36 +1,95 @@
 import { Request, Response } from 'express';
+import { withTransaction } from '@/database/unitOfWork';
+import { orderRepository } from '@/repositories/orderRepository';
+import { VehicleUnavailableError } from '@/repositories/vehicleRepository';
+import { authService } from '@/services/auth';
 import { logger } from '@/services/logger';
-import { OrderStatus } from '@/types';
+import { metricsService } from '@/services/metrics';
+import { orderLifecycleService, InvalidOrderTransitionError } from '@/services/orderLifecycle';
+import { orderDocumentService } from '@/services/orderDocuments';
+import { paymentService, PaymentNotAllowedError } from '@/services/payment';
+import { salesReportService } from '@/services/salesReport';
+import { OrderStatus, OrderFilters, PaginationParams, ReportInterval, SalesReportFilters, UserRole } from '@/types';
+
+const STAFF_ROLES = [UserRole.ADMIN, UserRole.SALES];
+
+const getPagination = (req: Request): PaginationParams => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const getReportFilters = (req: Request): SalesReportFilters => {
+  const filters: SalesReportFilters = {};
+  if (req.query.dateFrom) filters.dateFrom = new Date(req.query.dateFrom as string);
+  if (req.query.dateTo) {
+    filters.dateTo = new Date(req.query.dateTo as string);
+    if (DATE_ONLY.test(req.query.dateTo as string)) filters.dateToIsDay = true;
+  }
+  if (req.query.brand) filters.brand = req.query.brand as string;
+  if (req.query.salespersonId) filters.salespersonId = req.query.salespersonId as string;
+  return filters;
+};
+
+const sendInvalidTransition = (res: Response, error: InvalidOrderTransitionError): Response => {
+  return res.status(409).json({
+    success: false,
+    error: error.message,
+    details: {
+      currentStatus: error.currentStatus,
+      requestedStatus: error.requestedStatus,
+      allowedTransitions: error.allowedTransitions,
+    },
+  });
+};
 
 export class OrderController {
   async create(req: Request, res: Response): Promise<Response> {
     try {
-      const { vehicleId, customerId, amount, paymentMethod } = req.body;
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
 
-      if (!vehicleId || !customerId || !amount || !paymentMethod) {
-        return res.status(400).json({
+      const { vehicleId, totalAmount, downPayment, notes } = req.body;
+
+      // Staff may place an order on behalf of a customer and are credited as its salesperson
+      const isStaff = authService.hasRole(req.user.role, STAFF_ROLES);
+      const userId = isStaff && req.body.userId ? req.body.userId : req.user.userId;
+
+      const order = await orderLifecycleService.place({
+        vehicleId,
+        userId,
+        ...(isStaff && { salespersonId: req.user.userId }),
+        totalAmount: parseFloat(totalAmount),
+        ...(downPayment !== undefined && { downPayment: parseFloat(downPayment) }),
+        ...(notes !== undefined && { notes }),
+      }, { actorId: req.user.userId });
+
+      if (!order) {
+        return res.status(404).json({
           success: false,
-          error: 'Missing required fields: vehicleId, customerId, amount, paymentMethod',
+          error: 'Vehicle not found',
         });
       }
 
-      logger.info('Order creation requested', { vehicleId, customerId, amount });
+      metricsService.recordOrderCreated();
+      logger.info('Order created', { orderId: order.id, vehicleId, userId });
 
       return res.status(201).json({
         success: true,
-        data: {
-          order: {
-            id: 'temp-order-id',
-            vehicleId,
-            customerId,
-            amount,
-            status: OrderStatus.PENDING,
-            createdAt: new Date().toISOString(),
-          },
-        },
+        data: { order },
         message: 'Order created successfully',
       });
     } catch (error) {
+      if (error instanceof VehicleUnavailableError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+          details: { vehicleId: error.vehicleId, currentStatus: error.currentStatus },
+        });
+      }
       logger.logError(error as Error, { operation: 'create_order' });
       return res.status(500).json({
         success: false,
@@ -46,11 +105,27 @@ export class OrderController {
         return res.status(400).json({ success: false, error: 'Order ID is required' });
       }
 
-      logger.info('Order retrieval requested', { orderId: id });
+      const order = await orderRepository.findById(id);
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
 
-      return res.status(404).json({
-        success: false,
-        error: 'Order not found',
+      // Customers can only access their own orders
+      if (req.user && !authService.hasRole(req.user.role, STAFF_ROLES) && order.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      const balance = await paymentService.computeBalance(order);
+
+      return res.json({
+        success: true,
+        data: { order, balance },
       });
     } catch (error) {
       logger.logError(error as Error, { operation: 'get_order_by_id', orderId: req.params.id });
@@ -63,20 +138,25 @@ export class OrderController {
 
   async getAll(req: Request, res: Response): Promise<Response> {
     try {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
+      const pagination = getPagination(req);
 
-      logger.info('Orders listing requested', { page, limit });
+      const filters: OrderFilters = {};
+      if (req.query.status) filters.status = req.query.status as OrderStatus;
+      if (req.query.userId) filters.userId = req.query.userId as string;
+      if (req.query.vehicleId) filters.vehicleId = req.query.vehicleId as string;
+      if (req.query.salespersonId) filters.salespersonId = req.query.salespersonId as string;
+
+      const result = await orderRepository.findAll(filters, pagination);
 
       return res.json({
         success: true,
         data: {
-          orders: [],
+          orders: result.orders,
           pagination: {
-            page,
-            limit,
-            total: 0,
-            totalPages: 0,
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: result.totalPages,
           },
         },
       });
@@ -92,7 +172,7 @@ export class OrderController {
   async updateStatus(req: Request, res: Response): Promise<Response> {
     try {
       const id = req.params.id;
-      const { status } = req.body;
+      const { status, reason } = req.body;
 
       if (!id) {
         return res.status(400).json({ success: false, error: 'Order ID is required' });
@@ -105,20 +185,26 @@ export class OrderController {
         });
       }
 
-      logger.info('Order status update requested', { orderId: id, status });
+      const order = await orderLifecycleService.transition(id, status, {
+        ...(req.user && { actorId: req.user.userId }),
+        ...(reason !== undefined && { reason }),
+      });
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
 
       return res.json({
         success: true,
-        data: {
-          order: {
-            id,
-            status,
-            updatedAt: new Date().toISOString(),
-          },
-        },
+        data: { order },
         message: 'Order status updated successfully',
       });
     } catch (error) {
+      if (error instanceof InvalidOrderTransitionError) {
+        return sendInvalidTransition(res, error);
+      }
       logger.logError(error as Error, { operation: 'update_order_status', orderId: req.params.id });
       return res.status(500).json({
         success: false,
@@ -134,13 +220,26 @@ export class OrderController {
         return res.status(400).json({ success: false, error: 'Order ID is required' });
       }
 
-      logger.info('Order cancellation requested', { orderId: id });
+      const order = await orderLifecycleService.transition(id, OrderStatus.CANCELLED, {
+        ...(req.user && { actorId: req.user.userId }),
+        ...(req.body.reason !== undefined && { reason: req.body.reason }),
+      });
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
 
       return res.json({
         success: true,
+        data: { order },
         message: 'Order cancelled successfully',
       });
     } catch (error) {
+      if (error instanceof InvalidOrderTransitionError) {
+        return sendInvalidTransition(res, error);
+      }
       logger.logError(error as Error, { operation: 'cancel_order', orderId: req.params.id });
       return res.status(500).json({
         success: false,
@@ -152,24 +251,21 @@ export class OrderController {
   async getCustomerOrders(req: Request, res: Response): Promise<Response> {
     try {
       const customerId = req.params.customerId;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
-
       if (!customerId) {
         return res.status(400).json({ success: false, error: 'Customer ID is required' });
       }
 
-      logger.info('Customer orders requested', { customerId, page, limit });
+      const result = await orderRepository.findAll({ userId: customerId }, getPagination(req));
 
       return res.json({
         success: true,
         data: {
-          orders: [],
+          orders: result.orders,
           pagination: {
-            page,
-            limit,
-            total: 0,
-            totalPages: 0,
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: result.totalPages,
           },
         },
       });
@@ -188,20 +284,17 @@ export class OrderController {
         return res.status(401).json({ success: false, error: 'Authentication required' });
       }
 
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
-
-      logger.info('User orders requested', { userId: req.user.userId, page, limit });
+      const result = await orderRepository.findAll({ userId: req.user.userId }, getPagination(req));
 
       return res.json({
         success: true,
         data: {
-          orders: [],
+          orders: result.orders,
           pagination: {
-            page,
-            limit,
-            total: 0,
-            totalPages: 0,
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: result.totalPages,
           },
         },
       });
@@ -214,19 +307,58 @@ export class OrderController {
     }
   }
 
-  async getStatistics(req: Request, res: Response): Promise<Response> {
+  async getStatusHistory(req: Request, res: Response): Promise<Response> {
     try {
-      logger.info('Order statistics requested');
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Order ID is required' });
+      }
+
+      const order = await orderRepository.findById(id);
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
+
+      if (req.user && !authService.hasRole(req.user.role, STAFF_ROLES) && order.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      const history = await orderLifecycleService.getHistory(id);
 
       return res.json({
         success: true,
         data: {
-          totalOrders: 0,
-          totalRevenue: 0,
-          averageOrderValue: 0,
-          ordersByStatus: {},
+          history,
+          currentStatus: order.status,
+          allowedTransitions: orderLifecycleService.getAllowedTransitions(order.status),
         },
       });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_order_status_history', orderId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get order status history',
+      });
+    }
+  }
+
+  async getStatistics(req: Request, res: Response): Promise<Response> {
+    try {
+      const filters = getReportFilters(req);
+      const interval = (req.query.interval as ReportInterval) || 'month';
+
+      const report = await salesReportService.getReport(filters, interval);
+
+      return res.json({
+        success: true,
+        data: report,
+      });
     } catch (error) {
       logger.logError(error as Error, { operation: 'get_order_statistics' });
       return res.status(500).json({
@@ -236,6 +368,26 @@ export class OrderController {
     }
   }
 
+  async exportStatistics(req: Request, res: Response): Promise<Response> {
+    try {
+      const filters = getReportFilters(req);
+      const interval = (req.query.interval as ReportInterval) || 'month';
+
+      const report = await salesReportService.getReport(filters, interval);
+      const filename = `sales-report-${new Date().toISOString().slice(0, 10)}.csv`;
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(salesReportService.toCsv(report));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'export_order_statistics' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to export order statistics',
+      });
+    }
+  }
+
   async getByVehicleId(req: Request, res: Response): Promise<Response> {
     try {
       const vehicleId = req.params.vehicleId;
@@ -243,13 +395,11 @@ export class OrderController {
         return res.status(400).json({ success: false, error: 'Vehicle ID is required' });
       }
 
-      logger.info('Orders by vehicle requested', { vehicleId });
+      const orders = await orderRepository.findByVehicleId(vehicleId);
 
       return res.json({
         success: true,
-        data: {
-          orders: [],
-        },
+        data: { orders },
       });
     } catch (error) {
       logger.logError(error as Error, { operation: 'get_orders_by_vehicle', vehicleId: req.params.vehicleId });
@@ -263,26 +413,71 @@ export class OrderController {
   async update(req: Request, res: Response): Promise<Response> {
     try {
       const id = req.params.id;
-      const updates = req.body;
-
       if (!id) {
         return res.status(400).json({ success: false, error: 'Order ID is required' });
       }
 
-      logger.info('Order update requested', { orderId: id, updates });
+      const { status, reason, salespersonId, totalAmount, downPayment, notes } = req.body;
+      const actorId = req.user?.userId;
+
+      // The status change, the field changes and any settlement are committed together
+      const result = await withTransaction(async (client) => {
+        const current = await orderRepository.findByIdForUpdate(id, client);
+        if (!current) {
+          return null;
+        }
+
+        // Status changes always go through the order lifecycle
+        if (status !== undefined) {
+          await orderLifecycleService.applyTransition(current, status, {
+            ...(actorId !== undefined && { actorId }),
+            ...(reason !== undefined && { reason }),
+          }, client);
+        }
+
+        const updated = await orderRepository.update(id, {
+          ...(salespersonId !== undefined && { salespersonId }),
+          ...(totalAmount !== undefined && { totalAmount: parseFloat(totalAmount) }),
+          ...(downPayment !== undefined && { downPayment: parseFloat(downPayment) }),
+          ...(notes !== undefined && { notes }),
+        }, client);
+
+        // A new total changes what is still owed on the recorded payments
+        const order = updated && totalAmount !== undefined
+          ? await paymentService.resettle(updated, actorId, client)
+          : updated;
+
+        return order && { order, previousStatus: current.status };
+      });
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
+
+      const { order, previousStatus } = result;
+      if (order.status === OrderStatus.PAID && previousStatus !== OrderStatus.PAID) {
+        orderDocumentService.scheduleGeneration(order.id);
+      }
 
       return res.json({
         success: true,
-        data: {
-          order: {
-            id,
-            ...updates,
-            updatedAt: new Date().toISOString(),
-          },
-        },
+        data: { order },
         message: 'Order updated successfully',
       });
     } catch (error) {
+      if (error instanceof InvalidOrderTransitionError) {
+        return sendInvalidTransition(res, error);
+      }
+      if (error instanceof PaymentNotAllowedError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+          ...(error.balance && { details: { balance: error.balance } }),
+        });
+      }
       logger.logError(error as Error, { operation: 'update_order', orderId: req.params.id });
       return res.status(500).json({
         success: false,
@@ -298,7 +493,13 @@ export class OrderController {
         return res.status(400).json({ success: false, error: 'Order ID is required' });
       }
 
-      logger.info('Order deletion requested', { orderId: id });
+      const deleted = await orderRepository.delete(id);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
 
       return res.json({
         success: true,
@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import { orderRepository } from '@/repositories/orderRepository';
+import { orderDocumentService, OrderDocumentError } from '@/services/orderDocuments';
+import { authService } from '@/services/auth';
+import { logger } from '@/services/logger';
+import { Order, OrderDocumentType, UserRole } from '@/types';
+
+const STAFF_ROLES = [UserRole.ADMIN, UserRole.SALES];
+
+// Customers may only access documents of their own orders; without a user nobody may
+const canAccess = (req: Request, order: Order): boolean =>
+  req.user !== undefined && (authService.hasRole(req.user.role, STAFF_ROLES) || order.userId === req.user.userId);
+
+export class OrderDocumentController {
+  async list(req: Request, res: Response): Promise<Response> {
+    try {
+      const orderId = req.params.id;
+      if (!orderId) {
+        return res.status(400).json({ success: false, error: 'Order ID is required' });
+      }
+
+      const order = await orderRepository.findById(orderId);
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
+
+      if (!canAccess(req, order)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      const documents = await orderDocumentService.list(orderId);
+
+      return res.json({
+        success: true,
+        data: { documents },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_order_documents', orderId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get order documents',
+      });
+    }
+  }
+
+  async download(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id: orderId, type } = req.params;
+      if (!orderId || !type) {
+        return res.status(400).json({ success: false, error: 'Order ID and document type are required' });
+      }
+
+      const order = await orderRepository.findById(orderId);
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
+
+      if (!canAccess(req, order)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      const stored = await orderDocumentService.get(order, type as OrderDocumentType);
+      if (!stored) {
+        return res.status(404).json({
+          success: false,
+          error: 'Document not found',
+        });
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${stored.document.documentNumber}.pdf"`);
+      return res.send(stored.content);
+    } catch (error) {
+      if (error instanceof OrderDocumentError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'download_order_document', orderId: req.params.id, type: req.params.type });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get order document',
+      });
+    }
+  }
+}
+
+export const orderDocumentController = new OrderDocumentController();
@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { orderRepository } from '@/repositories/orderRepository';
+import { paymentService, PaymentNotAllowedError } from '@/services/payment';
+import { authService } from '@/services/auth';
+import { logger } from '@/services/logger';
+import { UserRole } from '@/types';
+
+const STAFF_ROLES = [UserRole.ADMIN, UserRole.SALES];
+
+export class PaymentController {
+  async list(req: Request, res: Response): Promise<Response> {
+    try {
+      const orderId = req.params.id;
+      if (!orderId) {
+        return res.status(400).json({ success: false, error: 'Order ID is required' });
+      }
+
+      const order = await orderRepository.findById(orderId);
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
+
+      // Customers can only see the ledger of their own orders
+      if (req.user && !authService.hasRole(req.user.role, STAFF_ROLES) && order.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      const payments = await paymentService.listPayments(orderId);
+      const balance = await paymentService.computeBalance(order);
+
+      return res.json({
+        success: true,
+        data: { payments, balance },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_payments', orderId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get payments',
+      });
+    }
+  }
+
+  async record(req: Request, res: Response): Promise<Response> {
+    try {
+      const orderId = req.params.id;
+      if (!orderId) {
+        return res.status(400).json({ success: false, error: 'Order ID is required' });
+      }
+
+      const { method, amount, reference, notes, receivedAt } = req.body;
+
+      const result = await paymentService.record(orderId, {
+        method,
+        amount: parseFloat(amount),
+        ...(reference !== undefined && { reference }),
+        ...(notes !== undefined && { notes }),
+        ...(receivedAt !== undefined && { receivedAt: new Date(receivedAt) }),
+      }, req.user?.userId);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Payment recorded successfully',
+      });
+    } catch (error) {
+      if (error instanceof PaymentNotAllowedError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+          ...(error.balance && { details: { balance: error.balance } }),
+        });
+      }
+      logger.logError(error as Error, { operation: 'record_payment', orderId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to record payment',
+      });
+    }
+  }
+
+  async void(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id: orderId, paymentId } = req.params;
+      if (!orderId || !paymentId) {
+        return res.status(400).json({ success: false, error: 'Order ID and payment ID are required' });
+      }
+
+      const result = await paymentService.void(orderId, paymentId, req.user?.userId, req.body.reason);
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Payment not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Payment voided successfully',
+      });
+    } catch (error) {
+      if (error instanceof PaymentNotAllowedError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'void_payment', paymentId: req.params.paymentId });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to void payment',
+      });
+    }
+  }
+}
+
+export const paymentController = new PaymentController();
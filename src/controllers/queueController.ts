@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import { jobQueueRepository } from '@/repositories/jobQueueRepository';
+import { jobQueueService } from '@/services/jobQueue';
+import { logger } from '@/services/logger';
+import { PaginationParams, QueuedJobStatus } from '@/types';
+
+const getPagination = (req: Request): PaginationParams => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+export class QueueController {
+  async getStats(req: Request, res: Response): Promise<Response> {
+    try {
+      const stats = await jobQueueRepository.getStats();
+
+      return res.json({
+        success: true,
+        data: { stats },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_queue_stats' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get queue stats',
+      });
+    }
+  }
+
+  async listJobs(req: Request, res: Response): Promise<Response> {
+    try {
+      const result = await jobQueueRepository.findAll(
+        {
+          ...(req.query.status && { status: req.query.status as QueuedJobStatus }),
+          ...(req.query.type && { type: req.query.type as string }),
+        },
+        getPagination(req)
+      );
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_queued_jobs' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get queued jobs',
+      });
+    }
+  }
+
+  async listDeadLetters(req: Request, res: Response): Promise<Response> {
+    try {
+      const result = await jobQueueRepository.findDeadLetters(getPagination(req), req.query.includeRequeued === 'true');
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_dead_letter_jobs' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get dead-letter jobs',
+      });
+    }
+  }
+
+  async getDeadLetter(req: Request, res: Response): Promise<Response> {
+    try {
+      const deadLetter = await jobQueueRepository.findDeadLetterById(req.params.id as string);
+      if (!deadLetter) {
+        return res.status(404).json({
+          success: false,
+          error: 'Dead-letter job not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { deadLetter },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_dead_letter_job', deadLetterId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get dead-letter job',
+      });
+    }
+  }
+
+  async requeue(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id as string;
+      const deadLetter = await jobQueueRepository.findDeadLetterById(id);
+      if (!deadLetter) {
+        return res.status(404).json({
+          success: false,
+          error: 'Dead-letter job not found',
+        });
+      }
+
+      const job = await jobQueueService.requeue(id, req.user?.userId);
+      if (!job) {
+        return res.status(409).json({
+          success: false,
+          error: 'Dead-letter job has already been requeued',
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: { job },
+        message: 'Job requeued',
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'requeue_dead_letter_job', deadLetterId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to requeue job',
+      });
+    }
+  }
+}
+
+export const queueController = new QueueController();
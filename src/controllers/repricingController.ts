@@ -0,0 +1,186 @@
+import { Request, Response } from 'express';
+import { repricingRuleRepository, CreateRepricingRuleData } from '@/repositories/repricingRuleRepository';
+import { repricingService } from '@/services/repricing';
+import { PriceImportError } from '@/services/priceProcessor';
+import { logger } from '@/services/logger';
+
+const intOrNull = (value: unknown): number | null => (value === null ? null : parseInt(String(value)));
+const floatOrNull = (value: unknown): number | null => (value === null ? null : parseFloat(String(value)));
+
+// Only the fields present in the body, so updates leave the rest untouched
+const parseRuleBody = (body: Record<string, any>): Partial<CreateRepricingRuleData> => ({
+  ...(body.name !== undefined && { name: body.name }),
+  ...(body.priority !== undefined && { priority: parseInt(body.priority) }),
+  ...(body.brand !== undefined && { brand: body.brand }),
+  ...(body.minYear !== undefined && { minYear: intOrNull(body.minYear) }),
+  ...(body.maxYear !== undefined && { maxYear: intOrNull(body.maxYear) }),
+  ...(body.minMileage !== undefined && { minMileage: intOrNull(body.minMileage) }),
+  ...(body.maxMileage !== undefined && { maxMileage: intOrNull(body.maxMileage) }),
+  ...(body.startAfterDays !== undefined && { startAfterDays: parseInt(body.startAfterDays) }),
+  ...(body.intervalDays !== undefined && { intervalDays: intOrNull(body.intervalDays) }),
+  ...(body.adjustmentPercent !== undefined && { adjustmentPercent: floatOrNull(body.adjustmentPercent) }),
+  ...(body.roundTo !== undefined && { roundTo: intOrNull(body.roundTo) }),
+  ...(body.floorPrice !== undefined && { floorPrice: floatOrNull(body.floorPrice) }),
+  ...(body.isActive !== undefined && { isActive: body.isActive }),
+});
+
+// Inverted ranges or a rule left without any action are rejected by the table constraints
+const isCheckViolation = (error: unknown): boolean => (error as { code?: string }).code === '23514';
+
+const INVALID_RULE_MESSAGE = 'Ranges must not be inverted and a rule needs an adjustment, a rounding step or a floor price';
+
+export class RepricingController {
+  async listRules(req: Request, res: Response): Promise<Response> {
+    try {
+      const activeOnly = req.query.active === 'true';
+      const rules = await repricingRuleRepository.findAll(activeOnly);
+
+      return res.json({
+        success: true,
+        data: { rules },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_repricing_rules' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get repricing rules',
+      });
+    }
+  }
+
+  async createRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const rule = await repricingRuleRepository.create({
+        ...parseRuleBody(req.body),
+        name: req.body.name,
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: { rule },
+        message: 'Repricing rule created successfully',
+      });
+    } catch (error) {
+      if (isCheckViolation(error)) {
+        return res.status(422).json({
+          success: false,
+          error: INVALID_RULE_MESSAGE,
+        });
+      }
+      logger.logError(error as Error, { operation: 'create_repricing_rule' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create repricing rule',
+      });
+    }
+  }
+
+  async updateRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const rule = await repricingRuleRepository.update(id, parseRuleBody(req.body));
+      if (!rule) {
+        return res.status(404).json({
+          success: false,
+          error: 'Repricing rule not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { rule },
+        message: 'Repricing rule updated successfully',
+      });
+    } catch (error) {
+      if (isCheckViolation(error)) {
+        return res.status(422).json({
+          success: false,
+          error: INVALID_RULE_MESSAGE,
+        });
+      }
+      logger.logError(error as Error, { operation: 'update_repricing_rule', ruleId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update repricing rule',
+      });
+    }
+  }
+
+  async deleteRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const deleted = await repricingRuleRepository.delete(id);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Repricing rule not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Repricing rule deleted successfully',
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_repricing_rule', ruleId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete repricing rule',
+      });
+    }
+  }
+
+  async simulate(req: Request, res: Response): Promise<Response> {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const vehicleId = req.query.vehicleId as string | undefined;
+
+      const simulation = await repricingService.simulate(days, vehicleId);
+
+      return res.json({
+        success: true,
+        data: { simulation },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'simulate_repricing' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to simulate repricing',
+      });
+    }
+  }
+
+  async run(req: Request, res: Response): Promise<Response> {
+    try {
+      const report = await repricingService.run();
+
+      return res.json({
+        success: true,
+        data: { report },
+        message: report ? 'Repricing rules applied' : 'No active repricing rules',
+      });
+    } catch (error) {
+      if (error instanceof PriceImportError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'run_repricing' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to run repricing rules',
+      });
+    }
+  }
+}
+
+export const repricingController = new RepricingController();
@@ -0,0 +1,239 @@
+import { Request, Response } from 'express';
+import { reservationRepository } from '@/repositories/reservationRepository';
+import { VehicleUnavailableError } from '@/repositories/vehicleRepository';
+import { reservationService } from '@/services/reservation';
+import { authService } from '@/services/auth';
+import { logger } from '@/services/logger';
+import { ReservationFilters, ReservationStatus, PaginationParams, UserRole } from '@/types';
+
+const STAFF_ROLES = [UserRole.ADMIN, UserRole.SALES];
+
+const getPagination = (req: Request): PaginationParams => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+export class ReservationController {
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+
+      const { vehicleId, durationHours, depositAmount, depositReference, notes } = req.body;
+
+      // Staff may place a hold on behalf of a customer
+      const isStaff = authService.hasRole(req.user.role, STAFF_ROLES);
+      const userId = isStaff && req.body.userId ? req.body.userId : req.user.userId;
+
+      const reservation = await reservationService.hold(vehicleId, userId, {
+        ...(durationHours !== undefined && { durationHours: parseInt(durationHours) }),
+        ...(depositAmount !== undefined && { depositAmount: parseFloat(depositAmount) }),
+        ...(depositReference !== undefined && { depositReference }),
+        ...(notes !== undefined && { notes }),
+      });
+
+      if (!reservation) {
+        return res.status(404).json({
+          success: false,
+          error: 'Vehicle not found',
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: { reservation },
+        message: 'Vehicle reserved successfully',
+      });
+    } catch (error) {
+      if (error instanceof VehicleUnavailableError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+          details: { vehicleId: error.vehicleId, currentStatus: error.currentStatus },
+        });
+      }
+      logger.logError(error as Error, { operation: 'create_reservation' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create reservation',
+      });
+    }
+  }
+
+  async getById(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Reservation ID is required' });
+      }
+
+      const reservation = await reservationRepository.findById(id);
+      if (!reservation) {
+        return res.status(404).json({
+          success: false,
+          error: 'Reservation not found',
+        });
+      }
+
+      // Customers can only access their own reservations
+      if (req.user && !authService.hasRole(req.user.role, STAFF_ROLES) && reservation.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { reservation },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_reservation_by_id', reservationId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get reservation',
+      });
+    }
+  }
+
+  async getAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const filters: ReservationFilters = {};
+      if (req.query.status) filters.status = req.query.status as ReservationStatus;
+      if (req.query.vehicleId) filters.vehicleId = req.query.vehicleId as string;
+      if (req.query.userId) filters.userId = req.query.userId as string;
+
+      const result = await reservationRepository.findAll(filters, getPagination(req));
+
+      return res.json({
+        success: true,
+        data: {
+          reservations: result.reservations,
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: result.totalPages,
+          },
+        },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_all_reservations' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get reservations',
+      });
+    }
+  }
+
+  async getMyReservations(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+
+      const result = await reservationRepository.findAll({ userId: req.user.userId }, getPagination(req));
+
+      return res.json({
+        success: true,
+        data: {
+          reservations: result.reservations,
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: result.totalPages,
+          },
+        },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_my_reservations' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get user reservations',
+      });
+    }
+  }
+
+  async extend(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Reservation ID is required' });
+      }
+
+      const reservation = await reservationService.extend(id, parseInt(req.body.hours));
+      if (!reservation) {
+        return res.status(404).json({
+          success: false,
+          error: 'Active reservation not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { reservation },
+        message: 'Reservation extended successfully',
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'extend_reservation', reservationId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to extend reservation',
+      });
+    }
+  }
+
+  async release(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, error: 'Authentication required' });
+      }
+
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Reservation ID is required' });
+      }
+
+      const existing = await reservationRepository.findById(id);
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Reservation not found',
+        });
+      }
+
+      // Customers may only give up their own holds
+      if (!authService.hasRole(req.user.role, STAFF_ROLES) && existing.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      const reservation = await reservationService.release(id, req.user.userId, req.body.reason);
+      if (!reservation) {
+        return res.status(409).json({
+          success: false,
+          error: `Reservation is no longer active (current status: ${existing.status})`,
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { reservation },
+        message: 'Reservation released successfully',
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'release_reservation', reservationId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to release reservation',
+      });
+    }
+  }
+}
+
+export const reservationController = new ReservationController();
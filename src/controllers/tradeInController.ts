@@ -0,0 +1,316 @@
+import { Request, Response } from 'express';
+import { tradeInRepository } from '@/repositories/tradeInRepository';
+import { orderRepository } from '@/repositories/orderRepository';
+import { tradeInService, TradeInError } from '@/services/tradeIn';
+import { authService } from '@/services/auth';
+import { logger } from '@/services/logger';
+import { TradeInFilters, TradeInStatus, PaginationParams, UserRole } from '@/types';
+
+const STAFF_ROLES = [UserRole.ADMIN, UserRole.SALES];
+
+const getPagination = (req: Request): PaginationParams => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+export class TradeInController {
+  async create(req: Request, res: Response): Promise<Response> {
+    try {
+      const { orderId, customerId, brand, model, year, mileage, conditionGrade, appraisedValue, notes } = req.body;
+
+      const tradeIn = await tradeInService.appraise({
+        brand,
+        model,
+        year: parseInt(year),
+        mileage: parseInt(mileage),
+        conditionGrade,
+        appraisedValue: parseFloat(appraisedValue),
+        ...(orderId !== undefined && { orderId }),
+        ...(customerId !== undefined && { customerId }),
+        ...(notes !== undefined && { notes }),
+        ...(req.user && { appraisedBy: req.user.userId }),
+      });
+
+      if (!tradeIn) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: { tradeIn },
+        message: 'Trade-in appraised successfully',
+      });
+    } catch (error) {
+      if (error instanceof TradeInError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'create_trade_in' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create trade-in',
+      });
+    }
+  }
+
+  async getById(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Trade-in ID is required' });
+      }
+
+      const tradeIn = await tradeInRepository.findById(id);
+      if (!tradeIn) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trade-in not found',
+        });
+      }
+
+      // Customers can only access their own trade-ins
+      if (req.user && !authService.hasRole(req.user.role, STAFF_ROLES) && tradeIn.customerId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { tradeIn },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_trade_in_by_id', tradeInId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get trade-in',
+      });
+    }
+  }
+
+  async getAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const filters: TradeInFilters = {};
+      if (req.query.status) filters.status = req.query.status as TradeInStatus;
+      if (req.query.orderId) filters.orderId = req.query.orderId as string;
+      if (req.query.customerId) filters.customerId = req.query.customerId as string;
+
+      const result = await tradeInRepository.findAll(filters, getPagination(req));
+
+      return res.json({
+        success: true,
+        data: {
+          tradeIns: result.tradeIns,
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: result.totalPages,
+          },
+        },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_all_trade_ins' });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get trade-ins',
+      });
+    }
+  }
+
+  async listForOrder(req: Request, res: Response): Promise<Response> {
+    try {
+      const orderId = req.params.id;
+      if (!orderId) {
+        return res.status(400).json({ success: false, error: 'Order ID is required' });
+      }
+
+      const order = await orderRepository.findById(orderId);
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          error: 'Order not found',
+        });
+      }
+
+      // Customers can only see the trade-ins on their own orders
+      if (req.user && !authService.hasRole(req.user.role, STAFF_ROLES) && order.userId !== req.user.userId) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+        });
+      }
+
+      const tradeIns = await tradeInRepository.findByOrderId(orderId);
+
+      return res.json({
+        success: true,
+        data: { tradeIns },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_order_trade_ins', orderId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get order trade-ins',
+      });
+    }
+  }
+
+  async attach(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Trade-in ID is required' });
+      }
+
+      const tradeIn = await tradeInService.attach(id, req.body.orderId);
+      if (!tradeIn) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trade-in or order not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { tradeIn },
+        message: 'Trade-in attached to order successfully',
+      });
+    } catch (error) {
+      if (error instanceof TradeInError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'attach_trade_in', tradeInId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to attach trade-in',
+      });
+    }
+  }
+
+  async accept(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Trade-in ID is required' });
+      }
+
+      const { convertToVehicle, listPrice } = req.body;
+
+      const result = await tradeInService.accept(id, {
+        ...(req.user && { actorId: req.user.userId }),
+        ...(convertToVehicle !== undefined && { convertToVehicle: convertToVehicle === true || convertToVehicle === 'true' }),
+        ...(listPrice !== undefined && { listPrice: parseFloat(listPrice) }),
+      });
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trade-in not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Trade-in accepted successfully',
+      });
+    } catch (error) {
+      if (error instanceof TradeInError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'accept_trade_in', tradeInId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to accept trade-in',
+      });
+    }
+  }
+
+  async reject(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Trade-in ID is required' });
+      }
+
+      const tradeIn = await tradeInService.reject(id, req.user?.userId, req.body.reason);
+      if (!tradeIn) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trade-in not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { tradeIn },
+        message: 'Trade-in rejected successfully',
+      });
+    } catch (error) {
+      if (error instanceof TradeInError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'reject_trade_in', tradeInId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reject trade-in',
+      });
+    }
+  }
+
+  async convert(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'Trade-in ID is required' });
+      }
+
+      const { listPrice } = req.body;
+      const result = await tradeInService.convertToVehicle(id, listPrice !== undefined ? parseFloat(listPrice) : undefined);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trade-in not found',
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Trade-in converted into a vehicle successfully',
+      });
+    } catch (error) {
+      if (error instanceof TradeInError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'convert_trade_in', tradeInId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to convert trade-in',
+      });
+    }
+  }
+}
+
+export const tradeInController = new TradeInController();
@@ -1,17 +1,40 @@
 import { Request, Response } from 'express';
-import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { vehicleRepository, InvalidCursorError, DuplicateVinError } from '@/repositories/vehicleRepository';
 import { logger } from '@/services/logger';
-import { VehicleFilters, PaginationParams, VehicleStatus } from '@/types';
+import { vehiclePhotoService } from '@/services/vehiclePhotos';
+import { vehicleCatalogService, CatalogError } from '@/services/vehicleCatalog';
+import { decodeVin } from '@/services/vin';
+import { vehiclePricingService } from '@/services/vehiclePricing';
+import {
+  VehicleFilters,
+  PaginationParams,
+  VehicleStatus,
+  VehicleListOptions,
+  VehicleSortField,
+  SortOrder,
+  PriceChangeSource,
+} from '@/types';
+
+// Accepts both comma-separated (fuelType=Gasoline,Hybrid) and repeated query params
+const parseList = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : [value];
+  return raw
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+};
 
 export class VehicleController {
   async create(req: Request, res: Response): Promise<Response> {
     try {
       const vehicleData = req.body;
+      const { brand, model } = await vehicleCatalogService.normalize(vehicleData.brand, vehicleData.model);
 
       const vehicle = await vehicleRepository.create({
-        brand: vehicleData.brand,
-        model: vehicleData.model,
+        brand,
+        model,
         year: vehicleData.year,
+        ...(vehicleData.vin && { vin: vehicleData.vin }),
         mileage: vehicleData.mileage,
         price: vehicleData.price,
         description: vehicleData.description,
@@ -20,12 +43,27 @@ export class VehicleController {
         status: vehicleData.status || VehicleStatus.AVAILABLE,
       });
 
+      // Mismatches are reported for review rather than blocking the listing
+      const vinCheck = vehicleData.vin ? decodeVin(vehicleData.vin, { brand, year: parseInt(vehicleData.year) }) : undefined;
+
       return res.status(201).json({
         success: true,
-        data: { vehicle },
+        data: { vehicle, ...(vinCheck && { vinCheck }) },
         message: 'Vehicle created successfully',
       });
     } catch (error) {
+      if (error instanceof CatalogError) {
+        return res.status(422).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      if (error instanceof DuplicateVinError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
       logger.logError(error as Error, { operation: 'create_vehicle' });
       return res.status(500).json({
         success: false,
@@ -49,9 +87,11 @@ export class VehicleController {
         });
       }
 
+      const photos = await vehiclePhotoService.list(id);
+
       return res.json({
         success: true,
-        data: { vehicle },
+        data: { vehicle, photos },
       });
     } catch (error) {
       logger.logError(error as Error, { operation: 'get_vehicle_by_id', vehicleId: req.params.id });
@@ -62,6 +102,34 @@ export class VehicleController {
     }
   }
 
+  async getByVin(req: Request, res: Response): Promise<Response> {
+    try {
+      const vin = req.params.vin;
+      if (!vin) {
+        return res.status(400).json({ success: false, error: 'VIN is required' });
+      }
+
+      const vehicle = await vehicleRepository.findByVin(vin);
+      if (!vehicle) {
+        return res.status(404).json({
+          success: false,
+          error: 'Vehicle not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { vehicle, vinCheck: decodeVin(vin, { brand: vehicle.brand, year: vehicle.year }) },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_vehicle_by_vin', vin: req.params.vin });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get vehicle',
+      });
+    }
+  }
+
   async getAll(req: Request, res: Response): Promise<Response> {
     try {
       const page = parseInt(req.query.page as string) || 1;
@@ -76,6 +144,7 @@ export class VehicleController {
 
       const filters: VehicleFilters = {};
       
+      if (req.query.q) filters.q = req.query.q as string;
       if (req.query.brand) filters.brand = req.query.brand as string;
       if (req.query.model) filters.model = req.query.model as string;
       if (req.query.yearMin) filters.yearMin = parseInt(req.query.yearMin as string);
@@ -84,14 +153,46 @@ export class VehicleController {
       if (req.query.priceMax) filters.priceMax = parseFloat(req.query.priceMax as string);
       if (req.query.mileageMax) filters.mileageMax = parseInt(req.query.mileageMax as string);
       if (req.query.status) filters.status = req.query.status as VehicleStatus;
+      if (req.query.transmission) filters.transmission = parseList(req.query.transmission);
+      if (req.query.fuelType) filters.fuelType = parseList(req.query.fuelType);
+      if (req.query.color) filters.color = parseList(req.query.color);
+      if (req.query.doors) filters.doors = parseList(req.query.doors).map(value => parseInt(value));
+      if (req.query.seats) filters.seats = parseList(req.query.seats).map(value => parseInt(value));
+      if (req.query.powerMin) filters.powerMin = parseInt(req.query.powerMin as string);
+      if (req.query.powerMax) filters.powerMax = parseInt(req.query.powerMax as string);
+
+      const options: VehicleListOptions = {};
+
+      if (req.query.sort) options.sort = req.query.sort as VehicleSortField;
+      if (req.query.order) options.order = req.query.order as SortOrder;
+      if (req.query.cursor) options.cursor = req.query.cursor as string;
+
+      if (req.query.facets === 'true') {
+        const [result, facets] = await Promise.all([
+          vehicleRepository.findAll(filters, pagination, options),
+          vehicleRepository.getFacets(filters),
+        ]);
+
+        return res.json({
+          success: true,
+          data: { ...result, facets },
+        });
+      }
 
-      const result = await vehicleRepository.findAll(filters, pagination);
+      const result = await vehicleRepository.findAll(filters, pagination, options);
 
       return res.json({
         success: true,
         data: result,
       });
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
       logger.logError(error as Error, { operation: 'get_all_vehicles' });
       return res.status(500).json({
         success: false,
@@ -108,7 +209,28 @@ export class VehicleController {
       }
       const updates = req.body;
 
-      const vehicle = await vehicleRepository.update(id, updates);
+      const current = await vehicleRepository.findById(id);
+      if (!current) {
+        return res.status(404).json({
+          success: false,
+          error: 'Vehicle not found',
+        });
+      }
+
+      // Brand and model are checked as a pair, so a partial change is resolved against the current listing
+      if (updates.brand !== undefined || updates.model !== undefined) {
+        const normalized = await vehicleCatalogService.normalize(
+          updates.brand ?? current.brand,
+          updates.model ?? current.model
+        );
+        updates.brand = normalized.brand;
+        updates.model = normalized.model;
+      }
+
+      const vehicle = await vehiclePricingService.updateVehicle(id, updates, {
+        source: PriceChangeSource.MANUAL,
+        ...(req.user && { actorId: req.user.userId }),
+      });
       if (!vehicle) {
         return res.status(404).json({
           success: false,
@@ -116,12 +238,26 @@ export class VehicleController {
         });
       }
 
+      const vinCheck = vehicle.vin ? decodeVin(vehicle.vin, { brand: vehicle.brand, year: vehicle.year }) : undefined;
+
       return res.json({
         success: true,
-        data: { vehicle },
+        data: { vehicle, ...(vinCheck && { vinCheck }) },
         message: 'Vehicle updated successfully',
       });
     } catch (error) {
+      if (error instanceof CatalogError) {
+        return res.status(422).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      if (error instanceof DuplicateVinError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+        });
+      }
       logger.logError(error as Error, { operation: 'update_vehicle', vehicleId: req.params.id });
       return res.status(500).json({
         success: false,
@@ -164,7 +300,7 @@ export class VehicleController {
       if (!id) {
         return res.status(400).json({ success: false, error: 'ID is required' });
       }
-      const { price } = req.body;
+      const { price, reason } = req.body;
 
       if (typeof price !== 'number' || price < 0) {
         return res.status(400).json({
@@ -173,8 +309,12 @@ export class VehicleController {
         });
       }
 
-      const vehicle = await vehicleRepository.updatePrice(id, price);
-      if (!vehicle) {
+      const result = await vehiclePricingService.changePrice(id, price, {
+        source: PriceChangeSource.MANUAL,
+        ...(req.user && { actorId: req.user.userId }),
+        ...(reason && { reason }),
+      });
+      if (!result) {
         return res.status(404).json({
           success: false,
           error: 'Vehicle not found',
@@ -183,7 +323,7 @@ export class VehicleController {
 
       return res.json({
         success: true,
-        data: { vehicle },
+        data: { vehicle: result.vehicle, change: result.change },
         message: 'Vehicle price updated successfully',
       });
     } catch (error) {
@@ -195,6 +335,36 @@ export class VehicleController {
     }
   }
 
+  async getPriceHistory(req: Request, res: Response): Promise<Response> {
+    try {
+      const id = req.params.id;
+      if (!id) {
+        return res.status(400).json({ success: false, error: 'ID is required' });
+      }
+
+      const vehicle = await vehicleRepository.findById(id);
+      if (!vehicle) {
+        return res.status(404).json({
+          success: false,
+          error: 'Vehicle not found',
+        });
+      }
+
+      const history = await vehiclePricingService.getHistory(id);
+
+      return res.json({
+        success: true,
+        data: { vehicleId: id, currentPrice: vehicle.price, history },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_vehicle_price_history', vehicleId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get price history',
+      });
+    }
+  }
+
   async updateStatus(req: Request, res: Response): Promise<Response> {
     try {
       const id = req.params.id;
@@ -234,11 +404,7 @@ export class VehicleController {
 
   async getBrands(req: Request, res: Response): Promise<Response> {
     try {
-      const brands = [
-        'Toyota', 'Honda', 'Ford', 'Volkswagen', 'BMW', 'Mercedes-Benz',
-        'Audi', 'Nissan', 'Chevrolet', 'Hyundai', 'Kia', 'Mazda',
-        'Subaru', 'Lexus', 'Acura', 'Infiniti', 'Volvo', 'Porsche'
-      ];
+      const brands = await vehicleCatalogService.listBrands();
 
       return res.json({
         success: true,
@@ -258,15 +424,7 @@ export class VehicleController {
       const { brand } = req.params;
       if (!brand) return res.status(400).json({ success: false, error: 'Brand is required' });
 
-      const modelsByBrand: Record<string, string[]> = {
-        'Toyota': ['Corolla', 'Camry', 'RAV4', 'Highlander', 'Tacoma', 'Tundra'],
-        'Honda': ['Civic', 'Accord', 'CR-V', 'Pilot', 'Ridgeline'],
-        'Ford': ['Focus', 'Fusion', 'Escape', 'Explorer', 'F-150'],
-        'BMW': ['3 Series', '5 Series', 'X3', 'X5', 'M3', 'M5'],
-        'Mercedes-Benz': ['C-Class', 'E-Class', 'S-Class', 'GLC', 'GLE'],
-      };
-
-      const models = modelsByBrand[brand] || [];
+      const models = await vehicleCatalogService.listModelsByBrandName(brand) || [];
 
       return res.json({
         success: true,
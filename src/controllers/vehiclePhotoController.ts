@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { vehiclePhotoService, PhotoUploadError, UploadedPhoto } from '@/services/vehiclePhotos';
+import { logger } from '@/services/logger';
+
+// Multipart forms send a single caption as a string and several as an array
+const getCaptions = (value: unknown): string[] => {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(caption => String(caption));
+};
+
+export class VehiclePhotoController {
+  async list(req: Request, res: Response): Promise<Response> {
+    try {
+      const vehicleId = req.params.id;
+      if (!vehicleId) {
+        return res.status(400).json({ success: false, error: 'Vehicle ID is required' });
+      }
+
+      const vehicle = await vehicleRepository.findById(vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({
+          success: false,
+          error: 'Vehicle not found',
+        });
+      }
+
+      const photos = await vehiclePhotoService.list(vehicleId);
+
+      return res.json({
+        success: true,
+        data: { photos },
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'list_vehicle_photos', vehicleId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get vehicle photos',
+      });
+    }
+  }
+
+  async upload(req: Request, res: Response): Promise<Response> {
+    try {
+      const vehicleId = req.params.id;
+      if (!vehicleId) {
+        return res.status(400).json({ success: false, error: 'Vehicle ID is required' });
+      }
+
+      const files = (req.files as UploadedPhoto[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'At least one photo is required',
+        });
+      }
+
+      const photos = await vehiclePhotoService.upload(vehicleId, files, getCaptions(req.body.captions));
+      if (!photos) {
+        return res.status(404).json({
+          success: false,
+          error: 'Vehicle not found',
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: { photos },
+        message: 'Photos uploaded successfully',
+      });
+    } catch (error) {
+      if (error instanceof PhotoUploadError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'upload_vehicle_photos', vehicleId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to upload photos',
+      });
+    }
+  }
+
+  async update(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id: vehicleId, photoId } = req.params;
+      if (!vehicleId || !photoId) {
+        return res.status(400).json({ success: false, error: 'Vehicle ID and photo ID are required' });
+      }
+
+      const { caption, isMain } = req.body;
+
+      const photo = await vehiclePhotoService.update(vehicleId, photoId, {
+        ...(caption !== undefined && { caption }),
+        ...(isMain !== undefined && { isMain }),
+      });
+
+      if (!photo) {
+        return res.status(404).json({
+          success: false,
+          error: 'Photo not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { photo },
+        message: 'Photo updated successfully',
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_vehicle_photo', photoId: req.params.photoId });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update photo',
+      });
+    }
+  }
+
+  async reorder(req: Request, res: Response): Promise<Response> {
+    try {
+      const vehicleId = req.params.id;
+      if (!vehicleId) {
+        return res.status(400).json({ success: false, error: 'Vehicle ID is required' });
+      }
+
+      const photos = await vehiclePhotoService.reorder(vehicleId, req.body.photoIds);
+
+      return res.json({
+        success: true,
+        data: { photos },
+        message: 'Photos reordered successfully',
+      });
+    } catch (error) {
+      if (error instanceof PhotoUploadError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      logger.logError(error as Error, { operation: 'reorder_vehicle_photos', vehicleId: req.params.id });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reorder photos',
+      });
+    }
+  }
+
+  async remove(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id: vehicleId, photoId } = req.params;
+      if (!vehicleId || !photoId) {
+        return res.status(400).json({ success: false, error: 'Vehicle ID and photo ID are required' });
+      }
+
+      const removed = await vehiclePhotoService.remove(vehicleId, photoId);
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          error: 'Photo not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Photo deleted successfully',
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_vehicle_photo', photoId: req.params.photoId });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete photo',
+      });
+    }
+  }
+}
+
+export const vehiclePhotoController = new VehiclePhotoController();
@@ -1,22 +1,99 @@
-import { readFileSync } from 'fs';
 import { join } from 'path';
 import { pool } from './config';
+import { MigrationRunner } from './migrationRunner';
+
+const USAGE = `Usage: npm run migrate -- <command>
+
+Commands:
+  status          List applied and pending migrations and check for drift
+  up [version]    Apply pending migrations, optionally only up to a version (default command)
+  down [steps]    Revert the last applied migrations (1 by default)
+  redo            Revert and reapply the last migration`;
+
+const runner = new MigrationRunner(pool, join(__dirname, 'migrations'));
+
+// Prints the history and every kind of drift; returns false when anything drifted
+const printStatus = async (): Promise<boolean> => {
+  const plan = await runner.plan();
+  const modified = new Set(plan.modified.map(file => file.version));
+
+  for (const migration of plan.applied) {
+    const state = modified.has(migration.version) ? 'MODIFIED' : 'applied';
+    console.log(`  ${state.padEnd(8)} ${migration.version}_${migration.name} (${new Date(migration.appliedAt).toISOString()})`);
+  }
+  for (const file of plan.pending) {
+    console.log(`  ${'pending'.padEnd(8)} ${file.fileName}`);
+  }
+
+  const problems = [
+    ...plan.modified.map(file => `${file.fileName} changed after it was applied`),
+    ...plan.missing.map(migration => `${migration.version}_${migration.name} is applied but its file is missing`),
+    ...plan.outOfOrder.map(file => `${file.fileName} is pending but older than the last applied migration`),
+  ];
+
+  // Replaying the migrations against the live schema only makes sense once they are all applied
+  if (plan.pending.length === 0) {
+    const drift = await runner.detectSchemaDrift();
+    problems.push(
+      ...drift.missingColumns.map(column => `${column} is created by the migrations but missing from the database`),
+      ...drift.unexpectedColumns.map(column => `${column} exists in the database but no migration creates it`)
+    );
+  }
+
+  console.log(`\n${plan.applied.length} applied, ${plan.pending.length} pending`);
+  if (problems.length > 0) {
+    console.log(`\nDrift detected:\n  ${problems.join('\n  ')}`);
+    return false;
+  }
+
+  console.log('No drift detected');
+  return true;
+};
+
+const parseNumber = (value: string | undefined, label: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = parseInt(value);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return parsed;
+};
 
 const runMigration = async (): Promise<void> => {
+  const [command = 'up', argument] = process.argv.slice(2);
+
   try {
-    console.log('Starting database migration...');
-    
-    // Read the migration file
-    const migrationPath = join(__dirname, 'migrations', '001_initial_schema.sql');
-    const migrationSQL = readFileSync(migrationPath, 'utf8');
-    
-    // Execute the migration
-    await pool.query(migrationSQL);
-    
-    console.log('Database migration completed successfully!');
+    switch (command) {
+      case 'status': {
+        const clean = await printStatus();
+        process.exitCode = clean ? 0 : 1;
+        break;
+      }
+      case 'up': {
+        const applied = await runner.up(parseNumber(argument, 'Target version'));
+        console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+        break;
+      }
+      case 'down': {
+        const reverted = await runner.down(parseNumber(argument, 'Steps') ?? 1);
+        console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s)` : 'No migrations to revert');
+        break;
+      }
+      case 'redo': {
+        const redone = await runner.redo();
+        console.log(redone ? `Redid ${redone.fileName}` : 'No migrations to redo');
+        break;
+      }
+      default:
+        console.log(USAGE);
+        process.exitCode = 1;
+    }
   } catch (error) {
-    console.error('Migration failed:', error);
-    process.exit(1);
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
   } finally {
     await pool.end();
   }
@@ -25,4 +102,4 @@ const runMigration = async (): Promise<void> => {
 // Run migration if this file is executed directly
 if (require.main === module) {
   runMigration();
-} 
\ No newline at end of file
+}
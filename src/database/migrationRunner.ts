@@ -0,0 +1,283 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { Pool, PoolClient } from 'pg';
+import { logger } from '../services/logger';
+
+// Up migrations are NNN_name.sql files in the migrations directory; the matching down
+// migration has the same file name under migrations/down
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+// Advisory lock key ("MIGR") held while migrating, so two instances starting at once do not
+// apply the same migration twice
+const MIGRATION_LOCK_KEY = 0x4d494752;
+
+// Scratch schema the migrations are replayed into to compare against the live schema
+const DRIFT_CHECK_SCHEMA = 'migration_drift_check';
+
+export interface MigrationFile {
+  version: number;
+  name: string;
+  fileName: string;
+  checksum: string;
+  sql: string;
+  downSql?: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+  executionMs: number;
+}
+
+export interface MigrationPlan {
+  applied: AppliedMigration[];
+  pending: MigrationFile[];
+  // Applied migrations whose file changed afterwards
+  modified: MigrationFile[];
+  // Applied migrations whose file is gone
+  missing: AppliedMigration[];
+  // Pending migrations numbered below the last applied one
+  outOfOrder: MigrationFile[];
+}
+
+export interface SchemaDrift {
+  // Columns the migrations create that the database lacks, as table.column
+  missingColumns: string[];
+  // Columns in the database that no migration creates
+  unexpectedColumns: string[];
+}
+
+export const checksum = (sql: string): string => createHash('sha256').update(sql).digest('hex');
+
+export const discoverMigrations = (directory: string): MigrationFile[] => {
+  const migrations = readdirSync(directory)
+    .map(fileName => ({ fileName, match: FILE_PATTERN.exec(fileName) }))
+    .filter((entry): entry is { fileName: string; match: RegExpExecArray } => entry.match !== null)
+    .map(({ fileName, match }) => {
+      const sql = readFileSync(join(directory, fileName), 'utf8');
+      const downPath = join(directory, 'down', fileName);
+
+      return {
+        version: parseInt(match[1]!),
+        name: match[2]!,
+        fileName,
+        checksum: checksum(sql),
+        sql,
+        ...(existsSync(downPath) && { downSql: readFileSync(downPath, 'utf8') }),
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  const duplicate = migrations.find((migration, index) => index > 0 && migrations[index - 1]!.version === migration.version);
+  if (duplicate) {
+    throw new Error(`Two migrations share version ${duplicate.version}`);
+  }
+
+  return migrations;
+};
+
+export const planMigrations = (files: MigrationFile[], applied: AppliedMigration[]): MigrationPlan => {
+  const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+  const filesByVersion = new Map(files.map(file => [file.version, file]));
+  const lastApplied = applied.reduce((max, migration) => Math.max(max, migration.version), 0);
+
+  const pending = files.filter(file => !appliedByVersion.has(file.version));
+
+  return {
+    applied,
+    pending,
+    modified: files.filter(file => {
+      const migration = appliedByVersion.get(file.version);
+      return migration !== undefined && migration.checksum !== file.checksum;
+    }),
+    missing: applied.filter(migration => !filesByVersion.has(migration.version)),
+    outOfOrder: pending.filter(file => file.version < lastApplied),
+  };
+};
+
+export class MigrationRunner {
+  constructor(
+    private readonly pool: Pool,
+    private readonly directory: string
+  ) {}
+
+  async plan(): Promise<MigrationPlan> {
+    const client = await this.pool.connect();
+    try {
+      await this.ensureHistoryTable(client);
+      return planMigrations(discoverMigrations(this.directory), await this.getApplied(client));
+    } finally {
+      client.release();
+    }
+  }
+
+  // Applies pending migrations in version order, each in its own transaction together with
+  // its history row. Refuses to run while applied files have been edited or removed.
+  async up(targetVersion?: number): Promise<MigrationFile[]> {
+    return this.withLock(async (client) => {
+      const plan = planMigrations(discoverMigrations(this.directory), await this.getApplied(client));
+      this.assertNoFileDrift(plan);
+
+      plan.outOfOrder.forEach(file =>
+        logger.warn('Applying a migration older than the last applied one', { file: file.fileName })
+      );
+
+      const toApply = plan.pending.filter(file => targetVersion === undefined || file.version <= targetVersion);
+      for (const file of toApply) {
+        await this.apply(client, file);
+      }
+
+      return toApply;
+    });
+  }
+
+  // Reverts the last `steps` applied migrations, newest first
+  async down(steps: number = 1): Promise<AppliedMigration[]> {
+    return this.withLock(async (client) => {
+      const files = new Map(discoverMigrations(this.directory).map(file => [file.version, file]));
+      const toRevert = (await this.getApplied(client)).reverse().slice(0, steps);
+
+      for (const migration of toRevert) {
+        const file = files.get(migration.version);
+        if (!file?.downSql) {
+          throw new Error(`No down migration for ${migration.version}_${migration.name}`);
+        }
+        await this.revert(client, file);
+      }
+
+      return toRevert;
+    });
+  }
+
+  // Reverts and reapplies the last migration, to iterate on the one being written
+  async redo(): Promise<MigrationFile | null> {
+    const [reverted] = await this.down(1);
+    if (!reverted) {
+      return null;
+    }
+
+    const [applied] = await this.up(reverted.version);
+    return applied ?? null;
+  }
+
+  // Replays every migration into a scratch schema inside a transaction that is rolled back,
+  // then compares its columns with the live public schema
+  async detectSchemaDrift(): Promise<SchemaDrift> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`CREATE SCHEMA ${DRIFT_CHECK_SCHEMA}`);
+      await client.query(`SET LOCAL search_path TO ${DRIFT_CHECK_SCHEMA}`);
+
+      for (const file of discoverMigrations(this.directory)) {
+        await client.query(file.sql);
+      }
+
+      const expected = await this.getColumns(client, DRIFT_CHECK_SCHEMA);
+      // The history table is the runner's own and never part of a migration
+      const actual = new Set(
+        [...(await this.getColumns(client, 'public'))].filter(column => !column.startsWith('schema_migrations.'))
+      );
+
+      return {
+        missingColumns: [...expected].filter(column => !actual.has(column)).sort(),
+        unexpectedColumns: [...actual].filter(column => !expected.has(column)).sort(),
+      };
+    } finally {
+      await client.query('ROLLBACK');
+      client.release();
+    }
+  }
+
+  private async apply(client: PoolClient, file: MigrationFile): Promise<void> {
+    logger.info('Applying migration', { file: file.fileName });
+    const startTime = Date.now();
+
+    await this.inTransaction(client, async () => {
+      await client.query(file.sql);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+        [file.version, file.name, file.checksum, Date.now() - startTime]
+      );
+    });
+  }
+
+  private async revert(client: PoolClient, file: MigrationFile): Promise<void> {
+    logger.info('Reverting migration', { file: file.fileName });
+
+    await this.inTransaction(client, async () => {
+      await client.query(file.downSql!);
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [file.version]);
+    });
+  }
+
+  private assertNoFileDrift(plan: MigrationPlan): void {
+    const problems = [
+      ...plan.modified.map(file => `${file.fileName} changed after it was applied`),
+      ...plan.missing.map(migration => `${migration.version}_${migration.name} was applied but its file is missing`),
+    ];
+
+    if (problems.length > 0) {
+      throw new Error(`Migration files drifted from the database:\n  ${problems.join('\n  ')}`);
+    }
+  }
+
+  private async withLock<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      await this.ensureHistoryTable(client);
+      return await work(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  private async inTransaction(client: PoolClient, work: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+      await work();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async ensureHistoryTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        execution_ms INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+  }
+
+  private async getApplied(client: PoolClient): Promise<AppliedMigration[]> {
+    const result = await client.query('SELECT * FROM schema_migrations ORDER BY version ASC');
+
+    return result.rows.map(row => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+      executionMs: row.execution_ms,
+    }));
+  }
+
+  private async getColumns(client: PoolClient, schema: string): Promise<Set<string>> {
+    const result = await client.query(
+      'SELECT table_name, column_name FROM information_schema.columns WHERE table_schema = $1',
+      [schema]
+    );
+
+    return new Set(result.rows.map(row => `${row.table_name}.${row.column_name}`));
+  }
+}
@@ -0,0 +1,23 @@
+-- Create vehicle reservations table
+CREATE TABLE IF NOT EXISTS vehicle_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  deposit_amount DECIMAL(10,2),
+  deposit_reference VARCHAR(255),
+  notes TEXT,
+  released_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  released_at TIMESTAMP WITH TIME ZONE,
+  release_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- A vehicle can only have one active hold at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicle_reservations_active_vehicle
+  ON vehicle_reservations(vehicle_id) WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_reservations_user_id ON vehicle_reservations(user_id);
+CREATE INDEX IF NOT EXISTS idx_vehicle_reservations_status_expires_at ON vehicle_reservations(status, expires_at);
@@ -0,0 +1,18 @@
+-- Create order payments ledger
+CREATE TABLE IF NOT EXISTS order_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  method VARCHAR(20) NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  reference VARCHAR(255),
+  notes TEXT,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  voided_at TIMESTAMP WITH TIME ZONE,
+  voided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  void_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_order_id ON order_payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_payments_received_at ON order_payments(received_at);
@@ -0,0 +1,27 @@
+-- Create financing rate table
+CREATE TABLE IF NOT EXISTS financing_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  term_months INTEGER NOT NULL CHECK (term_months > 0),
+  min_vehicle_age INTEGER NOT NULL DEFAULT 0 CHECK (min_vehicle_age >= 0),
+  max_vehicle_age INTEGER CHECK (max_vehicle_age IS NULL OR max_vehicle_age >= min_vehicle_age),
+  annual_rate DECIMAL(5,2) NOT NULL CHECK (annual_rate >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (term_months, min_vehicle_age)
+);
+
+CREATE INDEX IF NOT EXISTS idx_financing_rates_term_months ON financing_rates(term_months);
+
+-- Default dealership rates: newer vehicles get better rates
+INSERT INTO financing_rates (term_months, min_vehicle_age, max_vehicle_age, annual_rate) VALUES
+  (12, 0, 3, 8.90),
+  (24, 0, 3, 9.50),
+  (36, 0, 3, 10.25),
+  (48, 0, 3, 11.00),
+  (60, 0, 3, 11.90),
+  (12, 4, NULL, 10.90),
+  (24, 4, NULL, 11.75),
+  (36, 4, NULL, 12.50),
+  (48, 4, NULL, 13.50)
+ON CONFLICT (term_months, min_vehicle_age) DO NOTHING;
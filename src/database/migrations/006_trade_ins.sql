@@ -0,0 +1,25 @@
+-- Create trade-in appraisals
+CREATE TABLE IF NOT EXISTS trade_ins (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  brand VARCHAR(100) NOT NULL,
+  model VARCHAR(100) NOT NULL,
+  year INTEGER NOT NULL CHECK (year >= 1900),
+  mileage INTEGER NOT NULL CHECK (mileage >= 0),
+  condition_grade VARCHAR(20) NOT NULL CHECK (condition_grade IN ('excellent', 'good', 'fair', 'poor')),
+  appraised_value DECIMAL(10,2) NOT NULL CHECK (appraised_value >= 0),
+  appraised_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'appraised' CHECK (status IN ('appraised', 'accepted', 'rejected')),
+  vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
+  notes TEXT,
+  decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  rejection_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_ins_order_id ON trade_ins(order_id);
+CREATE INDEX IF NOT EXISTS idx_trade_ins_customer_id ON trade_ins(customer_id);
+CREATE INDEX IF NOT EXISTS idx_trade_ins_status ON trade_ins(status);
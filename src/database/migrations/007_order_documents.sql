@@ -0,0 +1,13 @@
+-- Create generated order documents (invoices and purchase contracts)
+CREATE TABLE IF NOT EXISTS order_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('invoice', 'contract')),
+  document_number VARCHAR(50) NOT NULL,
+  file_path VARCHAR(500) NOT NULL,
+  file_size INTEGER NOT NULL,
+  generated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (order_id, type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_documents_order_id ON order_documents(order_id);
@@ -0,0 +1,5 @@
+-- Track the salesperson responsible for each order
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS salesperson_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_salesperson_id ON orders(salesperson_id);
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
@@ -0,0 +1,23 @@
+-- Create vehicle photo gallery
+CREATE TABLE IF NOT EXISTS vehicle_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  storage_key VARCHAR(500) NOT NULL,
+  url VARCHAR(1000) NOT NULL,
+  thumbnails JSONB NOT NULL DEFAULT '{}',
+  caption VARCHAR(255),
+  position INTEGER NOT NULL DEFAULT 0,
+  is_main BOOLEAN NOT NULL DEFAULT false,
+  content_type VARCHAR(50) NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_photos_vehicle_position ON vehicle_photos(vehicle_id, position);
+
+-- At most one main photo per vehicle
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicle_photos_main
+  ON vehicle_photos(vehicle_id) WHERE is_main = true;
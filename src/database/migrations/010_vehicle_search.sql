@@ -0,0 +1,19 @@
+-- Full-text search over brand, model, description and key technical specs.
+-- Both Spanish and English stemming are indexed so either language matches.
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('spanish', coalesce(brand, '') || ' ' || coalesce(model, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(brand, '') || ' ' || coalesce(model, '')), 'A') ||
+    setweight(to_tsvector('spanish', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('spanish',
+      coalesce(technical_specs->>'engine', '') || ' ' ||
+      coalesce(technical_specs->>'color', '') || ' ' ||
+      coalesce(technical_specs->>'fuelType', '')), 'C') ||
+    setweight(to_tsvector('english',
+      coalesce(technical_specs->>'engine', '') || ' ' ||
+      coalesce(technical_specs->>'color', '') || ' ' ||
+      coalesce(technical_specs->>'fuelType', '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_search_vector ON vehicles USING GIN (search_vector);
@@ -0,0 +1,6 @@
+-- Composite indexes backing keyset pagination: every sortable column is paired
+-- with id as a tiebreaker so cursors stay stable while inventory changes.
+CREATE INDEX IF NOT EXISTS idx_vehicles_price_id ON vehicles(price, id);
+CREATE INDEX IF NOT EXISTS idx_vehicles_year_id ON vehicles(year, id);
+CREATE INDEX IF NOT EXISTS idx_vehicles_mileage_id ON vehicles(mileage, id);
+CREATE INDEX IF NOT EXISTS idx_vehicles_created_at_id ON vehicles(created_at, id);
@@ -0,0 +1,123 @@
+-- Brand and model catalog used to validate and normalize vehicle listings.
+-- Matching ignores case and punctuation ("mercedes benz" = "Mercedes-Benz");
+-- aliases cover common short forms ("mercedes", "vw", "chevy").
+CREATE TABLE IF NOT EXISTS brands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_brands_name_key
+  ON brands ((regexp_replace(lower(name), '[^a-z0-9]', '', 'g')));
+
+CREATE TABLE IF NOT EXISTS models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_models_brand_name_key
+  ON models (brand_id, (regexp_replace(lower(name), '[^a-z0-9]', '', 'g')));
+CREATE INDEX IF NOT EXISTS idx_models_brand_id ON models(brand_id);
+
+-- Brands and models previously hard-coded in the API
+INSERT INTO brands (name, aliases) VALUES
+  ('Toyota', '{}'),
+  ('Honda', '{}'),
+  ('Ford', '{}'),
+  ('Volkswagen', '{vw}'),
+  ('BMW', '{}'),
+  ('Mercedes-Benz', '{mercedes,benz}'),
+  ('Audi', '{}'),
+  ('Nissan', '{}'),
+  ('Chevrolet', '{chevy}'),
+  ('Hyundai', '{}'),
+  ('Kia', '{}'),
+  ('Mazda', '{}'),
+  ('Subaru', '{}'),
+  ('Lexus', '{}'),
+  ('Acura', '{}'),
+  ('Infiniti', '{}'),
+  ('Volvo', '{}'),
+  ('Porsche', '{}')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO models (brand_id, name)
+SELECT b.id, m.name
+FROM (VALUES
+  ('Toyota', 'Corolla'), ('Toyota', 'Camry'), ('Toyota', 'RAV4'), ('Toyota', 'Highlander'), ('Toyota', 'Tacoma'), ('Toyota', 'Tundra'),
+  ('Honda', 'Civic'), ('Honda', 'Accord'), ('Honda', 'CR-V'), ('Honda', 'Pilot'), ('Honda', 'Ridgeline'),
+  ('Ford', 'Focus'), ('Ford', 'Fusion'), ('Ford', 'Escape'), ('Ford', 'Explorer'), ('Ford', 'F-150'),
+  ('BMW', '3 Series'), ('BMW', '5 Series'), ('BMW', 'X3'), ('BMW', 'X5'), ('BMW', 'M3'), ('BMW', 'M5'),
+  ('Mercedes-Benz', 'C-Class'), ('Mercedes-Benz', 'E-Class'), ('Mercedes-Benz', 'S-Class'), ('Mercedes-Benz', 'GLC'), ('Mercedes-Benz', 'GLE')
+) AS m(brand, name)
+JOIN brands b ON b.name = m.brand
+ON CONFLICT DO NOTHING;
+
+-- One-time backfill from existing inventory: register unknown brands and models
+-- with their most frequent spelling, then rewrite vehicles to the catalog names.
+INSERT INTO brands (name)
+SELECT DISTINCT ON (key) brand
+FROM (
+  SELECT trim(brand) AS brand, regexp_replace(lower(brand), '[^a-z0-9]', '', 'g') AS key, COUNT(*) AS uses
+  FROM vehicles
+  GROUP BY trim(brand), key
+) AS spellings
+WHERE key <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM brands b
+    WHERE regexp_replace(lower(b.name), '[^a-z0-9]', '', 'g') = spellings.key
+       OR spellings.key = ANY (SELECT regexp_replace(lower(a), '[^a-z0-9]', '', 'g') FROM unnest(b.aliases) AS a)
+  )
+ORDER BY key, uses DESC
+ON CONFLICT DO NOTHING;
+
+WITH vehicle_brands AS (
+  SELECT v.id AS vehicle_id, b.id AS brand_id, b.name AS brand_name
+  FROM vehicles v
+  JOIN brands b
+    ON regexp_replace(lower(b.name), '[^a-z0-9]', '', 'g') = regexp_replace(lower(v.brand), '[^a-z0-9]', '', 'g')
+    OR regexp_replace(lower(v.brand), '[^a-z0-9]', '', 'g') = ANY (SELECT regexp_replace(lower(a), '[^a-z0-9]', '', 'g') FROM unnest(b.aliases) AS a)
+)
+UPDATE vehicles v
+SET brand = vb.brand_name
+FROM vehicle_brands vb
+WHERE v.id = vb.vehicle_id AND v.brand <> vb.brand_name;
+
+INSERT INTO models (brand_id, name)
+SELECT DISTINCT ON (brand_id, key) brand_id, model
+FROM (
+  SELECT b.id AS brand_id, trim(v.model) AS model,
+         regexp_replace(lower(v.model), '[^a-z0-9]', '', 'g') AS key, COUNT(*) AS uses
+  FROM vehicles v
+  JOIN brands b ON b.name = v.brand
+  GROUP BY b.id, trim(v.model), key
+) AS spellings
+WHERE key <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM models m
+    WHERE m.brand_id = spellings.brand_id
+      AND (regexp_replace(lower(m.name), '[^a-z0-9]', '', 'g') = spellings.key
+        OR spellings.key = ANY (SELECT regexp_replace(lower(a), '[^a-z0-9]', '', 'g') FROM unnest(m.aliases) AS a))
+  )
+ORDER BY brand_id, key, uses DESC
+ON CONFLICT DO NOTHING;
+
+WITH vehicle_models AS (
+  SELECT v.id AS vehicle_id, m.name AS model_name
+  FROM vehicles v
+  JOIN brands b ON b.name = v.brand
+  JOIN models m
+    ON m.brand_id = b.id
+   AND (regexp_replace(lower(m.name), '[^a-z0-9]', '', 'g') = regexp_replace(lower(v.model), '[^a-z0-9]', '', 'g')
+     OR regexp_replace(lower(v.model), '[^a-z0-9]', '', 'g') = ANY (SELECT regexp_replace(lower(a), '[^a-z0-9]', '', 'g') FROM unnest(m.aliases) AS a))
+)
+UPDATE vehicles v
+SET model = vm.model_name
+FROM vehicle_models vm
+WHERE v.id = vm.vehicle_id AND v.model <> vm.model_name;
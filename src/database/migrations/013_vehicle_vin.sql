@@ -0,0 +1,5 @@
+-- Vehicle identification number (17 characters, ISO 3779). Optional for
+-- listings created before VINs were tracked, unique once set.
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS vin VARCHAR(17);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicles_vin ON vehicles(vin);
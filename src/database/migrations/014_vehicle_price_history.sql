@@ -0,0 +1,14 @@
+-- Audit trail of every vehicle price change, whatever its origin
+CREATE TABLE IF NOT EXISTS vehicle_price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  old_price DECIMAL(10,2) NOT NULL,
+  new_price DECIMAL(10,2) NOT NULL,
+  source VARCHAR(20) NOT NULL CHECK (source IN ('manual', 'import', 'rule')),
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_price_history_vehicle_changed
+  ON vehicle_price_history(vehicle_id, changed_at DESC);
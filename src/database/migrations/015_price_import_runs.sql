@@ -0,0 +1,26 @@
+-- Registry of ingested price files. A file is identified by its source, key and
+-- content fingerprint (S3 ETag or SHA-256 of a local file) so it is applied once;
+-- forced reprocesses are recorded as further attempts of the same file.
+CREATE TABLE IF NOT EXISTS price_import_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source VARCHAR(20) NOT NULL CHECK (source IN ('s3', 'local')),
+  object_key TEXT NOT NULL,
+  fingerprint VARCHAR(128) NOT NULL,
+  attempt INTEGER NOT NULL DEFAULT 1 CHECK (attempt > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  applied_rows INTEGER NOT NULL DEFAULT 0,
+  skipped_rows INTEGER NOT NULL DEFAULT 0,
+  rejected_rows INTEGER NOT NULL DEFAULT 0,
+  report JSONB,
+  error TEXT,
+  archived_path TEXT,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  UNIQUE (source, object_key, fingerprint, attempt)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_import_runs_started_at ON price_import_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_price_import_runs_status ON price_import_runs(status);
@@ -0,0 +1,4 @@
+-- Price files can also arrive through the admin upload endpoint
+ALTER TABLE price_import_runs DROP CONSTRAINT IF EXISTS price_import_runs_source_check;
+ALTER TABLE price_import_runs
+  ADD CONSTRAINT price_import_runs_source_check CHECK (source IN ('s3', 'local', 'upload'));
@@ -0,0 +1,11 @@
+-- Files with price changes beyond the warning threshold wait for an admin decision.
+-- The preview (per-vehicle diff) is kept on the run so reviewers see what was held.
+ALTER TABLE price_import_runs DROP CONSTRAINT IF EXISTS price_import_runs_status_check;
+ALTER TABLE price_import_runs
+  ADD CONSTRAINT price_import_runs_status_check
+  CHECK (status IN ('processing', 'completed', 'failed', 'pending_approval', 'rejected'));
+
+ALTER TABLE price_import_runs ADD COLUMN IF NOT EXISTS preview JSONB;
+ALTER TABLE price_import_runs ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE price_import_runs ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE price_import_runs ADD COLUMN IF NOT EXISTS review_note TEXT;
@@ -0,0 +1,28 @@
+-- Admin-defined automatic repricing. Every active rule whose scope matches a vehicle is
+-- applied in priority order: an optional stepped percentage adjustment (once the vehicle has
+-- been in stock for start_after_days, then every interval_days), rounding and a price floor.
+CREATE TABLE IF NOT EXISTS repricing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100,
+  brand VARCHAR(50),
+  min_year INTEGER,
+  max_year INTEGER CHECK (max_year IS NULL OR min_year IS NULL OR max_year >= min_year),
+  min_mileage INTEGER CHECK (min_mileage IS NULL OR min_mileage >= 0),
+  max_mileage INTEGER CHECK (max_mileage IS NULL OR min_mileage IS NULL OR max_mileage >= min_mileage),
+  start_after_days INTEGER NOT NULL DEFAULT 0 CHECK (start_after_days >= 0),
+  interval_days INTEGER CHECK (interval_days IS NULL OR interval_days > 0),
+  adjustment_percent DECIMAL(5,2) CHECK (adjustment_percent IS NULL OR adjustment_percent > -100),
+  round_to INTEGER CHECK (round_to IS NULL OR round_to > 0),
+  floor_price DECIMAL(10,2) CHECK (floor_price IS NULL OR floor_price >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (adjustment_percent IS NOT NULL OR round_to IS NOT NULL OR floor_price IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_repricing_rules_active_priority ON repricing_rules(is_active, priority);
+
+-- The stepping clock of a vehicle is its last rule-driven price change
+CREATE INDEX IF NOT EXISTS idx_vehicle_price_history_rule_changes
+  ON vehicle_price_history(vehicle_id, changed_at DESC) WHERE source = 'rule';
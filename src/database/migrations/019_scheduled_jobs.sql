@@ -0,0 +1,27 @@
+-- Pause state of registered background jobs, shared by every replica. Jobs without a row are active.
+CREATE TABLE IF NOT EXISTS job_settings (
+  job_name VARCHAR(100) PRIMARY KEY,
+  is_paused BOOLEAN NOT NULL DEFAULT false,
+  paused_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  paused_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per execution of a job, including its retries, log lines and result
+CREATE TABLE IF NOT EXISTS job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name VARCHAR(100) NOT NULL,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed', 'timed_out')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  instance VARCHAR(255) NOT NULL,
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  result JSONB,
+  error TEXT,
+  logs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started ON job_runs(job_name, started_at DESC);
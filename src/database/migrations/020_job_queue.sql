@@ -0,0 +1,39 @@
+-- Durable work queue processed by the worker (src/worker.ts). Workers claim due jobs with
+-- FOR UPDATE SKIP LOCKED, so several of them can poll the same table without contention.
+CREATE TABLE IF NOT EXISTS queued_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  locked_by VARCHAR(255),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_queued_jobs_due ON queued_jobs(run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_queued_jobs_running ON queued_jobs(locked_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_queued_jobs_type_status ON queued_jobs(type, status);
+
+-- Jobs that used up their attempts. Requeueing creates a fresh queued job and keeps the entry.
+CREATE TABLE IF NOT EXISTS dead_letter_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL,
+  type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL,
+  error TEXT,
+  enqueued_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  failed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  requeued_at TIMESTAMP WITH TIME ZONE,
+  requeued_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  requeued_job_id UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_jobs_failed ON dead_letter_jobs(failed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dead_letter_jobs_pending ON dead_letter_jobs(type) WHERE requeued_at IS NULL;
@@ -0,0 +1,3 @@
+-- Deleting a vehicle only stamps deleted_at so orders, reservations and price history keep
+-- their reference; every vehicle query filters on deleted_at IS NULL.
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
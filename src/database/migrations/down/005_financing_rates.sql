@@ -0,0 +1 @@
+DROP TABLE IF EXISTS financing_rates;
@@ -0,0 +1,2 @@
+-- idx_orders_created_at also belongs to 001 and is kept
+ALTER TABLE orders DROP COLUMN IF EXISTS salesperson_id;
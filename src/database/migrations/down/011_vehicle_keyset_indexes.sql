@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_vehicles_price_id;
+DROP INDEX IF EXISTS idx_vehicles_year_id;
+DROP INDEX IF EXISTS idx_vehicles_mileage_id;
+DROP INDEX IF EXISTS idx_vehicles_created_at_id;
@@ -0,0 +1,3 @@
+-- Brand and model names normalized on vehicles by the up migration are left as they are
+DROP TABLE IF EXISTS models;
+DROP TABLE IF EXISTS brands;
@@ -0,0 +1,4 @@
+DELETE FROM price_import_runs WHERE source = 'upload';
+ALTER TABLE price_import_runs DROP CONSTRAINT IF EXISTS price_import_runs_source_check;
+ALTER TABLE price_import_runs
+  ADD CONSTRAINT price_import_runs_source_check CHECK (source IN ('s3', 'local'));
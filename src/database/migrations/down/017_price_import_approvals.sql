@@ -0,0 +1,10 @@
+-- Held and rejected files have no equivalent status before this migration
+DELETE FROM price_import_runs WHERE status IN ('pending_approval', 'rejected');
+ALTER TABLE price_import_runs DROP CONSTRAINT IF EXISTS price_import_runs_status_check;
+ALTER TABLE price_import_runs
+  ADD CONSTRAINT price_import_runs_status_check CHECK (status IN ('processing', 'completed', 'failed'));
+
+ALTER TABLE price_import_runs DROP COLUMN IF EXISTS preview;
+ALTER TABLE price_import_runs DROP COLUMN IF EXISTS reviewed_by;
+ALTER TABLE price_import_runs DROP COLUMN IF EXISTS reviewed_at;
+ALTER TABLE price_import_runs DROP COLUMN IF EXISTS review_note;
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_vehicle_price_history_rule_changes;
+DROP TABLE IF EXISTS repricing_rules;
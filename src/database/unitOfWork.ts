@@ -0,0 +1,37 @@
+import { PoolClient } from 'pg';
+import { pool } from './config';
+
+// Runs the given work inside a single transaction. Repositories receive the
+// transaction client so several of them can take part in the same unit of work.
+export const withTransaction = async <T>(work: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Uses the caller's transaction client when given, otherwise a pooled client
+// that is released once the work is done.
+export const withClient = async <T>(
+  client: PoolClient | undefined,
+  work: (client: PoolClient) => Promise<T>
+): Promise<T> => {
+  if (client) {
+    return work(client);
+  }
+
+  const pooledClient = await pool.connect();
+  try {
+    return await work(pooledClient);
+  } finally {
+    pooledClient.release();
+  }
+};
@@ -2,8 +2,7 @@ import app from './app';
 import { logger } from '@/services/logger';
 import { redisService } from '@/services/redis';
 import { testConnection } from '@/database/config';
-import cron from 'node-cron';
-import { priceProcessorService } from '@/services/priceProcessor';
+import { jobRegistry } from '@/services/scheduledJobs';
 
 const PORT = process.env.PORT || 3000;
 
@@ -29,25 +28,12 @@ async function startServer(): Promise<void> {
       logger.info(`API Version: ${process.env.API_VERSION || 'v1'}`);
     });
 
-    cron.schedule('* * * * *', async () => {
-      try {
-        if (!priceProcessorService.isCurrentlyProcessing()) {
-          logger.info('Starting scheduled price processing');
-          await priceProcessorService.startProcessing();
-        }
-      } catch (error) {
-        if (error instanceof Error) {
-          logger.error('Scheduled price processing failed', { error: error.message });
-        } else {
-          logger.error('Scheduled price processing failed', { error: String(error) });
-        }
-      }
-    });
-
-    logger.info('Cron job scheduled for price processing');
+    // Each job takes its own shared lock so it runs on a single replica at a time
+    jobRegistry.start();
 
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, shutting down server');
+      jobRegistry.stop();
       server.close(() => {
         logger.info('Server closed');
         process.exit(0);
@@ -56,6 +42,7 @@ async function startServer(): Promise<void> {
 
     process.on('SIGINT', () => {
       logger.info('SIGINT received, shutting down server');
+      jobRegistry.stop();
       server.close(() => {
         logger.info('Server closed');
         process.exit(0);
@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+export const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_PHOTOS_PER_UPLOAD = parseInt(process.env.UPLOAD_MAX_FILES || '10');
+
+// Browsers and spreadsheet tools disagree on the MIME type of a CSV
+export const ALLOWED_PRICE_FILE_TYPES = ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'];
+
+const MAX_FILE_SIZE = parseInt(process.env.UPLOAD_MAX_SIZE || '5242880');
+const MAX_PRICE_FILE_SIZE = parseInt(process.env.PRICE_UPLOAD_MAX_SIZE || '10485760');
+
+class UnsupportedFileTypeError extends Error {
+  constructor(fileName: string, allowedTypes: string[]) {
+    super(`${fileName} has an unsupported type. Allowed types: ${allowedTypes.join(', ')}`);
+    this.name = 'UnsupportedFileTypeError';
+  }
+}
+
+const MULTER_ERROR_MESSAGES: Partial<Record<multer.ErrorCode, string>> = {
+  LIMIT_FILE_SIZE: `Each photo must be smaller than ${MAX_FILE_SIZE} bytes`,
+  LIMIT_FILE_COUNT: `At most ${MAX_PHOTOS_PER_UPLOAD} photos can be uploaded at once`,
+  LIMIT_UNEXPECTED_FILE: 'Photos must be sent in the "photos" field',
+};
+
+// Files are kept in memory so invalid images are rejected before anything is stored;
+// thumbnails are rendered later by the queue worker from the stored original
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_FILE_SIZE,
+    files: MAX_PHOTOS_PER_UPLOAD,
+  },
+  fileFilter: (req, file, cb) => {
+    if (!ALLOWED_PHOTO_TYPES.includes(file.mimetype)) {
+      cb(new UnsupportedFileTypeError(file.originalname, ALLOWED_PHOTO_TYPES));
+      return;
+    }
+    cb(null, true);
+  },
+});
+
+const PRICE_FILE_ERROR_MESSAGES: Partial<Record<multer.ErrorCode, string>> = {
+  LIMIT_FILE_SIZE: `The price file must be smaller than ${MAX_PRICE_FILE_SIZE} bytes`,
+  LIMIT_FILE_COUNT: 'Only one price file can be uploaded at a time',
+  LIMIT_UNEXPECTED_FILE: 'The price file must be sent in the "file" field',
+};
+
+const priceFileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_PRICE_FILE_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (!ALLOWED_PRICE_FILE_TYPES.includes(file.mimetype) && !file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(new UnsupportedFileTypeError(file.originalname, ALLOWED_PRICE_FILE_TYPES));
+      return;
+    }
+    cb(null, true);
+  },
+});
+
+// Runs a multer handler and turns its client errors into 400 responses
+const handleUpload = (
+  upload: (req: Request, res: Response, callback: (error: unknown) => void) => void,
+  errorMessages: Partial<Record<multer.ErrorCode, string>>
+) => (req: Request, res: Response, next: NextFunction): void => {
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      res.status(400).json({
+        success: false,
+        error: errorMessages[error.code] || error.message,
+      });
+      return;
+    }
+
+    if (error instanceof UnsupportedFileTypeError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    if (error) {
+      next(error);
+      return;
+    }
+
+    next();
+  });
+};
+
+export const uploadVehiclePhotos = handleUpload(photoUpload.array('photos', MAX_PHOTOS_PER_UPLOAD), MULTER_ERROR_MESSAGES);
+
+export const uploadPriceFile = handleUpload(priceFileUpload.single('file'), PRICE_FILE_ERROR_MESSAGES);
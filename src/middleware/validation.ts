@@ -1,6 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
-import { VehicleStatus, OrderStatus, UserRole } from '@/types';
+import {
+  VehicleStatus,
+  OrderStatus,
+  UserRole,
+  ReservationStatus,
+  PaymentMethod,
+  TradeInCondition,
+  TradeInStatus,
+  OrderDocumentType,
+  VehicleSortField,
+  PriceImportSource,
+  PriceImportRunStatus,
+  JobRunStatus,
+  QueuedJobStatus,
+} from '@/types';
+import { isValidVin } from '@/services/vin';
 
 export const handleValidationErrors = (
   req: Request,
@@ -24,6 +39,7 @@ export const validateCreateVehicle = [
   body('brand').trim().isLength({ min: 1, max: 100 }).withMessage('Brand is required and must be 1-100 characters'),
   body('model').trim().isLength({ min: 1, max: 100 }).withMessage('Model is required and must be 1-100 characters'),
   body('year').isInt({ min: 1900, max: new Date().getFullYear() + 1 }).withMessage('Year must be between 1900 and next year'),
+  body('vin').optional().trim().toUpperCase().custom(isValidVin).withMessage('VIN must be 17 characters with a valid check digit'),
   body('mileage').isInt({ min: 0 }).withMessage('Mileage must be a positive integer'),
   body('price').isFloat({ min: 0 }).withMessage('Price must be a positive number'),
   body('description').optional().isLength({ max: 1000 }).withMessage('Description must be less than 1000 characters'),
@@ -45,6 +61,7 @@ export const validateUpdateVehicle = [
   body('brand').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Brand must be 1-100 characters'),
   body('model').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Model must be 1-100 characters'),
   body('year').optional().isInt({ min: 1900, max: new Date().getFullYear() + 1 }).withMessage('Year must be between 1900 and next year'),
+  body('vin').optional({ values: 'null' }).trim().toUpperCase().custom(isValidVin).withMessage('VIN must be 17 characters with a valid check digit'),
   body('mileage').optional().isInt({ min: 0 }).withMessage('Mileage must be a positive integer'),
   body('price').optional().isFloat({ min: 0 }).withMessage('Price must be a positive number'),
   body('description').optional().isLength({ max: 1000 }).withMessage('Description must be less than 1000 characters'),
@@ -53,7 +70,61 @@ export const validateUpdateVehicle = [
   handleValidationErrors,
 ];
 
+export const validateUpdateVehiclePrice = [
+  param('id').isUUID().withMessage('Invalid vehicle ID'),
+  body('price').isFloat({ min: 0 }).withMessage('Price must be a positive number'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason must be less than 500 characters'),
+  handleValidationErrors,
+];
+
+// Lookups only check the format so VINs without a valid check digit can still be found
+export const validateVinLookup = [
+  param('vin').trim().toUpperCase().matches(/^[A-HJ-NPR-Z0-9]{17}$/).withMessage('VIN must be 17 characters (letters I, O and Q are not allowed)'),
+  handleValidationErrors,
+];
+
+// Photo gallery validation rules (run after multer has parsed the multipart body)
+export const validateUploadVehiclePhotos = [
+  param('id').isUUID().withMessage('Invalid vehicle ID'),
+  body('captions').optional(),
+  body('captions.*').optional().isLength({ max: 255 }).withMessage('Captions must be less than 255 characters'),
+  handleValidationErrors,
+];
+
+export const validateUpdateVehiclePhoto = [
+  param('id').isUUID().withMessage('Invalid vehicle ID'),
+  param('photoId').isUUID().withMessage('Invalid photo ID'),
+  body('caption').optional({ values: 'null' }).isLength({ max: 255 }).withMessage('Caption must be less than 255 characters'),
+  body('isMain').optional().isBoolean().withMessage('isMain must be a boolean').toBoolean(),
+  handleValidationErrors,
+];
+
+export const validateReorderVehiclePhotos = [
+  param('id').isUUID().withMessage('Invalid vehicle ID'),
+  body('photoIds').isArray({ min: 1 }).withMessage('photoIds must be a non-empty array'),
+  body('photoIds.*').isUUID().withMessage('Every photo ID must be a valid UUID'),
+  handleValidationErrors,
+];
+
+export const validateVehiclePhoto = [
+  param('id').isUUID().withMessage('Invalid vehicle ID'),
+  param('photoId').isUUID().withMessage('Invalid photo ID'),
+  handleValidationErrors,
+];
+
+// Validates every entry of a comma-separated or repeated query parameter
+const eachListValue = (check: (value: string) => boolean) => (input: unknown): boolean => {
+  const raw = Array.isArray(input) ? input : [input];
+  const values = raw.flatMap(item => String(item).split(',')).map(item => item.trim());
+  return values.length > 0 && values.every(check);
+};
+
+const isSpecText = (value: string): boolean => value.length >= 1 && value.length <= 50;
+const isIntBetween = (min: number, max: number) => (value: string): boolean =>
+  /^\d+$/.test(value) && parseInt(value) >= min && parseInt(value) <= max;
+
 export const validateVehicleFilters = [
+  query('q').optional().trim().isLength({ min: 1, max: 200 }).withMessage('Search query must be 1-200 characters'),
   query('brand').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Brand filter must be 1-100 characters'),
   query('model').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Model filter must be 1-100 characters'),
   query('yearMin').optional().isInt({ min: 1900 }).withMessage('Year minimum must be 1900 or later'),
@@ -62,11 +133,174 @@ export const validateVehicleFilters = [
   query('priceMax').optional().isFloat({ min: 0 }).withMessage('Price maximum must be positive'),
   query('mileageMax').optional().isInt({ min: 0 }).withMessage('Mileage maximum must be positive'),
   query('status').optional().isIn(Object.values(VehicleStatus)).withMessage('Invalid vehicle status'),
+  query('transmission').optional().custom(eachListValue(isSpecText)).withMessage('Each transmission must be 1-50 characters'),
+  query('fuelType').optional().custom(eachListValue(isSpecText)).withMessage('Each fuel type must be 1-50 characters'),
+  query('color').optional().custom(eachListValue(isSpecText)).withMessage('Each color must be 1-50 characters'),
+  query('doors').optional().custom(eachListValue(isIntBetween(2, 5))).withMessage('Each doors value must be between 2 and 5'),
+  query('seats').optional().custom(eachListValue(isIntBetween(2, 9))).withMessage('Each seats value must be between 2 and 9'),
+  query('powerMin').optional().isInt({ min: 0 }).withMessage('Power minimum must be a positive integer'),
+  query('powerMax').optional().isInt({ min: 0 }).withMessage('Power maximum must be a positive integer'),
+  query('facets').optional().isBoolean().withMessage('Facets must be true or false'),
+  query('sort').optional().isIn(Object.values(VehicleSortField)).withMessage('Invalid sort field'),
+  query('order').optional().isIn(['asc', 'desc']).withMessage('Order must be asc or desc'),
+  query('cursor').optional().isBase64({ urlSafe: true }).isLength({ max: 1000 }).withMessage('Invalid cursor'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors,
+];
+
+export const validateOrderDocument = [
+  param('id').isUUID().withMessage('Invalid order ID'),
+  param('type').isIn(Object.values(OrderDocumentType)).withMessage('Invalid document type'),
+  handleValidationErrors,
+];
+
+// Trade-in validation rules
+export const validateCreateTradeIn = [
+  body('orderId').optional().isUUID().withMessage('Order ID must be a valid UUID'),
+  body('customerId').optional().isUUID().withMessage('Customer ID must be a valid UUID'),
+  body('brand').trim().isLength({ min: 1, max: 100 }).withMessage('Brand is required and must be 1-100 characters'),
+  body('model').trim().isLength({ min: 1, max: 100 }).withMessage('Model is required and must be 1-100 characters'),
+  body('year').isInt({ min: 1900, max: new Date().getFullYear() + 1 }).withMessage('Year must be between 1900 and next year'),
+  body('mileage').isInt({ min: 0 }).withMessage('Mileage must be a positive integer'),
+  body('conditionGrade').isIn(Object.values(TradeInCondition)).withMessage('Invalid condition grade'),
+  body('appraisedValue').isFloat({ min: 0 }).withMessage('Appraised value must be a positive number'),
+  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes must be less than 1000 characters'),
+  handleValidationErrors,
+];
+
+export const validateAttachTradeIn = [
+  param('id').isUUID().withMessage('Invalid trade-in ID'),
+  body('orderId').isUUID().withMessage('Valid order ID is required'),
+  handleValidationErrors,
+];
+
+export const validateAcceptTradeIn = [
+  param('id').isUUID().withMessage('Invalid trade-in ID'),
+  body('convertToVehicle').optional().isBoolean().withMessage('convertToVehicle must be a boolean'),
+  body('listPrice').optional().isFloat({ min: 0 }).withMessage('List price must be a positive number'),
+  handleValidationErrors,
+];
+
+export const validateRejectTradeIn = [
+  param('id').isUUID().withMessage('Invalid trade-in ID'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason must be less than 500 characters'),
+  handleValidationErrors,
+];
+
+export const validateConvertTradeIn = [
+  param('id').isUUID().withMessage('Invalid trade-in ID'),
+  body('listPrice').optional().isFloat({ min: 0 }).withMessage('List price must be a positive number'),
+  handleValidationErrors,
+];
+
+export const validateTradeInFilters = [
+  query('status').optional().isIn(Object.values(TradeInStatus)).withMessage('Invalid trade-in status'),
+  query('orderId').optional().isUUID().withMessage('Order ID must be a valid UUID'),
+  query('customerId').optional().isUUID().withMessage('Customer ID must be a valid UUID'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   handleValidationErrors,
 ];
 
+// Financing validation rules
+export const validateFinancingQuote = [
+  param('id').isUUID().withMessage('Invalid vehicle ID'),
+  body('downPayment').optional().isFloat({ min: 0 }).withMessage('Down payment must be a positive number'),
+  body('termMonths').isInt({ min: 6, max: 96 }).withMessage('Term must be between 6 and 96 months'),
+  body('annualRate').optional().isFloat({ min: 0, max: 100 }).withMessage('Annual rate must be between 0 and 100'),
+  handleValidationErrors,
+];
+
+export const validateCreateFinancingRate = [
+  body('termMonths').isInt({ min: 6, max: 96 }).withMessage('Term must be between 6 and 96 months'),
+  body('minVehicleAge').optional().isInt({ min: 0 }).withMessage('Minimum vehicle age must be a positive integer'),
+  body('maxVehicleAge').optional({ values: 'null' }).isInt({ min: 0 }).withMessage('Maximum vehicle age must be a positive integer'),
+  body('annualRate').isFloat({ min: 0, max: 100 }).withMessage('Annual rate must be between 0 and 100'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  handleValidationErrors,
+];
+
+export const validateUpdateFinancingRate = [
+  param('id').isUUID().withMessage('Invalid financing rate ID'),
+  body('termMonths').optional().isInt({ min: 6, max: 96 }).withMessage('Term must be between 6 and 96 months'),
+  body('minVehicleAge').optional().isInt({ min: 0 }).withMessage('Minimum vehicle age must be a positive integer'),
+  body('maxVehicleAge').optional({ values: 'null' }).isInt({ min: 0 }).withMessage('Maximum vehicle age must be a positive integer'),
+  body('annualRate').optional().isFloat({ min: 0, max: 100 }).withMessage('Annual rate must be between 0 and 100'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  handleValidationErrors,
+];
+
+// Brand and model catalog validation rules
+export const validateCreateBrand = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Brand name is required and must be 1-100 characters'),
+  body('aliases').optional().isArray({ max: 20 }).withMessage('Aliases must be an array of up to 20 names'),
+  body('aliases.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Each alias must be 1-100 characters'),
+  handleValidationErrors,
+];
+
+export const validateUpdateBrand = [
+  param('id').isUUID().withMessage('Invalid brand ID'),
+  body('name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Brand name must be 1-100 characters'),
+  body('aliases').optional().isArray({ max: 20 }).withMessage('Aliases must be an array of up to 20 names'),
+  body('aliases.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Each alias must be 1-100 characters'),
+  handleValidationErrors,
+];
+
+export const validateCreateBrandModel = [
+  param('id').isUUID().withMessage('Invalid brand ID'),
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Model name is required and must be 1-100 characters'),
+  body('aliases').optional().isArray({ max: 20 }).withMessage('Aliases must be an array of up to 20 names'),
+  body('aliases.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Each alias must be 1-100 characters'),
+  handleValidationErrors,
+];
+
+export const validateUpdateBrandModel = [
+  param('id').isUUID().withMessage('Invalid model ID'),
+  body('name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Model name must be 1-100 characters'),
+  body('aliases').optional().isArray({ max: 20 }).withMessage('Aliases must be an array of up to 20 names'),
+  body('aliases.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Each alias must be 1-100 characters'),
+  handleValidationErrors,
+];
+
+// Repricing rule validation rules
+// Scope and action fields shared by rule creation and update; null clears an optional field
+const repricingRuleFields = [
+  body('priority').optional().isInt({ min: 0 }).withMessage('Priority must be a positive integer'),
+  body('brand').optional({ values: 'null' }).isString().isLength({ min: 1, max: 50 }).withMessage('Brand must be between 1 and 50 characters'),
+  body('minYear').optional({ values: 'null' }).isInt({ min: 1900, max: new Date().getFullYear() + 1 }).withMessage('Invalid minimum year'),
+  body('maxYear').optional({ values: 'null' }).isInt({ min: 1900, max: new Date().getFullYear() + 1 }).withMessage('Invalid maximum year'),
+  body('minMileage').optional({ values: 'null' }).isInt({ min: 0 }).withMessage('Minimum mileage must be a positive integer'),
+  body('maxMileage').optional({ values: 'null' }).isInt({ min: 0 }).withMessage('Maximum mileage must be a positive integer'),
+  body('startAfterDays').optional().isInt({ min: 0 }).withMessage('Start after days must be a positive integer'),
+  body('intervalDays').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Interval must be at least 1 day'),
+  body('adjustmentPercent').optional({ values: 'null' }).isFloat({ min: -90, max: 100 }).withMessage('Adjustment must be between -90 and 100 percent'),
+  body('roundTo').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Rounding step must be a positive integer'),
+  body('floorPrice').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Floor price must be a positive number'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+];
+
+export const validateCreateRepricingRule = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+  ...repricingRuleFields,
+  body().custom(value => [value.adjustmentPercent, value.roundTo, value.floorPrice].some(field => field !== undefined && field !== null))
+    .withMessage('A rule needs an adjustment, a rounding step or a floor price'),
+  handleValidationErrors,
+];
+
+export const validateUpdateRepricingRule = [
+  param('id').isUUID().withMessage('Invalid repricing rule ID'),
+  body('name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+  ...repricingRuleFields,
+  handleValidationErrors,
+];
+
+export const validateRepricingSimulation = [
+  query('days').optional().isInt({ min: 1, max: 365 }).withMessage('Days must be between 1 and 365'),
+  query('vehicleId').optional().isUUID().withMessage('Invalid vehicle ID'),
+  handleValidationErrors,
+];
+
 // User validation rules
 export const validateCreateUser = [
   body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
@@ -97,6 +331,8 @@ export const validateLogin = [
 // Order validation rules
 export const validateCreateOrder = [
   body('vehicleId').isUUID().withMessage('Valid vehicle ID is required'),
+  // Only staff may set it, to create an order on behalf of a customer
+  body('userId').optional().isUUID().withMessage('User ID must be a valid UUID'),
   body('totalAmount').isFloat({ min: 0 }).withMessage('Total amount must be a positive number'),
   body('downPayment').optional().isFloat({ min: 0 }).withMessage('Down payment must be a positive number'),
   body('notes').optional().isLength({ max: 1000 }).withMessage('Notes must be less than 1000 characters'),
@@ -106,15 +342,77 @@ export const validateCreateOrder = [
 export const validateUpdateOrder = [
   param('id').isUUID().withMessage('Invalid order ID'),
   body('status').optional().isIn(Object.values(OrderStatus)).withMessage('Invalid order status'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason must be less than 500 characters'),
+  body('salespersonId').optional().isUUID().withMessage('Salesperson ID must be a valid UUID'),
   body('totalAmount').optional().isFloat({ min: 0 }).withMessage('Total amount must be a positive number'),
   body('downPayment').optional().isFloat({ min: 0 }).withMessage('Down payment must be a positive number'),
   body('notes').optional().isLength({ max: 1000 }).withMessage('Notes must be less than 1000 characters'),
   handleValidationErrors,
 ];
 
+export const validateSalesReport = [
+  query('dateFrom').optional().isISO8601().withMessage('dateFrom must be a valid ISO 8601 date'),
+  query('dateTo').optional().isISO8601().withMessage('dateTo must be a valid ISO 8601 date'),
+  query('brand').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Brand filter must be 1-100 characters'),
+  query('salespersonId').optional().isUUID().withMessage('Salesperson ID must be a valid UUID'),
+  query('interval').optional().isIn(['day', 'week', 'month']).withMessage('Interval must be day, week or month'),
+  handleValidationErrors,
+];
+
 export const validateUpdateOrderStatus = [
   param('id').isUUID().withMessage('Invalid order ID'),
   body('status').isIn(Object.values(OrderStatus)).withMessage('Valid order status is required'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason must be less than 500 characters'),
+  handleValidationErrors,
+];
+
+// Payment validation rules
+export const validateRecordPayment = [
+  param('id').isUUID().withMessage('Invalid order ID'),
+  body('method').isIn(Object.values(PaymentMethod)).withMessage('Valid payment method is required'),
+  body('amount').isFloat({ gt: 0 }).withMessage('Amount must be greater than zero'),
+  body('reference').optional().isLength({ max: 255 }).withMessage('Reference must be less than 255 characters'),
+  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes must be less than 1000 characters'),
+  body('receivedAt').optional().isISO8601().withMessage('Received date must be a valid ISO 8601 date'),
+  handleValidationErrors,
+];
+
+export const validateVoidPayment = [
+  param('id').isUUID().withMessage('Invalid order ID'),
+  param('paymentId').isUUID().withMessage('Invalid payment ID'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason must be less than 500 characters'),
+  handleValidationErrors,
+];
+
+// Reservation validation rules
+export const validateCreateReservation = [
+  body('vehicleId').isUUID().withMessage('Valid vehicle ID is required'),
+  body('userId').optional().isUUID().withMessage('User ID must be a valid UUID'),
+  body('durationHours').optional().isInt({ min: 1 }).withMessage('Duration must be a positive number of hours'),
+  body('depositAmount').optional().isFloat({ min: 0 }).withMessage('Deposit amount must be a positive number'),
+  body('depositReference').optional().isLength({ max: 255 }).withMessage('Deposit reference must be less than 255 characters'),
+  body('notes').optional().isLength({ max: 1000 }).withMessage('Notes must be less than 1000 characters'),
+  handleValidationErrors,
+];
+
+export const validateExtendReservation = [
+  param('id').isUUID().withMessage('Invalid reservation ID'),
+  body('hours').isInt({ min: 1, max: 168 }).withMessage('Hours must be between 1 and 168'),
+  handleValidationErrors,
+];
+
+export const validateReleaseReservation = [
+  param('id').isUUID().withMessage('Invalid reservation ID'),
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason must be less than 500 characters'),
+  handleValidationErrors,
+];
+
+export const validateReservationFilters = [
+  query('status').optional().isIn(Object.values(ReservationStatus)).withMessage('Invalid reservation status'),
+  query('vehicleId').optional().isUUID().withMessage('Vehicle ID must be a valid UUID'),
+  query('userId').optional().isUUID().withMessage('User ID must be a valid UUID'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   handleValidationErrors,
 ];
 
@@ -125,6 +423,41 @@ export const validatePagination = [
   handleValidationErrors,
 ];
 
+// Price processor validation rules. A preview takes either an uploaded file or a
+// pending file from one of the sources; the controller checks that one is present.
+export const validatePricePreview = [
+  body('source').optional().isIn(Object.values(PriceImportSource)).withMessage('Invalid price source'),
+  body('key').if(body('source').exists()).isString().notEmpty().withMessage('File key is required with a source'),
+  handleValidationErrors,
+];
+
+export const validatePriceImportRunFilters = [
+  query('status').optional().isIn(Object.values(PriceImportRunStatus)).withMessage('Invalid price import status'),
+  ...validatePagination,
+];
+
+export const validateJobRunFilters = [
+  query('status').optional().isIn(Object.values(JobRunStatus)).withMessage('Invalid job run status'),
+  ...validatePagination,
+];
+
+export const validateQueuedJobFilters = [
+  query('status').optional().isIn(Object.values(QueuedJobStatus)).withMessage('Invalid queued job status'),
+  query('type').optional().isString().isLength({ max: 100 }).withMessage('Invalid job type'),
+  ...validatePagination,
+];
+
+export const validateDeadLetterFilters = [
+  query('includeRequeued').optional().isBoolean().withMessage('includeRequeued must be a boolean'),
+  ...validatePagination,
+];
+
+export const validateReviewPriceImport = [
+  param('id').isUUID().withMessage('Invalid price import run ID'),
+  body('note').optional().isLength({ max: 500 }).withMessage('Note must be less than 500 characters'),
+  handleValidationErrors,
+];
+
 // UUID parameter validation
 export const validateUUID = [
   param('id').isUUID().withMessage('Invalid ID format'),
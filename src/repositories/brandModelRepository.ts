@@ -0,0 +1,171 @@
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { withClient } from '@/database/unitOfWork';
+import { catalogKey, catalogKeySql } from './brandRepository';
+import { BrandModel, BrandModelUsage, VehicleStatus } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateBrandModelData {
+  brandId: string;
+  name: string;
+  aliases?: string[];
+}
+
+export type UpdateBrandModelData = Partial<Omit<CreateBrandModelData, 'brandId'>>;
+
+export class BrandModelRepository {
+  async create(data: CreateBrandModelData): Promise<BrandModel> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO models (brand_id, name, aliases, created_at, updated_at)
+        VALUES ($1, $2, $3, NOW(), NOW())
+        RETURNING *
+      `;
+
+      const result = await client.query(query, [data.brandId, data.name, data.aliases ?? []]);
+      const model = this.mapRowToModel(result.rows[0]);
+
+      logger.logBusinessEvent('model_created', 'brand', data.brandId, { modelId: model.id, name: model.name });
+      return model;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_model', brandId: data.brandId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findById(id: string, client?: PoolClient): Promise<BrandModel | null> {
+    try {
+      const result = await withClient(client, c => c.query('SELECT * FROM models WHERE id = $1', [id]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToModel(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_model_by_id', modelId: id });
+      throw error;
+    }
+  }
+
+  // Resolves a user-supplied spelling against the brand's model names and aliases
+  async findByName(brandId: string, value: string, client?: PoolClient): Promise<BrandModel | null> {
+    try {
+      const query = `
+        SELECT * FROM models
+        WHERE brand_id = $1
+          AND (${catalogKeySql('name')} = $2
+            OR $2 = ANY (SELECT ${catalogKeySql('alias')} FROM unnest(aliases) AS alias))
+        ORDER BY (${catalogKeySql('name')} = $2) DESC
+        LIMIT 1
+      `;
+      const result = await withClient(client, c => c.query(query, [brandId, catalogKey(value)]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToModel(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_model_by_name', brandId, name: value });
+      throw error;
+    }
+  }
+
+  async findByBrandWithUsage(brandId: string): Promise<BrandModelUsage[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT m.*, COUNT(v.id) AS available_vehicles
+        FROM models m
+        JOIN brands b ON b.id = m.brand_id
+        LEFT JOIN vehicles v
+          ON v.brand = b.name AND v.model = m.name AND v.status = $2 AND v.deleted_at IS NULL
+        WHERE m.brand_id = $1
+        GROUP BY m.id
+        ORDER BY m.name ASC
+      `;
+      const result = await client.query(query, [brandId, VehicleStatus.AVAILABLE]);
+
+      return result.rows.map(row => ({
+        ...this.mapRowToModel(row),
+        availableVehicles: parseInt(row.available_vehicles),
+      }));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_models_by_brand', brandId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async update(id: string, data: UpdateBrandModelData, client?: PoolClient): Promise<BrandModel | null> {
+    try {
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let valueIndex = 1;
+
+      if (data.name !== undefined) {
+        updateFields.push(`name = $${valueIndex}`);
+        values.push(data.name);
+        valueIndex++;
+      }
+
+      if (data.aliases !== undefined) {
+        updateFields.push(`aliases = $${valueIndex}`);
+        values.push(data.aliases);
+        valueIndex++;
+      }
+
+      updateFields.push(`updated_at = NOW()`);
+
+      const query = `
+        UPDATE models
+        SET ${updateFields.join(', ')}
+        WHERE id = $${valueIndex}
+        RETURNING *
+      `;
+
+      values.push(id);
+      const result = await withClient(client, c => c.query(query, values));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToModel(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_model', modelId: id });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('DELETE FROM models WHERE id = $1', [id]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_model', modelId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToModel(row: any): BrandModel {
+    return {
+      id: row.id,
+      brandId: row.brand_id,
+      name: row.name,
+      aliases: row.aliases ?? [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const brandModelRepository = new BrandModelRepository();
@@ -0,0 +1,178 @@
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { withClient } from '@/database/unitOfWork';
+import { Brand, BrandUsage, VehicleStatus } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateBrandData {
+  name: string;
+  aliases?: string[];
+}
+
+export type UpdateBrandData = Partial<CreateBrandData>;
+
+// Catalog names match ignoring case and punctuation, mirrored by the unique indexes
+export const catalogKey = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const catalogKeySql = (expression: string): string =>
+  `regexp_replace(lower(${expression}), '[^a-z0-9]', '', 'g')`;
+
+export class BrandRepository {
+  async create(data: CreateBrandData): Promise<Brand> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO brands (name, aliases, created_at, updated_at)
+        VALUES ($1, $2, NOW(), NOW())
+        RETURNING *
+      `;
+
+      const result = await client.query(query, [data.name, data.aliases ?? []]);
+      const brand = this.mapRowToBrand(result.rows[0]);
+
+      logger.logBusinessEvent('brand_created', 'brand', brand.id, { name: brand.name });
+      return brand;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_brand', name: data.name });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findById(id: string, client?: PoolClient): Promise<Brand | null> {
+    try {
+      const result = await withClient(client, c => c.query('SELECT * FROM brands WHERE id = $1', [id]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToBrand(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_brand_by_id', brandId: id });
+      throw error;
+    }
+  }
+
+  // Resolves a user-supplied spelling against names and aliases
+  async findByName(value: string, client?: PoolClient): Promise<Brand | null> {
+    try {
+      const query = `
+        SELECT * FROM brands
+        WHERE ${catalogKeySql('name')} = $1
+           OR $1 = ANY (SELECT ${catalogKeySql('alias')} FROM unnest(aliases) AS alias)
+        ORDER BY (${catalogKeySql('name')} = $1) DESC
+        LIMIT 1
+      `;
+      const result = await withClient(client, c => c.query(query, [catalogKey(value)]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToBrand(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_brand_by_name', name: value });
+      throw error;
+    }
+  }
+
+  async findAllWithUsage(): Promise<BrandUsage[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT b.*, COUNT(v.id) AS available_vehicles
+        FROM brands b
+        LEFT JOIN vehicles v
+          ON v.brand = b.name AND v.status = $1 AND v.deleted_at IS NULL
+        GROUP BY b.id
+        ORDER BY b.name ASC
+      `;
+      const result = await client.query(query, [VehicleStatus.AVAILABLE]);
+
+      return result.rows.map(row => ({
+        ...this.mapRowToBrand(row),
+        availableVehicles: parseInt(row.available_vehicles),
+      }));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_all_brands' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async update(id: string, data: UpdateBrandData, client?: PoolClient): Promise<Brand | null> {
+    try {
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let valueIndex = 1;
+
+      if (data.name !== undefined) {
+        updateFields.push(`name = $${valueIndex}`);
+        values.push(data.name);
+        valueIndex++;
+      }
+
+      if (data.aliases !== undefined) {
+        updateFields.push(`aliases = $${valueIndex}`);
+        values.push(data.aliases);
+        valueIndex++;
+      }
+
+      updateFields.push(`updated_at = NOW()`);
+
+      const query = `
+        UPDATE brands
+        SET ${updateFields.join(', ')}
+        WHERE id = $${valueIndex}
+        RETURNING *
+      `;
+
+      values.push(id);
+      const result = await withClient(client, c => c.query(query, values));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logBusinessEvent('brand_updated', 'brand', id, data);
+      return this.mapRowToBrand(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_brand', brandId: id });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('DELETE FROM brands WHERE id = $1', [id]);
+
+      if ((result.rowCount ?? 0) === 0) {
+        return false;
+      }
+
+      logger.logBusinessEvent('brand_deleted', 'brand', id);
+      return true;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_brand', brandId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToBrand(row: any): Brand {
+    return {
+      id: row.id,
+      name: row.name,
+      aliases: row.aliases ?? [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const brandRepository = new BrandRepository();
@@ -0,0 +1,197 @@
+import { pool } from '@/database/config';
+import { FinancingRate } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateFinancingRateData {
+  termMonths: number;
+  minVehicleAge?: number;
+  maxVehicleAge?: number | null;
+  annualRate: number;
+  isActive?: boolean;
+}
+
+export type UpdateFinancingRateData = Partial<CreateFinancingRateData>;
+
+export class FinancingRateRepository {
+  async create(data: CreateFinancingRateData): Promise<FinancingRate> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO financing_rates (term_months, min_vehicle_age, max_vehicle_age, annual_rate, is_active, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+        RETURNING *
+      `;
+
+      const values = [
+        data.termMonths,
+        data.minVehicleAge ?? 0,
+        data.maxVehicleAge ?? null,
+        data.annualRate,
+        data.isActive ?? true,
+      ];
+
+      const result = await client.query(query, values);
+      return this.mapRowToRate(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_financing_rate' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findById(id: string): Promise<FinancingRate | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM financing_rates WHERE id = $1', [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToRate(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_financing_rate_by_id', rateId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findAll(activeOnly: boolean = false): Promise<FinancingRate[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT * FROM financing_rates
+        ${activeOnly ? 'WHERE is_active = true' : ''}
+        ORDER BY min_vehicle_age ASC, term_months ASC
+      `;
+      const result = await client.query(query);
+
+      return result.rows.map(row => this.mapRowToRate(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_all_financing_rates' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Most specific active rate for the term and the vehicle's age in years
+  async findApplicable(termMonths: number, vehicleAge: number): Promise<FinancingRate | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT * FROM financing_rates
+        WHERE is_active = true
+          AND term_months = $1
+          AND min_vehicle_age <= $2
+          AND (max_vehicle_age IS NULL OR max_vehicle_age >= $2)
+        ORDER BY min_vehicle_age DESC
+        LIMIT 1
+      `;
+      const result = await client.query(query, [termMonths, vehicleAge]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToRate(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_applicable_financing_rate', termMonths, vehicleAge });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async update(id: string, data: UpdateFinancingRateData): Promise<FinancingRate | null> {
+    const client = await pool.connect();
+    try {
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let valueIndex = 1;
+
+      if (data.termMonths !== undefined) {
+        updateFields.push(`term_months = $${valueIndex}`);
+        values.push(data.termMonths);
+        valueIndex++;
+      }
+
+      if (data.minVehicleAge !== undefined) {
+        updateFields.push(`min_vehicle_age = $${valueIndex}`);
+        values.push(data.minVehicleAge);
+        valueIndex++;
+      }
+
+      if (data.maxVehicleAge !== undefined) {
+        updateFields.push(`max_vehicle_age = $${valueIndex}`);
+        values.push(data.maxVehicleAge);
+        valueIndex++;
+      }
+
+      if (data.annualRate !== undefined) {
+        updateFields.push(`annual_rate = $${valueIndex}`);
+        values.push(data.annualRate);
+        valueIndex++;
+      }
+
+      if (data.isActive !== undefined) {
+        updateFields.push(`is_active = $${valueIndex}`);
+        values.push(data.isActive);
+        valueIndex++;
+      }
+
+      updateFields.push(`updated_at = NOW()`);
+
+      const query = `
+        UPDATE financing_rates
+        SET ${updateFields.join(', ')}
+        WHERE id = $${valueIndex}
+        RETURNING *
+      `;
+
+      values.push(id);
+      const result = await client.query(query, values);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToRate(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_financing_rate', rateId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('DELETE FROM financing_rates WHERE id = $1', [id]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_financing_rate', rateId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToRate(row: any): FinancingRate {
+    return {
+      id: row.id,
+      termMonths: row.term_months,
+      minVehicleAge: row.min_vehicle_age,
+      ...(row.max_vehicle_age !== null && { maxVehicleAge: row.max_vehicle_age }),
+      annualRate: parseFloat(row.annual_rate),
+      isActive: row.is_active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const financingRateRepository = new FinancingRateRepository();
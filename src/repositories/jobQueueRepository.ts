@@ -0,0 +1,343 @@
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { withClient, withTransaction } from '@/database/unitOfWork';
+import { DeadLetterJob, PaginationParams, QueuedJob, QueuedJobStatus, QueueStats } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface EnqueueJobData {
+  type: string;
+  payload: Record<string, unknown>;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface QueuedJobFilters {
+  status?: QueuedJobStatus;
+  type?: string;
+}
+
+export class JobQueueRepository {
+  async enqueue(data: EnqueueJobData, client?: PoolClient): Promise<QueuedJob> {
+    try {
+      const query = `
+        INSERT INTO queued_jobs (type, payload, max_attempts, run_at, created_at, updated_at)
+        VALUES ($1, $2, $3, COALESCE($4, NOW()), NOW(), NOW())
+        RETURNING *
+      `;
+      const values = [data.type, JSON.stringify(data.payload), data.maxAttempts ?? 5, data.runAt ?? null];
+
+      const result = await withClient(client, c => c.query(query, values));
+      return this.mapRowToJob(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'enqueue_job', type: data.type });
+      throw error;
+    }
+  }
+
+  // Claims up to `limit` due jobs for the worker, counting the attempt. Jobs left running longer
+  // than staleAfterMs belong to a worker that died and are claimed again. SKIP LOCKED lets
+  // concurrent workers pass over rows another one is claiming instead of waiting on them.
+  async claim(workerId: string, limit: number, staleAfterMs: number): Promise<QueuedJob[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        WITH due AS (
+          SELECT id FROM queued_jobs
+          WHERE (status = 'pending' AND run_at <= NOW())
+             OR (status = 'running' AND locked_at < NOW() - ($3::integer * INTERVAL '1 millisecond'))
+          ORDER BY run_at ASC
+          LIMIT $2
+          FOR UPDATE SKIP LOCKED
+        )
+        UPDATE queued_jobs q
+        SET status = 'running', attempts = q.attempts + 1, locked_by = $1, locked_at = NOW(), updated_at = NOW()
+        FROM due
+        WHERE q.id = due.id
+        RETURNING q.*
+      `;
+      const result = await client.query(query, [workerId, limit, staleAfterMs]);
+
+      return result.rows.map(row => this.mapRowToJob(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'claim_jobs', workerId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // The lock owner check keeps a worker whose job was reclaimed from overwriting the new claim
+  async complete(id: string, workerId: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE queued_jobs
+        SET status = 'completed', locked_by = NULL, locked_at = NULL, completed_at = NOW(), updated_at = NOW()
+        WHERE id = $1 AND locked_by = $2
+      `;
+      const result = await client.query(query, [id, workerId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'complete_job', jobId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async scheduleRetry(id: string, workerId: string, message: string, runAt: Date): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE queued_jobs
+        SET status = 'pending', locked_by = NULL, locked_at = NULL, last_error = $3, run_at = $4, updated_at = NOW()
+        WHERE id = $1 AND locked_by = $2
+      `;
+      const result = await client.query(query, [id, workerId, message, runAt]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'schedule_job_retry', jobId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Moves the job out of the queue into the dead-letter table in a single statement
+  async moveToDeadLetter(id: string, workerId: string, message: string): Promise<DeadLetterJob | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        WITH failed AS (
+          DELETE FROM queued_jobs
+          WHERE id = $1 AND locked_by = $2
+          RETURNING id, type, payload, attempts, created_at
+        )
+        INSERT INTO dead_letter_jobs (job_id, type, payload, attempts, error, enqueued_at, failed_at)
+        SELECT id, type, payload, attempts, $3, created_at, NOW() FROM failed
+        RETURNING *
+      `;
+      const result = await client.query(query, [id, workerId, message]);
+
+      return result.rows.length > 0 ? this.mapRowToDeadLetter(result.rows[0]) : null;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'dead_letter_job', jobId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findAll(filters: QueuedJobFilters, pagination: PaginationParams): Promise<{
+    jobs: QueuedJob[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const client = await pool.connect();
+    try {
+      const conditions: string[] = [];
+      const values: any[] = [];
+
+      if (filters.status) {
+        values.push(filters.status);
+        conditions.push(`status = $${values.length}`);
+      }
+      if (filters.type) {
+        values.push(filters.type);
+        conditions.push(`type = $${values.length}`);
+      }
+
+      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const countResult = await client.query(`SELECT COUNT(*) FROM queued_jobs ${whereClause}`, values);
+      const total = parseInt(countResult.rows[0].count);
+
+      const query = `
+        SELECT * FROM queued_jobs
+        ${whereClause}
+        ORDER BY created_at DESC
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      `;
+      const result = await client.query(query, [...values, pagination.limit, pagination.offset]);
+
+      return {
+        jobs: result.rows.map(row => this.mapRowToJob(row)),
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages: Math.ceil(total / pagination.limit),
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_all_queued_jobs' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findDeadLetters(pagination: PaginationParams, includeRequeued: boolean = false): Promise<{
+    deadLetters: DeadLetterJob[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const client = await pool.connect();
+    try {
+      const whereClause = includeRequeued ? '' : 'WHERE requeued_at IS NULL';
+
+      const countResult = await client.query(`SELECT COUNT(*) FROM dead_letter_jobs ${whereClause}`);
+      const total = parseInt(countResult.rows[0].count);
+
+      const query = `
+        SELECT * FROM dead_letter_jobs
+        ${whereClause}
+        ORDER BY failed_at DESC
+        LIMIT $1 OFFSET $2
+      `;
+      const result = await client.query(query, [pagination.limit, pagination.offset]);
+
+      return {
+        deadLetters: result.rows.map(row => this.mapRowToDeadLetter(row)),
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages: Math.ceil(total / pagination.limit),
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_dead_letter_jobs' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findDeadLetterById(id: string): Promise<DeadLetterJob | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM dead_letter_jobs WHERE id = $1', [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToDeadLetter(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_dead_letter_job_by_id', deadLetterId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Queues the dead job again with a fresh attempt budget. Returns null when the entry
+  // does not exist or has already been requeued.
+  async requeue(id: string, maxAttempts: number, requeuedBy?: string): Promise<QueuedJob | null> {
+    try {
+      return await withTransaction(async (client) => {
+        const deadResult = await client.query(
+          'SELECT * FROM dead_letter_jobs WHERE id = $1 AND requeued_at IS NULL FOR UPDATE',
+          [id]
+        );
+        if (deadResult.rows.length === 0) {
+          return null;
+        }
+
+        const dead = this.mapRowToDeadLetter(deadResult.rows[0]);
+        const job = await this.enqueue({ type: dead.type, payload: dead.payload, maxAttempts }, client);
+
+        await client.query(
+          'UPDATE dead_letter_jobs SET requeued_at = NOW(), requeued_by = $2, requeued_job_id = $3 WHERE id = $1',
+          [id, requeuedBy ?? null, job.id]
+        );
+
+        return job;
+      });
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'requeue_dead_letter_job', deadLetterId: id });
+      throw error;
+    }
+  }
+
+  async deleteCompletedBefore(before: Date): Promise<number> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        "DELETE FROM queued_jobs WHERE status = 'completed' AND completed_at < $1",
+        [before]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_completed_jobs' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const client = await pool.connect();
+    try {
+      const jobsResult = await client.query(
+        'SELECT type, status, COUNT(*)::integer AS count FROM queued_jobs GROUP BY type, status ORDER BY type, status'
+      );
+      const deadResult = await client.query(
+        'SELECT COUNT(*)::integer AS count FROM dead_letter_jobs WHERE requeued_at IS NULL'
+      );
+      const oldestResult = await client.query(`
+        SELECT COALESCE(EXTRACT(EPOCH FROM (NOW() - MIN(run_at))), 0)::float AS seconds
+        FROM queued_jobs
+        WHERE status = 'pending' AND run_at <= NOW()
+      `);
+
+      return {
+        jobs: jobsResult.rows.map(row => ({ type: row.type, status: row.status as QueuedJobStatus, count: row.count })),
+        deadLetters: deadResult.rows[0].count,
+        oldestPendingSeconds: oldestResult.rows[0].seconds,
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_queue_stats' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToJob(row: any): QueuedJob {
+    return {
+      id: row.id,
+      type: row.type,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      status: row.status as QueuedJobStatus,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      runAt: row.run_at,
+      ...(row.locked_by && { lockedBy: row.locked_by }),
+      ...(row.locked_at && { lockedAt: row.locked_at }),
+      ...(row.last_error && { lastError: row.last_error }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      ...(row.completed_at && { completedAt: row.completed_at }),
+    };
+  }
+
+  private mapRowToDeadLetter(row: any): DeadLetterJob {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      type: row.type,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      attempts: row.attempts,
+      ...(row.error && { error: row.error }),
+      enqueuedAt: row.enqueued_at,
+      failedAt: row.failed_at,
+      ...(row.requeued_at && { requeuedAt: row.requeued_at }),
+      ...(row.requeued_by && { requeuedBy: row.requeued_by }),
+      ...(row.requeued_job_id && { requeuedJobId: row.requeued_job_id }),
+    };
+  }
+}
+
+export const jobQueueRepository = new JobQueueRepository();
@@ -0,0 +1,189 @@
+import { pool } from '@/database/config';
+import { JobLogEntry, JobRun, JobRunStatus, JobTrigger, PaginationParams } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateJobRunData {
+  jobName: string;
+  trigger: JobTrigger;
+  instance: string;
+  triggeredBy?: string;
+}
+
+export interface FinishJobRunData {
+  status: JobRunStatus;
+  attempts: number;
+  logs: JobLogEntry[];
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export class JobRunRepository {
+  async create(data: CreateJobRunData): Promise<JobRun> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO job_runs (job_name, trigger, status, instance, triggered_by, started_at)
+        VALUES ($1, $2, 'running', $3, $4, NOW())
+        RETURNING *
+      `;
+      const result = await client.query(query, [data.jobName, data.trigger, data.instance, data.triggeredBy ?? null]);
+
+      return this.mapRowToRun(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_job_run', jobName: data.jobName });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async finish(id: string, data: FinishJobRunData): Promise<JobRun> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE job_runs
+        SET status = $1, attempts = $2, logs = $3, result = $4, error = $5, finished_at = NOW(),
+            duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::integer
+        WHERE id = $6
+        RETURNING *
+      `;
+      const values = [
+        data.status,
+        data.attempts,
+        JSON.stringify(data.logs),
+        data.result ? JSON.stringify(data.result) : null,
+        data.error ?? null,
+        id,
+      ];
+      const result = await client.query(query, values);
+
+      return this.mapRowToRun(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'finish_job_run', runId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Runs still marked as running while the caller holds the job lock were cut short by a
+  // crash or restart; they are closed as failed so they do not stay running forever
+  async failInterrupted(jobName: string): Promise<number> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE job_runs
+        SET status = 'failed', error = 'Interrupted before finishing', finished_at = NOW(),
+            duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::integer
+        WHERE job_name = $1 AND status = 'running'
+      `;
+      const result = await client.query(query, [jobName]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'fail_interrupted_job_runs', jobName });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findById(id: string): Promise<JobRun | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM job_runs WHERE id = $1', [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToRun(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_job_run_by_id', runId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findByJob(jobName: string, pagination: PaginationParams, status?: JobRunStatus): Promise<{
+    runs: JobRun[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const client = await pool.connect();
+    try {
+      const whereClause = status ? 'WHERE job_name = $1 AND status = $2' : 'WHERE job_name = $1';
+      const filterValues = status ? [jobName, status] : [jobName];
+
+      const countResult = await client.query(`SELECT COUNT(*) FROM job_runs ${whereClause}`, filterValues);
+      const total = parseInt(countResult.rows[0].count);
+
+      // Logs and results are only returned with a single run
+      const query = `
+        SELECT id, job_name, trigger, status, attempts, instance, triggered_by, error, started_at, finished_at, duration_ms
+        FROM job_runs
+        ${whereClause}
+        ORDER BY started_at DESC
+        LIMIT $${filterValues.length + 1} OFFSET $${filterValues.length + 2}
+      `;
+      const result = await client.query(query, [...filterValues, pagination.limit, pagination.offset]);
+
+      return {
+        runs: result.rows.map(row => this.mapRowToRun(row)),
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages: Math.ceil(total / pagination.limit),
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_job_runs', jobName });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Most recent run of each job, keyed by job name
+  async findLatest(jobNames: string[]): Promise<Map<string, JobRun>> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT DISTINCT ON (job_name)
+               id, job_name, trigger, status, attempts, instance, triggered_by, error, started_at, finished_at, duration_ms
+        FROM job_runs
+        WHERE job_name = ANY($1)
+        ORDER BY job_name, started_at DESC
+      `;
+      const result = await client.query(query, [jobNames]);
+
+      return new Map(result.rows.map(row => [row.job_name, this.mapRowToRun(row)]));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_latest_job_runs' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToRun(row: any): JobRun {
+    return {
+      id: row.id,
+      jobName: row.job_name,
+      trigger: row.trigger as JobTrigger,
+      status: row.status as JobRunStatus,
+      attempts: row.attempts,
+      instance: row.instance,
+      ...(row.triggered_by && { triggeredBy: row.triggered_by }),
+      ...(row.result && { result: typeof row.result === 'string' ? JSON.parse(row.result) : row.result }),
+      ...(row.error && { error: row.error }),
+      logs: row.logs ?? [],
+      startedAt: row.started_at,
+      ...(row.finished_at && { finishedAt: row.finished_at }),
+      ...(row.duration_ms !== null && row.duration_ms !== undefined && { durationMs: row.duration_ms }),
+    };
+  }
+}
+
+export const jobRunRepository = new JobRunRepository();
@@ -0,0 +1,53 @@
+import { pool } from '@/database/config';
+import { logger } from '@/services/logger';
+
+export class JobSettingsRepository {
+  async isPaused(jobName: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT is_paused FROM job_settings WHERE job_name = $1', [jobName]);
+      return result.rows.length > 0 && result.rows[0].is_paused;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_job_paused', jobName });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findPaused(): Promise<string[]> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT job_name FROM job_settings WHERE is_paused = true');
+      return result.rows.map(row => row.job_name);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_paused_jobs' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async setPaused(jobName: string, paused: boolean, userId?: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO job_settings (job_name, is_paused, paused_by, paused_at, updated_at)
+        VALUES ($1, $2, CASE WHEN $2 THEN $3::uuid END, CASE WHEN $2 THEN NOW() END, NOW())
+        ON CONFLICT (job_name) DO UPDATE
+        SET is_paused = EXCLUDED.is_paused,
+            paused_by = EXCLUDED.paused_by,
+            paused_at = EXCLUDED.paused_at,
+            updated_at = NOW()
+      `;
+      await client.query(query, [jobName, paused, userId ?? null]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'set_job_paused', jobName });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export const jobSettingsRepository = new JobSettingsRepository();
@@ -0,0 +1,93 @@
+import { pool } from '@/database/config';
+import { OrderDocument, OrderDocumentType } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface SaveOrderDocumentData {
+  orderId: string;
+  type: OrderDocumentType;
+  documentNumber: string;
+  filePath: string;
+  fileSize: number;
+}
+
+export class OrderDocumentRepository {
+  // Regenerating a document replaces the previous record of the same type
+  async save(data: SaveOrderDocumentData): Promise<OrderDocument> {
+    const startTime = Date.now();
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO order_documents (order_id, type, document_number, file_path, file_size, generated_at)
+        VALUES ($1, $2, $3, $4, $5, NOW())
+        ON CONFLICT (order_id, type) DO UPDATE
+        SET document_number = EXCLUDED.document_number,
+            file_path = EXCLUDED.file_path,
+            file_size = EXCLUDED.file_size,
+            generated_at = NOW()
+        RETURNING *
+      `;
+
+      const values = [data.orderId, data.type, data.documentNumber, data.filePath, data.fileSize];
+      const result = await client.query(query, values);
+      const document = this.mapRowToDocument(result.rows[0]);
+
+      logger.logBusinessEvent('order_document_generated', 'order', data.orderId, { type: data.type });
+      logger.logDatabaseOperation('UPSERT', 'order_documents', Date.now() - startTime);
+
+      return document;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'save_order_document', orderId: data.orderId, type: data.type });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findByOrderAndType(orderId: string, type: OrderDocumentType): Promise<OrderDocument | null> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM order_documents WHERE order_id = $1 AND type = $2';
+      const result = await client.query(query, [orderId, type]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToDocument(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_order_document', orderId, type });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<OrderDocument[]> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM order_documents WHERE order_id = $1 ORDER BY type ASC';
+      const result = await client.query(query, [orderId]);
+
+      return result.rows.map(row => this.mapRowToDocument(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_order_documents', orderId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToDocument(row: any): OrderDocument {
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      type: row.type as OrderDocumentType,
+      documentNumber: row.document_number,
+      filePath: row.file_path,
+      fileSize: row.file_size,
+      generatedAt: row.generated_at,
+    };
+  }
+}
+
+export const orderDocumentRepository = new OrderDocumentRepository();
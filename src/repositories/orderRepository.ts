@@ -0,0 +1,345 @@
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { withClient } from '@/database/unitOfWork';
+import { Order, OrderFilters, PaginationParams, OrderStatus, OrderStatusHistoryEntry } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateOrderData {
+  vehicleId: string;
+  userId: string;
+  salespersonId?: string;
+  totalAmount: number;
+  downPayment?: number;
+  notes?: string;
+}
+
+export interface UpdateOrderData {
+  salespersonId?: string;
+  totalAmount?: number;
+  downPayment?: number;
+  notes?: string;
+}
+
+export interface StatusHistoryData {
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  changedBy?: string;
+  reason?: string;
+}
+
+export class OrderRepository {
+  async create(data: CreateOrderData, client?: PoolClient): Promise<Order> {
+    const startTime = Date.now();
+    try {
+      const query = `
+        INSERT INTO orders (vehicle_id, user_id, salesperson_id, status, total_amount, down_payment, notes, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+        RETURNING *
+      `;
+
+      const values = [
+        data.vehicleId,
+        data.userId,
+        data.salespersonId || null,
+        OrderStatus.PENDING,
+        data.totalAmount,
+        data.downPayment ?? null,
+        data.notes || null,
+      ];
+
+      const result = await withClient(client, c => c.query(query, values));
+      const order = this.mapRowToOrder(result.rows[0]);
+
+      logger.logBusinessEvent('order_created', 'order', order.id, { vehicleId: order.vehicleId });
+      logger.logDatabaseOperation('CREATE', 'orders', Date.now() - startTime);
+
+      return order;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_order' });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<Order | null> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM orders WHERE id = $1';
+      const result = await client.query(query, [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToOrder(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_order_by_id', orderId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Locks the order row until the surrounding transaction ends
+  async findByIdForUpdate(id: string, client: PoolClient): Promise<Order | null> {
+    const result = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToOrder(result.rows[0]);
+  }
+
+  async findAll(filters: OrderFilters = {}, pagination: PaginationParams): Promise<{
+    orders: Order[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const client = await pool.connect();
+    try {
+      const whereConditions: string[] = [];
+      const values: any[] = [];
+      let valueIndex = 1;
+
+      if (filters.userId) {
+        whereConditions.push(`user_id = $${valueIndex}`);
+        values.push(filters.userId);
+        valueIndex++;
+      }
+
+      if (filters.vehicleId) {
+        whereConditions.push(`vehicle_id = $${valueIndex}`);
+        values.push(filters.vehicleId);
+        valueIndex++;
+      }
+
+      if (filters.salespersonId) {
+        whereConditions.push(`salesperson_id = $${valueIndex}`);
+        values.push(filters.salespersonId);
+        valueIndex++;
+      }
+
+      if (filters.status) {
+        whereConditions.push(`status = $${valueIndex}`);
+        values.push(filters.status);
+        valueIndex++;
+      }
+
+      const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+      // Get total count
+      const countQuery = `SELECT COUNT(*) FROM orders ${whereClause}`;
+      const countResult = await client.query(countQuery, values);
+      const total = parseInt(countResult.rows[0].count);
+
+      // Get paginated results
+      const query = `
+        SELECT * FROM orders
+        ${whereClause}
+        ORDER BY created_at DESC
+        LIMIT $${valueIndex} OFFSET $${valueIndex + 1}
+      `;
+
+      values.push(pagination.limit, pagination.offset);
+      const result = await client.query(query, values);
+
+      const orders = result.rows.map(row => this.mapRowToOrder(row));
+      const totalPages = Math.ceil(total / pagination.limit);
+
+      return {
+        orders,
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages,
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_all_orders', filters });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findByVehicleId(vehicleId: string): Promise<Order[]> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM orders WHERE vehicle_id = $1 ORDER BY created_at DESC';
+      const result = await client.query(query, [vehicleId]);
+
+      return result.rows.map(row => this.mapRowToOrder(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_orders_by_vehicle', vehicleId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async update(id: string, data: UpdateOrderData, client?: PoolClient): Promise<Order | null> {
+    const startTime = Date.now();
+    try {
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let valueIndex = 1;
+
+      if (data.salespersonId !== undefined) {
+        updateFields.push(`salesperson_id = $${valueIndex}`);
+        values.push(data.salespersonId);
+        valueIndex++;
+      }
+
+      if (data.totalAmount !== undefined) {
+        updateFields.push(`total_amount = $${valueIndex}`);
+        values.push(data.totalAmount);
+        valueIndex++;
+      }
+
+      if (data.downPayment !== undefined) {
+        updateFields.push(`down_payment = $${valueIndex}`);
+        values.push(data.downPayment);
+        valueIndex++;
+      }
+
+      if (data.notes !== undefined) {
+        updateFields.push(`notes = $${valueIndex}`);
+        values.push(data.notes);
+        valueIndex++;
+      }
+
+      if (updateFields.length === 0) {
+        return client ? this.findByIdForUpdate(id, client) : this.findById(id);
+      }
+
+      updateFields.push(`updated_at = NOW()`);
+
+      const query = `
+        UPDATE orders
+        SET ${updateFields.join(', ')}
+        WHERE id = $${valueIndex}
+        RETURNING *
+      `;
+
+      values.push(id);
+      const result = await withClient(client, c => c.query(query, values));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logBusinessEvent('order_updated', 'order', id, data);
+      logger.logDatabaseOperation('UPDATE', 'orders', Date.now() - startTime);
+
+      return this.mapRowToOrder(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_order', orderId: id });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const startTime = Date.now();
+    const client = await pool.connect();
+    try {
+      const query = 'DELETE FROM orders WHERE id = $1';
+      const result = await client.query(query, [id]);
+
+      if ((result.rowCount ?? 0) === 0) {
+        return false;
+      }
+
+      logger.logBusinessEvent('order_deleted', 'order', id);
+      logger.logDatabaseOperation('DELETE', 'orders', Date.now() - startTime);
+
+      return true;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_order', orderId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateStatus(id: string, status: OrderStatus, client?: PoolClient): Promise<Order | null> {
+    const startTime = Date.now();
+    try {
+      const query = 'UPDATE orders SET status = $1, updated_at = NOW() WHERE id = $2 RETURNING *';
+      const result = await withClient(client, c => c.query(query, [status, id]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logDatabaseOperation('UPDATE', 'orders', Date.now() - startTime);
+      return this.mapRowToOrder(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_order_status', orderId: id, status });
+      throw error;
+    }
+  }
+
+  async addStatusHistory(data: StatusHistoryData, client?: PoolClient): Promise<OrderStatusHistoryEntry> {
+    try {
+      const query = `
+        INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, reason, changed_at)
+        VALUES ($1, $2, $3, $4, $5, NOW())
+        RETURNING *
+      `;
+
+      const values = [data.orderId, data.fromStatus, data.toStatus, data.changedBy || null, data.reason || null];
+      const result = await withClient(client, c => c.query(query, values));
+
+      return this.mapRowToHistoryEntry(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'add_order_status_history', orderId: data.orderId });
+      throw error;
+    }
+  }
+
+  async findStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM order_status_history WHERE order_id = $1 ORDER BY changed_at ASC';
+      const result = await client.query(query, [orderId]);
+
+      return result.rows.map(row => this.mapRowToHistoryEntry(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_order_status_history', orderId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToHistoryEntry(row: any): OrderStatusHistoryEntry {
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      fromStatus: row.from_status as OrderStatus | null,
+      toStatus: row.to_status as OrderStatus,
+      changedBy: row.changed_by,
+      reason: row.reason,
+      changedAt: row.changed_at,
+    };
+  }
+
+  private mapRowToOrder(row: any): Order {
+    return {
+      id: row.id,
+      vehicleId: row.vehicle_id,
+      userId: row.user_id,
+      salespersonId: row.salesperson_id,
+      status: row.status as OrderStatus,
+      totalAmount: parseFloat(row.total_amount),
+      ...(row.down_payment !== null && { downPayment: parseFloat(row.down_payment) }),
+      notes: row.notes,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const orderRepository = new OrderRepository();
@@ -0,0 +1,150 @@
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { withClient } from '@/database/unitOfWork';
+import { OrderPayment, PaymentMethod } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreatePaymentData {
+  orderId: string;
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  notes?: string;
+  receivedAt?: Date;
+  recordedBy?: string;
+}
+
+export interface VoidPaymentData {
+  voidedBy?: string;
+  reason?: string;
+}
+
+export class PaymentRepository {
+  async create(data: CreatePaymentData, client?: PoolClient): Promise<OrderPayment> {
+    const startTime = Date.now();
+    try {
+      const query = `
+        INSERT INTO order_payments (order_id, method, amount, reference, notes, received_at, recorded_by, created_at)
+        VALUES ($1, $2, $3, $4, $5, COALESCE($6, NOW()), $7, NOW())
+        RETURNING *
+      `;
+
+      const values = [
+        data.orderId,
+        data.method,
+        data.amount,
+        data.reference || null,
+        data.notes || null,
+        data.receivedAt || null,
+        data.recordedBy || null,
+      ];
+
+      const result = await withClient(client, c => c.query(query, values));
+      const payment = this.mapRowToPayment(result.rows[0]);
+
+      logger.logBusinessEvent('payment_recorded', 'order', data.orderId, { paymentId: payment.id, amount: payment.amount });
+      logger.logDatabaseOperation('CREATE', 'order_payments', Date.now() - startTime);
+
+      return payment;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_payment', orderId: data.orderId });
+      throw error;
+    }
+  }
+
+  async findById(id: string, client?: PoolClient): Promise<OrderPayment | null> {
+    try {
+      const query = 'SELECT * FROM order_payments WHERE id = $1';
+      const result = await withClient(client, c => c.query(query, [id]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToPayment(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_payment_by_id', paymentId: id });
+      throw error;
+    }
+  }
+
+  async findByOrderId(orderId: string, includeVoided: boolean = true): Promise<OrderPayment[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT * FROM order_payments
+        WHERE order_id = $1 ${includeVoided ? '' : 'AND voided_at IS NULL'}
+        ORDER BY received_at ASC
+      `;
+      const result = await client.query(query, [orderId]);
+
+      return result.rows.map(row => this.mapRowToPayment(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_payments_by_order', orderId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Sum of every payment that has not been voided
+  async getPaidTotal(orderId: string, client?: PoolClient): Promise<number> {
+    try {
+      const query = `
+        SELECT COALESCE(SUM(amount), 0) AS paid
+        FROM order_payments
+        WHERE order_id = $1 AND voided_at IS NULL
+      `;
+      const result = await withClient(client, c => c.query(query, [orderId]));
+
+      return parseFloat(result.rows[0].paid);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_paid_total', orderId });
+      throw error;
+    }
+  }
+
+  async void(id: string, data: VoidPaymentData, client?: PoolClient): Promise<OrderPayment | null> {
+    try {
+      const query = `
+        UPDATE order_payments
+        SET voided_at = NOW(), voided_by = $1, void_reason = $2
+        WHERE id = $3 AND voided_at IS NULL
+        RETURNING *
+      `;
+
+      const result = await withClient(client, c => c.query(query, [data.voidedBy || null, data.reason || null, id]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const payment = this.mapRowToPayment(result.rows[0]);
+      logger.logBusinessEvent('payment_voided', 'order', payment.orderId, { paymentId: id, reason: data.reason });
+
+      return payment;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'void_payment', paymentId: id });
+      throw error;
+    }
+  }
+
+  private mapRowToPayment(row: any): OrderPayment {
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      method: row.method as PaymentMethod,
+      amount: parseFloat(row.amount),
+      reference: row.reference,
+      notes: row.notes,
+      receivedAt: row.received_at,
+      recordedBy: row.recorded_by,
+      voidedAt: row.voided_at,
+      voidedBy: row.voided_by,
+      voidReason: row.void_reason,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const paymentRepository = new PaymentRepository();
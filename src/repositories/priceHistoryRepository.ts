@@ -0,0 +1,71 @@
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { withClient } from '@/database/unitOfWork';
+import { PriceChangeSource, VehiclePriceChange } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreatePriceChangeData {
+  vehicleId: string;
+  oldPrice: number;
+  newPrice: number;
+  source: PriceChangeSource;
+  actorId?: string;
+  reason?: string;
+}
+
+export class PriceHistoryRepository {
+  async create(data: CreatePriceChangeData, client?: PoolClient): Promise<VehiclePriceChange> {
+    try {
+      const query = `
+        INSERT INTO vehicle_price_history (vehicle_id, old_price, new_price, source, actor_id, reason, changed_at)
+        VALUES ($1, $2, $3, $4, $5, $6, NOW())
+        RETURNING *
+      `;
+
+      const values = [
+        data.vehicleId,
+        data.oldPrice,
+        data.newPrice,
+        data.source,
+        data.actorId || null,
+        data.reason || null,
+      ];
+
+      const result = await withClient(client, c => c.query(query, values));
+      return this.mapRowToPriceChange(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_price_change', vehicleId: data.vehicleId });
+      throw error;
+    }
+  }
+
+  async findByVehicleId(vehicleId: string): Promise<VehiclePriceChange[]> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM vehicle_price_history WHERE vehicle_id = $1 ORDER BY changed_at DESC';
+      const result = await client.query(query, [vehicleId]);
+
+      return result.rows.map(row => this.mapRowToPriceChange(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_price_history', vehicleId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToPriceChange(row: any): VehiclePriceChange {
+    return {
+      id: row.id,
+      vehicleId: row.vehicle_id,
+      oldPrice: parseFloat(row.old_price),
+      newPrice: parseFloat(row.new_price),
+      source: row.source as PriceChangeSource,
+      actorId: row.actor_id,
+      reason: row.reason,
+      changedAt: row.changed_at,
+    };
+  }
+}
+
+export const priceHistoryRepository = new PriceHistoryRepository();
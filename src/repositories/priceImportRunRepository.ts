@@ -0,0 +1,286 @@
+import { pool } from '@/database/config';
+import {
+  PaginationParams,
+  PriceChangePreview,
+  PriceImportReport,
+  PriceImportRun,
+  PriceImportRunStatus,
+  PriceImportSource,
+} from '@/types';
+import { logger } from '@/services/logger';
+
+export interface ClaimPriceImportData {
+  source: PriceImportSource;
+  objectKey: string;
+  fingerprint: string;
+  attempt?: number;
+  archivedPath?: string;
+  requestedBy?: string;
+}
+
+export class PriceImportRunRepository {
+  // Registers a file as being processed. Returns null when this attempt of the
+  // file is already registered, which is what makes ingestion idempotent.
+  async claim(data: ClaimPriceImportData): Promise<PriceImportRun | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO price_import_runs (source, object_key, fingerprint, attempt, status, archived_path, requested_by, started_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+        ON CONFLICT (source, object_key, fingerprint, attempt) DO NOTHING
+        RETURNING *
+      `;
+
+      const values = [
+        data.source,
+        data.objectKey,
+        data.fingerprint,
+        data.attempt ?? 1,
+        PriceImportRunStatus.PROCESSING,
+        data.archivedPath || null,
+        data.requestedBy || null,
+      ];
+
+      const result = await client.query(query, values);
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToRun(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'claim_price_import', objectKey: data.objectKey });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findById(id: string): Promise<PriceImportRun | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM price_import_runs WHERE id = $1', [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToRun(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_price_import_by_id', runId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findAll(pagination: PaginationParams, status?: PriceImportRunStatus): Promise<{
+    runs: PriceImportRun[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const client = await pool.connect();
+    try {
+      const whereClause = status ? 'WHERE status = $1' : '';
+      const filterValues = status ? [status] : [];
+
+      const countResult = await client.query(`SELECT COUNT(*) FROM price_import_runs ${whereClause}`, filterValues);
+      const total = parseInt(countResult.rows[0].count);
+
+      // Row-level reports and previews can be large, so the list leaves them out
+      const query = `
+        SELECT id, source, object_key, fingerprint, attempt, status, total_rows, applied_rows, skipped_rows,
+               rejected_rows, error, archived_path, requested_by, reviewed_by, reviewed_at, review_note,
+               started_at, finished_at, duration_ms
+        FROM price_import_runs
+        ${whereClause}
+        ORDER BY started_at DESC
+        LIMIT $${filterValues.length + 1} OFFSET $${filterValues.length + 2}
+      `;
+      const result = await client.query(query, [...filterValues, pagination.limit, pagination.offset]);
+
+      return {
+        runs: result.rows.map(row => this.mapRowToRun(row)),
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages: Math.ceil(total / pagination.limit),
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_all_price_imports' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getLatestAttempt(source: PriceImportSource, objectKey: string, fingerprint: string): Promise<number> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT COALESCE(MAX(attempt), 0) AS attempt
+        FROM price_import_runs
+        WHERE source = $1 AND object_key = $2 AND fingerprint = $3
+      `;
+      const result = await client.query(query, [source, objectKey, fingerprint]);
+
+      return parseInt(result.rows[0].attempt);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_latest_price_import_attempt', objectKey });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async complete(id: string, report: PriceImportReport): Promise<PriceImportRun | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE price_import_runs
+        SET status = $1, total_rows = $2, applied_rows = $3, skipped_rows = $4, rejected_rows = $5,
+            report = $6, finished_at = NOW(), duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::int
+        WHERE id = $7
+        RETURNING *
+      `;
+
+      const values = [
+        PriceImportRunStatus.COMPLETED,
+        report.totalRows,
+        report.applied,
+        report.skipped,
+        report.rejected,
+        JSON.stringify(report.rows),
+        id,
+      ];
+
+      const result = await client.query(query, values);
+      return result.rows.length > 0 ? this.mapRowToRun(result.rows[0]) : null;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'complete_price_import', runId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async fail(id: string, message: string): Promise<PriceImportRun | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE price_import_runs
+        SET status = $1, error = $2, finished_at = NOW(),
+            duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::int
+        WHERE id = $3
+        RETURNING *
+      `;
+
+      const result = await client.query(query, [PriceImportRunStatus.FAILED, message, id]);
+      return result.rows.length > 0 ? this.mapRowToRun(result.rows[0]) : null;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'fail_price_import', runId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Parks the run until an admin decides; nothing from the file has been applied
+  async holdForApproval(id: string, preview: PriceChangePreview): Promise<PriceImportRun | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE price_import_runs
+        SET status = $1, total_rows = $2, preview = $3
+        WHERE id = $4
+        RETURNING *
+      `;
+
+      const values = [PriceImportRunStatus.PENDING_APPROVAL, preview.totalRows, JSON.stringify(preview), id];
+      const result = await client.query(query, values);
+      return result.rows.length > 0 ? this.mapRowToRun(result.rows[0]) : null;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'hold_price_import', runId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Records the decision on a held run: approved runs go back to processing, rejected ones
+  // are closed. Returns null when the run is not pending (already reviewed or never held).
+  async review(
+    id: string,
+    status: PriceImportRunStatus.PROCESSING | PriceImportRunStatus.REJECTED,
+    reviewedBy: string | undefined,
+    note?: string
+  ): Promise<PriceImportRun | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE price_import_runs
+        SET status = $1, reviewed_by = $2, reviewed_at = NOW(), review_note = $3,
+            finished_at = CASE WHEN $6::boolean THEN NOW() ELSE NULL END
+        WHERE id = $4 AND status = $5
+        RETURNING *
+      `;
+
+      const values = [
+        status,
+        reviewedBy || null,
+        note || null,
+        id,
+        PriceImportRunStatus.PENDING_APPROVAL,
+        status === PriceImportRunStatus.REJECTED,
+      ];
+      const result = await client.query(query, values);
+      return result.rows.length > 0 ? this.mapRowToRun(result.rows[0]) : null;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'review_price_import', runId: id, status });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async setArchivedPath(id: string, archivedPath: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('UPDATE price_import_runs SET archived_path = $1 WHERE id = $2', [archivedPath, id]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'set_price_import_archive', runId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToRun(row: any): PriceImportRun {
+    return {
+      id: row.id,
+      source: row.source as PriceImportSource,
+      objectKey: row.object_key,
+      fingerprint: row.fingerprint,
+      attempt: row.attempt,
+      status: row.status as PriceImportRunStatus,
+      totalRows: row.total_rows,
+      appliedRows: row.applied_rows,
+      skippedRows: row.skipped_rows,
+      rejectedRows: row.rejected_rows,
+      ...(row.report && { report: typeof row.report === 'string' ? JSON.parse(row.report) : row.report }),
+      error: row.error,
+      archivedPath: row.archived_path,
+      requestedBy: row.requested_by,
+      ...(row.preview && { preview: typeof row.preview === 'string' ? JSON.parse(row.preview) : row.preview }),
+      ...(row.reviewed_by && { reviewedBy: row.reviewed_by }),
+      ...(row.reviewed_at && { reviewedAt: row.reviewed_at }),
+      ...(row.review_note && { reviewNote: row.review_note }),
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      ...(row.duration_ms !== null && row.duration_ms !== undefined && { durationMs: row.duration_ms }),
+    };
+  }
+}
+
+export const priceImportRunRepository = new PriceImportRunRepository();
@@ -0,0 +1,189 @@
+import { pool } from '@/database/config';
+import { RepricingRule } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateRepricingRuleData {
+  name: string;
+  priority?: number;
+  brand?: string | null;
+  minYear?: number | null;
+  maxYear?: number | null;
+  minMileage?: number | null;
+  maxMileage?: number | null;
+  startAfterDays?: number;
+  intervalDays?: number | null;
+  adjustmentPercent?: number | null;
+  roundTo?: number | null;
+  floorPrice?: number | null;
+  isActive?: boolean;
+}
+
+export type UpdateRepricingRuleData = Partial<CreateRepricingRuleData>;
+
+const COLUMNS: Record<keyof CreateRepricingRuleData, string> = {
+  name: 'name',
+  priority: 'priority',
+  brand: 'brand',
+  minYear: 'min_year',
+  maxYear: 'max_year',
+  minMileage: 'min_mileage',
+  maxMileage: 'max_mileage',
+  startAfterDays: 'start_after_days',
+  intervalDays: 'interval_days',
+  adjustmentPercent: 'adjustment_percent',
+  roundTo: 'round_to',
+  floorPrice: 'floor_price',
+  isActive: 'is_active',
+};
+
+export class RepricingRuleRepository {
+  async create(data: CreateRepricingRuleData): Promise<RepricingRule> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO repricing_rules (
+          name, priority, brand, min_year, max_year, min_mileage, max_mileage, start_after_days,
+          interval_days, adjustment_percent, round_to, floor_price, is_active, created_at, updated_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW())
+        RETURNING *
+      `;
+
+      const values = [
+        data.name,
+        data.priority ?? 100,
+        data.brand ?? null,
+        data.minYear ?? null,
+        data.maxYear ?? null,
+        data.minMileage ?? null,
+        data.maxMileage ?? null,
+        data.startAfterDays ?? 0,
+        data.intervalDays ?? null,
+        data.adjustmentPercent ?? null,
+        data.roundTo ?? null,
+        data.floorPrice ?? null,
+        data.isActive ?? true,
+      ];
+
+      const result = await client.query(query, values);
+      return this.mapRowToRule(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_repricing_rule' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findById(id: string): Promise<RepricingRule | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM repricing_rules WHERE id = $1', [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToRule(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_repricing_rule_by_id', ruleId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Rules in the order they are applied
+  async findAll(activeOnly: boolean = false): Promise<RepricingRule[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT * FROM repricing_rules
+        ${activeOnly ? 'WHERE is_active = true' : ''}
+        ORDER BY priority ASC, created_at ASC
+      `;
+      const result = await client.query(query);
+
+      return result.rows.map(row => this.mapRowToRule(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_all_repricing_rules' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async update(id: string, data: UpdateRepricingRuleData): Promise<RepricingRule | null> {
+    const client = await pool.connect();
+    try {
+      const updateFields: string[] = [];
+      const values: any[] = [];
+
+      for (const [field, column] of Object.entries(COLUMNS) as [keyof CreateRepricingRuleData, string][]) {
+        if (data[field] !== undefined) {
+          values.push(data[field]);
+          updateFields.push(`${column} = $${values.length}`);
+        }
+      }
+
+      updateFields.push(`updated_at = NOW()`);
+      values.push(id);
+
+      const query = `
+        UPDATE repricing_rules
+        SET ${updateFields.join(', ')}
+        WHERE id = $${values.length}
+        RETURNING *
+      `;
+
+      const result = await client.query(query, values);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToRule(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_repricing_rule', ruleId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('DELETE FROM repricing_rules WHERE id = $1', [id]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_repricing_rule', ruleId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToRule(row: any): RepricingRule {
+    return {
+      id: row.id,
+      name: row.name,
+      priority: row.priority,
+      ...(row.brand !== null && { brand: row.brand }),
+      ...(row.min_year !== null && { minYear: row.min_year }),
+      ...(row.max_year !== null && { maxYear: row.max_year }),
+      ...(row.min_mileage !== null && { minMileage: row.min_mileage }),
+      ...(row.max_mileage !== null && { maxMileage: row.max_mileage }),
+      startAfterDays: row.start_after_days,
+      ...(row.interval_days !== null && { intervalDays: row.interval_days }),
+      ...(row.adjustment_percent !== null && { adjustmentPercent: parseFloat(row.adjustment_percent) }),
+      ...(row.round_to !== null && { roundTo: row.round_to }),
+      ...(row.floor_price !== null && { floorPrice: parseFloat(row.floor_price) }),
+      isActive: row.is_active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const repricingRuleRepository = new RepricingRuleRepository();
@@ -0,0 +1,271 @@
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { withClient } from '@/database/unitOfWork';
+import { VehicleUnavailableError } from './vehicleRepository';
+import { Reservation, ReservationFilters, ReservationStatus, PaginationParams, VehicleStatus } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateReservationData {
+  vehicleId: string;
+  userId: string;
+  expiresAt: Date;
+  depositAmount?: number;
+  depositReference?: string;
+  notes?: string;
+}
+
+export interface ReleaseReservationData {
+  status: ReservationStatus.RELEASED | ReservationStatus.EXPIRED;
+  releasedBy?: string;
+  reason?: string;
+}
+
+export class ReservationRepository {
+  async create(data: CreateReservationData, client?: PoolClient): Promise<Reservation> {
+    const startTime = Date.now();
+    try {
+      const query = `
+        INSERT INTO vehicle_reservations (vehicle_id, user_id, status, expires_at, deposit_amount, deposit_reference, notes, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+        RETURNING *
+      `;
+
+      const values = [
+        data.vehicleId,
+        data.userId,
+        ReservationStatus.ACTIVE,
+        data.expiresAt,
+        data.depositAmount ?? null,
+        data.depositReference || null,
+        data.notes || null,
+      ];
+
+      const result = await withClient(client, c => c.query(query, values));
+      const reservation = this.mapRowToReservation(result.rows[0]);
+
+      logger.logBusinessEvent('reservation_created', 'reservation', reservation.id, { vehicleId: data.vehicleId });
+      logger.logDatabaseOperation('CREATE', 'vehicle_reservations', Date.now() - startTime);
+
+      return reservation;
+    } catch (error) {
+      // The partial unique index is the last line of defence against double holds
+      if ((error as { code?: string }).code === '23505') {
+        throw new VehicleUnavailableError(data.vehicleId, VehicleStatus.RESERVED);
+      }
+
+      logger.logError(error as Error, { operation: 'create_reservation', vehicleId: data.vehicleId });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<Reservation | null> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM vehicle_reservations WHERE id = $1';
+      const result = await client.query(query, [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToReservation(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_reservation_by_id', reservationId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findActiveByVehicleId(vehicleId: string, client?: PoolClient): Promise<Reservation | null> {
+    try {
+      const query = 'SELECT * FROM vehicle_reservations WHERE vehicle_id = $1 AND status = $2';
+      const result = await withClient(client, c => c.query(query, [vehicleId, ReservationStatus.ACTIVE]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToReservation(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_active_reservation', vehicleId });
+      throw error;
+    }
+  }
+
+  async findAll(filters: ReservationFilters = {}, pagination: PaginationParams): Promise<{
+    reservations: Reservation[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const client = await pool.connect();
+    try {
+      const whereConditions: string[] = [];
+      const values: any[] = [];
+      let valueIndex = 1;
+
+      if (filters.userId) {
+        whereConditions.push(`user_id = $${valueIndex}`);
+        values.push(filters.userId);
+        valueIndex++;
+      }
+
+      if (filters.vehicleId) {
+        whereConditions.push(`vehicle_id = $${valueIndex}`);
+        values.push(filters.vehicleId);
+        valueIndex++;
+      }
+
+      if (filters.status) {
+        whereConditions.push(`status = $${valueIndex}`);
+        values.push(filters.status);
+        valueIndex++;
+      }
+
+      const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+      const countQuery = `SELECT COUNT(*) FROM vehicle_reservations ${whereClause}`;
+      const countResult = await client.query(countQuery, values);
+      const total = parseInt(countResult.rows[0].count);
+
+      const query = `
+        SELECT * FROM vehicle_reservations
+        ${whereClause}
+        ORDER BY created_at DESC
+        LIMIT $${valueIndex} OFFSET $${valueIndex + 1}
+      `;
+
+      values.push(pagination.limit, pagination.offset);
+      const result = await client.query(query, values);
+
+      return {
+        reservations: result.rows.map(row => this.mapRowToReservation(row)),
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages: Math.ceil(total / pagination.limit),
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_all_reservations', filters });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async extend(id: string, expiresAt: Date): Promise<Reservation | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE vehicle_reservations
+        SET expires_at = $1, updated_at = NOW()
+        WHERE id = $2 AND status = $3
+        RETURNING *
+      `;
+
+      const result = await client.query(query, [expiresAt, id, ReservationStatus.ACTIVE]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logBusinessEvent('reservation_extended', 'reservation', id, { expiresAt });
+      return this.mapRowToReservation(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'extend_reservation', reservationId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async release(id: string, data: ReleaseReservationData, client?: PoolClient): Promise<Reservation | null> {
+    try {
+      const query = `
+        UPDATE vehicle_reservations
+        SET status = $1, released_by = $2, release_reason = $3, released_at = NOW(), updated_at = NOW()
+        WHERE id = $4 AND status = $5
+        RETURNING *
+      `;
+
+      const values = [data.status, data.releasedBy || null, data.reason || null, id, ReservationStatus.ACTIVE];
+      const result = await withClient(client, c => c.query(query, values));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logBusinessEvent('reservation_released', 'reservation', id, { status: data.status });
+      return this.mapRowToReservation(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'release_reservation', reservationId: id });
+      throw error;
+    }
+  }
+
+  // Marks a hold as turned into an order by the same customer
+  async markConverted(id: string, client?: PoolClient): Promise<Reservation | null> {
+    try {
+      const query = `
+        UPDATE vehicle_reservations
+        SET status = $1, released_at = NOW(), release_reason = 'Converted to order', updated_at = NOW()
+        WHERE id = $2 AND status = $3
+        RETURNING *
+      `;
+
+      const result = await withClient(client, c => c.query(query, [ReservationStatus.CONVERTED, id, ReservationStatus.ACTIVE]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logBusinessEvent('reservation_converted', 'reservation', id);
+      return this.mapRowToReservation(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'convert_reservation', reservationId: id });
+      throw error;
+    }
+  }
+
+  async expireDue(client?: PoolClient): Promise<Reservation[]> {
+    const startTime = Date.now();
+    try {
+      const query = `
+        UPDATE vehicle_reservations
+        SET status = $1, released_at = NOW(), release_reason = 'Hold expired', updated_at = NOW()
+        WHERE status = $2 AND expires_at <= NOW()
+        RETURNING *
+      `;
+
+      const result = await withClient(client, c => c.query(query, [ReservationStatus.EXPIRED, ReservationStatus.ACTIVE]));
+
+      logger.logDatabaseOperation('UPDATE', 'vehicle_reservations', Date.now() - startTime);
+      return result.rows.map(row => this.mapRowToReservation(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'expire_reservations' });
+      throw error;
+    }
+  }
+
+  private mapRowToReservation(row: any): Reservation {
+    return {
+      id: row.id,
+      vehicleId: row.vehicle_id,
+      userId: row.user_id,
+      status: row.status as ReservationStatus,
+      expiresAt: row.expires_at,
+      ...(row.deposit_amount !== null && { depositAmount: parseFloat(row.deposit_amount) }),
+      depositReference: row.deposit_reference,
+      notes: row.notes,
+      releasedBy: row.released_by,
+      releasedAt: row.released_at,
+      releaseReason: row.release_reason,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const reservationRepository = new ReservationRepository();
@@ -0,0 +1,128 @@
+import { pool } from '@/database/config';
+import { OrderStatus, ReportInterval, SalesReportFilters } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface StatusAggregateRow {
+  status: OrderStatus;
+  count: number;
+  revenue: number;
+}
+
+export interface SeriesAggregateRow {
+  period: Date;
+  orderCount: number;
+  salesCount: number;
+  revenue: number;
+}
+
+// Orders in these states count as realized sales
+export const REVENUE_STATUSES = [OrderStatus.PAID, OrderStatus.DELIVERED];
+
+export class SalesReportRepository {
+  async getStatusAggregates(filters: SalesReportFilters = {}): Promise<StatusAggregateRow[]> {
+    const startTime = Date.now();
+    const client = await pool.connect();
+    try {
+      const { whereClause, values } = this.buildWhereClause(filters);
+
+      const query = `
+        SELECT o.status, COUNT(*) AS count, COALESCE(SUM(o.total_amount), 0) AS revenue
+        FROM orders o
+        JOIN vehicles v ON v.id = o.vehicle_id
+        ${whereClause}
+        GROUP BY o.status
+      `;
+
+      const result = await client.query(query, values);
+      logger.logDatabaseOperation('SELECT', 'orders', Date.now() - startTime);
+
+      return result.rows.map(row => ({
+        status: row.status as OrderStatus,
+        count: parseInt(row.count),
+        revenue: parseFloat(row.revenue),
+      }));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_order_status_aggregates', filters });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSeries(interval: ReportInterval, filters: SalesReportFilters = {}): Promise<SeriesAggregateRow[]> {
+    const startTime = Date.now();
+    const client = await pool.connect();
+    try {
+      const { whereClause, values } = this.buildWhereClause(filters);
+      const revenueIndex = values.length + 1;
+
+      // interval is restricted to ReportInterval, so it is safe to inline
+      const query = `
+        SELECT
+          date_trunc('${interval}', o.created_at) AS period,
+          COUNT(*) AS order_count,
+          COUNT(*) FILTER (WHERE o.status = ANY($${revenueIndex})) AS sales_count,
+          COALESCE(SUM(o.total_amount) FILTER (WHERE o.status = ANY($${revenueIndex})), 0) AS revenue
+        FROM orders o
+        JOIN vehicles v ON v.id = o.vehicle_id
+        ${whereClause}
+        GROUP BY period
+        ORDER BY period ASC
+      `;
+
+      const result = await client.query(query, [...values, REVENUE_STATUSES]);
+      logger.logDatabaseOperation('SELECT', 'orders', Date.now() - startTime);
+
+      return result.rows.map(row => ({
+        period: row.period,
+        orderCount: parseInt(row.order_count),
+        salesCount: parseInt(row.sales_count),
+        revenue: parseFloat(row.revenue),
+      }));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_sales_series', interval, filters });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private buildWhereClause(filters: SalesReportFilters): { whereClause: string; values: any[] } {
+    const whereConditions: string[] = [];
+    const values: any[] = [];
+    let valueIndex = 1;
+
+    if (filters.dateFrom) {
+      whereConditions.push(`o.created_at >= $${valueIndex}`);
+      values.push(filters.dateFrom);
+      valueIndex++;
+    }
+
+    if (filters.dateTo) {
+      whereConditions.push(filters.dateToIsDay
+        ? `o.created_at < $${valueIndex}::timestamptz + INTERVAL '1 day'`
+        : `o.created_at <= $${valueIndex}`);
+      values.push(filters.dateTo);
+      valueIndex++;
+    }
+
+    if (filters.brand) {
+      whereConditions.push(`LOWER(v.brand) = LOWER($${valueIndex})`);
+      values.push(filters.brand);
+      valueIndex++;
+    }
+
+    if (filters.salespersonId) {
+      whereConditions.push(`o.salesperson_id = $${valueIndex}`);
+      values.push(filters.salespersonId);
+      valueIndex++;
+    }
+
+    return {
+      whereClause: whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '',
+      values,
+    };
+  }
+}
+
+export const salesReportRepository = new SalesReportRepository();
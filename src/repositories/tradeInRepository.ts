@@ -0,0 +1,284 @@
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { withClient } from '@/database/unitOfWork';
+import { TradeIn, TradeInCondition, TradeInFilters, TradeInStatus, PaginationParams } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateTradeInData {
+  orderId?: string;
+  customerId?: string;
+  brand: string;
+  model: string;
+  year: number;
+  mileage: number;
+  conditionGrade: TradeInCondition;
+  appraisedValue: number;
+  appraisedBy?: string;
+  notes?: string;
+}
+
+export interface DecideTradeInData {
+  status: TradeInStatus.ACCEPTED | TradeInStatus.REJECTED;
+  decidedBy?: string;
+  reason?: string;
+}
+
+export class TradeInRepository {
+  async create(data: CreateTradeInData): Promise<TradeIn> {
+    const startTime = Date.now();
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO trade_ins (order_id, customer_id, brand, model, year, mileage, condition_grade, appraised_value, appraised_by, status, notes, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
+        RETURNING *
+      `;
+
+      const values = [
+        data.orderId || null,
+        data.customerId || null,
+        data.brand,
+        data.model,
+        data.year,
+        data.mileage,
+        data.conditionGrade,
+        data.appraisedValue,
+        data.appraisedBy || null,
+        TradeInStatus.APPRAISED,
+        data.notes || null,
+      ];
+
+      const result = await client.query(query, values);
+      const tradeIn = this.mapRowToTradeIn(result.rows[0]);
+
+      logger.logBusinessEvent('trade_in_appraised', 'trade_in', tradeIn.id, { appraisedValue: tradeIn.appraisedValue });
+      logger.logDatabaseOperation('CREATE', 'trade_ins', Date.now() - startTime);
+
+      return tradeIn;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_trade_in' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findById(id: string): Promise<TradeIn | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM trade_ins WHERE id = $1', [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToTradeIn(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_trade_in_by_id', tradeInId: id });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Locks the trade-in row until the surrounding transaction ends
+  async findByIdForUpdate(id: string, client: PoolClient): Promise<TradeIn | null> {
+    const result = await client.query('SELECT * FROM trade_ins WHERE id = $1 FOR UPDATE', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToTradeIn(result.rows[0]);
+  }
+
+  async findAll(filters: TradeInFilters = {}, pagination: PaginationParams): Promise<{
+    tradeIns: TradeIn[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const client = await pool.connect();
+    try {
+      const whereConditions: string[] = [];
+      const values: any[] = [];
+      let valueIndex = 1;
+
+      if (filters.orderId) {
+        whereConditions.push(`order_id = $${valueIndex}`);
+        values.push(filters.orderId);
+        valueIndex++;
+      }
+
+      if (filters.customerId) {
+        whereConditions.push(`customer_id = $${valueIndex}`);
+        values.push(filters.customerId);
+        valueIndex++;
+      }
+
+      if (filters.status) {
+        whereConditions.push(`status = $${valueIndex}`);
+        values.push(filters.status);
+        valueIndex++;
+      }
+
+      const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+      const countQuery = `SELECT COUNT(*) FROM trade_ins ${whereClause}`;
+      const countResult = await client.query(countQuery, values);
+      const total = parseInt(countResult.rows[0].count);
+
+      const query = `
+        SELECT * FROM trade_ins
+        ${whereClause}
+        ORDER BY created_at DESC
+        LIMIT $${valueIndex} OFFSET $${valueIndex + 1}
+      `;
+
+      values.push(pagination.limit, pagination.offset);
+      const result = await client.query(query, values);
+
+      return {
+        tradeIns: result.rows.map(row => this.mapRowToTradeIn(row)),
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages: Math.ceil(total / pagination.limit),
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_all_trade_ins', filters });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<TradeIn[]> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM trade_ins WHERE order_id = $1 ORDER BY created_at ASC';
+      const result = await client.query(query, [orderId]);
+
+      return result.rows.map(row => this.mapRowToTradeIn(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_trade_ins_by_order', orderId });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Only appraisals that have not been decided yet can move between orders
+  async attachToOrder(id: string, orderId: string, customerId: string, client?: PoolClient): Promise<TradeIn | null> {
+    try {
+      const query = `
+        UPDATE trade_ins
+        SET order_id = $1, customer_id = $2, updated_at = NOW()
+        WHERE id = $3 AND status = $4
+        RETURNING *
+      `;
+
+      const result = await withClient(client, c => c.query(query, [orderId, customerId, id, TradeInStatus.APPRAISED]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logBusinessEvent('trade_in_attached', 'trade_in', id, { orderId });
+      return this.mapRowToTradeIn(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'attach_trade_in', tradeInId: id, orderId });
+      throw error;
+    }
+  }
+
+  async decide(id: string, data: DecideTradeInData, client?: PoolClient): Promise<TradeIn | null> {
+    try {
+      const query = `
+        UPDATE trade_ins
+        SET status = $1, decided_by = $2, rejection_reason = $3, decided_at = NOW(), updated_at = NOW()
+        WHERE id = $4 AND status = $5
+        RETURNING *
+      `;
+
+      const values = [data.status, data.decidedBy || null, data.reason || null, id, TradeInStatus.APPRAISED];
+      const result = await withClient(client, c => c.query(query, values));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logBusinessEvent(`trade_in_${data.status}`, 'trade_in', id);
+      return this.mapRowToTradeIn(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'decide_trade_in', tradeInId: id, status: data.status });
+      throw error;
+    }
+  }
+
+  async linkVehicle(id: string, vehicleId: string, client?: PoolClient): Promise<TradeIn | null> {
+    try {
+      const query = `
+        UPDATE trade_ins
+        SET vehicle_id = $1, updated_at = NOW()
+        WHERE id = $2 AND vehicle_id IS NULL
+        RETURNING *
+      `;
+
+      const result = await withClient(client, c => c.query(query, [vehicleId, id]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.logBusinessEvent('trade_in_converted', 'trade_in', id, { vehicleId });
+      return this.mapRowToTradeIn(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'link_trade_in_vehicle', tradeInId: id });
+      throw error;
+    }
+  }
+
+  // Sum of every accepted trade-in credited to the order
+  async getAcceptedCredit(orderId: string, client?: PoolClient): Promise<number> {
+    try {
+      const query = `
+        SELECT COALESCE(SUM(appraised_value), 0) AS credit
+        FROM trade_ins
+        WHERE order_id = $1 AND status = $2
+      `;
+      const result = await withClient(client, c => c.query(query, [orderId, TradeInStatus.ACCEPTED]));
+
+      return parseFloat(result.rows[0].credit);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_trade_in_credit', orderId });
+      throw error;
+    }
+  }
+
+  private mapRowToTradeIn(row: any): TradeIn {
+    return {
+      id: row.id,
+      orderId: row.order_id,
+      customerId: row.customer_id,
+      brand: row.brand,
+      model: row.model,
+      year: row.year,
+      mileage: row.mileage,
+      conditionGrade: row.condition_grade as TradeInCondition,
+      appraisedValue: parseFloat(row.appraised_value),
+      appraisedBy: row.appraised_by,
+      status: row.status as TradeInStatus,
+      vehicleId: row.vehicle_id,
+      notes: row.notes,
+      decidedBy: row.decided_by,
+      decidedAt: row.decided_at,
+      rejectionReason: row.rejection_reason,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const tradeInRepository = new TradeInRepository();
@@ -0,0 +1,191 @@
+import { PoolClient } from 'pg';
+import { withClient } from '@/database/unitOfWork';
+import { ThumbnailSize, VehiclePhoto } from '@/types';
+import { logger } from '@/services/logger';
+
+export interface CreateVehiclePhotoData {
+  id: string;
+  vehicleId: string;
+  storageKey: string;
+  url: string;
+  thumbnails: Partial<Record<ThumbnailSize, string>>;
+  caption?: string;
+  position: number;
+  isMain: boolean;
+  contentType: string;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+}
+
+export interface StoredVehiclePhoto extends VehiclePhoto {
+  storageKey: string;
+}
+
+export class VehiclePhotoRepository {
+  async create(data: CreateVehiclePhotoData, client?: PoolClient): Promise<StoredVehiclePhoto> {
+    const startTime = Date.now();
+    try {
+      const query = `
+        INSERT INTO vehicle_photos (id, vehicle_id, storage_key, url, thumbnails, caption, position, is_main, content_type, size_bytes, width, height, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
+        RETURNING *
+      `;
+
+      const values = [
+        data.id,
+        data.vehicleId,
+        data.storageKey,
+        data.url,
+        JSON.stringify(data.thumbnails),
+        data.caption || null,
+        data.position,
+        data.isMain,
+        data.contentType,
+        data.sizeBytes,
+        data.width ?? null,
+        data.height ?? null,
+      ];
+
+      const result = await withClient(client, c => c.query(query, values));
+      logger.logDatabaseOperation('CREATE', 'vehicle_photos', Date.now() - startTime);
+
+      return this.mapRowToPhoto(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'create_vehicle_photo', vehicleId: data.vehicleId });
+      throw error;
+    }
+  }
+
+  async findByVehicleId(vehicleId: string, client?: PoolClient): Promise<StoredVehiclePhoto[]> {
+    try {
+      const query = 'SELECT * FROM vehicle_photos WHERE vehicle_id = $1 ORDER BY position ASC, created_at ASC';
+      const result = await withClient(client, c => c.query(query, [vehicleId]));
+
+      return result.rows.map(row => this.mapRowToPhoto(row));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_vehicle_photos', vehicleId });
+      throw error;
+    }
+  }
+
+  async findById(vehicleId: string, photoId: string, client?: PoolClient): Promise<StoredVehiclePhoto | null> {
+    try {
+      const query = 'SELECT * FROM vehicle_photos WHERE id = $1 AND vehicle_id = $2';
+      const result = await withClient(client, c => c.query(query, [photoId, vehicleId]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToPhoto(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_vehicle_photo', vehicleId, photoId });
+      throw error;
+    }
+  }
+
+  async getNextPosition(vehicleId: string, client?: PoolClient): Promise<number> {
+    const query = 'SELECT COALESCE(MAX(position) + 1, 0) AS next FROM vehicle_photos WHERE vehicle_id = $1';
+    const result = await withClient(client, c => c.query(query, [vehicleId]));
+
+    return parseInt(result.rows[0].next);
+  }
+
+  async updateCaption(photoId: string, caption: string | null, client?: PoolClient): Promise<StoredVehiclePhoto | null> {
+    try {
+      const query = 'UPDATE vehicle_photos SET caption = $1, updated_at = NOW() WHERE id = $2 RETURNING *';
+      const result = await withClient(client, c => c.query(query, [caption, photoId]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToPhoto(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_vehicle_photo_caption', photoId });
+      throw error;
+    }
+  }
+
+  async updateThumbnails(
+    photoId: string,
+    thumbnails: Partial<Record<ThumbnailSize, string>>,
+    client?: PoolClient
+  ): Promise<StoredVehiclePhoto | null> {
+    try {
+      const query = 'UPDATE vehicle_photos SET thumbnails = $1, updated_at = NOW() WHERE id = $2 RETURNING *';
+      const result = await withClient(client, c => c.query(query, [JSON.stringify(thumbnails), photoId]));
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToPhoto(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'update_vehicle_photo_thumbnails', photoId });
+      throw error;
+    }
+  }
+
+  // Clears the previous main photo first so the partial unique index is never violated
+  async setMain(vehicleId: string, photoId: string, client: PoolClient): Promise<StoredVehiclePhoto | null> {
+    await client.query(
+      'UPDATE vehicle_photos SET is_main = false, updated_at = NOW() WHERE vehicle_id = $1 AND is_main = true',
+      [vehicleId]
+    );
+
+    const result = await client.query(
+      'UPDATE vehicle_photos SET is_main = true, updated_at = NOW() WHERE id = $1 AND vehicle_id = $2 RETURNING *',
+      [photoId, vehicleId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToPhoto(result.rows[0]);
+  }
+
+  async updatePositions(vehicleId: string, photoIds: string[], client: PoolClient): Promise<void> {
+    const query = `
+      UPDATE vehicle_photos AS p
+      SET position = o.position - 1, updated_at = NOW()
+      FROM unnest($1::uuid[]) WITH ORDINALITY AS o(id, position)
+      WHERE p.id = o.id AND p.vehicle_id = $2
+    `;
+
+    await client.query(query, [photoIds, vehicleId]);
+  }
+
+  async delete(photoId: string, client?: PoolClient): Promise<boolean> {
+    try {
+      const result = await withClient(client, c => c.query('DELETE FROM vehicle_photos WHERE id = $1', [photoId]));
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'delete_vehicle_photo', photoId });
+      throw error;
+    }
+  }
+
+  private mapRowToPhoto(row: any): StoredVehiclePhoto {
+    return {
+      id: row.id,
+      vehicleId: row.vehicle_id,
+      storageKey: row.storage_key,
+      url: row.url,
+      thumbnails: row.thumbnails || {},
+      caption: row.caption,
+      position: row.position,
+      isMain: row.is_main,
+      contentType: row.content_type,
+      sizeBytes: row.size_bytes,
+      ...(row.width !== null && { width: row.width }),
+      ...(row.height !== null && { height: row.height }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const vehiclePhotoRepository = new VehiclePhotoRepository();
@@ -1,12 +1,28 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { pool } from '@/database/config';
-import { Vehicle, VehicleFilters, PaginationParams, VehicleStatus } from '@/types';
+import {
+  Vehicle,
+  VehicleFilters,
+  VehicleListItem,
+  VehiclePriceDrop,
+  VehicleFacets,
+  FacetCount,
+  RangeFacetCount,
+  PaginationParams,
+  VehicleStatus,
+  VehicleSortField,
+  VehicleListOptions,
+  SortOrder,
+  PriceChangeSource,
+  RepricingCandidate,
+} from '@/types';
 import { logger } from '@/services/logger';
 
 export interface CreateVehicleData {
   brand: string;
   model: string;
   year: number;
+  vin?: string;
   mileage: number;
   price: number;
   description?: string;
@@ -19,6 +35,7 @@ export interface UpdateVehicleData {
   brand?: string;
   model?: string;
   year?: number;
+  vin?: string | null;
   mileage?: number;
   price?: number;
   description?: string;
@@ -27,13 +44,129 @@ export interface UpdateVehicleData {
   status?: VehicleStatus;
 }
 
+// Matches a query in either language; websearch syntax supports "quoted phrases" and -exclusions
+const searchQuery = (param: string): string =>
+  `(websearch_to_tsquery('spanish', ${param}) || websearch_to_tsquery('english', ${param}))`;
+
+const HIGHLIGHT_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10';
+
+// Price bands used by the listing facets; max is exclusive and null means open-ended
+export const PRICE_BANDS: Omit<RangeFacetCount, 'count'>[] = [
+  { min: 0, max: 5000 },
+  { min: 5000, max: 10000 },
+  { min: 10000, max: 15000 },
+  { min: 15000, max: 20000 },
+  { min: 20000, max: 30000 },
+  { min: 30000, max: 50000 },
+  { min: 50000, max: null },
+];
+
+export const YEAR_BAND_SIZE = 5;
+
+// Listings show a price-drop badge when the price fell within this many days
+export const PRICE_DROP_WINDOW_DAYS = 30;
+
+const PRICE_DROP_COLUMNS = `,
+  (SELECT MAX(h.old_price) FROM vehicle_price_history h
+    WHERE h.vehicle_id = vehicles.id AND h.changed_at >= NOW() - INTERVAL '${PRICE_DROP_WINDOW_DAYS} days') AS recent_high_price,
+  (SELECT MAX(h.changed_at) FROM vehicle_price_history h
+    WHERE h.vehicle_id = vehicles.id AND h.new_price < h.old_price
+      AND h.changed_at >= NOW() - INTERVAL '${PRICE_DROP_WINDOW_DAYS} days') AS last_reduced_at`;
+
+// Compares the current price with the highest price it had within the window
+export const computePriceDrop = (price: number, previousPrice: number, since: Date): VehiclePriceDrop | null => {
+  if (price >= previousPrice) {
+    return null;
+  }
+
+  const amount = Math.round((previousPrice - price) * 100) / 100;
+  return {
+    previousPrice,
+    amount,
+    percent: Math.round((amount / previousPrice) * 1000) / 10,
+    since,
+  };
+};
+
+export class VehicleUnavailableError extends Error {
+  constructor(
+    public readonly vehicleId: string,
+    public readonly currentStatus: VehicleStatus
+  ) {
+    super(`Vehicle is not available (current status: ${currentStatus})`);
+    this.name = 'VehicleUnavailableError';
+  }
+}
+
+// Sortable columns and the SQL type their cursor value is cast back to
+const SORT_COLUMNS: Record<Exclude<VehicleSortField, VehicleSortField.RELEVANCE>, { expression: string; type: string }> = {
+  [VehicleSortField.PRICE]: { expression: 'price', type: 'numeric' },
+  [VehicleSortField.YEAR]: { expression: 'year', type: 'integer' },
+  [VehicleSortField.MILEAGE]: { expression: 'mileage', type: 'integer' },
+  [VehicleSortField.CREATED_AT]: { expression: 'created_at', type: 'timestamptz' },
+};
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface VehicleCursor {
+  sort: VehicleSortField;
+  order: SortOrder;
+  // Sort value as rendered by PostgreSQL, so timestamps keep their microseconds
+  value: string;
+  id: string;
+  direction: CursorDirection;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid or expired cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export const encodeCursor = (cursor: VehicleCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+export const decodeCursor = (raw: string): VehicleCursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (
+      !Object.values(VehicleSortField).includes(cursor.sort) ||
+      !['asc', 'desc'].includes(cursor.order) ||
+      !['next', 'prev'].includes(cursor.direction) ||
+      typeof cursor.value !== 'string' ||
+      typeof cursor.id !== 'string'
+    ) {
+      throw new InvalidCursorError();
+    }
+    return cursor;
+  } catch {
+    throw new InvalidCursorError();
+  }
+};
+
+export class DuplicateVinError extends Error {
+  constructor(public readonly vin: string) {
+    super(`A vehicle with VIN ${vin} already exists`);
+    this.name = 'DuplicateVinError';
+  }
+}
+
+const omitFilters = (filters: VehicleFilters, ...keys: (keyof VehicleFilters)[]): VehicleFilters => {
+  const remaining = { ...filters };
+  keys.forEach(key => delete remaining[key]);
+  return remaining;
+};
+
+const isUniqueViolation = (error: unknown): boolean => (error as { code?: string }).code === '23505';
+
 export class VehicleRepository {
-  async create(data: CreateVehicleData): Promise<Vehicle | null> {
-    const client = await pool.connect();
+  async create(data: CreateVehicleData, tx?: PoolClient): Promise<Vehicle | null> {
+    const client = tx ?? await pool.connect();
     try {
       const query = `
-        INSERT INTO vehicles (brand, model, year, mileage, price, description, main_photo, technical_specs, status, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+        INSERT INTO vehicles (brand, model, year, vin, mileage, price, description, main_photo, technical_specs, status, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
         RETURNING *
       `;
       
@@ -41,6 +174,7 @@ export class VehicleRepository {
         data.brand,
         data.model,
         data.year,
+        data.vin || null,
         data.mileage,
         data.price,
         data.description || null,
@@ -52,10 +186,20 @@ export class VehicleRepository {
       const result = await client.query(query, values);
       return this.mapRowToVehicle(result.rows[0]);
     } catch (error) {
+      // The unique index settles races between two listings with the same VIN
+      if (data.vin && isUniqueViolation(error)) {
+        throw new DuplicateVinError(data.vin);
+      }
+
       logger.logError(error as Error, { operation: 'create_vehicle' });
+      if (tx) {
+        throw error;
+      }
       return null;
     } finally {
-      client.release();
+      if (!tx) {
+        client.release();
+      }
     }
   }
 
@@ -78,97 +222,228 @@ export class VehicleRepository {
     }
   }
 
-  async findAll(filters: VehicleFilters = {}, pagination: PaginationParams): Promise<{
-    vehicles: Vehicle[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }> {
+  // Locks the vehicle row until the surrounding transaction ends
+  async findByIdForUpdate(id: string, client: PoolClient): Promise<Vehicle | null> {
+    const query = 'SELECT * FROM vehicles WHERE id = $1 AND deleted_at IS NULL FOR UPDATE';
+    const result = await client.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToVehicle(result.rows[0]);
+  }
+
+  // Ids from the list that belong to live vehicles; used to validate bulk imports up front
+  async findExistingIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+
     const client = await pool.connect();
     try {
-      let whereConditions = ['deleted_at IS NULL'];
-      const values: any[] = [];
-      let valueIndex = 1;
+      const query = 'SELECT id FROM vehicles WHERE id = ANY($1::uuid[]) AND deleted_at IS NULL';
+      const result = await client.query(query, [ids]);
 
-      // Apply filters
-      if (filters.brand) {
-        whereConditions.push(`brand ILIKE $${valueIndex}`);
-        values.push(`%${filters.brand}%`);
-        valueIndex++;
-      }
+      return new Set(result.rows.map(row => row.id as string));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_existing_vehicle_ids', count: ids.length });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 
-      if (filters.model) {
-        whereConditions.push(`model ILIKE $${valueIndex}`);
-        values.push(`%${filters.model}%`);
-        valueIndex++;
-      }
+  // Current prices keyed by vehicle ID, for diffing a batch before it is applied
+  async findPricesByIds(ids: string[]): Promise<Map<string, number>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
 
-      if (filters.yearMin) {
-        whereConditions.push(`year >= $${valueIndex}`);
-        values.push(filters.yearMin);
-        valueIndex++;
-      }
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT id, price FROM vehicles WHERE id = ANY($1::uuid[]) AND deleted_at IS NULL';
+      const result = await client.query(query, [ids]);
 
-      if (filters.yearMax) {
-        whereConditions.push(`year <= $${valueIndex}`);
-        values.push(filters.yearMax);
-        valueIndex++;
-      }
+      return new Map(result.rows.map(row => [row.id as string, parseFloat(row.price)]));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_vehicle_prices_by_ids', count: ids.length });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 
-      if (filters.priceMin) {
-        whereConditions.push(`price >= $${valueIndex}`);
-        values.push(filters.priceMin);
-        valueIndex++;
+  // Vehicles still for sale, with the date of their last rule-driven price change
+  async findRepricingCandidates(vehicleId?: string): Promise<RepricingCandidate[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT v.id, v.brand, v.model, v.year, v.mileage, v.price, v.created_at,
+               (SELECT MAX(h.changed_at) FROM vehicle_price_history h
+                WHERE h.vehicle_id = v.id AND h.source = $1) AS last_rule_change_at
+        FROM vehicles v
+        WHERE v.status = $2 AND v.deleted_at IS NULL
+          ${vehicleId ? 'AND v.id = $3' : ''}
+        ORDER BY v.created_at ASC
+      `;
+      const values: any[] = [PriceChangeSource.RULE, VehicleStatus.AVAILABLE];
+      if (vehicleId) {
+        values.push(vehicleId);
       }
 
-      if (filters.priceMax) {
-        whereConditions.push(`price <= $${valueIndex}`);
-        values.push(filters.priceMax);
-        valueIndex++;
-      }
+      const result = await client.query(query, values);
 
-      if (filters.mileageMax) {
-        whereConditions.push(`mileage <= $${valueIndex}`);
-        values.push(filters.mileageMax);
-        valueIndex++;
-      }
+      return result.rows.map(row => ({
+        id: row.id,
+        brand: row.brand,
+        model: row.model,
+        year: row.year,
+        mileage: row.mileage,
+        price: parseFloat(row.price),
+        createdAt: row.created_at,
+        ...(row.last_rule_change_at && { lastRuleChangeAt: row.last_rule_change_at }),
+      }));
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_repricing_candidates' });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 
-      if (filters.status) {
-        whereConditions.push(`status = $${valueIndex}`);
-        values.push(filters.status);
-        valueIndex++;
+  async findByVin(vin: string): Promise<Vehicle | null> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM vehicles WHERE vin = $1 AND deleted_at IS NULL';
+      const result = await client.query(query, [vin]);
+
+      if (result.rows.length === 0) {
+        return null;
       }
 
-      const whereClause = whereConditions.join(' AND ');
+      return this.mapRowToVehicle(result.rows[0]);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'find_vehicle_by_vin', vin });
+      return null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findAll(filters: VehicleFilters = {}, pagination: PaginationParams, options: VehicleListOptions = {}): Promise<{
+    vehicles: VehicleListItem[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  }> {
+    const client = await pool.connect();
+    try {
+      const { whereClause, values, searchParam } = this.buildWhereClause(filters);
+      let valueIndex = values.length + 1;
 
       // Get total count
       const countQuery = `SELECT COUNT(*) FROM vehicles WHERE ${whereClause}`;
       const countResult = await client.query(countQuery, values);
       const total = parseInt(countResult.rows[0].count);
 
-      // Get paginated results
+      // Relevance is the default (and only meaningful) ordering for text searches
+      const sort = options.sort === VehicleSortField.RELEVANCE && !searchParam
+        ? VehicleSortField.CREATED_AT
+        : options.sort ?? (searchParam ? VehicleSortField.RELEVANCE : VehicleSortField.CREATED_AT);
+      const order: SortOrder = options.order ?? 'desc';
+      const sortColumn = sort === VehicleSortField.RELEVANCE
+        ? { expression: `ts_rank_cd(search_vector, ${searchQuery(searchParam!)})`, type: 'real' }
+        : SORT_COLUMNS[sort];
+
+      const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+      if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+        throw new InvalidCursorError('Cursor does not match the requested sort');
+      }
+
+      // Walking backwards flips the comparison and the ordering; rows are reversed afterwards
+      const backwards = cursor?.direction === 'prev';
+      const scanOrder = (order === 'desc') !== backwards ? 'DESC' : 'ASC';
+
+      let keysetCondition = '';
+      if (cursor) {
+        const comparator = scanOrder === 'DESC' ? '<' : '>';
+        keysetCondition = `AND (${sortColumn.expression}, id) ${comparator} ($${valueIndex}::${sortColumn.type}, $${valueIndex + 1}::uuid)`;
+        values.push(cursor.value, cursor.id);
+        valueIndex += 2;
+      }
+
+      // Relevance ranking and highlighted snippets only apply to text searches
+      const searchColumns = searchParam
+        ? `,
+          ts_rank_cd(search_vector, ${searchQuery(searchParam)}) AS search_rank,
+          ts_headline('spanish', concat_ws(' - ', brand || ' ' || model, description), ${searchQuery(searchParam)}, '${HIGHLIGHT_OPTIONS}') AS search_highlight`
+        : '';
+
+      // One extra row tells whether another page exists in the scan direction
       const query = `
-        SELECT * FROM vehicles 
-        WHERE ${whereClause}
-        ORDER BY created_at DESC
-        LIMIT $${valueIndex} OFFSET $${valueIndex + 1}
+        SELECT *, (${sortColumn.expression})::text AS sort_key${PRICE_DROP_COLUMNS}${searchColumns} FROM vehicles
+        WHERE ${whereClause} ${keysetCondition}
+        ORDER BY ${sortColumn.expression} ${scanOrder}, id ${scanOrder}
+        LIMIT $${valueIndex}${cursor ? '' : ` OFFSET $${valueIndex + 1}`}
       `;
-      
-      values.push(pagination.limit, pagination.offset);
+
+      values.push(pagination.limit + 1);
+      if (!cursor) {
+        values.push(pagination.offset);
+      }
       const result = await client.query(query, values);
 
-      const vehicles = result.rows.map(row => this.mapRowToVehicle(row));
+      const hasMore = result.rows.length > pagination.limit;
+      const rows = result.rows.slice(0, pagination.limit);
+      if (backwards) {
+        rows.reverse();
+      }
+
+      const vehicles: VehicleListItem[] = rows.map(row => ({
+        ...this.mapRowToVehicle(row),
+        ...this.mapRowToPriceDrop(row),
+        ...(searchParam && {
+          match: { rank: parseFloat(row.search_rank), highlight: row.search_highlight },
+        }),
+      }));
       const totalPages = Math.ceil(total / pagination.limit);
 
+      const cursorFor = (row: any, direction: CursorDirection): string =>
+        encodeCursor({ sort, order, value: row.sort_key, id: row.id, direction });
+      const first = rows[0];
+      const last = rows[rows.length - 1];
+
+      let hasNext: boolean;
+      let hasPrev: boolean;
+      if (!cursor) {
+        hasNext = hasMore;
+        hasPrev = pagination.offset > 0;
+      } else if (backwards) {
+        hasNext = true;
+        hasPrev = hasMore;
+      } else {
+        hasNext = hasMore;
+        hasPrev = true;
+      }
+
       return {
         vehicles,
         total,
         page: pagination.page,
         limit: pagination.limit,
         totalPages,
+        nextCursor: hasNext && last ? cursorFor(last, 'next') : null,
+        prevCursor: hasPrev && first ? cursorFor(first, 'prev') : null,
       };
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        throw error;
+      }
+
       logger.logError(error as Error, { operation: 'find_all_vehicles' });
       return {
         vehicles: [],
@@ -176,14 +451,169 @@ export class VehicleRepository {
         page: pagination.page,
         limit: pagination.limit,
         totalPages: 0,
+        nextCursor: null,
+        prevCursor: null,
       };
     } finally {
       client.release();
     }
   }
 
-  async update(id: string, data: UpdateVehicleData): Promise<Vehicle | null> {
+  async getFacets(filters: VehicleFilters = {}): Promise<VehicleFacets> {
     const client = await pool.connect();
+    try {
+      // Each facet ignores its own filter so the storefront can offer the alternatives
+      const withoutBrand = omitFilters(filters, 'brand');
+      const withoutFuelType = omitFilters(filters, 'fuelType');
+      const withoutTransmission = omitFilters(filters, 'transmission');
+      const withoutPrice = omitFilters(filters, 'priceMin', 'priceMax');
+      const withoutYear = omitFilters(filters, 'yearMin', 'yearMax');
+
+      const countBy = async (expression: string, facetFilters: VehicleFilters): Promise<any[]> => {
+        const { whereClause, values } = this.buildWhereClause(facetFilters);
+        const query = `
+          SELECT ${expression} AS value, COUNT(*) AS count
+          FROM vehicles
+          WHERE ${whereClause} AND ${expression} IS NOT NULL
+          GROUP BY value
+          ORDER BY count DESC, value ASC
+        `;
+        const result = await client.query(query, values);
+        return result.rows;
+      };
+
+      const priceBandCase = `CASE ${PRICE_BANDS.map((band, index) =>
+        `WHEN price >= ${band.min}${band.max !== null ? ` AND price < ${band.max}` : ''} THEN ${index}`
+      ).join(' ')} END`;
+
+      const [brandRows, fuelTypeRows, transmissionRows, priceRows, yearRows] = await Promise.all([
+        countBy('brand', withoutBrand),
+        countBy(`technical_specs->>'fuelType'`, withoutFuelType),
+        countBy(`technical_specs->>'transmission'`, withoutTransmission),
+        countBy(priceBandCase, withoutPrice),
+        countBy(`(year / ${YEAR_BAND_SIZE}) * ${YEAR_BAND_SIZE}`, withoutYear),
+      ]);
+
+      const toValueCounts = (rows: any[]): FacetCount[] =>
+        rows.map(row => ({ value: row.value, count: parseInt(row.count) }));
+
+      return {
+        brand: toValueCounts(brandRows),
+        fuelType: toValueCounts(fuelTypeRows),
+        transmission: toValueCounts(transmissionRows),
+        priceBand: priceRows
+          .map(row => ({ ...PRICE_BANDS[parseInt(row.value)]!, count: parseInt(row.count) }))
+          .sort((a, b) => a.min - b.min),
+        yearBand: yearRows
+          .map(row => ({ min: parseInt(row.value), max: parseInt(row.value) + YEAR_BAND_SIZE - 1, count: parseInt(row.count) }))
+          .sort((a, b) => b.min - a.min),
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_vehicle_facets' });
+      return { brand: [], fuelType: [], transmission: [], priceBand: [], yearBand: [] };
+    } finally {
+      client.release();
+    }
+  }
+
+  // Shared by the listing and the facet counts so both always see the same filter set
+  private buildWhereClause(filters: VehicleFilters): { whereClause: string; values: any[]; searchParam: string | null } {
+    const whereConditions = ['deleted_at IS NULL'];
+    const values: any[] = [];
+    let valueIndex = 1;
+    let searchParam: string | null = null;
+
+    if (filters.q) {
+      searchParam = `$${valueIndex}`;
+      whereConditions.push(`search_vector @@ ${searchQuery(searchParam)}`);
+      values.push(filters.q);
+      valueIndex++;
+    }
+
+    if (filters.brand) {
+      whereConditions.push(`brand ILIKE $${valueIndex}`);
+      values.push(`%${filters.brand}%`);
+      valueIndex++;
+    }
+
+    if (filters.model) {
+      whereConditions.push(`model ILIKE $${valueIndex}`);
+      values.push(`%${filters.model}%`);
+      valueIndex++;
+    }
+
+    if (filters.yearMin) {
+      whereConditions.push(`year >= $${valueIndex}`);
+      values.push(filters.yearMin);
+      valueIndex++;
+    }
+
+    if (filters.yearMax) {
+      whereConditions.push(`year <= $${valueIndex}`);
+      values.push(filters.yearMax);
+      valueIndex++;
+    }
+
+    if (filters.priceMin) {
+      whereConditions.push(`price >= $${valueIndex}`);
+      values.push(filters.priceMin);
+      valueIndex++;
+    }
+
+    if (filters.priceMax) {
+      whereConditions.push(`price <= $${valueIndex}`);
+      values.push(filters.priceMax);
+      valueIndex++;
+    }
+
+    if (filters.mileageMax) {
+      whereConditions.push(`mileage <= $${valueIndex}`);
+      values.push(filters.mileageMax);
+      valueIndex++;
+    }
+
+    if (filters.status) {
+      whereConditions.push(`status = $${valueIndex}`);
+      values.push(filters.status);
+      valueIndex++;
+    }
+
+    // Technical spec filters accept several values (any of them matches)
+    for (const spec of ['transmission', 'fuelType', 'color'] as const) {
+      const specValues = filters[spec];
+      if (specValues && specValues.length > 0) {
+        whereConditions.push(`LOWER(technical_specs->>'${spec}') = ANY($${valueIndex})`);
+        values.push(specValues.map(value => value.toLowerCase()));
+        valueIndex++;
+      }
+    }
+
+    for (const spec of ['doors', 'seats'] as const) {
+      const specValues = filters[spec];
+      if (specValues && specValues.length > 0) {
+        whereConditions.push(`(technical_specs->>'${spec}')::int = ANY($${valueIndex}::int[])`);
+        values.push(specValues);
+        valueIndex++;
+      }
+    }
+
+    if (filters.powerMin) {
+      whereConditions.push(`(technical_specs->>'power')::int >= $${valueIndex}`);
+      values.push(filters.powerMin);
+      valueIndex++;
+    }
+
+    if (filters.powerMax) {
+      whereConditions.push(`(technical_specs->>'power')::int <= $${valueIndex}`);
+      values.push(filters.powerMax);
+      valueIndex++;
+    }
+
+    return { whereClause: whereConditions.join(' AND '), values, searchParam };
+  }
+
+  async update(id: string, data: UpdateVehicleData, tx?: PoolClient): Promise<Vehicle | null> {
+    const client = tx ?? await pool.connect();
     try {
       const updateFields: string[] = [];
       const values: any[] = [];
@@ -207,6 +637,12 @@ export class VehicleRepository {
         valueIndex++;
       }
 
+      if (data.vin !== undefined) {
+        updateFields.push(`vin = $${valueIndex}`);
+        values.push(data.vin);
+        valueIndex++;
+      }
+
       if (data.mileage !== undefined) {
         updateFields.push(`mileage = $${valueIndex}`);
         values.push(data.mileage);
@@ -261,15 +697,24 @@ export class VehicleRepository {
 
       return this.mapRowToVehicle(result.rows[0]);
     } catch (error) {
+      if (data.vin && isUniqueViolation(error)) {
+        throw new DuplicateVinError(data.vin);
+      }
+
       logger.logError(error as Error, { operation: 'update_vehicle', vehicleId: id });
+      if (tx) {
+        throw error;
+      }
       return null;
     } finally {
-      client.release();
+      if (!tx) {
+        client.release();
+      }
     }
   }
 
-  async updatePrice(id: string, price: number): Promise<Vehicle | null> {
-    const client = await pool.connect();
+  async updatePrice(id: string, price: number, tx?: PoolClient): Promise<Vehicle | null> {
+    const client = tx ?? await pool.connect();
     try {
       const query = `
         UPDATE vehicles 
@@ -287,14 +732,51 @@ export class VehicleRepository {
       return this.mapRowToVehicle(result.rows[0]);
     } catch (error) {
       logger.logError(error as Error, { operation: 'update_vehicle_price', vehicleId: id });
+      if (tx) {
+        throw error;
+      }
       return null;
     } finally {
-      client.release();
+      if (!tx) {
+        client.release();
+      }
     }
   }
 
-  async updateStatus(id: string, status: VehicleStatus): Promise<Vehicle | null> {
+
+  // Keeps listings in step when a catalog brand or model is renamed
+  async renameBrand(from: string, to: string, tx: PoolClient): Promise<number> {
+    const result = await tx.query(
+      'UPDATE vehicles SET brand = $1, updated_at = NOW() WHERE brand = $2',
+      [to, from]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async renameModel(brand: string, from: string, to: string, tx: PoolClient): Promise<number> {
+    const result = await tx.query(
+      'UPDATE vehicles SET model = $1, updated_at = NOW() WHERE brand = $2 AND model = $3',
+      [to, brand, from]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async countByBrandModel(brand: string, model?: string): Promise<number> {
     const client = await pool.connect();
+    try {
+      const query = model === undefined
+        ? 'SELECT COUNT(*) FROM vehicles WHERE brand = $1 AND deleted_at IS NULL'
+        : 'SELECT COUNT(*) FROM vehicles WHERE brand = $1 AND model = $2 AND deleted_at IS NULL';
+      const result = await client.query(query, model === undefined ? [brand] : [brand, model]);
+
+      return parseInt(result.rows[0].count);
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateStatus(id: string, status: VehicleStatus, tx?: PoolClient): Promise<Vehicle | null> {
+    const client = tx ?? await pool.connect();
     try {
       const query = `
         UPDATE vehicles 
@@ -312,12 +794,40 @@ export class VehicleRepository {
       return this.mapRowToVehicle(result.rows[0]);
     } catch (error) {
       logger.logError(error as Error, { operation: 'update_vehicle_status', vehicleId: id });
+      // Inside a unit of work the caller must see the failure to roll back
+      if (tx) {
+        throw error;
+      }
       return null;
     } finally {
-      client.release();
+      if (!tx) {
+        client.release();
+      }
     }
   }
 
+  // Moves vehicles to a new status only when they are still in the expected one
+  async updateStatusIfCurrent(
+    ids: string[],
+    currentStatus: VehicleStatus,
+    status: VehicleStatus,
+    client: PoolClient
+  ): Promise<number> {
+    const query = `
+      UPDATE vehicles
+      SET status = $1, updated_at = NOW()
+      WHERE id = ANY($2) AND status = $3 AND deleted_at IS NULL
+    `;
+
+    const result = await client.query(query, [status, ids, currentStatus]);
+    return result.rowCount ?? 0;
+  }
+
+  // Keeps the listing thumbnail in sync with the gallery's main photo
+  async updateMainPhoto(id: string, url: string | null, client: PoolClient): Promise<void> {
+    await client.query('UPDATE vehicles SET main_photo = $1, updated_at = NOW() WHERE id = $2', [url, id]);
+  }
+
   async delete(id: string): Promise<boolean> {
     const client = await pool.connect();
     try {
@@ -337,17 +847,27 @@ export class VehicleRepository {
     }
   }
 
+  private mapRowToPriceDrop(row: any): { priceDrop?: VehiclePriceDrop } {
+    if (row.recent_high_price === null || row.recent_high_price === undefined || !row.last_reduced_at) {
+      return {};
+    }
+
+    const priceDrop = computePriceDrop(parseFloat(row.price), parseFloat(row.recent_high_price), row.last_reduced_at);
+    return priceDrop ? { priceDrop } : {};
+  }
+
   private mapRowToVehicle(row: any): Vehicle {
     return {
       id: row.id,
       brand: row.brand,
       model: row.model,
       year: row.year,
+      ...(row.vin && { vin: row.vin }),
       mileage: row.mileage,
       price: parseFloat(row.price),
       description: row.description,
       mainPhoto: row.main_photo,
-      technicalSpecs: row.technical_specs ? JSON.parse(row.technical_specs) : null,
+      technicalSpecs: typeof row.technical_specs === 'string' ? JSON.parse(row.technical_specs) : row.technical_specs,
       status: row.status as VehicleStatus,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { catalogController } from '@/controllers/catalogController';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import {
+  validateCreateBrand,
+  validateUpdateBrand,
+  validateCreateBrandModel,
+  validateUpdateBrandModel,
+  validateUUID,
+} from '@/middleware/validation';
+import { UserRole } from '@/types';
+
+const router = Router();
+
+// Admin only routes
+router.get('/brands', authenticateToken, requireRole([UserRole.ADMIN]), catalogController.listBrands);
+router.post('/brands', authenticateToken, requireRole([UserRole.ADMIN]), validateCreateBrand, catalogController.createBrand);
+router.put('/brands/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUpdateBrand, catalogController.updateBrand);
+router.delete('/brands/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, catalogController.deleteBrand);
+router.get('/brands/:id/models', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, catalogController.listModels);
+router.post('/brands/:id/models', authenticateToken, requireRole([UserRole.ADMIN]), validateCreateBrandModel, catalogController.createModel);
+router.put('/models/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUpdateBrandModel, catalogController.updateModel);
+router.delete('/models/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, catalogController.deleteModel);
+
+export default router;
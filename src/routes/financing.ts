@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { financingController } from '@/controllers/financingController';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import {
+  validateCreateFinancingRate,
+  validateUpdateFinancingRate,
+  validateUUID,
+} from '@/middleware/validation';
+import { UserRole } from '@/types';
+
+const router = Router();
+
+// Admin only routes
+router.get('/rates', authenticateToken, requireRole([UserRole.ADMIN]), financingController.listRates);
+router.post('/rates', authenticateToken, requireRole([UserRole.ADMIN]), validateCreateFinancingRate, financingController.createRate);
+router.put('/rates/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUpdateFinancingRate, financingController.updateRate);
+router.delete('/rates/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, financingController.deleteRate);
+
+export default router;
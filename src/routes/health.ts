@@ -1,6 +1,13 @@
 import { Router } from 'express';
 import { healthController } from '@/controllers/healthController';
 import { authenticateToken, requireRole } from '@/middleware/auth';
+import { uploadPriceFile } from '@/middleware/upload';
+import {
+  validatePriceImportRunFilters,
+  validatePricePreview,
+  validateReviewPriceImport,
+  validateUUID,
+} from '@/middleware/validation';
 import { UserRole } from '@/types';
 
 const router = Router();
@@ -17,5 +24,12 @@ router.get('/system', authenticateToken, requireRole([UserRole.ADMIN]), healthCo
 // Price processor status (admin only)
 router.get('/price-processor/status', authenticateToken, requireRole([UserRole.ADMIN]), healthController.priceProcessorStatus);
 router.post('/price-processor/trigger', authenticateToken, requireRole([UserRole.ADMIN]), healthController.triggerPriceProcessing);
+router.post('/price-processor/preview', authenticateToken, requireRole([UserRole.ADMIN]), uploadPriceFile, validatePricePreview, healthController.previewPrices);
+router.get('/price-processor/runs', authenticateToken, requireRole([UserRole.ADMIN]), validatePriceImportRunFilters, healthController.listPriceImportRuns);
+router.get('/price-processor/runs/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, healthController.getPriceImportRun);
+router.post('/price-processor/runs/:id/reprocess', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, healthController.reprocessPriceImport);
+router.post('/price-processor/runs/:id/approve', authenticateToken, requireRole([UserRole.ADMIN]), validateReviewPriceImport, healthController.approvePriceImport);
+router.post('/price-processor/runs/:id/reject', authenticateToken, requireRole([UserRole.ADMIN]), validateReviewPriceImport, healthController.rejectPriceImport);
+router.post('/price-processor/uploads', authenticateToken, requireRole([UserRole.ADMIN]), uploadPriceFile, healthController.uploadPriceFile);
 
 export default router; 
\ No newline at end of file
@@ -2,6 +2,13 @@ import { Router } from 'express';
 import authRoutes from './auth';
 import vehicleRoutes from './vehicles';
 import orderRoutes from './orders';
+import reservationRoutes from './reservations';
+import financingRoutes from './financing';
+import tradeInRoutes from './tradeIns';
+import catalogRoutes from './catalog';
+import repricingRoutes from './repricing';
+import jobRoutes from './jobs';
+import queueRoutes from './queue';
 import healthRoutes from './health';
 
 const router = Router();
@@ -13,6 +20,13 @@ const apiVersion = process.env.API_VERSION || 'v1';
 router.use(`/api/${apiVersion}/auth`, authRoutes);
 router.use(`/api/${apiVersion}/vehicles`, vehicleRoutes);
 router.use(`/api/${apiVersion}/orders`, orderRoutes);
+router.use(`/api/${apiVersion}/reservations`, reservationRoutes);
+router.use(`/api/${apiVersion}/financing`, financingRoutes);
+router.use(`/api/${apiVersion}/trade-ins`, tradeInRoutes);
+router.use(`/api/${apiVersion}/catalog`, catalogRoutes);
+router.use(`/api/${apiVersion}/repricing`, repricingRoutes);
+router.use(`/api/${apiVersion}/jobs`, jobRoutes);
+router.use(`/api/${apiVersion}/queue`, queueRoutes);
 router.use(`/api/${apiVersion}`, healthRoutes);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { jobController } from '@/controllers/jobController';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateJobRunFilters, validateUUID } from '@/middleware/validation';
+import { UserRole } from '@/types';
+
+const router = Router();
+
+// Admin only routes
+router.get('/', authenticateToken, requireRole([UserRole.ADMIN]), jobController.listJobs);
+router.get('/runs/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, jobController.getRun);
+router.post('/:name/pause', authenticateToken, requireRole([UserRole.ADMIN]), jobController.pauseJob);
+router.post('/:name/resume', authenticateToken, requireRole([UserRole.ADMIN]), jobController.resumeJob);
+router.post('/:name/trigger', authenticateToken, requireRole([UserRole.ADMIN]), jobController.triggerJob);
+router.get('/:name/runs', authenticateToken, requireRole([UserRole.ADMIN]), validateJobRunFilters, jobController.listRuns);
+
+export default router;
@@ -1,5 +1,8 @@
 import { Router } from 'express';
 import { orderController } from '@/controllers/orderController';
+import { paymentController } from '@/controllers/paymentController';
+import { tradeInController } from '@/controllers/tradeInController';
+import { orderDocumentController } from '@/controllers/orderDocumentController';
 import { authenticateToken, requireRole } from '@/middleware/auth';
 import {
   validateCreateOrder,
@@ -7,6 +10,10 @@ import {
   validateUpdateOrderStatus,
   validateUUID,
   validatePagination,
+  validateRecordPayment,
+  validateVoidPayment,
+  validateOrderDocument,
+  validateSalesReport,
 } from '@/middleware/validation';
 import { UserRole } from '@/types';
 
@@ -18,15 +25,29 @@ router.get('/my', authenticateToken, validatePagination, orderController.getMyOr
 
 // Admin and Sales routes
 router.get('/', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validatePagination, orderController.getAll);
-router.get('/statistics', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), orderController.getStatistics);
+router.get('/statistics', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateSalesReport, orderController.getStatistics);
+router.get('/statistics/export', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateSalesReport, orderController.exportStatistics);
 router.get('/vehicle/:vehicleId', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateUUID, orderController.getByVehicleId);
 
 // Protected routes (users can only access their own orders)
 router.get('/:id', authenticateToken, validateUUID, orderController.getById);
+router.get('/:id/history', authenticateToken, validateUUID, orderController.getStatusHistory);
 router.put('/:id', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateUpdateOrder, orderController.update);
 router.delete('/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, orderController.delete);
 
 // Status management (Admin and Sales only)
 router.patch('/:id/status', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateUpdateOrderStatus, orderController.updateStatus);
 
+// Payment ledger (customers can only read their own)
+router.get('/:id/payments', authenticateToken, validateUUID, paymentController.list);
+router.post('/:id/payments', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateRecordPayment, paymentController.record);
+router.post('/:id/payments/:paymentId/void', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateVoidPayment, paymentController.void);
+
+// Trade-ins credited against the order (customers can only read their own)
+router.get('/:id/trade-ins', authenticateToken, validateUUID, tradeInController.listForOrder);
+
+// Invoice and purchase contract, issued once the order is paid (customers can only download their own)
+router.get('/:id/documents', authenticateToken, validateUUID, orderDocumentController.list);
+router.get('/:id/documents/:type', authenticateToken, validateOrderDocument, orderDocumentController.download);
+
 export default router; 
\ No newline at end of file
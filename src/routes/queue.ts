@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { queueController } from '@/controllers/queueController';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import { validateDeadLetterFilters, validateQueuedJobFilters, validateUUID } from '@/middleware/validation';
+import { UserRole } from '@/types';
+
+const router = Router();
+
+// Admin only routes
+router.get('/stats', authenticateToken, requireRole([UserRole.ADMIN]), queueController.getStats);
+router.get('/jobs', authenticateToken, requireRole([UserRole.ADMIN]), validateQueuedJobFilters, queueController.listJobs);
+router.get('/dead-letters', authenticateToken, requireRole([UserRole.ADMIN]), validateDeadLetterFilters, queueController.listDeadLetters);
+router.get('/dead-letters/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, queueController.getDeadLetter);
+router.post('/dead-letters/:id/requeue', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, queueController.requeue);
+
+export default router;
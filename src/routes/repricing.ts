@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { repricingController } from '@/controllers/repricingController';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import {
+  validateCreateRepricingRule,
+  validateUpdateRepricingRule,
+  validateRepricingSimulation,
+  validateUUID,
+} from '@/middleware/validation';
+import { UserRole } from '@/types';
+
+const router = Router();
+
+// Admin only routes
+router.get('/rules', authenticateToken, requireRole([UserRole.ADMIN]), repricingController.listRules);
+router.post('/rules', authenticateToken, requireRole([UserRole.ADMIN]), validateCreateRepricingRule, repricingController.createRule);
+router.put('/rules/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUpdateRepricingRule, repricingController.updateRule);
+router.delete('/rules/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, repricingController.deleteRule);
+router.get('/simulate', authenticateToken, requireRole([UserRole.ADMIN]), validateRepricingSimulation, repricingController.simulate);
+router.post('/run', authenticateToken, requireRole([UserRole.ADMIN]), repricingController.run);
+
+export default router;
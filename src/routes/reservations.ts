@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { reservationController } from '@/controllers/reservationController';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import {
+  validateCreateReservation,
+  validateExtendReservation,
+  validateReleaseReservation,
+  validateReservationFilters,
+  validateUUID,
+  validatePagination,
+} from '@/middleware/validation';
+import { UserRole } from '@/types';
+
+const router = Router();
+
+// Customer routes
+router.post('/', authenticateToken, validateCreateReservation, reservationController.create);
+router.get('/my', authenticateToken, validatePagination, reservationController.getMyReservations);
+
+// Admin and Sales routes
+router.get('/', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateReservationFilters, reservationController.getAll);
+router.patch('/:id/extend', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateExtendReservation, reservationController.extend);
+
+// Protected routes (customers can only access their own holds)
+router.get('/:id', authenticateToken, validateUUID, reservationController.getById);
+router.post('/:id/release', authenticateToken, validateReleaseReservation, reservationController.release);
+
+export default router;
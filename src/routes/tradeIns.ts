@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { tradeInController } from '@/controllers/tradeInController';
+import { authenticateToken, requireRole } from '@/middleware/auth';
+import {
+  validateCreateTradeIn,
+  validateAttachTradeIn,
+  validateAcceptTradeIn,
+  validateRejectTradeIn,
+  validateConvertTradeIn,
+  validateTradeInFilters,
+  validateUUID,
+} from '@/middleware/validation';
+import { UserRole } from '@/types';
+
+const router = Router();
+
+// Admin and Sales routes
+router.post('/', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateCreateTradeIn, tradeInController.create);
+router.get('/', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateTradeInFilters, tradeInController.getAll);
+router.patch('/:id/order', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateAttachTradeIn, tradeInController.attach);
+router.post('/:id/accept', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateAcceptTradeIn, tradeInController.accept);
+router.post('/:id/reject', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateRejectTradeIn, tradeInController.reject);
+router.post('/:id/convert', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateConvertTradeIn, tradeInController.convert);
+
+// Protected routes (customers can only access their own trade-ins)
+router.get('/:id', authenticateToken, validateUUID, tradeInController.getById);
+
+export default router;
@@ -1,11 +1,21 @@
 import { Router } from 'express';
 import { vehicleController } from '@/controllers/vehicleController';
+import { financingController } from '@/controllers/financingController';
+import { vehiclePhotoController } from '@/controllers/vehiclePhotoController';
 import { authenticateToken, requireRole, optionalAuth } from '@/middleware/auth';
+import { uploadVehiclePhotos } from '@/middleware/upload';
 import {
   validateCreateVehicle,
   validateUpdateVehicle,
   validateVehicleFilters,
   validateUUID,
+  validateFinancingQuote,
+  validateUploadVehiclePhotos,
+  validateUpdateVehiclePhoto,
+  validateReorderVehiclePhotos,
+  validateVehiclePhoto,
+  validateVinLookup,
+  validateUpdateVehiclePrice,
 } from '@/middleware/validation';
 import { UserRole } from '@/types';
 
@@ -15,15 +25,25 @@ const router = Router();
 router.get('/', optionalAuth, validateVehicleFilters, vehicleController.getAll);
 router.get('/brands', vehicleController.getBrands);
 router.get('/brands/:brand/models', vehicleController.getModels);
+router.get('/by-vin/:vin', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateVinLookup, vehicleController.getByVin);
 router.get('/:id', validateUUID, vehicleController.getById);
+router.post('/:id/financing-quote', optionalAuth, validateFinancingQuote, financingController.quote);
+router.get('/:id/photos', validateUUID, vehiclePhotoController.list);
 
 // Protected routes
 router.post('/', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateCreateVehicle, vehicleController.create);
 router.put('/:id', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateUpdateVehicle, vehicleController.update);
 router.delete('/:id', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, vehicleController.delete);
+router.get('/:id/price-history', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateUUID, vehicleController.getPriceHistory);
+
+// Photo gallery (Admin and Sales)
+router.post('/:id/photos', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), uploadVehiclePhotos, validateUploadVehiclePhotos, vehiclePhotoController.upload);
+router.put('/:id/photos/order', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateReorderVehiclePhotos, vehiclePhotoController.reorder);
+router.patch('/:id/photos/:photoId', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateUpdateVehiclePhoto, vehiclePhotoController.update);
+router.delete('/:id/photos/:photoId', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateVehiclePhoto, vehiclePhotoController.remove);
 
 // Admin only routes
-router.patch('/:id/price', authenticateToken, requireRole([UserRole.ADMIN]), validateUUID, vehicleController.updatePrice);
+router.patch('/:id/price', authenticateToken, requireRole([UserRole.ADMIN]), validateUpdateVehiclePrice, vehicleController.updatePrice);
 router.patch('/:id/status', authenticateToken, requireRole([UserRole.ADMIN, UserRole.SALES]), validateUUID, vehicleController.updateStatus);
 
 export default router; 
\ No newline at end of file
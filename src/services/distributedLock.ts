@@ -0,0 +1,310 @@
+import crypto from 'crypto';
+import os from 'os';
+import { PoolClient } from 'pg';
+import { pool } from '@/database/config';
+import { LockBackend, LockHolder } from '@/types';
+import { redisService } from './redis';
+import { logger } from './logger';
+
+const KEY_PREFIX = 'lock:';
+
+// First key of the two-key advisory lock form ("LOCK"), keeping these apart from other advisory locks
+const ADVISORY_NAMESPACE = 0x4c4f434b;
+
+// A Redis call that does not answer within this time counts as Redis being down
+const REDIS_TIMEOUT_MS = 2000;
+
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+export interface LockLease {
+  name: string;
+  backend: LockBackend;
+  // Value stored in Redis; renewal and release only succeed while the key still holds it
+  token: string;
+  acquiredAt: Date;
+  // Set when a renewal finds the lease expired or taken over by another instance
+  lost: boolean;
+  // Aborted when the lease is lost, so the work holding it can stop before another instance starts it
+  signal: AbortSignal;
+  // Session that owns the advisory lock; the lock is freed when it ends
+  client?: PoolClient;
+  renewTimer?: NodeJS.Timeout;
+}
+
+interface LockToken {
+  id: string;
+  holder: string;
+  acquiredAt: string;
+}
+
+export class LockLostError extends Error {
+  constructor(name: string) {
+    super(`Lock ${name} was lost while its work was running`);
+    this.name = 'LockLostError';
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Redis did not respond in time')), REDIS_TIMEOUT_MS);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+export class DistributedLockService {
+  private readonly ttlMs: number;
+  private readonly leases = new Map<string, LockLease>();
+  private readonly lossControllers = new WeakMap<LockLease, AbortController>();
+
+  constructor() {
+    this.ttlMs = parseInt(process.env.LOCK_TTL_MS || '30000');
+  }
+
+  // Takes the named lock for this instance, or returns null when another holder has it.
+  // Redis leases are renewed every third of the TTL until released; when Redis is
+  // unreachable a PostgreSQL session advisory lock is used instead. A replica that cannot
+  // reach Redis only sees the advisory lock, so a Redis lease takes the advisory lock too:
+  // the two can never be held by different instances at once.
+  async acquire(name: string): Promise<LockLease | null> {
+    const token = JSON.stringify({ id: crypto.randomUUID(), holder: INSTANCE_ID, acquiredAt: new Date().toISOString() });
+
+    let backend: LockBackend;
+    try {
+      const acquired = await withTimeout(redisService.acquireLock(KEY_PREFIX + name, token, this.ttlMs));
+      if (!acquired) {
+        return null;
+      }
+      backend = LockBackend.REDIS;
+    } catch (error) {
+      logger.warn('Redis unavailable for locking, falling back to a PostgreSQL advisory lock', {
+        lock: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      backend = LockBackend.POSTGRES;
+    }
+
+    let client: PoolClient | null;
+    try {
+      client = await this.tryAdvisoryLock(name);
+    } catch (error) {
+      if (backend === LockBackend.REDIS) {
+        await this.releaseRedis(name, token);
+      }
+      throw error;
+    }
+
+    if (!client) {
+      if (backend === LockBackend.REDIS) {
+        logger.warn('Advisory lock held by an instance without Redis, skipping', { lock: name });
+        await this.releaseRedis(name, token);
+      }
+      return null;
+    }
+
+    const controller = new AbortController();
+    const lease: LockLease = { name, backend, token, acquiredAt: new Date(), lost: false, signal: controller.signal, client };
+    this.lossControllers.set(lease, controller);
+
+    if (backend === LockBackend.REDIS) {
+      this.startRenewal(lease);
+    }
+
+    this.leases.set(name, lease);
+    logger.debug('Lock acquired', { lock: name, backend });
+    return lease;
+  }
+
+  async release(lease: LockLease): Promise<void> {
+    if (lease.renewTimer) {
+      clearInterval(lease.renewTimer);
+    }
+    if (this.leases.get(lease.name) === lease) {
+      this.leases.delete(lease.name);
+    }
+
+    if (lease.backend === LockBackend.REDIS) {
+      await this.releaseRedis(lease.name, lease.token);
+    }
+
+    const client = lease.client;
+    if (!client) {
+      return;
+    }
+
+    try {
+      await client.query('SELECT pg_advisory_unlock($1, hashtext($2))', [ADVISORY_NAMESPACE, lease.name]);
+      client.release();
+    } catch (error) {
+      logger.warn('Failed to release advisory lock, closing its session', {
+        lock: lease.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      client.release(true);
+    }
+  }
+
+  // Runs the work while holding the lock. Returns false without running it when the
+  // lock is held elsewhere, which is how replicas skip a scheduled job already running.
+  // The work gets the lease signal and should stop once it aborts; finishing after the
+  // lease was lost throws LockLostError, as another instance may have run it meanwhile.
+  async runExclusive(name: string, work: (signal: AbortSignal) => Promise<void>): Promise<boolean> {
+    const lease = await this.acquire(name);
+    if (!lease) {
+      logger.debug('Lock held by another instance, skipping', { lock: name });
+      return false;
+    }
+
+    try {
+      await work(lease.signal);
+      if (lease.lost) {
+        throw new LockLostError(name);
+      }
+      return true;
+    } finally {
+      await this.release(lease);
+    }
+  }
+
+  async getHolder(name: string): Promise<LockHolder | null> {
+    const local = this.leases.get(name);
+    if (local) {
+      return {
+        name,
+        backend: local.backend,
+        holder: INSTANCE_ID,
+        acquiredAt: local.acquiredAt,
+      };
+    }
+
+    try {
+      const lock = await withTimeout(redisService.getLock(KEY_PREFIX + name));
+      if (lock) {
+        const token = JSON.parse(lock.token) as LockToken;
+        return {
+          name,
+          backend: LockBackend.REDIS,
+          holder: token.holder,
+          acquiredAt: new Date(token.acquiredAt),
+          expiresInMs: lock.ttlMs,
+        };
+      }
+    } catch (error) {
+      logger.debug('Redis unavailable while reading lock holder', {
+        lock: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // A replica that fell back to PostgreSQL is only visible through pg_locks
+    return this.getAdvisoryHolder(name);
+  }
+
+  // Returns the session holding the advisory lock, or null when another session has it
+  private async tryAdvisoryLock(name: string): Promise<PoolClient | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT pg_try_advisory_lock($1, hashtext($2)) AS acquired',
+        [ADVISORY_NAMESPACE, name]
+      );
+
+      if (!result.rows[0].acquired) {
+        client.release();
+        return null;
+      }
+
+      return client;
+    } catch (error) {
+      client.release();
+      throw error;
+    }
+  }
+
+  private async releaseRedis(name: string, token: string): Promise<void> {
+    try {
+      await withTimeout(redisService.releaseLock(KEY_PREFIX + name, token));
+    } catch (error) {
+      // The lease expires on its own after the TTL
+      logger.warn('Failed to release Redis lock', {
+        lock: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async getAdvisoryHolder(name: string): Promise<LockHolder | null> {
+    const client = await pool.connect();
+    try {
+      // pg_locks shows both advisory keys as unsigned oids
+      const query = `
+        SELECT a.pid, a.client_addr, a.backend_start
+        FROM pg_locks l
+        JOIN pg_stat_activity a ON a.pid = l.pid
+        WHERE l.locktype = 'advisory' AND l.granted AND l.objsubid = 2
+          AND l.classid::bigint = $1 AND l.objid::bigint = (hashtext($2)::bigint & 4294967295)
+        LIMIT 1
+      `;
+      const result = await client.query(query, [ADVISORY_NAMESPACE, name]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const row = result.rows[0];
+      return {
+        name,
+        backend: LockBackend.POSTGRES,
+        holder: `database backend ${row.pid}${row.client_addr ? ` (${row.client_addr})` : ''}`,
+        acquiredAt: row.backend_start,
+      };
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_advisory_lock_holder', lock: name });
+      return null;
+    } finally {
+      client.release();
+    }
+  }
+
+  private startRenewal(lease: LockLease): void {
+    let renewedAt = Date.now();
+
+    lease.renewTimer = setInterval(async () => {
+      try {
+        const renewed = await withTimeout(redisService.renewLock(KEY_PREFIX + lease.name, lease.token, this.ttlMs));
+        if (!renewed) {
+          this.markLost(lease);
+          return;
+        }
+        renewedAt = Date.now();
+      } catch (error) {
+        logger.warn('Failed to renew lock lease', {
+          lock: lease.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        // Keep trying until the TTL runs out; past that the key may already belong to someone else
+        if (Date.now() - renewedAt >= this.ttlMs) {
+          this.markLost(lease);
+        }
+      }
+    }, Math.max(Math.floor(this.ttlMs / 3), 1000));
+
+    lease.renewTimer.unref();
+  }
+
+  private markLost(lease: LockLease): void {
+    lease.lost = true;
+    clearInterval(lease.renewTimer);
+    this.lossControllers.get(lease)?.abort();
+    logger.error('Lock lease lost before release', { lock: lease.name });
+  }
+}
+
+export const distributedLockService = new DistributedLockService();
@@ -0,0 +1,108 @@
+import { financingRateRepository } from '@/repositories/financingRateRepository';
+import { AmortizationEntry, FinancingQuote, Vehicle } from '@/types';
+
+export class FinancingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FinancingError';
+  }
+}
+
+export interface QuoteRequest {
+  downPayment: number;
+  termMonths: number;
+  annualRate?: number;
+}
+
+export interface AmortizationResult {
+  monthlyPayment: number;
+  totalInterest: number;
+  totalPaid: number;
+  schedule: AmortizationEntry[];
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Fixed-rate (French) amortization. The last payment absorbs rounding so the
+// balance always closes at exactly zero.
+export const calculateAmortization = (
+  principal: number,
+  annualRate: number,
+  termMonths: number
+): AmortizationResult => {
+  if (principal <= 0 || termMonths <= 0) {
+    return { monthlyPayment: 0, totalInterest: 0, totalPaid: 0, schedule: [] };
+  }
+
+  const monthlyRate = annualRate / 100 / 12;
+  const monthlyPayment = roundCents(
+    monthlyRate === 0
+      ? principal / termMonths
+      : (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths))
+  );
+
+  const schedule: AmortizationEntry[] = [];
+  let balance = principal;
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  for (let period = 1; period <= termMonths; period++) {
+    const interest = roundCents(balance * monthlyRate);
+    const isLast = period === termMonths;
+    const principalPart = isLast ? roundCents(balance) : roundCents(monthlyPayment - interest);
+    const payment = roundCents(principalPart + interest);
+
+    balance = roundCents(balance - principalPart);
+    totalInterest += interest;
+    totalPaid += payment;
+
+    schedule.push({ period, payment, principal: principalPart, interest, balance });
+  }
+
+  return {
+    monthlyPayment,
+    totalInterest: roundCents(totalInterest),
+    totalPaid: roundCents(totalPaid),
+    schedule,
+  };
+};
+
+export class FinancingService {
+  getVehicleAge(vehicle: Vehicle, asOf: Date = new Date()): number {
+    return Math.max(asOf.getFullYear() - vehicle.year, 0);
+  }
+
+  async quote(vehicle: Vehicle, request: QuoteRequest): Promise<FinancingQuote> {
+    if (request.downPayment >= vehicle.price) {
+      throw new FinancingError('Down payment must be lower than the vehicle price');
+    }
+
+    let annualRate = request.annualRate;
+    let rateSource: FinancingQuote['rateSource'] = 'requested';
+
+    if (annualRate === undefined) {
+      const rate = await financingRateRepository.findApplicable(request.termMonths, this.getVehicleAge(vehicle));
+      if (!rate) {
+        throw new FinancingError(`No financing rate available for a ${request.termMonths}-month term on this vehicle`);
+      }
+      annualRate = rate.annualRate;
+      rateSource = 'rate_table';
+    }
+
+    const principal = roundCents(vehicle.price - request.downPayment);
+    const amortization = calculateAmortization(principal, annualRate, request.termMonths);
+
+    return {
+      vehicleId: vehicle.id,
+      vehiclePrice: vehicle.price,
+      downPayment: request.downPayment,
+      principal,
+      termMonths: request.termMonths,
+      annualRate,
+      rateSource,
+      ...amortization,
+    };
+  }
+}
+
+export const financingService = new FinancingService();
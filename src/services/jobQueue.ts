@@ -0,0 +1,181 @@
+import { PoolClient } from 'pg';
+import { jobQueueRepository } from '@/repositories/jobQueueRepository';
+import { QueuedJob } from '@/types';
+import { INSTANCE_ID } from './distributedLock';
+import { logger } from './logger';
+import { metricsService } from './metrics';
+
+export type QueueHandler = (payload: Record<string, unknown>, job: QueuedJob) => Promise<void>;
+
+export interface EnqueueOptions {
+  // Earliest time a worker may run the job; now by default
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface QueueWorkerOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  // Base delay before the second attempt; doubles with every failure up to maxBackoffMs
+  backoffMs: number;
+  maxBackoffMs: number;
+  // A job running longer than this is assumed orphaned by a dead worker and claimed again
+  staleAfterMs: number;
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const defaultMaxAttempts = (): number => parseInt(process.env.QUEUE_MAX_ATTEMPTS || '5');
+
+export const queueWorkerOptionsFromEnv = (): QueueWorkerOptions => ({
+  concurrency: parseInt(process.env.QUEUE_CONCURRENCY || '2'),
+  pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '1000'),
+  backoffMs: parseInt(process.env.QUEUE_BACKOFF_MS || '5000'),
+  maxBackoffMs: parseInt(process.env.QUEUE_MAX_BACKOFF_MS || '3600000'),
+  staleAfterMs: parseInt(process.env.QUEUE_STALE_AFTER_MS || '600000'),
+});
+
+// Delay before the next attempt once `attempts` attempts have failed
+export const retryDelayMs = (attempts: number, options: Pick<QueueWorkerOptions, 'backoffMs' | 'maxBackoffMs'>): number =>
+  Math.min(options.backoffMs * 2 ** (attempts - 1), options.maxBackoffMs);
+
+export class JobQueueService {
+  // Pass the transaction client to enqueue atomically with the caller's own writes
+  async enqueue(
+    type: string,
+    payload: Record<string, unknown>,
+    options: EnqueueOptions = {},
+    client?: PoolClient
+  ): Promise<QueuedJob> {
+    const job = await jobQueueRepository.enqueue(
+      {
+        type,
+        payload,
+        maxAttempts: options.maxAttempts ?? defaultMaxAttempts(),
+        ...(options.runAt && { runAt: options.runAt }),
+      },
+      client
+    );
+
+    metricsService.recordQueueJobEnqueued(type);
+    logger.debug('Job enqueued', { jobId: job.id, type });
+    return job;
+  }
+
+  // Returns null when the dead letter does not exist or was already requeued
+  async requeue(deadLetterId: string, requeuedBy?: string): Promise<QueuedJob | null> {
+    const job = await jobQueueRepository.requeue(deadLetterId, defaultMaxAttempts(), requeuedBy);
+    if (job) {
+      metricsService.recordQueueJobEnqueued(job.type);
+      logger.logBusinessEvent('dead_letter_job_requeued', 'queued_job', job.id, { deadLetterId, requeuedBy });
+    }
+    return job;
+  }
+}
+
+// Polls the queue and runs claimed jobs with the handler registered for their type
+export class QueueWorker {
+  private readonly active = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  constructor(
+    private readonly handlers: Record<string, QueueHandler>,
+    private readonly options: QueueWorkerOptions = queueWorkerOptionsFromEnv(),
+    private readonly workerId: string = INSTANCE_ID
+  ) {}
+
+  start(): void {
+    this.running = true;
+    logger.info('Queue worker started', {
+      workerId: this.workerId,
+      types: Object.keys(this.handlers),
+      concurrency: this.options.concurrency,
+    });
+    this.scheduleNextPoll(0);
+  }
+
+  // Stops claiming new jobs and waits for the ones in progress
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    await Promise.all(this.active);
+    logger.info('Queue worker stopped', { workerId: this.workerId });
+  }
+
+  // Claims as many jobs as there are free slots and starts them; returns how many were claimed
+  async poll(): Promise<number> {
+    const slots = this.options.concurrency - this.active.size;
+    if (slots <= 0) {
+      return 0;
+    }
+
+    const jobs = await jobQueueRepository.claim(this.workerId, slots, this.options.staleAfterMs);
+    for (const job of jobs) {
+      const task = this.process(job).finally(() => this.active.delete(task));
+      this.active.add(task);
+    }
+
+    return jobs.length;
+  }
+
+  async process(job: QueuedJob): Promise<void> {
+    const startedAt = Date.now();
+    metricsService.recordQueueJobClaimed(job.type, (startedAt - new Date(job.runAt).getTime()) / 1000);
+
+    try {
+      const handler = this.handlers[job.type];
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      await handler(job.payload, job);
+      await jobQueueRepository.complete(job.id, this.workerId);
+
+      metricsService.recordQueueJobAttempt(job.type, 'completed', (Date.now() - startedAt) / 1000);
+      logger.info('Job completed', { jobId: job.id, type: job.type, attempts: job.attempts });
+    } catch (error) {
+      await this.fail(job, errorMessage(error), (Date.now() - startedAt) / 1000);
+    }
+  }
+
+  private async fail(job: QueuedJob, message: string, duration: number): Promise<void> {
+    try {
+      if (job.attempts >= job.maxAttempts || !this.handlers[job.type]) {
+        await jobQueueRepository.moveToDeadLetter(job.id, this.workerId, message);
+        metricsService.recordQueueJobAttempt(job.type, 'dead_lettered', duration);
+        logger.error('Job moved to dead letter', { jobId: job.id, type: job.type, attempts: job.attempts, error: message });
+        return;
+      }
+
+      const delay = retryDelayMs(job.attempts, this.options);
+      await jobQueueRepository.scheduleRetry(job.id, this.workerId, message, new Date(Date.now() + delay));
+      metricsService.recordQueueJobAttempt(job.type, 'retried', duration);
+      logger.warn('Job failed, retry scheduled', { jobId: job.id, type: job.type, attempts: job.attempts, delay, error: message });
+    } catch (error) {
+      // The job stays running and is claimed again once it goes stale
+      logger.logError(error as Error, { operation: 'record_job_failure', jobId: job.id });
+    }
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      let claimed = 0;
+      try {
+        claimed = await this.poll();
+      } catch (error) {
+        logger.logError(error as Error, { operation: 'poll_job_queue' });
+      }
+      // Keep draining without waiting while jobs are being found
+      this.scheduleNextPoll(claimed > 0 ? 0 : this.options.pollIntervalMs);
+    }, delayMs);
+  }
+}
+
+export const jobQueueService = new JobQueueService();
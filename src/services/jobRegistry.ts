@@ -0,0 +1,333 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { jobRunRepository, FinishJobRunData } from '@/repositories/jobRunRepository';
+import { jobSettingsRepository } from '@/repositories/jobSettingsRepository';
+import {
+  JobInfo,
+  JobLogEntry,
+  JobRetryPolicy,
+  JobRun,
+  JobRunStatus,
+  JobTrigger,
+  PaginationParams,
+} from '@/types';
+import { distributedLockService, INSTANCE_ID, LockLease, LockLostError } from './distributedLock';
+import { logger } from './logger';
+
+export interface JobContext {
+  // 1 on the first attempt, incremented on each retry
+  attempt: number;
+  // Aborted when the attempt times out or the job lock is lost; long jobs should stop at the next safe point
+  signal: AbortSignal;
+  // Adds a line to the run's persisted log and to the application log
+  log(message: string, level?: JobLogEntry['level']): void;
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // node-cron expression
+  schedule: string;
+  timeoutMs: number;
+  retry: JobRetryPolicy;
+  // The returned summary is stored as the run result
+  run(context: JobContext): Promise<Record<string, unknown> | void>;
+}
+
+export class JobNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Job ${name} does not exist`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+export class JobAlreadyRunningError extends Error {
+  constructor(name: string) {
+    super(`Job ${name} is already running`);
+    this.name = 'JobAlreadyRunningError';
+  }
+}
+
+class JobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs} ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+interface JobState {
+  definition: JobDefinition;
+  task?: ScheduledTask;
+  // Executing on this instance, lock held
+  running: boolean;
+}
+
+interface StartedRun {
+  run: JobRun;
+  finished: Promise<JobRun>;
+}
+
+// Each job runs under its own lock so a replica never starts a job another one is running
+export const jobLockName = (name: string): string => `job:${name}`;
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Settles with the attempt, or aborts it and rejects once it times out or the lease is lost
+const guardAttempt = <T>(work: Promise<T>, timeoutMs: number, controller: AbortController, lease: LockLease): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const abort = (error: Error): void => {
+      controller.abort();
+      reject(error);
+    };
+    const onLost = (): void => abort(new LockLostError(lease.name));
+    const timer = setTimeout(() => abort(new JobTimeoutError(timeoutMs)), timeoutMs);
+    const settle = (): void => {
+      clearTimeout(timer);
+      lease.signal.removeEventListener('abort', onLost);
+    };
+
+    if (lease.signal.aborted) {
+      onLost();
+    } else {
+      lease.signal.addEventListener('abort', onLost, { once: true });
+    }
+
+    work.then(
+      value => {
+        settle();
+        resolve(value);
+      },
+      error => {
+        settle();
+        reject(error);
+      }
+    );
+  });
+
+export class JobRegistry {
+  private readonly jobs = new Map<string, JobState>();
+
+  constructor(definitions: JobDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job ${definition.name} is already registered`);
+    }
+    if (!cron.validate(definition.schedule)) {
+      throw new Error(`Invalid schedule for job ${definition.name}: ${definition.schedule}`);
+    }
+
+    this.jobs.set(definition.name, { definition, running: false });
+  }
+
+  has(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  // Schedules every registered job on this instance. Pause state lives in the database,
+  // so it is checked on each tick rather than by stopping the cron task.
+  start(): void {
+    for (const state of this.jobs.values()) {
+      const { name, schedule } = state.definition;
+      state.task = cron.schedule(schedule, () => {
+        this.runScheduled(name).catch(error => {
+          logger.logError(error as Error, { operation: 'run_scheduled_job', job: name });
+        });
+      });
+      logger.info('Job scheduled', { job: name, schedule });
+    }
+  }
+
+  stop(): void {
+    for (const state of this.jobs.values()) {
+      state.task?.stop();
+      delete state.task;
+    }
+  }
+
+  // Cron entry point. Returns null when the job is paused or already running here or elsewhere.
+  async runScheduled(name: string): Promise<JobRun | null> {
+    const state = this.getState(name);
+    if (state.running) {
+      logger.debug('Job still running, skipping tick', { job: name });
+      return null;
+    }
+
+    if (await jobSettingsRepository.isPaused(name)) {
+      logger.debug('Job paused, skipping tick', { job: name });
+      return null;
+    }
+
+    const started = await this.begin(state, JobTrigger.SCHEDULE);
+    return started ? started.finished : null;
+  }
+
+  // Starts the job right away, even when paused, and returns the run without waiting for it
+  async trigger(name: string, triggeredBy?: string): Promise<JobRun> {
+    const state = this.getState(name);
+    const started = state.running ? null : await this.begin(state, JobTrigger.MANUAL, triggeredBy);
+    if (!started) {
+      throw new JobAlreadyRunningError(name);
+    }
+
+    // Failures are recorded on the run and logged by execute
+    started.finished.catch(() => undefined);
+    return started.run;
+  }
+
+  async list(): Promise<JobInfo[]> {
+    const names = [...this.jobs.keys()];
+    const [paused, latest] = await Promise.all([jobSettingsRepository.findPaused(), jobRunRepository.findLatest(names)]);
+
+    return names.map(name => this.toInfo(this.jobs.get(name)!, paused.includes(name), latest.get(name) ?? null));
+  }
+
+  async get(name: string): Promise<JobInfo> {
+    const state = this.getState(name);
+    const [paused, latest] = await Promise.all([jobSettingsRepository.isPaused(name), jobRunRepository.findLatest([name])]);
+
+    return this.toInfo(state, paused, latest.get(name) ?? null);
+  }
+
+  async pause(name: string, userId?: string): Promise<JobInfo> {
+    this.getState(name);
+    await jobSettingsRepository.setPaused(name, true, userId);
+    logger.logBusinessEvent('job_paused', 'job', name, { userId });
+    return this.get(name);
+  }
+
+  async resume(name: string, userId?: string): Promise<JobInfo> {
+    this.getState(name);
+    await jobSettingsRepository.setPaused(name, false);
+    logger.logBusinessEvent('job_resumed', 'job', name, { userId });
+    return this.get(name);
+  }
+
+  async getRuns(name: string, pagination: PaginationParams, status?: JobRunStatus): ReturnType<typeof jobRunRepository.findByJob> {
+    this.getState(name);
+    return jobRunRepository.findByJob(name, pagination, status);
+  }
+
+  private getState(name: string): JobState {
+    const state = this.jobs.get(name);
+    if (!state) {
+      throw new JobNotFoundError(name);
+    }
+    return state;
+  }
+
+  private toInfo(state: JobState, paused: boolean, lastRun: JobRun | null): JobInfo {
+    const { name, description, schedule, timeoutMs, retry } = state.definition;
+    return { name, description, schedule, timeoutMs, retry, paused, running: state.running, lastRun };
+  }
+
+  // Takes the job lock and records the run; null when another instance holds the lock
+  private async begin(state: JobState, trigger: JobTrigger, triggeredBy?: string): Promise<StartedRun | null> {
+    const { name } = state.definition;
+    state.running = true;
+
+    let lease = null;
+    try {
+      lease = await distributedLockService.acquire(jobLockName(name));
+      if (!lease) {
+        logger.debug('Job running on another instance, skipping', { job: name });
+        state.running = false;
+        return null;
+      }
+
+      const interrupted = await jobRunRepository.failInterrupted(name);
+      if (interrupted > 0) {
+        logger.warn('Closed job runs interrupted before finishing', { job: name, count: interrupted });
+      }
+
+      const run = await jobRunRepository.create({
+        jobName: name,
+        trigger,
+        instance: INSTANCE_ID,
+        ...(triggeredBy && { triggeredBy }),
+      });
+
+      const acquired = lease;
+      const finished = this.execute(state.definition, run, acquired).finally(async () => {
+        state.running = false;
+        await distributedLockService.release(acquired);
+      });
+
+      return { run, finished };
+    } catch (error) {
+      state.running = false;
+      if (lease) {
+        await distributedLockService.release(lease);
+      }
+      throw error;
+    }
+  }
+
+  // Runs the attempts with exponential backoff between failures. A timed out attempt is not
+  // retried: its work may still be running, so the lock is kept until it settles. Losing the
+  // lock aborts the attempt and fails the run without retrying, as another instance may take over.
+  private async execute(definition: JobDefinition, run: JobRun, lease: LockLease): Promise<JobRun> {
+    const logs: JobLogEntry[] = [];
+    const log = (message: string, level: JobLogEntry['level'] = 'info'): void => {
+      logs.push({ at: new Date(), level, message });
+      logger[level](message, { job: definition.name, runId: run.id });
+    };
+
+    logger.info('Job started', { job: definition.name, runId: run.id, trigger: run.trigger });
+
+    for (let attempt = 1; ; attempt++) {
+      const controller = new AbortController();
+      const work = Promise.resolve().then(() => definition.run({ attempt, signal: controller.signal, log }));
+
+      try {
+        const result = await guardAttempt(work, definition.timeoutMs, controller, lease);
+        return await this.finish(run, {
+          status: JobRunStatus.SUCCEEDED,
+          attempts: attempt,
+          logs,
+          ...(result && { result }),
+        });
+      } catch (error) {
+        const message = errorMessage(error);
+
+        if (error instanceof JobTimeoutError) {
+          log(`Attempt ${attempt} ${message.toLowerCase()}`, 'error');
+          const finished = await this.finish(run, { status: JobRunStatus.TIMED_OUT, attempts: attempt, logs, error: message });
+          await work.catch(() => undefined);
+          return finished;
+        }
+
+        if (error instanceof LockLostError) {
+          log(`Attempt ${attempt} aborted: ${message}`, 'error');
+          const finished = await this.finish(run, { status: JobRunStatus.FAILED, attempts: attempt, logs, error: message });
+          await work.catch(() => undefined);
+          return finished;
+        }
+
+        log(`Attempt ${attempt} failed: ${message}`, 'error');
+        if (attempt >= definition.retry.attempts) {
+          return this.finish(run, { status: JobRunStatus.FAILED, attempts: attempt, logs, error: message });
+        }
+
+        const delay = definition.retry.backoffMs * 2 ** (attempt - 1);
+        log(`Retrying in ${delay} ms`, 'warn');
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async finish(run: JobRun, data: FinishJobRunData): Promise<JobRun> {
+    logger.info('Job finished', { job: run.jobName, runId: run.id, status: data.status, attempts: data.attempts });
+
+    try {
+      return await jobRunRepository.finish(run.id, data);
+    } catch (error) {
+      // The run row stays open and is closed as interrupted on the next execution
+      logger.logError(error as Error, { operation: 'finish_job_run', job: run.jobName, runId: run.id });
+      return { ...run, ...data, finishedAt: new Date() };
+    }
+  }
+}
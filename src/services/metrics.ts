@@ -1,5 +1,8 @@
 import { register, Counter, Histogram, Gauge } from 'prom-client';
 import { MetricsData } from '@/types';
+import { jobQueueRepository } from '@/repositories/jobQueueRepository';
+import { salesReportService } from './salesReport';
+import { logger } from './logger';
 
 export class MetricsService {
   private requestCounter: Counter;
@@ -11,6 +14,12 @@ export class MetricsService {
   private orderCounter: Counter;
   private userCounter: Counter;
   private errorCounter: Counter;
+  private queueJobCounter: Counter;
+  private queueJobDuration: Histogram;
+  private queueJobWait: Histogram;
+  private queueDepth: Gauge;
+  private queueDeadLetters: Gauge;
+  private queueOldestPending: Gauge;
 
   constructor() {
     // Request metrics
@@ -67,6 +76,44 @@ export class MetricsService {
       labelNames: ['type', 'route'],
     });
 
+    // Job queue metrics. Outcomes are counted by the process doing the work (API for enqueued,
+    // worker for the rest); depth and age are read from the database on each scrape.
+    this.queueJobCounter = new Counter({
+      name: 'queue_jobs_total',
+      help: 'Total number of queued jobs by outcome (enqueued, completed, retried, dead_lettered)',
+      labelNames: ['type', 'outcome'],
+    });
+
+    this.queueJobDuration = new Histogram({
+      name: 'queue_job_duration_seconds',
+      help: 'Time spent running a queued job attempt in seconds',
+      labelNames: ['type'],
+      buckets: [0.1, 0.5, 1, 5, 15, 60, 300],
+    });
+
+    this.queueJobWait = new Histogram({
+      name: 'queue_job_wait_seconds',
+      help: 'Time a queued job waited past its due time before a worker claimed it',
+      labelNames: ['type'],
+      buckets: [0.5, 1, 5, 15, 60, 300, 900],
+    });
+
+    this.queueDepth = new Gauge({
+      name: 'queue_jobs',
+      help: 'Number of jobs in the queue by type and status',
+      labelNames: ['type', 'status'],
+    });
+
+    this.queueDeadLetters = new Gauge({
+      name: 'queue_dead_letter_jobs',
+      help: 'Number of dead-lettered jobs waiting to be requeued',
+    });
+
+    this.queueOldestPending = new Gauge({
+      name: 'queue_oldest_pending_seconds',
+      help: 'Age in seconds of the oldest due job not yet claimed',
+    });
+
     // Register all metrics
     register.registerMetric(this.requestCounter);
     register.registerMetric(this.requestDuration);
@@ -77,6 +124,12 @@ export class MetricsService {
     register.registerMetric(this.orderCounter);
     register.registerMetric(this.userCounter);
     register.registerMetric(this.errorCounter);
+    register.registerMetric(this.queueJobCounter);
+    register.registerMetric(this.queueJobDuration);
+    register.registerMetric(this.queueJobWait);
+    register.registerMetric(this.queueDepth);
+    register.registerMetric(this.queueDeadLetters);
+    register.registerMetric(this.queueOldestPending);
   }
 
   // Request tracking
@@ -117,6 +170,33 @@ export class MetricsService {
     this.errorCounter.inc({ type, route });
   }
 
+  // Job queue tracking
+  recordQueueJobEnqueued(type: string): void {
+    this.queueJobCounter.inc({ type, outcome: 'enqueued' });
+  }
+
+  recordQueueJobClaimed(type: string, waitSeconds: number): void {
+    this.queueJobWait.observe({ type }, Math.max(waitSeconds, 0));
+  }
+
+  recordQueueJobAttempt(type: string, outcome: 'completed' | 'retried' | 'dead_lettered', duration: number): void {
+    this.queueJobCounter.inc({ type, outcome });
+    this.queueJobDuration.observe({ type }, duration);
+  }
+
+  // Queue depth comes from the database so every replica and the worker report the same values
+  async refreshQueueMetrics(): Promise<void> {
+    try {
+      const stats = await jobQueueRepository.getStats();
+      this.queueDepth.reset();
+      stats.jobs.forEach(({ type, status, count }) => this.queueDepth.set({ type, status }, count));
+      this.queueDeadLetters.set(stats.deadLetters);
+      this.queueOldestPending.set(stats.oldestPendingSeconds);
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'refresh_queue_metrics' });
+    }
+  }
+
   // Get cache hit rate
   async getCacheHitRate(): Promise<number> {
     const hits = await this.cacheHitCounter.get();
@@ -138,11 +218,22 @@ export class MetricsService {
     const cacheHitRate = await this.getCacheHitRate();
     const requestLatency = await this.getAverageLatency();
 
+    // Same aggregates as the order statistics report; the health payload must survive a database outage
+    let totalOrders = 0;
+    let averageOrderValue = 0;
+    try {
+      const totals = await salesReportService.getTotals();
+      totalOrders = totals.totalOrders;
+      averageOrderValue = totals.averageOrderValue;
+    } catch (error) {
+      logger.logError(error as Error, { operation: 'get_order_metrics' });
+    }
+
     return {
       totalVehicles: 0, // Will be populated from database
-      totalOrders: 0,   // Will be populated from database
+      totalOrders,
       totalUsers: 0,    // Will be populated from database
-      averageOrderValue: 0, // Will be populated from database
+      averageOrderValue,
       cacheHitRate,
       requestLatency,
     };
@@ -150,6 +241,7 @@ export class MetricsService {
 
   // Get Prometheus metrics
   async getMetrics(): Promise<string> {
+    await this.refreshQueueMetrics();
     return register.metrics();
   }
 
@@ -0,0 +1,333 @@
+import fs from 'fs/promises';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { orderRepository } from '@/repositories/orderRepository';
+import { orderDocumentRepository } from '@/repositories/orderDocumentRepository';
+import { paymentRepository } from '@/repositories/paymentRepository';
+import { tradeInRepository } from '@/repositories/tradeInRepository';
+import { userRepository } from '@/repositories/userRepository';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { jobQueueService } from './jobQueue';
+import { logger } from './logger';
+import {
+  Order,
+  OrderDocument,
+  OrderDocumentType,
+  OrderPayment,
+  OrderStatus,
+  QueueJobType,
+  TradeIn,
+  TradeInStatus,
+  User,
+  Vehicle,
+} from '@/types';
+
+export class OrderDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderDocumentError';
+  }
+}
+
+export interface DealershipDetails {
+  name: string;
+  taxId: string;
+  address: string;
+  phone: string;
+  email: string;
+}
+
+export interface StoredOrderDocument {
+  document: OrderDocument;
+  content: Buffer;
+}
+
+interface DocumentContext {
+  order: Order;
+  buyer: User;
+  vehicle: Vehicle;
+  payments: OrderPayment[];
+  tradeIns: TradeIn[];
+  tradeInCredit: number;
+  paidAmount: number;
+  dealership: DealershipDetails;
+}
+
+// Documents can only be issued once the sale has been paid
+const ISSUABLE_STATUSES = [OrderStatus.PAID, OrderStatus.DELIVERED];
+
+const SPEC_LABELS: Record<string, string> = {
+  engine: 'Motor',
+  transmission: 'Transmisión',
+  fuelType: 'Combustible',
+  color: 'Color',
+  doors: 'Puertas',
+  seats: 'Plazas',
+  power: 'Potencia (CV)',
+  displacement: 'Cilindrada (cc)',
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Efectivo',
+  card: 'Tarjeta',
+  bank_transfer: 'Transferencia',
+  check: 'Cheque',
+  financing: 'Financiación',
+};
+
+const formatCurrency = (value: number): string =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: process.env.DEALERSHIP_CURRENCY || 'EUR' }).format(value);
+
+const formatDate = (value: Date): string =>
+  new Intl.DateTimeFormat('es-ES', { dateStyle: 'long' }).format(new Date(value));
+
+const renderPdf = (build: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    build(doc);
+    doc.end();
+  });
+
+const writeHeader = (doc: PDFKit.PDFDocument, title: string, documentNumber: string, ctx: DocumentContext): void => {
+  const { dealership } = ctx;
+
+  doc.fontSize(18).font('Helvetica-Bold').text(dealership.name);
+  doc.fontSize(9).font('Helvetica')
+    .text(`CIF: ${dealership.taxId}`)
+    .text(dealership.address)
+    .text(`${dealership.phone} · ${dealership.email}`);
+
+  doc.moveDown(1.5);
+  doc.fontSize(16).font('Helvetica-Bold').text(title, { align: 'right' });
+  doc.fontSize(10).font('Helvetica')
+    .text(`Nº ${documentNumber}`, { align: 'right' })
+    .text(`Fecha: ${formatDate(new Date())}`, { align: 'right' })
+    .text(`Pedido: ${ctx.order.id}`, { align: 'right' });
+  doc.moveDown();
+};
+
+const writeSection = (doc: PDFKit.PDFDocument, title: string): void => {
+  doc.moveDown(0.5);
+  doc.fontSize(12).font('Helvetica-Bold').text(title);
+  doc.fontSize(10).font('Helvetica');
+};
+
+const writeBuyer = (doc: PDFKit.PDFDocument, buyer: User): void => {
+  writeSection(doc, 'Comprador');
+  doc.text(`${buyer.firstName} ${buyer.lastName}`).text(buyer.email);
+};
+
+const writeVehicle = (doc: PDFKit.PDFDocument, vehicle: Vehicle): void => {
+  writeSection(doc, 'Vehículo');
+  doc.text(`${vehicle.brand} ${vehicle.model} (${vehicle.year})`)
+    .text(`Kilometraje: ${vehicle.mileage.toLocaleString('es-ES')} km`);
+
+  const specs = Object.entries(vehicle.technicalSpecs || {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== '');
+  for (const [key, value] of specs) {
+    doc.text(`${SPEC_LABELS[key] || key}: ${value}`);
+  }
+};
+
+const writeLedger = (doc: PDFKit.PDFDocument, ctx: DocumentContext): void => {
+  writeSection(doc, 'Pagos');
+
+  if (ctx.tradeIns.length === 0 && ctx.payments.length === 0) {
+    doc.text('Sin pagos registrados');
+  }
+
+  for (const tradeIn of ctx.tradeIns) {
+    doc.text(`Vehículo entregado (${tradeIn.brand} ${tradeIn.model} ${tradeIn.year}): ${formatCurrency(tradeIn.appraisedValue)}`);
+  }
+
+  for (const payment of ctx.payments) {
+    const method = PAYMENT_METHOD_LABELS[payment.method] || payment.method;
+    const reference = payment.reference ? ` · Ref. ${payment.reference}` : '';
+    doc.text(`${formatDate(payment.receivedAt)} · ${method}${reference}: ${formatCurrency(payment.amount)}`);
+  }
+};
+
+const writeTotals = (doc: PDFKit.PDFDocument, ctx: DocumentContext): void => {
+  const outstanding = Math.round((ctx.order.totalAmount - ctx.tradeInCredit - ctx.paidAmount) * 100) / 100;
+
+  writeSection(doc, 'Resumen');
+  doc.text(`Precio de venta: ${formatCurrency(ctx.order.totalAmount)}`);
+  if (ctx.tradeInCredit > 0) {
+    doc.text(`Crédito por vehículo entregado: -${formatCurrency(ctx.tradeInCredit)}`);
+  }
+  doc.text(`Total pagado: ${formatCurrency(ctx.paidAmount)}`);
+  doc.font('Helvetica-Bold').text(`Saldo pendiente: ${formatCurrency(Math.max(outstanding, 0))}`).font('Helvetica');
+};
+
+const renderInvoice = (ctx: DocumentContext, documentNumber: string): Promise<Buffer> =>
+  renderPdf((doc) => {
+    writeHeader(doc, 'FACTURA', documentNumber, ctx);
+    writeBuyer(doc, ctx.buyer);
+    writeVehicle(doc, ctx.vehicle);
+    writeLedger(doc, ctx);
+    writeTotals(doc, ctx);
+  });
+
+const renderContract = (ctx: DocumentContext, documentNumber: string): Promise<Buffer> =>
+  renderPdf((doc) => {
+    const { buyer, vehicle, dealership, order } = ctx;
+
+    writeHeader(doc, 'CONTRATO DE COMPRAVENTA', documentNumber, ctx);
+    writeBuyer(doc, buyer);
+    writeVehicle(doc, vehicle);
+
+    writeSection(doc, 'Condiciones');
+    doc.text(
+      `${dealership.name} (en adelante, el vendedor) vende a ${buyer.firstName} ${buyer.lastName} ` +
+      `(en adelante, el comprador) el vehículo ${vehicle.brand} ${vehicle.model} del año ${vehicle.year}, ` +
+      `con ${vehicle.mileage.toLocaleString('es-ES')} km, por un precio total de ${formatCurrency(order.totalAmount)}.`,
+      { align: 'justify' }
+    );
+    doc.moveDown(0.5);
+    doc.text(
+      'El comprador declara conocer el estado del vehículo, que se entrega usado y con la documentación en regla. ' +
+      'El vendedor garantiza que el vehículo está libre de cargas y gravámenes.',
+      { align: 'justify' }
+    );
+
+    writeLedger(doc, ctx);
+    writeTotals(doc, ctx);
+
+    doc.moveDown(3);
+    const signatureY = doc.y;
+    doc.text('El vendedor', 50, signatureY);
+    doc.text('El comprador', 350, signatureY);
+    doc.text(dealership.name, 50, signatureY + 40);
+    doc.text(`${buyer.firstName} ${buyer.lastName}`, 350, signatureY + 40);
+  });
+
+export class OrderDocumentService {
+  private readonly storagePath = process.env.DOCUMENTS_PATH || './storage/documents';
+
+  getDealershipDetails(): DealershipDetails {
+    return {
+      name: process.env.DEALERSHIP_NAME || 'Mi Coche Ideal',
+      taxId: process.env.DEALERSHIP_TAX_ID || '',
+      address: process.env.DEALERSHIP_ADDRESS || '',
+      phone: process.env.DEALERSHIP_PHONE || '',
+      email: process.env.DEALERSHIP_EMAIL || '',
+    };
+  }
+
+  isIssuable(order: Order): boolean {
+    return ISSUABLE_STATUSES.includes(order.status);
+  }
+
+  // Builds and stores both documents; returns null when the order does not exist
+  async generate(orderId: string): Promise<OrderDocument[] | null> {
+    const order = await orderRepository.findById(orderId);
+    if (!order) {
+      return null;
+    }
+
+    if (!this.isIssuable(order)) {
+      throw new OrderDocumentError(`Documents are only issued for paid orders (current status: ${order.status})`);
+    }
+
+    const ctx = await this.loadContext(order);
+    const year = new Date(order.createdAt).getFullYear();
+    const suffix = order.id.slice(0, 8).toUpperCase();
+
+    const invoice = await this.store(order.id, OrderDocumentType.INVOICE, `FAC-${year}-${suffix}`, renderInvoice, ctx);
+    const contract = await this.store(order.id, OrderDocumentType.CONTRACT, `CON-${year}-${suffix}`, renderContract, ctx);
+
+    return [invoice, contract];
+  }
+
+  // Generation runs in the queue worker after the payment has been committed and must never
+  // fail the request; a failed render is retried by the queue
+  scheduleGeneration(orderId: string): void {
+    jobQueueService.enqueue(QueueJobType.ORDER_DOCUMENTS, { orderId }).catch((error) => {
+      logger.logError(error as Error, { operation: 'enqueue_order_documents', orderId });
+    });
+  }
+
+  async list(orderId: string): Promise<OrderDocument[]> {
+    return orderDocumentRepository.findByOrderId(orderId);
+  }
+
+  // Documents missing from storage are regenerated on demand
+  async get(order: Order, type: OrderDocumentType): Promise<StoredOrderDocument | null> {
+    const existing = await orderDocumentRepository.findByOrderAndType(order.id, type);
+    if (existing) {
+      const content = await fs.readFile(existing.filePath).catch(() => null);
+      if (content) {
+        return { document: existing, content };
+      }
+    }
+
+    const generated = await this.generate(order.id);
+    const document = generated?.find(doc => doc.type === type);
+    if (!document) {
+      return null;
+    }
+
+    return { document, content: await fs.readFile(document.filePath) };
+  }
+
+  private async loadContext(order: Order): Promise<DocumentContext> {
+    const [buyer, vehicle, payments, tradeIns] = await Promise.all([
+      userRepository.findById(order.userId),
+      vehicleRepository.findById(order.vehicleId),
+      paymentRepository.findByOrderId(order.id, false),
+      tradeInRepository.findByOrderId(order.id),
+    ]);
+
+    if (!buyer) {
+      throw new OrderDocumentError('Buyer of the order no longer exists');
+    }
+
+    if (!vehicle) {
+      throw new OrderDocumentError('Vehicle of the order no longer exists');
+    }
+
+    const acceptedTradeIns = tradeIns.filter(tradeIn => tradeIn.status === TradeInStatus.ACCEPTED);
+
+    return {
+      order,
+      buyer,
+      vehicle,
+      payments,
+      tradeIns: acceptedTradeIns,
+      tradeInCredit: acceptedTradeIns.reduce((sum, tradeIn) => sum + tradeIn.appraisedValue, 0),
+      paidAmount: payments.reduce((sum, payment) => sum + payment.amount, 0),
+      dealership: this.getDealershipDetails(),
+    };
+  }
+
+  private async store(
+    orderId: string,
+    type: OrderDocumentType,
+    documentNumber: string,
+    render: (ctx: DocumentContext, documentNumber: string) => Promise<Buffer>,
+    ctx: DocumentContext
+  ): Promise<OrderDocument> {
+    const content = await render(ctx, documentNumber);
+    const directory = path.join(this.storagePath, orderId);
+    const filePath = path.join(directory, `${type}.pdf`);
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(filePath, content);
+
+    return orderDocumentRepository.save({
+      orderId,
+      type,
+      documentNumber,
+      filePath,
+      fileSize: content.length,
+    });
+  }
+}
+
+export const orderDocumentService = new OrderDocumentService();
@@ -0,0 +1,148 @@
+import { PoolClient } from 'pg';
+import { withTransaction } from '@/database/unitOfWork';
+import { orderRepository, CreateOrderData } from '@/repositories/orderRepository';
+import { vehicleRepository, VehicleUnavailableError } from '@/repositories/vehicleRepository';
+import { reservationRepository } from '@/repositories/reservationRepository';
+import { orderDocumentService } from './orderDocuments';
+import { logger } from './logger';
+import { Order, OrderStatus, OrderStatusHistoryEntry, VehicleStatus } from '@/types';
+
+// Allowed next states for every order status
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.PAID, OrderStatus.CANCELLED],
+  [OrderStatus.PAID]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+// Status the linked vehicle must have while the order is in a given state
+export const VEHICLE_STATUS_BY_ORDER_STATUS: Record<OrderStatus, VehicleStatus> = {
+  [OrderStatus.PENDING]: VehicleStatus.RESERVED,
+  [OrderStatus.PAID]: VehicleStatus.SOLD,
+  [OrderStatus.DELIVERED]: VehicleStatus.SOLD,
+  [OrderStatus.CANCELLED]: VehicleStatus.AVAILABLE,
+};
+
+export class InvalidOrderTransitionError extends Error {
+  constructor(
+    public readonly currentStatus: OrderStatus,
+    public readonly requestedStatus: OrderStatus,
+    public readonly allowedTransitions: OrderStatus[]
+  ) {
+    super(`Cannot transition order from ${currentStatus} to ${requestedStatus}`);
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
+
+export interface TransitionOptions {
+  actorId?: string;
+  reason?: string;
+}
+
+export class OrderLifecycleService {
+  getAllowedTransitions(status: OrderStatus): OrderStatus[] {
+    return ORDER_TRANSITIONS[status] || [];
+  }
+
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return this.getAllowedTransitions(from).includes(to);
+  }
+
+  assertTransition(from: OrderStatus, to: OrderStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new InvalidOrderTransitionError(from, to, this.getAllowedTransitions(from));
+    }
+  }
+
+  getVehicleStatusFor(status: OrderStatus): VehicleStatus {
+    return VEHICLE_STATUS_BY_ORDER_STATUS[status];
+  }
+
+  // Creates the order and takes the vehicle out of inventory in one transaction.
+  // The vehicle row is locked, so of two concurrent orders only one can succeed.
+  async place(data: CreateOrderData, options: TransitionOptions = {}): Promise<Order | null> {
+    return withTransaction(async (client) => {
+      const vehicle = await vehicleRepository.findByIdForUpdate(data.vehicleId, client);
+      if (!vehicle) {
+        return null;
+      }
+
+      // A customer's own active hold turns into the order
+      const hold = vehicle.status === VehicleStatus.RESERVED
+        ? await reservationRepository.findActiveByVehicleId(data.vehicleId, client)
+        : null;
+      const canUseHold = hold !== null && hold.userId === data.userId;
+
+      if (vehicle.status !== VehicleStatus.AVAILABLE && !canUseHold) {
+        throw new VehicleUnavailableError(data.vehicleId, vehicle.status);
+      }
+
+      const order = await orderRepository.create(data, client);
+      await vehicleRepository.updateStatus(data.vehicleId, this.getVehicleStatusFor(OrderStatus.PENDING), client);
+      await orderRepository.addStatusHistory({
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: OrderStatus.PENDING,
+        ...(options.actorId !== undefined && { changedBy: options.actorId }),
+        ...(options.reason !== undefined && { reason: options.reason }),
+      }, client);
+
+      if (hold && canUseHold) {
+        await reservationRepository.markConverted(hold.id, client);
+      }
+
+      return order;
+    });
+  }
+
+  async transition(orderId: string, toStatus: OrderStatus, options: TransitionOptions = {}): Promise<Order | null> {
+    const updated = await withTransaction(async (client) => {
+      const current = await orderRepository.findByIdForUpdate(orderId, client);
+      if (!current) {
+        return null;
+      }
+
+      return this.applyTransition(current, toStatus, options, client);
+    });
+
+    if (updated?.status === OrderStatus.PAID) {
+      orderDocumentService.scheduleGeneration(updated.id);
+    }
+
+    return updated;
+  }
+
+  // Moves an order that is already locked by the caller's transaction to a new status
+  async applyTransition(
+    current: Order,
+    toStatus: OrderStatus,
+    options: TransitionOptions,
+    client: PoolClient
+  ): Promise<Order | null> {
+    this.assertTransition(current.status, toStatus);
+
+    const updated = await orderRepository.updateStatus(current.id, toStatus, client);
+    await vehicleRepository.updateStatus(current.vehicleId, this.getVehicleStatusFor(toStatus), client);
+    await orderRepository.addStatusHistory({
+      orderId: current.id,
+      fromStatus: current.status,
+      toStatus,
+      ...(options.actorId !== undefined && { changedBy: options.actorId }),
+      ...(options.reason !== undefined && { reason: options.reason }),
+    }, client);
+
+    logger.logBusinessEvent('order_status_changed', 'order', current.id, {
+      status: toStatus,
+      actorId: options.actorId,
+      reason: options.reason,
+    });
+
+    return updated;
+  }
+
+  async getHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+    return orderRepository.findStatusHistory(orderId);
+  }
+}
+
+export const orderLifecycleService = new OrderLifecycleService();
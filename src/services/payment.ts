@@ -0,0 +1,151 @@
+import { PoolClient } from 'pg';
+import { withTransaction } from '@/database/unitOfWork';
+import { orderRepository } from '@/repositories/orderRepository';
+import { paymentRepository, CreatePaymentData } from '@/repositories/paymentRepository';
+import { tradeInRepository } from '@/repositories/tradeInRepository';
+import { orderLifecycleService } from './orderLifecycle';
+import { orderDocumentService } from './orderDocuments';
+import { logger } from './logger';
+import { Order, OrderBalance, OrderPayment, OrderStatus } from '@/types';
+
+export class PaymentNotAllowedError extends Error {
+  constructor(message: string, public readonly balance?: OrderBalance) {
+    super(message);
+    this.name = 'PaymentNotAllowedError';
+  }
+}
+
+export type RecordPaymentData = Omit<CreatePaymentData, 'orderId' | 'recordedBy'>;
+
+export interface PaymentResult {
+  payment: OrderPayment;
+  balance: OrderBalance;
+  order: Order;
+}
+
+export class PaymentService {
+  async getBalance(orderId: string): Promise<OrderBalance | null> {
+    const order = await orderRepository.findById(orderId);
+    if (!order) {
+      return null;
+    }
+
+    return this.computeBalance(order);
+  }
+
+  // The outstanding balance is always derived from the ledger and accepted trade-ins
+  async computeBalance(order: Order, client?: PoolClient): Promise<OrderBalance> {
+    const paidAmount = await paymentRepository.getPaidTotal(order.id, client);
+    const tradeInCredit = await tradeInRepository.getAcceptedCredit(order.id, client);
+
+    return {
+      orderId: order.id,
+      totalAmount: order.totalAmount,
+      tradeInCredit,
+      paidAmount,
+      outstandingBalance: Math.round((order.totalAmount - tradeInCredit - paidAmount) * 100) / 100,
+    };
+  }
+
+  // A fully settled pending order moves to paid automatically
+  async settleIfPaid(order: Order, balance: OrderBalance, actorId: string | undefined, client: PoolClient): Promise<Order> {
+    if (balance.outstandingBalance > 0 || order.status !== OrderStatus.PENDING) {
+      return order;
+    }
+
+    const paid = await orderLifecycleService.applyTransition(order, OrderStatus.PAID, {
+      ...(actorId !== undefined && { actorId }),
+      reason: 'Balance settled',
+    }, client);
+
+    return paid || order;
+  }
+
+  // Re-checks the balance after the order total changed. A total below what was already
+  // paid or credited is refused; one that is now covered settles the order.
+  async resettle(order: Order, actorId: string | undefined, client: PoolClient): Promise<Order> {
+    const balance = await this.computeBalance(order, client);
+    if (balance.outstandingBalance < 0) {
+      throw new PaymentNotAllowedError('Total amount is below what has already been paid', balance);
+    }
+
+    return this.settleIfPaid(order, balance, actorId, client);
+  }
+
+  async listPayments(orderId: string): Promise<OrderPayment[]> {
+    return paymentRepository.findByOrderId(orderId);
+  }
+
+  async record(orderId: string, data: RecordPaymentData, actorId?: string): Promise<PaymentResult | null> {
+    const result = await withTransaction(async (client) => {
+      const order = await orderRepository.findByIdForUpdate(orderId, client);
+      if (!order) {
+        return null;
+      }
+
+      if (order.status === OrderStatus.CANCELLED) {
+        throw new PaymentNotAllowedError('Payments cannot be recorded on a cancelled order');
+      }
+
+      const before = await this.computeBalance(order, client);
+      if (data.amount > before.outstandingBalance) {
+        throw new PaymentNotAllowedError('Payment exceeds the outstanding balance', before);
+      }
+
+      const payment = await paymentRepository.create({
+        ...data,
+        orderId,
+        ...(actorId !== undefined && { recordedBy: actorId }),
+      }, client);
+
+      const balance = await this.computeBalance(order, client);
+      const current = await this.settleIfPaid(order, balance, actorId, client);
+
+      return { payment, balance, order: current };
+    });
+
+    if (result && result.order.status === OrderStatus.PAID && result.balance.outstandingBalance <= 0) {
+      orderDocumentService.scheduleGeneration(orderId);
+    }
+
+    return result;
+  }
+
+  async void(orderId: string, paymentId: string, actorId?: string, reason?: string): Promise<PaymentResult | null> {
+    return withTransaction(async (client) => {
+      const order = await orderRepository.findByIdForUpdate(orderId, client);
+      if (!order) {
+        return null;
+      }
+
+      const existing = await paymentRepository.findById(paymentId, client);
+      if (!existing || existing.orderId !== orderId) {
+        return null;
+      }
+
+      if (existing.voidedAt) {
+        throw new PaymentNotAllowedError('Payment has already been voided');
+      }
+
+      const payment = await paymentRepository.void(paymentId, {
+        ...(actorId !== undefined && { voidedBy: actorId }),
+        ...(reason !== undefined && { reason }),
+      }, client);
+
+      const balance = await this.computeBalance(order, client);
+
+      if (order.status !== OrderStatus.PENDING && balance.outstandingBalance > 0) {
+        logger.warn('Voided payment reopened the balance of a settled order', {
+          orderId,
+          paymentId,
+          status: order.status,
+          outstandingBalance: balance.outstandingBalance,
+        });
+      }
+
+      return { payment: payment || existing, balance, order };
+    });
+  }
+}
+
+export const paymentService = new PaymentService();
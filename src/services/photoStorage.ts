@@ -0,0 +1,87 @@
+import fs from 'fs/promises';
+import path from 'path';
+import AWS from 'aws-sdk';
+import { createS3Client } from './s3';
+
+export interface PhotoStorage {
+  // Stores the object and returns the public URL it can be fetched from
+  save(key: string, content: Buffer, contentType: string): Promise<string>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalPhotoStorage implements PhotoStorage {
+  constructor(
+    private readonly rootPath: string,
+    private readonly publicUrl: string
+  ) {}
+
+  async save(key: string, content: Buffer): Promise<string> {
+    const filePath = path.join(this.rootPath, key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(path.join(this.rootPath, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(path.join(this.rootPath, key), { force: true });
+  }
+}
+
+export class S3PhotoStorage implements PhotoStorage {
+  constructor(
+    private readonly s3: AWS.S3,
+    private readonly bucket: string,
+    private readonly publicUrl: string
+  ) {}
+
+  async save(key: string, content: Buffer, contentType: string): Promise<string> {
+    await this.s3.putObject({
+      Bucket: this.bucket,
+      Key: key,
+      Body: content,
+      ContentType: contentType,
+    }).promise();
+
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const object = await this.s3.getObject({ Bucket: this.bucket, Key: key }).promise();
+    return object.Body as Buffer;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3.deleteObject({ Bucket: this.bucket, Key: key }).promise();
+  }
+}
+
+export const createPhotoStorage = (): PhotoStorage => {
+  if (process.env.PHOTO_STORAGE === 's3') {
+    const bucket = process.env.AWS_S3_PHOTOS_BUCKET || process.env.AWS_S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3 photo storage requires AWS_S3_PHOTOS_BUCKET or AWS_S3_BUCKET');
+    }
+
+    const region = process.env.AWS_REGION || 'us-east-1';
+    const publicUrl = process.env.PHOTOS_PUBLIC_URL || `https://${bucket}.s3.${region}.amazonaws.com`;
+    return new S3PhotoStorage(createS3Client(), bucket, publicUrl);
+  }
+
+  return new LocalPhotoStorage(process.env.UPLOAD_PATH || './uploads', process.env.PHOTOS_PUBLIC_URL || '/uploads');
+};
+
+let storage: PhotoStorage | null = null;
+
+// Created on first use so a misconfigured S3 backend does not break unrelated imports
+export const getPhotoStorage = (): PhotoStorage => {
+  if (!storage) {
+    storage = createPhotoStorage();
+  }
+  return storage;
+};
@@ -1,190 +1,688 @@
-import AWS from 'aws-sdk';
 import csv from 'csv-parser';
+import fs from 'fs';
 import { Readable } from 'stream';
-import { pool } from '@/database/config';
+import { withTransaction } from '@/database/unitOfWork';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { priceImportRunRepository, ClaimPriceImportData } from '@/repositories/priceImportRunRepository';
+import { createPriceSources, PriceFile, PriceSource, UploadPriceSource } from './priceSources';
+import { distributedLockService, LockLease } from './distributedLock';
+import { jobQueueService } from './jobQueue';
 import { logger } from './logger';
-import { PriceUpdate } from '@/types';
+import { vehiclePricingService } from './vehiclePricing';
+import {
+  LockHolder,
+  PriceChangePreview,
+  PriceChangePreviewRow,
+  PriceChangeSource,
+  PriceImportReport,
+  PriceImportRun,
+  PriceImportRunStatus,
+  PriceImportSource,
+  PriceProcessingRun,
+  PriceUpdate,
+  PriceUpdateRowResult,
+  PriceUpdateRowStatus,
+  QueuedJob,
+  QueueJobType,
+} from '@/types';
+
+export const PRICE_PROCESSING_LOCK = 'price-processing';
+
+interface PreparedRun {
+  run: PriceImportRun;
+  open: () => Readable;
+}
+
+export class PriceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PriceImportError';
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Raised inside a chunk transaction so the whole chunk rolls back and the failing row is known
+class ChunkRowError extends Error {
+  constructor(public readonly update: PriceUpdate, message: string) {
+    super(message);
+    this.name = 'ChunkRowError';
+  }
+}
+
+// Runs the worker over every item with at most `limit` in flight, keeping result order
+const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]!);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+};
+
+const rowResult = (
+  update: PriceUpdate,
+  status: PriceUpdateRowStatus,
+  extra: { oldPrice?: number; reason?: string } = {}
+): PriceUpdateRowResult => ({
+  row: update.row ?? 0,
+  vehicleId: update.vehicleId,
+  newPrice: Number.isFinite(update.newPrice) ? update.newPrice : null,
+  status,
+  ...extra,
+});
 
 export class PriceProcessorService {
-  private s3: AWS.S3;
   private isProcessing = false;
   private processingQueue: PriceUpdate[] = [];
   private processingLock = false;
+  private lastRun: PriceProcessingRun | null = null;
+  private readonly chunkSize: number;
+  private readonly concurrency: number;
+  private readonly warningThresholdPercent: number;
 
-  constructor() {
-    const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
-    const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
-    const region = process.env.AWS_REGION || 'us-east-1';
-
-    if (!accessKeyId || !secretAccessKey) {
-      throw new Error('AWS credentials (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY) are not configured.');
-    }
-
-    this.s3 = new AWS.S3({
-      accessKeyId,
-      secretAccessKey,
-      region,
-    });
+  constructor(private readonly sources: PriceSource[] = createPriceSources()) {
+    this.chunkSize = parseInt(process.env.PRICE_IMPORT_CHUNK_SIZE || '100');
+    this.concurrency = parseInt(process.env.PRICE_IMPORT_CONCURRENCY || '4');
+    this.warningThresholdPercent = parseFloat(process.env.PRICE_CHANGE_WARNING_PERCENT || '20');
   }
 
-  // Thread-safe method to start processing
-  async startProcessing(): Promise<void> {
+  // Thread-safe method to start processing. Returns the run, or null when processing was
+  // already in progress here or on another instance and nothing ran.
+  async startProcessing(): Promise<PriceProcessingRun | null> {
     if (this.processingLock) {
       logger.warn('Price processing already in progress');
-      return;
+      return null;
+    }
+
+    const lease = await distributedLockService.acquire(PRICE_PROCESSING_LOCK);
+    if (!lease) {
+      logger.info('Price processing is running on another instance, skipping');
+      return null;
     }
 
     this.processingLock = true;
     this.isProcessing = true;
+    const run: PriceProcessingRun = { startedAt: new Date(), reports: [] };
+    this.lastRun = run;
 
     try {
-      logger.info('Starting price processing from S3 CSV');
-      
-      // Process from S3
-      await this.processFromS3();
-      
-      // Process local file as fallback
-      await this.processFromLocal();
-      
-      logger.info('Price processing completed successfully');
+      logger.info('Starting price processing', { sources: this.sources.map(source => source.name) });
+
+      // A failing source (bucket unreachable, unreadable directory) must not block the others
+      const failures: string[] = [];
+      for (const source of this.sources) {
+        try {
+          await this.processSource(source);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.error('Failed to process price source', { source: source.name, error: message });
+          failures.push(`${source.name}: ${message}`);
+        }
+      }
+
+      const rejectedRows = run.reports.reduce((total, report) => total + report.rejected, 0);
+      if (failures.length > 0) {
+        run.error = failures.join('; ');
+      }
+
+      if (failures.length > 0 || rejectedRows > 0) {
+        logger.warn('Price processing completed with failures', { failedSources: failures.length, rejectedRows });
+      } else {
+        logger.info('Price processing completed successfully');
+      }
     } catch (error) {
       if (error instanceof Error) {
         logger.error(error.message);
       } else {
         logger.error(String(error));
       }
+      run.error = error instanceof Error ? error.message : String(error);
     } finally {
+      run.finishedAt = new Date();
       this.processingLock = false;
       this.isProcessing = false;
+      await distributedLockService.release(lease);
     }
+
+    return run;
   }
 
-  // Process CSV from S3
-  private async processFromS3(): Promise<void> {
-    const bucketName = process.env.AWS_S3_BUCKET;
-    if (!bucketName) {
-      logger.warn('S3 bucket not configured, skipping S3 processing');
+  // Ingests every pending file of a source, oldest first
+  private async processSource(source: PriceSource): Promise<void> {
+    const files = await source.list();
+    if (files.length === 0) {
+      logger.debug('No price files pending', { source: source.name });
       return;
     }
 
-    try {
-      // List objects in bucket
-      const listResult = await this.s3.listObjectsV2({
-        Bucket: bucketName,
-        Prefix: 'price-updates/',
-      }).promise();
-
-      if (!listResult.Contents || listResult.Contents.length === 0) {
-        logger.info('No CSV files found in S3 bucket');
-        return;
-      }
+    for (const file of files) {
+      await this.ingest(source, file);
+    }
+  }
 
-      // Process the most recent CSV file
-      const latestFile = listResult.Contents
-        .filter(obj => obj.Key?.endsWith('.csv'))
-        .sort((a, b) => (b.LastModified?.getTime() || 0) - (a.LastModified?.getTime() || 0))[0];
+  // Claims the file in the registry and applies it. Files already registered are
+  // skipped (returns null); a failure is recorded on the run instead of aborting the batch.
+  // Either way the source gets to archive the file so it is not listed again.
+  private async ingest(source: PriceSource, file: PriceFile): Promise<PriceImportRun | null> {
+    const claim: ClaimPriceImportData = { source: source.name, objectKey: file.key, fingerprint: file.fingerprint };
+    const run = await priceImportRunRepository.claim(claim);
 
-      if (!latestFile?.Key) {
-        logger.info('No CSV files found in S3 bucket');
-        return;
+    let result: PriceImportRun | null = null;
+    if (!run) {
+      logger.debug('Price file already processed, skipping', { source: source.name, objectKey: file.key });
+    } else {
+      logger.info(`Processing CSV file: ${file.key}`, { runId: run.id, attempt: run.attempt });
+
+      try {
+        result = await this.applyRun(run, source.open(file));
+        if (result.status === PriceImportRunStatus.COMPLETED) {
+          logger.info(`Successfully processed ${file.key}`, { runId: run.id });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error('Price file processing failed', { runId: run.id, objectKey: file.key, error: message });
+        result = (await priceImportRunRepository.fail(run.id, message)) ?? run;
       }
+    }
+
+    const archivedPath = await source.markProcessed(file);
+    if (run && archivedPath) {
+      await priceImportRunRepository.setArchivedPath(run.id, archivedPath);
+    }
 
-      logger.info(`Processing CSV file: ${latestFile.Key}`);
+    return result;
+  }
 
-      // Download and process the file
-      const fileStream = this.s3.getObject({
-        Bucket: bucketName,
-        Key: latestFile.Key,
-      }).createReadStream();
+  // Forces a file that was already ingested to be applied again as a new attempt.
+  // Returns null when the run does not exist; processing continues in the background.
+  async reprocess(runId: string, requestedBy?: string): Promise<PriceImportRun | null> {
+    return this.startInBackground(() => this.prepareReprocess(runId, requestedBy), false);
+  }
 
-      await this.processCSVStream(fileStream);
-      
-      logger.info(`Successfully processed ${latestFile.Key}`);
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        logger.error('Failed to process S3 CSV', { error: error.message });
-      } else {
-        logger.error('Failed to process S3 CSV', { error: 'Unknown error' });
-      }
+  // Approves a held run and applies the whole file in the background.
+  // Returns null when the run does not exist.
+  async approve(runId: string, reviewedBy?: string, note?: string): Promise<PriceImportRun | null> {
+    return this.startInBackground(() => this.prepareApproval(runId, reviewedBy, note), true);
+  }
+
+  // Rejects a held run; none of its changes are applied. Returns null when the run does not exist.
+  async reject(runId: string, reviewedBy?: string, note?: string): Promise<PriceImportRun | null> {
+    const pending = await priceImportRunRepository.findById(runId);
+    if (!pending) {
+      return null;
+    }
+
+    const run = await priceImportRunRepository.review(runId, PriceImportRunStatus.REJECTED, reviewedBy, note);
+    if (!run) {
+      throw new PriceImportError(`Price import run is ${pending.status}, not pending approval`);
+    }
+
+    logger.logBusinessEvent('price_import_rejected', 'price_import_run', runId, { reviewedBy, note });
+    return run;
+  }
+
+  private async prepareReprocess(runId: string, requestedBy?: string): Promise<PreparedRun | null> {
+    const previous = await priceImportRunRepository.findById(runId);
+    if (!previous) {
+      return null;
+    }
+
+    const open = this.reopen(previous);
+    const latestAttempt = await priceImportRunRepository.getLatestAttempt(
+      previous.source,
+      previous.objectKey,
+      previous.fingerprint
+    );
+
+    const file: ClaimPriceImportData = {
+      source: previous.source,
+      objectKey: previous.objectKey,
+      fingerprint: previous.fingerprint,
+      attempt: latestAttempt + 1,
+      ...(previous.archivedPath && { archivedPath: previous.archivedPath }),
+      ...(requestedBy && { requestedBy }),
+    };
+
+    const run = await priceImportRunRepository.claim(file);
+    if (!run) {
+      throw new PriceImportError('A reprocess of this file was requested concurrently');
+    }
+
+    return { run, open };
+  }
+
+  private async prepareApproval(runId: string, reviewedBy?: string, note?: string): Promise<PreparedRun | null> {
+    const pending = await priceImportRunRepository.findById(runId);
+    if (!pending) {
+      return null;
+    }
+    if (pending.status !== PriceImportRunStatus.PENDING_APPROVAL) {
+      throw new PriceImportError(`Price import run is ${pending.status}, not pending approval`);
+    }
+
+    // Fail before recording the decision if the file can no longer be read back
+    const open = this.reopen(pending);
+
+    const run = await priceImportRunRepository.review(runId, PriceImportRunStatus.PROCESSING, reviewedBy, note);
+    if (!run) {
+      throw new PriceImportError('Price import run was reviewed concurrently');
+    }
+
+    logger.logBusinessEvent('price_import_approved', 'price_import_run', runId, { reviewedBy });
+    return { run, open };
+  }
+
+  // Takes the processing lease, prepares the run and applies it in the background. The
+  // lease is released straight away when preparation finds nothing to do or fails.
+  private async startInBackground(
+    prepare: () => Promise<PreparedRun | null>,
+    approved: boolean
+  ): Promise<PriceImportRun | null> {
+    if (this.processingLock) {
+      throw new PriceImportError('Price processing already in progress');
+    }
+
+    const lease = await this.acquireLease();
+
+    let prepared: PreparedRun | null;
+    try {
+      prepared = await prepare();
+    } catch (error) {
+      await distributedLockService.release(lease);
       throw error;
     }
+
+    if (!prepared) {
+      await distributedLockService.release(lease);
+      return null;
+    }
+
+    this.processingLock = true;
+    this.isProcessing = true;
+    this.lastRun = { startedAt: new Date(), reports: [] };
+
+    this.applyClaimedRun(prepared.run, prepared.open, approved).finally(async () => {
+      this.lastRun!.finishedAt = new Date();
+      this.processingLock = false;
+      this.isProcessing = false;
+      await distributedLockService.release(lease);
+    });
+
+    return prepared.run;
+  }
+
+  // Takes the lease shared by every replica, so only one of them processes prices at a time
+  private async acquireLease(): Promise<LockLease> {
+    const lease = await distributedLockService.acquire(PRICE_PROCESSING_LOCK);
+    if (!lease) {
+      const holder = await distributedLockService.getHolder(PRICE_PROCESSING_LOCK);
+      throw new PriceImportError(`Price processing already in progress${holder ? ` on ${holder.holder}` : ''}`);
+    }
+    return lease;
+  }
+
+  async getLockHolder(): Promise<LockHolder | null> {
+    return distributedLockService.getHolder(PRICE_PROCESSING_LOCK);
   }
 
-  // Process local CSV file as fallback
-  private async processFromLocal(): Promise<void> {
+  private async applyClaimedRun(run: PriceImportRun, open: () => Readable, approved: boolean): Promise<void> {
     try {
-      const fs = require('fs');
-      const path = require('path');
-      
-      const localPath = path.join(__dirname, '../../data/price-updates.csv');
-      
-      if (!fs.existsSync(localPath)) {
-        logger.info('No local CSV file found');
-        return;
-      }
+      const result = await this.applyRun(run, open(), approved);
+      logger.info('Price file reprocessed', { runId: run.id, attempt: run.attempt, status: result.status });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.lastRun!.error = message;
+      logger.error('Price file reprocess failed', { runId: run.id, error: message });
+      await priceImportRunRepository.fail(run.id, message).catch(() => undefined);
+    }
+  }
 
-      logger.info('Processing local CSV file');
-      const fileStream = fs.createReadStream(localPath);
-      await this.processCSVStream(fileStream);
-      
-      logger.info('Successfully processed local CSV file');
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        logger.error('Failed to process local CSV', { error: error.message });
-      } else {
-        logger.error('Failed to process local CSV', { error: 'Unknown error' });
+  // Applies the file of a claimed run. Unless it was approved, a file with changes
+  // beyond the warning threshold is held with its preview and nothing is written.
+  private async applyRun(run: PriceImportRun, stream: Readable, approved = false): Promise<PriceImportRun> {
+    const label = `${run.source}:${run.objectKey}`;
+    const updates = await this.parseCSVStream(stream);
+
+    if (!approved) {
+      const preview = await this.buildPreview(updates, label);
+      if (preview.requiresApproval) {
+        logger.warn('Price file held for approval', { runId: run.id, warnings: preview.warnings });
+        return (await priceImportRunRepository.holdForApproval(run.id, preview)) ?? run;
       }
-      throw error;
     }
+
+    const report = await this.processUpdatesConcurrently(updates, label);
+    this.lastRun?.reports.push(report);
+    return (await priceImportRunRepository.complete(run.id, report)) ?? run;
   }
 
-  // Process CSV stream with concurrent updates
-  private async processCSVStream(stream: Readable): Promise<void> {
+  // Reopens the exact content of a registered file: S3 objects must still carry the same
+  // ETag, local and uploaded files are read back from the processed folder.
+  private reopen(run: PriceImportRun): () => Readable {
+    const source = this.sources.find(candidate => candidate.name === run.source);
+    if (!source) {
+      throw new PriceImportError(`Price source "${run.source}" is not enabled`);
+    }
+
+    if (run.source !== PriceImportSource.S3 && (!run.archivedPath || !fs.existsSync(run.archivedPath))) {
+      throw new PriceImportError('Archived copy of the local file is no longer available');
+    }
+
+    const file: PriceFile = {
+      key: run.objectKey,
+      fingerprint: run.fingerprint,
+      ...(run.archivedPath && { location: run.archivedPath }),
+    };
+    return () => source.open(file);
+  }
+
+  private parseCSVStream(stream: Readable): Promise<PriceUpdate[]> {
     return new Promise((resolve, reject) => {
       const updates: PriceUpdate[] = [];
-      
+
       stream
         .pipe(csv())
         .on('data', (row) => {
-          const update: PriceUpdate = {
-            vehicleId: row.vehicle_id,
+          updates.push({
+            vehicleId: String(row.vehicle_id ?? '').trim(),
             newPrice: parseFloat(row.new_price),
             timestamp: new Date(),
-          };
-          updates.push(update);
-        })
-        .on('end', async () => {
-          try {
-            await this.processUpdatesConcurrently(updates);
-            resolve();
-          } catch (error: unknown) {
-            if (error instanceof Error) {
-              reject(error);
-            } else {
-              reject(new Error('Unknown error during CSV processing'));
-            }
-          }
+            row: updates.length + 1,
+          });
         })
+        .on('end', () => resolve(updates))
         .on('error', (error) => {
           reject(error);
         });
+
+      stream.on('error', (error) => {
+        reject(error);
+      });
     });
   }
 
-  // Thread-safe concurrent processing with database transactions
-  private async processUpdatesConcurrently(updates: PriceUpdate[]): Promise<void> {
+  // Dry run of an uploaded CSV: nothing is registered or applied
+  async previewUpload(originalName: string, content: Buffer): Promise<PriceChangePreview> {
+    const updates = await this.parseCSVStream(Readable.from(content));
+    return this.buildPreview(updates, `${PriceImportSource.UPLOAD}:${originalName}`);
+  }
+
+  // Dry run of a file still waiting in one of the configured sources.
+  // Returns null when the source has no pending file with that key.
+  async previewSourceFile(sourceName: PriceImportSource, key: string): Promise<PriceChangePreview | null> {
+    const source = this.sources.find(candidate => candidate.name === sourceName);
+    if (!source) {
+      throw new PriceImportError(`Price source "${sourceName}" is not enabled`);
+    }
+
+    const file = (await source.list()).find(candidate => candidate.key === key);
+    if (!file) {
+      return null;
+    }
+
+    const updates = await this.parseCSVStream(source.open(file));
+    return this.buildPreview(updates, `${source.name}:${file.key}`);
+  }
+
+  // Per-vehicle diff of a batch against current prices, flagging changes beyond the threshold
+  async buildPreview(updates: PriceUpdate[], source: string): Promise<PriceChangePreview> {
+    const { accepted, rejected } = await this.validateBatch(updates);
+    const currentPrices = await vehicleRepository.findPricesByIds(accepted.map(update => update.vehicleId));
+
+    const changes: PriceChangePreviewRow[] = [];
+    let unchanged = 0;
+
+    for (const update of accepted) {
+      const oldPrice = currentPrices.get(update.vehicleId) ?? currentPrices.get(update.vehicleId.toLowerCase());
+      if (oldPrice === undefined) {
+        // Deleted between validation and lookup
+        rejected.push(rowResult(update, PriceUpdateRowStatus.REJECTED, { reason: 'Vehicle not found' }));
+        continue;
+      }
+
+      if (oldPrice === update.newPrice) {
+        unchanged++;
+        continue;
+      }
+
+      const difference = update.newPrice - oldPrice;
+      const percentChange = Math.round((difference / oldPrice) * 10000) / 100;
+
+      changes.push({
+        row: update.row ?? 0,
+        vehicleId: update.vehicleId,
+        oldPrice,
+        newPrice: update.newPrice,
+        difference,
+        percentChange,
+        ...(Math.abs(percentChange) > this.warningThresholdPercent && {
+          warning: `Price changes by ${percentChange}%, beyond the ${this.warningThresholdPercent}% threshold`,
+        }),
+      });
+    }
+
+    const warnings = changes.filter(change => change.warning).length;
+
+    return {
+      source,
+      totalRows: updates.length,
+      thresholdPercent: this.warningThresholdPercent,
+      changes: changes.sort((a, b) => a.row - b.row),
+      unchanged,
+      rejected: rejected.sort((a, b) => a.row - b.row),
+      warnings,
+      requiresApproval: warnings > 0,
+    };
+  }
+
+  // Validates the whole batch first, then applies it in chunked transactions with
+  // bounded concurrency. A failing row rolls back its entire chunk.
+  async processUpdatesConcurrently(
+    updates: PriceUpdate[],
+    source: string,
+    changeSource: PriceChangeSource = PriceChangeSource.IMPORT
+  ): Promise<PriceImportReport> {
+    const startedAt = new Date();
+
     if (updates.length === 0) {
       logger.info('No price updates to process');
-      return;
     }
 
-    logger.info('Price updates processed successfully');
+    const { accepted, rejected } = await this.validateBatch(updates);
+
+    const chunks: PriceUpdate[][] = [];
+    for (let i = 0; i < accepted.length; i += this.chunkSize) {
+      chunks.push(accepted.slice(i, i + this.chunkSize));
+    }
+
+    this.processingQueue = [...accepted];
+    const chunkResults = await runWithConcurrency(chunks, this.concurrency, chunk => this.applyChunk(chunk, source, changeSource));
+    this.processingQueue = [];
+
+    const rows = [...rejected, ...chunkResults.flat()].sort((a, b) => a.row - b.row);
+    const count = (status: PriceUpdateRowStatus): number => rows.filter(row => row.status === status).length;
+
+    const report: PriceImportReport = {
+      source,
+      startedAt,
+      finishedAt: new Date(),
+      totalRows: updates.length,
+      applied: count(PriceUpdateRowStatus.APPLIED),
+      skipped: count(PriceUpdateRowStatus.SKIPPED),
+      rejected: count(PriceUpdateRowStatus.REJECTED),
+      rows,
+    };
+
+    logger.info('Price updates processed', {
+      source,
+      totalRows: report.totalRows,
+      applied: report.applied,
+      skipped: report.skipped,
+      rejected: report.rejected,
+    });
+
+    return report;
+  }
+
+  private async validateBatch(updates: PriceUpdate[]): Promise<{
+    accepted: PriceUpdate[];
+    rejected: PriceUpdateRowResult[];
+  }> {
+    const rowsById = new Map<string, number[]>();
+    for (const update of updates) {
+      const key = update.vehicleId.toLowerCase();
+      rowsById.set(key, [...(rowsById.get(key) ?? []), update.row ?? 0]);
+    }
+
+    const rejected: PriceUpdateRowResult[] = [];
+    const candidates: PriceUpdate[] = [];
+
+    for (const update of updates) {
+      const duplicateRows = rowsById.get(update.vehicleId.toLowerCase()) ?? [];
+
+      if (!UUID_PATTERN.test(update.vehicleId)) {
+        rejected.push(rowResult(update, PriceUpdateRowStatus.REJECTED, { reason: 'Invalid vehicle ID' }));
+      } else if (!Number.isFinite(update.newPrice) || update.newPrice <= 0) {
+        rejected.push(rowResult(update, PriceUpdateRowStatus.REJECTED, { reason: 'Price must be a positive number' }));
+      } else if (duplicateRows.length > 1) {
+        // Conflicting rows for the same vehicle: none of them is trusted
+        rejected.push(rowResult(update, PriceUpdateRowStatus.REJECTED, {
+          reason: `Duplicate vehicle ID (rows ${duplicateRows.join(', ')})`,
+        }));
+      } else {
+        candidates.push(update);
+      }
+    }
+
+    const existing = await vehicleRepository.findExistingIds(candidates.map(update => update.vehicleId));
+    const accepted: PriceUpdate[] = [];
+
+    for (const update of candidates) {
+      if (existing.has(update.vehicleId.toLowerCase()) || existing.has(update.vehicleId)) {
+        accepted.push(update);
+      } else {
+        rejected.push(rowResult(update, PriceUpdateRowStatus.REJECTED, { reason: 'Vehicle not found' }));
+      }
+    }
+
+    return { accepted, rejected };
+  }
+
+  private async applyChunk(
+    chunk: PriceUpdate[],
+    source: string,
+    changeSource: PriceChangeSource
+  ): Promise<PriceUpdateRowResult[]> {
+    try {
+      return await withTransaction(async (client) => {
+        const results: PriceUpdateRowResult[] = [];
+
+        for (const update of chunk) {
+          let result;
+          try {
+            result = await vehiclePricingService.changePrice(update.vehicleId, update.newPrice, {
+              source: changeSource,
+              reason: update.reason ?? `CSV import: ${source}`,
+            }, client);
+          } catch (error) {
+            throw new ChunkRowError(update, error instanceof Error ? error.message : String(error));
+          }
+
+          if (!result) {
+            throw new ChunkRowError(update, 'Vehicle not found');
+          }
+
+          results.push(result.change
+            ? rowResult(update, PriceUpdateRowStatus.APPLIED, { oldPrice: result.change.oldPrice })
+            : rowResult(update, PriceUpdateRowStatus.SKIPPED, { oldPrice: result.vehicle.price, reason: 'Price unchanged' }));
+        }
+
+        return results;
+      });
+    } catch (error) {
+      const failed = error instanceof ChunkRowError ? error.update : undefined;
+      const message = error instanceof Error ? error.message : String(error);
+
+      logger.warn('Price update chunk rolled back', { source, rows: chunk.length, failedRow: failed?.row, error: message });
+
+      return chunk.map(update => rowResult(update, PriceUpdateRowStatus.REJECTED, {
+        reason: update === failed
+          ? message
+          : failed
+            ? `Chunk rolled back after row ${failed.row} failed`
+            : `Chunk rolled back: ${message}`,
+      }));
+    } finally {
+      this.processingQueue = this.processingQueue.filter(update => !chunk.includes(update));
+    }
+  }
+
+  // Applies a batch produced elsewhere (repricing rules) through the same validation and
+  // chunked transactions as CSV files, holding the processing lock while it runs.
+  async applyUpdates(updates: PriceUpdate[], source: string, changeSource: PriceChangeSource): Promise<PriceImportReport> {
+    if (this.processingLock) {
+      throw new PriceImportError('Price processing already in progress');
+    }
+
+    const lease = await this.acquireLease();
+
+    this.processingLock = true;
+    this.isProcessing = true;
+    this.lastRun = { startedAt: new Date(), reports: [] };
+
+    try {
+      const report = await this.processUpdatesConcurrently(updates, source, changeSource);
+      this.lastRun.reports.push(report);
+      return report;
+    } catch (error) {
+      this.lastRun.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.lastRun.finishedAt = new Date();
+      this.processingLock = false;
+      this.isProcessing = false;
+      await distributedLockService.release(lease);
+    }
+  }
+
+  // Drops an uploaded CSV into the upload inbox and queues a processing pass for the worker.
+  // The worker needs the same inbox directory as the API.
+  async acceptUpload(originalName: string, content: Buffer): Promise<{ file: PriceFile; job: QueuedJob }> {
+    const source = this.sources.find((candidate): candidate is UploadPriceSource => candidate instanceof UploadPriceSource);
+    if (!source) {
+      throw new PriceImportError('Price file uploads are not enabled');
+    }
+
+    const file = await source.store(originalName, content);
+    logger.info('Price file uploaded', { objectKey: file.key, fingerprint: file.fingerprint });
+
+    const job = await jobQueueService.enqueue(QueueJobType.PRICE_IMPORT, { objectKey: file.key });
+
+    return { file, job };
   }
 
-  public getProcessingStatus(): { isProcessing: boolean; queueLength: number } {
+  public getProcessingStatus(): {
+    isProcessing: boolean;
+    queueLength: number;
+    sources: PriceImportSource[];
+    lastRun: PriceProcessingRun | null;
+  } {
     return {
       isProcessing: this.isProcessing,
       queueLength: this.processingQueue.length,
+      sources: this.sources.map(source => source.name),
+      lastRun: this.lastRun,
     };
   }
 
@@ -0,0 +1,194 @@
+import AWS from 'aws-sdk';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { createS3Client, hasS3Credentials } from './s3';
+import { logger } from './logger';
+import { PriceImportSource } from '@/types';
+
+export interface PriceFile {
+  key: string;
+  // S3 ETag or SHA-256 of the content; together with the key it identifies the file
+  fingerprint: string;
+  lastModified?: Date;
+  // Filesystem path for local files (the archived copy when reprocessing)
+  location?: string;
+}
+
+export interface PriceSource {
+  readonly name: PriceImportSource;
+  // Files waiting to be ingested, oldest first
+  list(): Promise<PriceFile[]>;
+  // Exact content of the file; fails if it changed since it was listed
+  open(file: PriceFile): Readable;
+  // Called once the file is registered; returns where it was archived, if anywhere
+  markProcessed(file: PriceFile): Promise<string | undefined>;
+}
+
+export class S3PriceSource implements PriceSource {
+  readonly name = PriceImportSource.S3;
+
+  constructor(
+    private readonly s3: AWS.S3,
+    private readonly bucket: string,
+    private readonly prefix: string
+  ) {}
+
+  async list(): Promise<PriceFile[]> {
+    const files: PriceFile[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await this.s3.listObjectsV2({
+        Bucket: this.bucket,
+        Prefix: this.prefix,
+        ...(continuationToken && { ContinuationToken: continuationToken }),
+      }).promise();
+
+      for (const object of result.Contents || []) {
+        if (object.Key?.endsWith('.csv') && object.ETag) {
+          files.push({
+            key: object.Key,
+            fingerprint: object.ETag.replace(/"/g, ''),
+            ...(object.LastModified && { lastModified: object.LastModified }),
+          });
+        }
+      }
+
+      continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files.sort((a, b) => (a.lastModified?.getTime() || 0) - (b.lastModified?.getTime() || 0));
+  }
+
+  open(file: PriceFile): Readable {
+    return this.s3.getObject({ Bucket: this.bucket, Key: file.key, IfMatch: file.fingerprint }).createReadStream();
+  }
+
+  // Objects stay in the bucket; the import registry is what prevents re-ingestion
+  async markProcessed(): Promise<string | undefined> {
+    return undefined;
+  }
+}
+
+// Picks up every *.csv dropped into a directory and moves it to an archive folder once ingested
+export class LocalDirectoryPriceSource implements PriceSource {
+  constructor(
+    readonly name: PriceImportSource,
+    private readonly directory: string,
+    private readonly archiveDirectory: string
+  ) {}
+
+  async list(): Promise<PriceFile[]> {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    const entries = await fs.promises.readdir(this.directory, { withFileTypes: true });
+    const files: PriceFile[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !entry.name.endsWith('.csv')) {
+        continue;
+      }
+
+      const location = path.join(this.directory, entry.name);
+      const [content, stats] = await Promise.all([fs.promises.readFile(location), fs.promises.stat(location)]);
+
+      files.push({
+        key: entry.name,
+        fingerprint: crypto.createHash('sha256').update(content).digest('hex'),
+        lastModified: stats.mtime,
+        location,
+      });
+    }
+
+    return files.sort((a, b) => (a.lastModified?.getTime() || 0) - (b.lastModified?.getTime() || 0));
+  }
+
+  open(file: PriceFile): Readable {
+    return fs.createReadStream(file.location ?? path.join(this.directory, file.key));
+  }
+
+  async markProcessed(file: PriceFile): Promise<string | undefined> {
+    const location = file.location ?? path.join(this.directory, file.key);
+    if (!fs.existsSync(location) || path.dirname(location) === this.archiveDirectory) {
+      return undefined;
+    }
+
+    await fs.promises.mkdir(this.archiveDirectory, { recursive: true });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const archivedPath = path.join(this.archiveDirectory, `${stamp}-${file.fingerprint.slice(0, 12)}-${file.key}`);
+    await fs.promises.rename(location, archivedPath);
+
+    logger.info('Archived price file', { source: this.name, archivedPath });
+    return archivedPath;
+  }
+}
+
+// Files posted to the admin upload endpoint land in an inbox directory and are ingested like local files
+export class UploadPriceSource extends LocalDirectoryPriceSource {
+  constructor(private readonly inbox: string, archiveDirectory: string) {
+    super(PriceImportSource.UPLOAD, inbox, archiveDirectory);
+  }
+
+  async store(originalName: string, content: Buffer): Promise<PriceFile> {
+    await fs.promises.mkdir(this.inbox, { recursive: true });
+
+    const safeName = path.basename(originalName).replace(/[^a-zA-Z0-9._-]/g, '_').replace(/\.csv$/i, '');
+    const key = `${Date.now()}-${safeName}.csv`;
+    const location = path.join(this.inbox, key);
+    await fs.promises.writeFile(location, content);
+
+    return {
+      key,
+      fingerprint: crypto.createHash('sha256').update(content).digest('hex'),
+      lastModified: new Date(),
+      location,
+    };
+  }
+}
+
+const DATA_PATH = path.join(__dirname, '../../data');
+
+// PRICE_SOURCES lists the enabled sources (s3, local, upload). S3 is skipped with a
+// warning when its credentials or bucket are missing so the app still boots without AWS.
+export const createPriceSources = (): PriceSource[] => {
+  const enabled = (process.env.PRICE_SOURCES || 's3,local,upload')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0);
+
+  const localDirectory = process.env.PRICE_LOCAL_PATH || DATA_PATH;
+  const archiveDirectory = process.env.PRICE_IMPORT_ARCHIVE_PATH || path.join(localDirectory, 'processed');
+  const sources: PriceSource[] = [];
+
+  for (const name of enabled) {
+    switch (name) {
+      case PriceImportSource.S3: {
+        const bucket = process.env.AWS_S3_BUCKET;
+        if (!bucket || !hasS3Credentials()) {
+          logger.warn('S3 price source disabled: AWS credentials or AWS_S3_BUCKET not configured');
+          break;
+        }
+        sources.push(new S3PriceSource(createS3Client(), bucket, process.env.PRICE_S3_PREFIX || 'price-updates/'));
+        break;
+      }
+      case PriceImportSource.LOCAL:
+        sources.push(new LocalDirectoryPriceSource(PriceImportSource.LOCAL, localDirectory, archiveDirectory));
+        break;
+      case PriceImportSource.UPLOAD:
+        sources.push(new UploadPriceSource(
+          process.env.PRICE_UPLOAD_PATH || path.join(localDirectory, 'uploads'),
+          archiveDirectory
+        ));
+        break;
+      default:
+        logger.warn(`Unknown price source "${name}" ignored`);
+    }
+  }
+
+  return sources;
+};
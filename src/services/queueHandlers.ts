@@ -0,0 +1,32 @@
+import { QueueJobType } from '@/types';
+import { QueueHandler } from './jobQueue';
+import { logger } from './logger';
+import { orderDocumentService } from './orderDocuments';
+import { priceProcessorService } from './priceProcessor';
+import { vehiclePhotoService } from './vehiclePhotos';
+
+// Work the API hands off to the worker (src/worker.ts) instead of running it in the request
+export const queueHandlers: Record<string, QueueHandler> = {
+  [QueueJobType.ORDER_DOCUMENTS]: async payload => {
+    const documents = await orderDocumentService.generate(String(payload.orderId));
+    if (!documents) {
+      logger.warn('Order no longer exists, skipping document generation', { orderId: payload.orderId });
+    }
+  },
+
+  // Runs a full pass over the sources, which includes the uploaded file that queued it.
+  // When another instance is already processing, that run or the next scheduled one picks it up.
+  [QueueJobType.PRICE_IMPORT]: async () => {
+    const processed = await priceProcessorService.startProcessing();
+    if (processed?.error) {
+      throw new Error(processed.error);
+    }
+  },
+
+  [QueueJobType.VEHICLE_THUMBNAILS]: async payload => {
+    const generated = await vehiclePhotoService.generateThumbnails(String(payload.vehicleId), String(payload.photoId));
+    if (!generated) {
+      logger.warn('Photo no longer exists, skipping thumbnails', { vehicleId: payload.vehicleId, photoId: payload.photoId });
+    }
+  },
+};
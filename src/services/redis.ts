@@ -1,6 +1,21 @@
 import { createClient, RedisClientType } from 'redis';
 import { RedisConfig } from '@/types';
 
+// Renewal and release only touch the key while it still holds the caller's token
+const RENEW_LOCK_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  end
+  return 0
+`;
+
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0
+`;
+
 export class RedisService {
   private client: RedisClientType;
   private isConnected = false;
@@ -114,6 +129,33 @@ export class RedisService {
     }
   }
 
+  // Lease-based lock: the key holds the owner's token and expires after ttlMs unless renewed.
+  // Returns false when someone else holds it; Redis errors are thrown so callers can fall back.
+  async acquireLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    await this.connect();
+    const result = await this.client.set(key, token, { NX: true, PX: ttlMs });
+    return result === 'OK';
+  }
+
+  async renewLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    await this.connect();
+    const result = await this.client.eval(RENEW_LOCK_SCRIPT, { keys: [key], arguments: [token, String(ttlMs)] });
+    return result === 1;
+  }
+
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    await this.connect();
+    const result = await this.client.eval(RELEASE_LOCK_SCRIPT, { keys: [key], arguments: [token] });
+    return result === 1;
+  }
+
+  // Current token and remaining lease time in milliseconds, or null when the lock is free
+  async getLock(key: string): Promise<{ token: string; ttlMs: number } | null> {
+    await this.connect();
+    const [token, ttlMs] = await Promise.all([this.client.get(key), this.client.pTTL(key)]);
+    return token ? { token, ttlMs } : null;
+  }
+
   // Cache utility methods
   async setCache(key: string, data: any, ttl: number = 300): Promise<void> {
     const serialized = JSON.stringify(data);
@@ -0,0 +1,186 @@
+import { catalogKey } from '@/repositories/brandRepository';
+import { repricingRuleRepository } from '@/repositories/repricingRuleRepository';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import {
+  PriceChangeSource,
+  PriceImportReport,
+  PriceUpdate,
+  RepricingCandidate,
+  RepricingRule,
+  RepricingSimulation,
+  RepricingStep,
+  RepricingVehicleSimulation,
+} from '@/types';
+import { logger } from './logger';
+import { priceProcessorService } from './priceProcessor';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RepricingResult {
+  price: number;
+  // Names of the rules that changed the price
+  rules: string[];
+}
+
+const daysBetween = (from: Date, to: Date): number => Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+export const ruleMatches = (rule: RepricingRule, vehicle: RepricingCandidate): boolean =>
+  (rule.brand === undefined || catalogKey(rule.brand) === catalogKey(vehicle.brand)) &&
+  (rule.minYear === undefined || vehicle.year >= rule.minYear) &&
+  (rule.maxYear === undefined || vehicle.year <= rule.maxYear) &&
+  (rule.minMileage === undefined || vehicle.mileage >= rule.minMileage) &&
+  (rule.maxMileage === undefined || vehicle.mileage <= rule.maxMileage);
+
+// An adjustment is due once the vehicle has been in stock for startAfterDays. Repeating rules
+// wait intervalDays after the vehicle's last rule-driven change; one-off rules only fire if no
+// rule has changed the price since the start day.
+const adjustmentDue = (rule: RepricingRule, vehicle: RepricingCandidate, asOf: Date): boolean => {
+  if (daysBetween(vehicle.createdAt, asOf) < rule.startAfterDays) {
+    return false;
+  }
+
+  if (!vehicle.lastRuleChangeAt) {
+    return true;
+  }
+
+  if (rule.intervalDays) {
+    return daysBetween(vehicle.lastRuleChangeAt, asOf) >= rule.intervalDays;
+  }
+
+  const startsAt = new Date(vehicle.createdAt.getTime() + rule.startAfterDays * DAY_MS);
+  return vehicle.lastRuleChangeAt < startsAt;
+};
+
+// Price the rules would set on the given day. Matching rules are applied in priority order;
+// the highest floor among them is enforced last, and never raises a price already below it.
+// Rounding only applies once an adjustment has fired that day: rounding an untouched price
+// would count as a rule change and push back every repeating rule's interval.
+export const evaluateRules = (rules: RepricingRule[], vehicle: RepricingCandidate, asOf: Date): RepricingResult => {
+  const matching = rules.filter(rule => rule.isActive && ruleMatches(rule, vehicle));
+  const applied: string[] = [];
+  let price = vehicle.price;
+  let adjusted = false;
+
+  for (const rule of matching) {
+    let next = price;
+
+    if (rule.adjustmentPercent !== undefined && adjustmentDue(rule, vehicle, asOf)) {
+      next = next * (1 + rule.adjustmentPercent / 100);
+      adjusted = true;
+    }
+
+    if (rule.roundTo && adjusted) {
+      next = Math.round(next / rule.roundTo) * rule.roundTo;
+    }
+
+    next = roundCents(next);
+    if (next !== price) {
+      price = next;
+      applied.push(rule.name);
+    }
+  }
+
+  const floors = matching.filter(rule => rule.floorPrice !== undefined).map(rule => rule.floorPrice!);
+  if (floors.length > 0) {
+    const floor = Math.min(Math.max(...floors), vehicle.price);
+    if (price < floor) {
+      price = floor;
+    }
+  }
+
+  return { price, rules: price === vehicle.price ? [] : applied };
+};
+
+export class RepricingService {
+  // Evaluates the active rules for every vehicle for sale and applies the resulting batch
+  // through the price processor, exactly like an imported CSV. Returns null without rules.
+  async run(asOf: Date = new Date()): Promise<PriceImportReport | null> {
+    const rules = await repricingRuleRepository.findAll(true);
+    if (rules.length === 0) {
+      logger.info('No active repricing rules');
+      return null;
+    }
+
+    const candidates = await vehicleRepository.findRepricingCandidates();
+    const updates: PriceUpdate[] = [];
+
+    for (const vehicle of candidates) {
+      const result = evaluateRules(rules, vehicle, asOf);
+      if (result.price !== vehicle.price) {
+        updates.push({
+          vehicleId: vehicle.id,
+          newPrice: result.price,
+          timestamp: asOf,
+          row: updates.length + 1,
+          reason: `Repricing rules: ${result.rules.join(', ') || 'floor price'}`,
+        });
+      }
+    }
+
+    logger.info('Repricing rules evaluated', { rules: rules.length, vehicles: candidates.length, changes: updates.length });
+
+    return priceProcessorService.applyUpdates(updates, `rules:${toDateString(asOf)}`, PriceChangeSource.RULE);
+  }
+
+  // Replays the nightly run day by day without writing anything
+  async simulate(days: number, vehicleId?: string, from: Date = new Date()): Promise<RepricingSimulation> {
+    const rules = await repricingRuleRepository.findAll(true);
+    const candidates = await vehicleRepository.findRepricingCandidates(vehicleId);
+
+    const vehicles = candidates
+      .map(candidate => this.simulateVehicle(rules, candidate, days, from))
+      .filter(simulation => simulation.steps.length > 0);
+
+    return {
+      days,
+      from: toDateString(from),
+      to: toDateString(new Date(from.getTime() + days * DAY_MS)),
+      vehiclesAffected: vehicles.length,
+      totalReduction: roundCents(vehicles.reduce((total, vehicle) => total + vehicle.currentPrice - vehicle.projectedPrice, 0)),
+      vehicles,
+    };
+  }
+
+  private simulateVehicle(
+    rules: RepricingRule[],
+    candidate: RepricingCandidate,
+    days: number,
+    from: Date
+  ): RepricingVehicleSimulation {
+    const state: RepricingCandidate = { ...candidate };
+    const steps: RepricingStep[] = [];
+
+    for (let day = 1; day <= days; day++) {
+      const asOf = new Date(from.getTime() + day * DAY_MS);
+      const result = evaluateRules(rules, state, asOf);
+
+      if (result.price !== state.price) {
+        steps.push({
+          date: toDateString(asOf),
+          daysInStock: daysBetween(state.createdAt, asOf),
+          oldPrice: state.price,
+          newPrice: result.price,
+          rules: result.rules,
+        });
+        state.price = result.price;
+        state.lastRuleChangeAt = asOf;
+      }
+    }
+
+    return {
+      vehicleId: candidate.id,
+      brand: candidate.brand,
+      model: candidate.model,
+      year: candidate.year,
+      currentPrice: candidate.price,
+      projectedPrice: state.price,
+      steps,
+    };
+  }
+}
+
+export const repricingService = new RepricingService();
@@ -0,0 +1,115 @@
+import { withTransaction } from '@/database/unitOfWork';
+import { reservationRepository } from '@/repositories/reservationRepository';
+import { vehicleRepository, VehicleUnavailableError } from '@/repositories/vehicleRepository';
+import { logger } from './logger';
+import { Reservation, ReservationStatus, VehicleStatus } from '@/types';
+
+export interface HoldOptions {
+  durationHours?: number;
+  depositAmount?: number;
+  depositReference?: string;
+  notes?: string;
+}
+
+export class ReservationService {
+  private readonly DEFAULT_HOLD_HOURS = parseInt(process.env.RESERVATION_DEFAULT_HOURS || '48');
+  private readonly MAX_HOLD_HOURS = parseInt(process.env.RESERVATION_MAX_HOURS || '168');
+
+  getMaxHoldHours(): number {
+    return this.MAX_HOLD_HOURS;
+  }
+
+  async hold(vehicleId: string, userId: string, options: HoldOptions = {}): Promise<Reservation | null> {
+    const hours = Math.min(options.durationHours || this.DEFAULT_HOLD_HOURS, this.MAX_HOLD_HOURS);
+
+    return withTransaction(async (client) => {
+      // Lock the vehicle row so concurrent holds on it are serialized
+      const vehicle = await vehicleRepository.findByIdForUpdate(vehicleId, client);
+      if (!vehicle) {
+        return null;
+      }
+
+      if (vehicle.status !== VehicleStatus.AVAILABLE) {
+        throw new VehicleUnavailableError(vehicleId, vehicle.status);
+      }
+
+      const reservation = await reservationRepository.create({
+        vehicleId,
+        userId,
+        expiresAt: this.hoursFromNow(hours),
+        ...(options.depositAmount !== undefined && { depositAmount: options.depositAmount }),
+        ...(options.depositReference !== undefined && { depositReference: options.depositReference }),
+        ...(options.notes !== undefined && { notes: options.notes }),
+      }, client);
+
+      await vehicleRepository.updateStatus(vehicleId, VehicleStatus.RESERVED, client);
+
+      return reservation;
+    });
+  }
+
+  async extend(id: string, additionalHours: number): Promise<Reservation | null> {
+    const reservation = await reservationRepository.findById(id);
+    if (!reservation || reservation.status !== ReservationStatus.ACTIVE) {
+      return null;
+    }
+
+    const base = Math.max(new Date(reservation.expiresAt).getTime(), Date.now());
+    const expiresAt = new Date(base + additionalHours * 60 * 60 * 1000);
+
+    return reservationRepository.extend(id, expiresAt);
+  }
+
+  async release(id: string, releasedBy: string, reason?: string): Promise<Reservation | null> {
+    return withTransaction(async (client) => {
+      const reservation = await reservationRepository.release(id, {
+        status: ReservationStatus.RELEASED,
+        releasedBy,
+        ...(reason !== undefined && { reason }),
+      }, client);
+
+      if (reservation) {
+        await vehicleRepository.updateStatusIfCurrent(
+          [reservation.vehicleId],
+          VehicleStatus.RESERVED,
+          VehicleStatus.AVAILABLE,
+          client
+        );
+      }
+
+      return reservation;
+    });
+  }
+
+  // Invoked by the scheduler to return lapsed holds to inventory
+  async expireDueHolds(): Promise<number> {
+    const expired = await withTransaction(async (client) => {
+      const lapsed = await reservationRepository.expireDue(client);
+
+      if (lapsed.length > 0) {
+        await vehicleRepository.updateStatusIfCurrent(
+          lapsed.map(reservation => reservation.vehicleId),
+          VehicleStatus.RESERVED,
+          VehicleStatus.AVAILABLE,
+          client
+        );
+      }
+
+      return lapsed;
+    });
+
+    for (const reservation of expired) {
+      logger.logBusinessEvent('reservation_expired', 'reservation', reservation.id, {
+        vehicleId: reservation.vehicleId,
+      });
+    }
+
+    return expired.length;
+  }
+
+  private hoursFromNow(hours: number): Date {
+    return new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+}
+
+export const reservationService = new ReservationService();
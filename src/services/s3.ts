@@ -0,0 +1,27 @@
+import AWS from 'aws-sdk';
+
+export const hasS3Credentials = (): boolean =>
+  Boolean(process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY);
+
+// Shared S3 client setup for every feature that talks to AWS. S3_ENDPOINT points it at an
+// S3-compatible stand-in (MinIO and the like), which needs path-style bucket addressing.
+export const createS3Client = (): AWS.S3 => {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  const region = process.env.AWS_REGION || 'us-east-1';
+  const endpoint = process.env.S3_ENDPOINT;
+
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error('AWS credentials (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY) are not configured.');
+  }
+
+  return new AWS.S3({
+    accessKeyId,
+    secretAccessKey,
+    region,
+    ...(endpoint && {
+      endpoint,
+      s3ForcePathStyle: true,
+    }),
+  });
+};
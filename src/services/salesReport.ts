@@ -0,0 +1,94 @@
+import { salesReportRepository, REVENUE_STATUSES, StatusAggregateRow } from '@/repositories/salesReportRepository';
+import { OrderStatus, OrderStatusSummary, ReportInterval, SalesReport, SalesReportFilters } from '@/types';
+
+export interface SalesTotals {
+  totalOrders: number;
+  totalRevenue: number;
+  averageOrderValue: number;
+  ordersByStatus: Record<OrderStatus, OrderStatusSummary>;
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const average = (total: number, count: number): number => (count > 0 ? roundCents(total / count) : 0);
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export class SalesReportService {
+  // Revenue and average order value only take realized sales (paid or delivered) into account
+  summarize(rows: StatusAggregateRow[]): SalesTotals {
+    const ordersByStatus = Object.values(OrderStatus).reduce((acc, status) => {
+      const row = rows.find(r => r.status === status);
+      const count = row?.count ?? 0;
+      const revenue = roundCents(row?.revenue ?? 0);
+      acc[status] = { count, revenue, averageOrderValue: average(revenue, count) };
+      return acc;
+    }, {} as Record<OrderStatus, OrderStatusSummary>);
+
+    const sales = REVENUE_STATUSES.map(status => ordersByStatus[status]);
+    const salesCount = sales.reduce((sum, summary) => sum + summary.count, 0);
+    const totalRevenue = roundCents(sales.reduce((sum, summary) => sum + summary.revenue, 0));
+
+    return {
+      totalOrders: rows.reduce((sum, row) => sum + row.count, 0),
+      totalRevenue,
+      averageOrderValue: average(totalRevenue, salesCount),
+      ordersByStatus,
+    };
+  }
+
+  async getTotals(filters: SalesReportFilters = {}): Promise<SalesTotals> {
+    const rows = await salesReportRepository.getStatusAggregates(filters);
+    return this.summarize(rows);
+  }
+
+  async getReport(filters: SalesReportFilters = {}, interval: ReportInterval = 'month'): Promise<SalesReport> {
+    const [totals, seriesRows] = await Promise.all([
+      this.getTotals(filters),
+      salesReportRepository.getSeries(interval, filters),
+    ]);
+
+    return {
+      ...totals,
+      interval,
+      series: seriesRows.map(row => ({
+        ...row,
+        revenue: roundCents(row.revenue),
+        averageOrderValue: average(row.revenue, row.salesCount),
+      })),
+    };
+  }
+
+  // One row per total, status and period so the export mirrors the JSON report
+  toCsv(report: SalesReport): string {
+    const header = ['section', 'label', 'order_count', 'sales_count', 'revenue', 'average_order_value'];
+    const salesCount = REVENUE_STATUSES.reduce((sum, status) => sum + report.ordersByStatus[status].count, 0);
+
+    const rows: (string | number)[][] = [
+      ['total', 'all', report.totalOrders, salesCount, report.totalRevenue, report.averageOrderValue],
+      ...Object.entries(report.ordersByStatus).map(([status, summary]) => [
+        'status',
+        status,
+        summary.count,
+        REVENUE_STATUSES.includes(status as OrderStatus) ? summary.count : 0,
+        summary.revenue,
+        summary.averageOrderValue,
+      ]),
+      ...report.series.map(point => [
+        report.interval,
+        new Date(point.period).toISOString().slice(0, 10),
+        point.orderCount,
+        point.salesCount,
+        point.revenue,
+        point.averageOrderValue,
+      ]),
+    ];
+
+    return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+  }
+}
+
+export const salesReportService = new SalesReportService();
@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { jobQueueRepository } from '@/repositories/jobQueueRepository';
+import { JobDefinition, JobRegistry } from './jobRegistry';
+import { priceProcessorService } from './priceProcessor';
+import { reservationService } from './reservation';
+import { repricingService } from './repricing';
+import { salesReportService } from './salesReport';
+
+export const PRICE_IMPORT_JOB = 'price-import';
+export const RESERVATION_EXPIRY_JOB = 'reservation-expiry';
+export const REPRICING_JOB = 'repricing';
+export const SALES_REPORT_JOB = 'sales-report';
+export const QUEUE_CLEANUP_JOB = 'queue-cleanup';
+
+const MINUTE_MS = 60 * 1000;
+
+// Local calendar date, matching the local midnight the report period starts at
+const toLocalDateString = (date: Date): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+
+const priceImportJob: JobDefinition = {
+  name: PRICE_IMPORT_JOB,
+  description: 'Ingests pending price files from every configured source',
+  schedule: '* * * * *',
+  timeoutMs: 30 * MINUTE_MS,
+  // The next tick picks up whatever a failed run left pending
+  retry: { attempts: 1, backoffMs: 0 },
+  async run({ log }) {
+    // Reprocessing or an approved import holds the processor
+    if (priceProcessorService.isCurrentlyProcessing()) {
+      log('Price processor busy, skipping');
+      return { skipped: true };
+    }
+
+    const processed = await priceProcessorService.startProcessing();
+    if (!processed) {
+      log('Price processing running elsewhere, skipping');
+      return { skipped: true };
+    }
+
+    const { reports, error } = processed;
+    reports.forEach(report => log(`${report.source}: ${report.applied} applied, ${report.rejected} rejected`));
+
+    if (error) {
+      throw new Error(error);
+    }
+
+    return { files: reports.length, applied: reports.reduce((total, report) => total + report.applied, 0) };
+  },
+};
+
+const reservationExpiryJob: JobDefinition = {
+  name: RESERVATION_EXPIRY_JOB,
+  description: 'Expires reservations whose hold has lapsed and frees their vehicles',
+  schedule: '* * * * *',
+  timeoutMs: MINUTE_MS,
+  retry: { attempts: 2, backoffMs: 5000 },
+  async run({ log }) {
+    const expired = await reservationService.expireDueHolds();
+    if (expired > 0) {
+      log(`Expired ${expired} reservations`);
+    }
+    return { expired };
+  },
+};
+
+// Nightly by default; a skipped or failed night is caught up on the next run, since due
+// adjustments are derived from each vehicle's last rule change
+const repricingJob: JobDefinition = {
+  name: REPRICING_JOB,
+  description: 'Applies the active repricing rules to vehicles in stock',
+  schedule: process.env.REPRICING_CRON || '0 2 * * *',
+  timeoutMs: 60 * MINUTE_MS,
+  retry: { attempts: 3, backoffMs: 5 * MINUTE_MS },
+  async run({ log }) {
+    const report = await repricingService.run();
+    if (!report) {
+      log('No active repricing rules');
+      return { applied: 0 };
+    }
+
+    log(`${report.applied} prices changed, ${report.rejected} rejected`);
+    return { applied: report.applied, rejected: report.rejected };
+  },
+};
+
+// Writes the previous day's sales report as CSV, one file per day
+const salesReportJob: JobDefinition = {
+  name: SALES_REPORT_JOB,
+  description: "Exports the previous day's sales report as CSV",
+  schedule: process.env.SALES_REPORT_CRON || '0 6 * * *',
+  timeoutMs: 10 * MINUTE_MS,
+  retry: { attempts: 3, backoffMs: MINUTE_MS },
+  async run({ log }) {
+    const dateTo = new Date();
+    dateTo.setHours(0, 0, 0, 0);
+    const dateFrom = new Date(dateTo);
+    dateFrom.setDate(dateFrom.getDate() - 1);
+
+    // dateTo is inclusive, so stop just before midnight
+    const report = await salesReportService.getReport({ dateFrom, dateTo: new Date(dateTo.getTime() - 1) }, 'day');
+
+    const directory = process.env.REPORTS_PATH || './storage/reports';
+    const filePath = path.join(directory, `sales-${toLocalDateString(dateFrom)}.csv`);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(filePath, salesReportService.toCsv(report));
+
+    log(`Sales report written to ${filePath}`);
+    return { file: filePath, totalOrders: report.totalOrders, totalRevenue: report.totalRevenue };
+  },
+};
+
+// Completed queue jobs are only kept for inspection; dead letters stay until requeued
+const queueCleanupJob: JobDefinition = {
+  name: QUEUE_CLEANUP_JOB,
+  description: 'Deletes completed queue jobs older than the retention period',
+  schedule: '30 3 * * *',
+  timeoutMs: 10 * MINUTE_MS,
+  retry: { attempts: 2, backoffMs: MINUTE_MS },
+  async run({ log }) {
+    const retentionDays = parseInt(process.env.QUEUE_RETENTION_DAYS || '7');
+    const before = new Date();
+    before.setDate(before.getDate() - retentionDays);
+
+    const deleted = await jobQueueRepository.deleteCompletedBefore(before);
+    log(`Deleted ${deleted} completed jobs older than ${retentionDays} days`);
+    return { deleted };
+  },
+};
+
+export const jobRegistry = new JobRegistry([
+  priceImportJob,
+  reservationExpiryJob,
+  repricingJob,
+  salesReportJob,
+  queueCleanupJob,
+]);
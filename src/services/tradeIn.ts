@@ -0,0 +1,205 @@
+import { PoolClient } from 'pg';
+import { withTransaction } from '@/database/unitOfWork';
+import { tradeInRepository, CreateTradeInData } from '@/repositories/tradeInRepository';
+import { orderRepository } from '@/repositories/orderRepository';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { paymentService } from './payment';
+import { orderDocumentService } from './orderDocuments';
+import { vehicleCatalogService } from './vehicleCatalog';
+import { Order, OrderBalance, OrderStatus, TradeIn, TradeInStatus, Vehicle, VehicleStatus } from '@/types';
+
+export class TradeInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TradeInError';
+  }
+}
+
+export interface AcceptTradeInOptions {
+  actorId?: string;
+  convertToVehicle?: boolean;
+  listPrice?: number;
+}
+
+export interface TradeInDecisionResult {
+  tradeIn: TradeIn;
+  order: Order;
+  balance: OrderBalance;
+  vehicle?: Vehicle;
+}
+
+export interface TradeInConversionResult {
+  tradeIn: TradeIn;
+  vehicle: Vehicle;
+}
+
+export class TradeInService {
+  // Returns null when the order the appraisal should be attached to does not exist
+  async appraise(data: CreateTradeInData): Promise<TradeIn | null> {
+    if (!data.orderId) {
+      return tradeInRepository.create(data);
+    }
+
+    const order = await orderRepository.findById(data.orderId);
+    if (!order) {
+      return null;
+    }
+
+    this.assertOrderAcceptsTradeIns(order);
+
+    return tradeInRepository.create({ ...data, customerId: order.userId });
+  }
+
+  async attach(id: string, orderId: string): Promise<TradeIn | null> {
+    return withTransaction(async (client) => {
+      const tradeIn = await tradeInRepository.findByIdForUpdate(id, client);
+      const order = await orderRepository.findByIdForUpdate(orderId, client);
+      if (!tradeIn || !order) {
+        return null;
+      }
+
+      if (tradeIn.status !== TradeInStatus.APPRAISED) {
+        throw new TradeInError(`Trade-in has already been ${tradeIn.status}`);
+      }
+
+      this.assertOrderAcceptsTradeIns(order);
+
+      return tradeInRepository.attachToOrder(id, orderId, order.userId, client);
+    });
+  }
+
+  // Credits the appraised value against the order and, when requested, moves the car into inventory
+  async accept(id: string, options: AcceptTradeInOptions = {}): Promise<TradeInDecisionResult | null> {
+    const result = await withTransaction(async (client): Promise<TradeInDecisionResult | null> => {
+      const tradeIn = await tradeInRepository.findByIdForUpdate(id, client);
+      if (!tradeIn) {
+        return null;
+      }
+
+      if (tradeIn.status !== TradeInStatus.APPRAISED) {
+        throw new TradeInError(`Trade-in has already been ${tradeIn.status}`);
+      }
+
+      if (!tradeIn.orderId) {
+        throw new TradeInError('Trade-in must be attached to an order before it can be accepted');
+      }
+
+      const order = await orderRepository.findByIdForUpdate(tradeIn.orderId, client);
+      if (!order) {
+        return null;
+      }
+
+      this.assertOrderAcceptsTradeIns(order);
+
+      const before = await paymentService.computeBalance(order, client);
+      if (tradeIn.appraisedValue > before.outstandingBalance) {
+        throw new TradeInError('Trade-in value exceeds the outstanding balance of the order');
+      }
+
+      let accepted = await tradeInRepository.decide(id, {
+        status: TradeInStatus.ACCEPTED,
+        ...(options.actorId !== undefined && { decidedBy: options.actorId }),
+      }, client);
+      if (!accepted) {
+        return null;
+      }
+
+      let vehicle: Vehicle | undefined;
+      if (options.convertToVehicle) {
+        const conversion = await this.createInventoryVehicle(accepted, options.listPrice, client);
+        accepted = conversion.tradeIn;
+        vehicle = conversion.vehicle;
+      }
+
+      const balance = await paymentService.computeBalance(order, client);
+      const current = await paymentService.settleIfPaid(order, balance, options.actorId, client);
+
+      return {
+        tradeIn: accepted,
+        order: current,
+        balance,
+        ...(vehicle !== undefined && { vehicle }),
+      };
+    });
+
+    if (result && result.order.status === OrderStatus.PAID && result.balance.outstandingBalance <= 0) {
+      orderDocumentService.scheduleGeneration(result.order.id);
+    }
+
+    return result;
+  }
+
+  async reject(id: string, actorId?: string, reason?: string): Promise<TradeIn | null> {
+    const existing = await tradeInRepository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.status !== TradeInStatus.APPRAISED) {
+      throw new TradeInError(`Trade-in has already been ${existing.status}`);
+    }
+
+    return tradeInRepository.decide(id, {
+      status: TradeInStatus.REJECTED,
+      ...(actorId !== undefined && { decidedBy: actorId }),
+      ...(reason !== undefined && { reason }),
+    });
+  }
+
+  // Converts an already accepted trade-in that was not moved into inventory at acceptance time
+  async convertToVehicle(id: string, listPrice?: number): Promise<TradeInConversionResult | null> {
+    return withTransaction(async (client) => {
+      const tradeIn = await tradeInRepository.findByIdForUpdate(id, client);
+      if (!tradeIn) {
+        return null;
+      }
+
+      if (tradeIn.status !== TradeInStatus.ACCEPTED) {
+        throw new TradeInError('Only accepted trade-ins can be converted into a vehicle');
+      }
+
+      return this.createInventoryVehicle(tradeIn, listPrice, client);
+    });
+  }
+
+  private assertOrderAcceptsTradeIns(order: Order): void {
+    if (order.status !== OrderStatus.PENDING) {
+      throw new TradeInError(`Trade-ins can only be applied to pending orders (current status: ${order.status})`);
+    }
+  }
+
+  // The vehicle enters inventory in maintenance until it has been inspected and listed
+  private async createInventoryVehicle(
+    tradeIn: TradeIn,
+    listPrice: number | undefined,
+    client: PoolClient
+  ): Promise<TradeInConversionResult> {
+    if (tradeIn.vehicleId) {
+      throw new TradeInError('Trade-in has already been converted into a vehicle');
+    }
+
+    // Appraisals are free text; use catalog names when they match but never block the conversion
+    const { brand, model } = await vehicleCatalogService.normalize(tradeIn.brand, tradeIn.model, { strict: false });
+
+    const vehicle = await vehicleRepository.create({
+      brand,
+      model,
+      year: tradeIn.year,
+      mileage: tradeIn.mileage,
+      price: listPrice ?? tradeIn.appraisedValue,
+      description: `Trade-in (${tradeIn.conditionGrade} condition)`,
+      technicalSpecs: {},
+      status: VehicleStatus.MAINTENANCE,
+    }, client);
+
+    if (!vehicle) {
+      throw new TradeInError('Failed to create vehicle from trade-in');
+    }
+
+    const linked = await tradeInRepository.linkVehicle(tradeIn.id, vehicle.id, client);
+
+    return { tradeIn: linked || tradeIn, vehicle };
+  }
+}
+
+export const tradeInService = new TradeInService();
@@ -0,0 +1,153 @@
+import { withTransaction } from '@/database/unitOfWork';
+import { brandRepository, CreateBrandData, UpdateBrandData } from '@/repositories/brandRepository';
+import { brandModelRepository, UpdateBrandModelData } from '@/repositories/brandModelRepository';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { Brand, BrandModel, BrandModelUsage, BrandUsage } from '@/types';
+import { logger } from './logger';
+
+export class CatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogError';
+  }
+}
+
+export interface NormalizedBrandModel {
+  brand: string;
+  model: string;
+}
+
+export interface NormalizeOptions {
+  // Lenient mode keeps unknown names as given instead of rejecting them
+  strict?: boolean;
+}
+
+export class VehicleCatalogService {
+  // Maps any accepted spelling or alias to the catalog names ("mercedes" -> "Mercedes-Benz")
+  async normalize(brand: string, model: string, options: NormalizeOptions = {}): Promise<NormalizedBrandModel> {
+    const strict = options.strict ?? true;
+
+    const catalogBrand = await brandRepository.findByName(brand);
+    if (!catalogBrand) {
+      if (strict) {
+        throw new CatalogError(`Unknown brand "${brand}". Add it to the catalog first`);
+      }
+      return { brand: brand.trim(), model: model.trim() };
+    }
+
+    const catalogModel = await brandModelRepository.findByName(catalogBrand.id, model);
+    if (!catalogModel) {
+      if (strict) {
+        throw new CatalogError(`Unknown model "${model}" for ${catalogBrand.name}. Add it to the catalog first`);
+      }
+      return { brand: catalogBrand.name, model: model.trim() };
+    }
+
+    return { brand: catalogBrand.name, model: catalogModel.name };
+  }
+
+  async listBrands(): Promise<BrandUsage[]> {
+    return brandRepository.findAllWithUsage();
+  }
+
+  // Returns null when the brand is not in the catalog
+  async listModels(brandId: string): Promise<BrandModelUsage[] | null> {
+    const brand = await brandRepository.findById(brandId);
+    if (!brand) {
+      return null;
+    }
+
+    return brandModelRepository.findByBrandWithUsage(brand.id);
+  }
+
+  async listModelsByBrandName(name: string): Promise<BrandModelUsage[] | null> {
+    const brand = await brandRepository.findByName(name);
+    if (!brand) {
+      return null;
+    }
+
+    return brandModelRepository.findByBrandWithUsage(brand.id);
+  }
+
+  async createBrand(data: CreateBrandData): Promise<Brand> {
+    return brandRepository.create(data);
+  }
+
+  // Renaming a brand rewrites the vehicles listed under the old name in the same transaction
+  async updateBrand(id: string, data: UpdateBrandData): Promise<Brand | null> {
+    return withTransaction(async (client) => {
+      const current = await brandRepository.findById(id, client);
+      if (!current) {
+        return null;
+      }
+
+      const brand = await brandRepository.update(id, data, client);
+      if (brand && brand.name !== current.name) {
+        const renamed = await vehicleRepository.renameBrand(current.name, brand.name, client);
+        logger.logBusinessEvent('brand_renamed', 'brand', id, { from: current.name, to: brand.name, vehicles: renamed });
+      }
+
+      return brand;
+    });
+  }
+
+  async deleteBrand(id: string): Promise<boolean> {
+    const brand = await brandRepository.findById(id);
+    if (!brand) {
+      return false;
+    }
+
+    const inUse = await vehicleRepository.countByBrandModel(brand.name);
+    if (inUse > 0) {
+      throw new CatalogError(`Brand ${brand.name} is used by ${inUse} vehicle(s)`);
+    }
+
+    return brandRepository.delete(id);
+  }
+
+  // Returns null when the brand does not exist
+  async createModel(brandId: string, data: { name: string; aliases?: string[] }): Promise<BrandModel | null> {
+    const brand = await brandRepository.findById(brandId);
+    if (!brand) {
+      return null;
+    }
+
+    return brandModelRepository.create({ brandId, ...data });
+  }
+
+  async updateModel(id: string, data: UpdateBrandModelData): Promise<BrandModel | null> {
+    return withTransaction(async (client) => {
+      const current = await brandModelRepository.findById(id, client);
+      if (!current) {
+        return null;
+      }
+
+      const model = await brandModelRepository.update(id, data, client);
+      if (model && model.name !== current.name) {
+        const brand = await brandRepository.findById(current.brandId, client);
+        if (brand) {
+          await vehicleRepository.renameModel(brand.name, current.name, model.name, client);
+        }
+      }
+
+      return model;
+    });
+  }
+
+  async deleteModel(id: string): Promise<boolean> {
+    const model = await brandModelRepository.findById(id);
+    if (!model) {
+      return false;
+    }
+
+    const brand = await brandRepository.findById(model.brandId);
+    const inUse = brand ? await vehicleRepository.countByBrandModel(brand.name, model.name) : 0;
+    if (inUse > 0) {
+      throw new CatalogError(`Model ${model.name} is used by ${inUse} vehicle(s)`);
+    }
+
+    return brandModelRepository.delete(id);
+  }
+}
+
+export const vehicleCatalogService = new VehicleCatalogService();
@@ -0,0 +1,246 @@
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { withTransaction } from '@/database/unitOfWork';
+import { vehiclePhotoRepository, StoredVehiclePhoto } from '@/repositories/vehiclePhotoRepository';
+import { vehicleRepository } from '@/repositories/vehicleRepository';
+import { getPhotoStorage } from './photoStorage';
+import { jobQueueService } from './jobQueue';
+import { logger } from './logger';
+import { QueueJobType, ThumbnailSize, VehiclePhoto } from '@/types';
+
+export class PhotoUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhotoUploadError';
+  }
+}
+
+export interface UploadedPhoto {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface UpdatePhotoData {
+  caption?: string | null;
+  isMain?: boolean;
+}
+
+// Width in pixels of every generated thumbnail
+export const THUMBNAIL_SIZES: Record<ThumbnailSize, number> = {
+  small: 160,
+  medium: 480,
+  large: 1024,
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const thumbnailKey = (vehicleId: string, photoId: string, size: ThumbnailSize): string =>
+  `vehicles/${vehicleId}/${photoId}-${size}.jpg`;
+
+// The storage key is internal; clients only get URLs
+const toPublic = (photo: StoredVehiclePhoto): VehiclePhoto => ({
+  id: photo.id,
+  vehicleId: photo.vehicleId,
+  url: photo.url,
+  thumbnails: photo.thumbnails,
+  position: photo.position,
+  isMain: photo.isMain,
+  contentType: photo.contentType,
+  sizeBytes: photo.sizeBytes,
+  ...(photo.caption !== undefined && { caption: photo.caption }),
+  ...(photo.width !== undefined && { width: photo.width }),
+  ...(photo.height !== undefined && { height: photo.height }),
+  createdAt: photo.createdAt,
+  updatedAt: photo.updatedAt,
+});
+
+export class VehiclePhotoService {
+  async list(vehicleId: string): Promise<VehiclePhoto[]> {
+    const photos = await vehiclePhotoRepository.findByVehicleId(vehicleId);
+    return photos.map(toPublic);
+  }
+
+  // Returns null when the vehicle does not exist. Photos are returned without thumbnails:
+  // the queue worker renders them and fills them in (generateThumbnails).
+  async upload(vehicleId: string, files: UploadedPhoto[], captions: string[] = []): Promise<VehiclePhoto[] | null> {
+    const vehicle = await vehicleRepository.findById(vehicleId);
+    if (!vehicle) {
+      return null;
+    }
+
+    const storage = getPhotoStorage();
+    const stored: { id: string; file: UploadedPhoto; key: string; url: string; width?: number; height?: number }[] = [];
+
+    try {
+      for (const file of files) {
+        const id = uuidv4();
+        // Only the header is read here; decoding and resizing happen in the worker
+        const metadata = await sharp(file.buffer).metadata().catch(() => null);
+        if (!metadata?.format) {
+          throw new PhotoUploadError(`${file.originalname} is not a valid image`);
+        }
+
+        const key = `vehicles/${vehicleId}/${id}.${EXTENSIONS[file.mimetype] || 'jpg'}`;
+        const url = await storage.save(key, file.buffer, file.mimetype);
+
+        stored.push({
+          id,
+          file,
+          key,
+          url,
+          ...(metadata.width !== undefined && { width: metadata.width }),
+          ...(metadata.height !== undefined && { height: metadata.height }),
+        });
+      }
+
+      return await withTransaction(async (client) => {
+        const existing = await vehiclePhotoRepository.findByVehicleId(vehicleId, client);
+        let position = await vehiclePhotoRepository.getNextPosition(vehicleId, client);
+        const needsMain = !existing.some(photo => photo.isMain);
+
+        const created: StoredVehiclePhoto[] = [];
+        for (const [index, photo] of stored.entries()) {
+          const caption = captions[index];
+          created.push(await vehiclePhotoRepository.create({
+            id: photo.id,
+            vehicleId,
+            storageKey: photo.key,
+            url: photo.url,
+            thumbnails: {},
+            position: position++,
+            isMain: needsMain && index === 0,
+            contentType: photo.file.mimetype,
+            sizeBytes: photo.file.size,
+            ...(caption && { caption }),
+            ...(photo.width !== undefined && { width: photo.width }),
+            ...(photo.height !== undefined && { height: photo.height }),
+          }, client));
+          await jobQueueService.enqueue(QueueJobType.VEHICLE_THUMBNAILS, { vehicleId, photoId: photo.id }, {}, client);
+        }
+
+        // The first photo of an empty gallery becomes the listing's main photo
+        const main = created.find(photo => photo.isMain);
+        if (main) {
+          await vehicleRepository.updateMainPhoto(vehicleId, main.url, client);
+        }
+
+        logger.logBusinessEvent('vehicle_photos_uploaded', 'vehicle', vehicleId, { count: created.length });
+        return created.map(toPublic);
+      });
+    } catch (error) {
+      // Nothing references the stored objects if the upload did not complete
+      await Promise.all(stored.map(photo => this.deleteObjects(vehicleId, photo.id, photo.key)));
+      throw error;
+    }
+  }
+
+  // Renders every thumbnail size from the stored original and records their URLs.
+  // Returns false when the photo was deleted before the job ran.
+  async generateThumbnails(vehicleId: string, photoId: string): Promise<boolean> {
+    const photo = await vehiclePhotoRepository.findById(vehicleId, photoId);
+    if (!photo) {
+      return false;
+    }
+
+    const storage = getPhotoStorage();
+    const image = sharp(await storage.read(photo.storageKey)).rotate();
+
+    const thumbnails: Partial<Record<ThumbnailSize, string>> = {};
+    for (const [size, width] of Object.entries(THUMBNAIL_SIZES) as [ThumbnailSize, number][]) {
+      const content = await image.clone().resize({ width, withoutEnlargement: true }).jpeg({ quality: 80 }).toBuffer();
+      thumbnails[size] = await storage.save(thumbnailKey(vehicleId, photoId, size), content, 'image/jpeg');
+    }
+
+    const updated = await vehiclePhotoRepository.updateThumbnails(photoId, thumbnails);
+    if (!updated) {
+      // Deleted while rendering: its objects were removed before these thumbnails existed
+      await this.deleteObjects(vehicleId, photoId, photo.storageKey);
+      return false;
+    }
+
+    return true;
+  }
+
+  async update(vehicleId: string, photoId: string, data: UpdatePhotoData): Promise<VehiclePhoto | null> {
+    return withTransaction(async (client) => {
+      let photo = await vehiclePhotoRepository.findById(vehicleId, photoId, client);
+      if (!photo) {
+        return null;
+      }
+
+      if (data.caption !== undefined) {
+        photo = await vehiclePhotoRepository.updateCaption(photoId, data.caption, client) || photo;
+      }
+
+      if (data.isMain && !photo.isMain) {
+        photo = await vehiclePhotoRepository.setMain(vehicleId, photoId, client) || photo;
+        await vehicleRepository.updateMainPhoto(vehicleId, photo.url, client);
+      }
+
+      return toPublic(photo);
+    });
+  }
+
+  // photoIds must list every photo of the vehicle in the desired order
+  async reorder(vehicleId: string, photoIds: string[]): Promise<VehiclePhoto[]> {
+    return withTransaction(async (client) => {
+      const photos = await vehiclePhotoRepository.findByVehicleId(vehicleId, client);
+      const currentIds = new Set(photos.map(photo => photo.id));
+
+      if (photoIds.length !== currentIds.size || new Set(photoIds).size !== photoIds.length || !photoIds.every(id => currentIds.has(id))) {
+        throw new PhotoUploadError('photoIds must contain every photo of the vehicle exactly once');
+      }
+
+      await vehiclePhotoRepository.updatePositions(vehicleId, photoIds, client);
+
+      const reordered = await vehiclePhotoRepository.findByVehicleId(vehicleId, client);
+      return reordered.map(toPublic);
+    });
+  }
+
+  async remove(vehicleId: string, photoId: string): Promise<boolean> {
+    const removed = await withTransaction(async (client) => {
+      const photo = await vehiclePhotoRepository.findById(vehicleId, photoId, client);
+      if (!photo) {
+        return null;
+      }
+
+      await vehiclePhotoRepository.delete(photoId, client);
+
+      // Promote the next photo in the gallery when the main one is removed
+      if (photo.isMain) {
+        const [next] = await vehiclePhotoRepository.findByVehicleId(vehicleId, client);
+        if (next) {
+          await vehiclePhotoRepository.setMain(vehicleId, next.id, client);
+        }
+        await vehicleRepository.updateMainPhoto(vehicleId, next ? next.url : null, client);
+      }
+
+      return photo;
+    });
+
+    if (!removed) {
+      return false;
+    }
+
+    await this.deleteObjects(vehicleId, removed.id, removed.storageKey);
+    return true;
+  }
+
+  private async deleteObjects(vehicleId: string, photoId: string, key: string): Promise<void> {
+    const storage = getPhotoStorage();
+    const keys = [key, ...(Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]).map(size => thumbnailKey(vehicleId, photoId, size))];
+
+    await Promise.all(keys.map(objectKey => storage.delete(objectKey).catch((error) => {
+      logger.logError(error as Error, { operation: 'delete_vehicle_photo_object', vehicleId, key: objectKey });
+    })));
+  }
+}
+
+export const vehiclePhotoService = new VehiclePhotoService();
@@ -0,0 +1,95 @@
+import { PoolClient } from 'pg';
+import { withTransaction } from '@/database/unitOfWork';
+import { vehicleRepository, UpdateVehicleData } from '@/repositories/vehicleRepository';
+import { priceHistoryRepository } from '@/repositories/priceHistoryRepository';
+import { PriceChangeSource, Vehicle, VehiclePriceChange } from '@/types';
+import { logger } from './logger';
+
+export interface PriceChangeContext {
+  source: PriceChangeSource;
+  actorId?: string;
+  reason?: string;
+}
+
+export interface PriceChangeResult {
+  vehicle: Vehicle;
+  change: VehiclePriceChange | null;
+}
+
+export class VehiclePricingService {
+  // Single entry point for price changes so manual edits, imports and rules all leave a trail.
+  // Returns null when the vehicle does not exist; an unchanged price records nothing.
+  async changePrice(
+    vehicleId: string,
+    newPrice: number,
+    context: PriceChangeContext,
+    client?: PoolClient
+  ): Promise<PriceChangeResult | null> {
+    if (client) {
+      return this.applyChange(vehicleId, newPrice, context, client);
+    }
+
+    return withTransaction(tx => this.applyChange(vehicleId, newPrice, context, tx));
+  }
+
+  // Applies a vehicle edit; a price in it goes through changePrice in the same transaction so
+  // editing the listing leaves the same trail as the price endpoint
+  async updateVehicle(vehicleId: string, data: UpdateVehicleData, context: PriceChangeContext): Promise<Vehicle | null> {
+    const { price, ...fields } = data;
+    if (price === undefined) {
+      return vehicleRepository.update(vehicleId, fields);
+    }
+
+    return withTransaction(async tx => {
+      const result = await this.applyChange(vehicleId, price, context, tx);
+      if (!result) {
+        return null;
+      }
+      return vehicleRepository.update(vehicleId, fields, tx);
+    });
+  }
+
+  async getHistory(vehicleId: string): Promise<VehiclePriceChange[]> {
+    return priceHistoryRepository.findByVehicleId(vehicleId);
+  }
+
+  private async applyChange(
+    vehicleId: string,
+    newPrice: number,
+    context: PriceChangeContext,
+    client: PoolClient
+  ): Promise<PriceChangeResult | null> {
+    const current = await vehicleRepository.findByIdForUpdate(vehicleId, client);
+    if (!current) {
+      return null;
+    }
+
+    if (current.price === newPrice) {
+      return { vehicle: current, change: null };
+    }
+
+    const vehicle = await vehicleRepository.updatePrice(vehicleId, newPrice, client);
+    if (!vehicle) {
+      return null;
+    }
+
+    const change = await priceHistoryRepository.create({
+      vehicleId,
+      oldPrice: current.price,
+      newPrice,
+      source: context.source,
+      ...(context.actorId && { actorId: context.actorId }),
+      ...(context.reason && { reason: context.reason }),
+    }, client);
+
+    logger.logBusinessEvent('vehicle_price_changed', 'vehicle', vehicleId, {
+      oldPrice: current.price,
+      newPrice,
+      source: context.source,
+    });
+
+    return { vehicle, change };
+  }
+}
+
+export const vehiclePricingService = new VehiclePricingService();
@@ -0,0 +1,128 @@
+import { catalogKey } from '@/repositories/brandRepository';
+import { VinDecoding, VinMismatch, VinRegion } from '@/types';
+
+export interface VinContext {
+  brand?: string;
+  year?: number;
+}
+
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+// ISO 3779 transliteration; I, O and Q are never used so they cannot be confused with 1 and 0
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 cycles every 30 years; U, Z and 0 are not used
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+// World manufacturer identifiers for the brands we usually stock, named as in the catalog
+const WMI_MANUFACTURERS: Record<string, string> = {
+  JTD: 'Toyota', JTE: 'Toyota', JTM: 'Toyota', JTN: 'Toyota', JTK: 'Toyota', '4T1': 'Toyota', '4T3': 'Toyota', '5TD': 'Toyota', '5TF': 'Toyota', '2T1': 'Toyota',
+  JHM: 'Honda', '1HG': 'Honda', '2HG': 'Honda', '5FN': 'Honda', '5J6': 'Honda', SHH: 'Honda',
+  '1FA': 'Ford', '1FM': 'Ford', '1FT': 'Ford', '3FA': 'Ford', WF0: 'Ford',
+  WVW: 'Volkswagen', WV1: 'Volkswagen', WV2: 'Volkswagen', '1VW': 'Volkswagen', '3VW': 'Volkswagen',
+  WBA: 'BMW', WBS: 'BMW', WBX: 'BMW', '5UX': 'BMW',
+  WDB: 'Mercedes-Benz', WDC: 'Mercedes-Benz', WDD: 'Mercedes-Benz', W1K: 'Mercedes-Benz', W1N: 'Mercedes-Benz', '4JG': 'Mercedes-Benz', '55S': 'Mercedes-Benz',
+  WAU: 'Audi', WA1: 'Audi', TRU: 'Audi',
+  JN1: 'Nissan', JN8: 'Nissan', '1N4': 'Nissan', '1N6': 'Nissan', '3N1': 'Nissan', '5N1': 'Nissan',
+  '1G1': 'Chevrolet', '1GC': 'Chevrolet', '1GN': 'Chevrolet', '2G1': 'Chevrolet', '3G1': 'Chevrolet', KL1: 'Chevrolet',
+  KMH: 'Hyundai', KM8: 'Hyundai', '5NP': 'Hyundai',
+  KNA: 'Kia', KND: 'Kia', '5XY': 'Kia',
+  JM1: 'Mazda', JM3: 'Mazda',
+  JF1: 'Subaru', JF2: 'Subaru', '4S3': 'Subaru', '4S4': 'Subaru',
+  JTH: 'Lexus', JTJ: 'Lexus', '2T2': 'Lexus',
+  JH4: 'Acura', '19U': 'Acura', '5J8': 'Acura',
+  JNK: 'Infiniti', JNR: 'Infiniti',
+  YV1: 'Volvo', YV4: 'Volvo',
+  WP0: 'Porsche', WP1: 'Porsche',
+};
+
+export const normalizeVin = (vin: string): string => vin.trim().toUpperCase();
+
+export const computeVinCheckDigit = (vin: string): string => {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? parseInt(char) : TRANSLITERATION[char] ?? 0;
+    return total + value * WEIGHTS[index]!;
+  }, 0);
+  const remainder = sum % 11;
+
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+export const isValidVin = (vin: string): boolean => {
+  const normalized = normalizeVin(vin);
+  return VIN_PATTERN.test(normalized) && normalized[8] === computeVinCheckDigit(normalized);
+};
+
+const regionFor = (code: string): VinRegion | null => {
+  if (/[A-H]/.test(code)) return 'Africa';
+  if (/[J-R]/.test(code)) return 'Asia';
+  if (/[S-Z]/.test(code)) return 'Europe';
+  if (/[1-5]/.test(code)) return 'North America';
+  if (/[6-7]/.test(code)) return 'Oceania';
+  if (/[8-9]/.test(code)) return 'South America';
+  return null;
+};
+
+const modelYearCandidatesFor = (code: string): number[] => {
+  const index = MODEL_YEAR_CODES.indexOf(code);
+  if (index === -1) {
+    return [];
+  }
+
+  const latest = new Date().getFullYear() + 1;
+  const candidates: number[] = [];
+  for (let year = 1980 + index; year <= latest; year += 30) {
+    candidates.push(year);
+  }
+  return candidates;
+};
+
+// Decodes the VIN offline and compares it with what was entered for the listing.
+// For passenger cars a digit in position 7 means the 1980-2009 cycle, a letter 2010 onwards.
+export const decodeVin = (vin: string, context: VinContext = {}): VinDecoding => {
+  const normalized = normalizeVin(vin);
+  const wmi = normalized.slice(0, 3);
+  const manufacturer = WMI_MANUFACTURERS[wmi] ?? null;
+
+  const modelYearCandidates = modelYearCandidatesFor(normalized.charAt(9));
+  const preferNewer = /[A-Z]/.test(normalized.charAt(6));
+  const cycleMatch = modelYearCandidates.find(year => (year >= 2010) === preferNewer);
+  const modelYear = cycleMatch ?? modelYearCandidates[modelYearCandidates.length - 1] ?? null;
+
+  const mismatches: VinMismatch[] = [];
+
+  if (manufacturer && context.brand && catalogKey(manufacturer) !== catalogKey(context.brand)) {
+    mismatches.push({
+      field: 'brand',
+      expected: manufacturer,
+      actual: context.brand,
+      message: `VIN manufacturer code ${wmi} belongs to ${manufacturer}, not ${context.brand}`,
+    });
+  }
+
+  if (modelYearCandidates.length > 0 && context.year !== undefined && !modelYearCandidates.includes(context.year)) {
+    mismatches.push({
+      field: 'year',
+      expected: modelYear!,
+      actual: context.year,
+      message: `VIN model year code ${normalized.charAt(9)} means ${modelYearCandidates.join(' or ')}, not ${context.year}`,
+    });
+  }
+
+  return {
+    vin: normalized,
+    wmi,
+    region: regionFor(normalized.charAt(0)),
+    manufacturer,
+    checkDigitValid: isValidVin(normalized),
+    modelYear,
+    modelYearCandidates,
+    mismatches,
+  };
+};
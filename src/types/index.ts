@@ -3,6 +3,7 @@ export interface Vehicle {
   brand: string;
   model: string;
   year: number;
+  vin?: string;
   mileage: number;
   price: number;
   description?: string;
@@ -13,6 +14,62 @@ export interface Vehicle {
   updatedAt: Date;
 }
 
+export type VinRegion = 'Africa' | 'Asia' | 'Europe' | 'North America' | 'Oceania' | 'South America';
+
+export interface VinMismatch {
+  field: 'brand' | 'year';
+  expected: string | number;
+  actual: string | number;
+  message: string;
+}
+
+// Everything that can be derived from the VIN alone, without an external service
+export interface VinDecoding {
+  vin: string;
+  wmi: string;
+  region: VinRegion | null;
+  manufacturer: string | null;
+  checkDigitValid: boolean;
+  modelYear: number | null;
+  modelYearCandidates: number[];
+  mismatches: VinMismatch[];
+}
+
+export enum PriceChangeSource {
+  MANUAL = 'manual',
+  IMPORT = 'import',
+  RULE = 'rule'
+}
+
+export interface VehiclePriceChange {
+  id: string;
+  vehicleId: string;
+  oldPrice: number;
+  newPrice: number;
+  source: PriceChangeSource;
+  actorId?: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+export interface VehiclePhoto {
+  id: string;
+  vehicleId: string;
+  url: string;
+  thumbnails: Partial<Record<ThumbnailSize, string>>;
+  caption?: string;
+  position: number;
+  isMain: boolean;
+  contentType: string;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ThumbnailSize = 'small' | 'medium' | 'large';
+
 export interface TechnicalSpecs {
   engine: string;
   transmission: string;
@@ -53,6 +110,7 @@ export interface Order {
   id: string;
   vehicleId: string;
   userId: string;
+  salespersonId?: string;
   status: OrderStatus;
   totalAmount: number;
   downPayment?: number;
@@ -68,13 +126,198 @@ export enum OrderStatus {
   CANCELLED = 'cancelled'
 }
 
+export interface OrderStatusHistoryEntry {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  changedBy?: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+export interface Reservation {
+  id: string;
+  vehicleId: string;
+  userId: string;
+  status: ReservationStatus;
+  expiresAt: Date;
+  depositAmount?: number;
+  depositReference?: string;
+  notes?: string;
+  releasedBy?: string;
+  releasedAt?: Date;
+  releaseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export enum ReservationStatus {
+  ACTIVE = 'active',
+  RELEASED = 'released',
+  EXPIRED = 'expired',
+  CONVERTED = 'converted'
+}
+
+export interface ReservationFilters {
+  userId?: string;
+  vehicleId?: string;
+  status?: ReservationStatus;
+}
+
+export interface OrderPayment {
+  id: string;
+  orderId: string;
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  notes?: string;
+  receivedAt: Date;
+  recordedBy?: string;
+  voidedAt?: Date;
+  voidedBy?: string;
+  voidReason?: string;
+  createdAt: Date;
+}
+
+export enum PaymentMethod {
+  CASH = 'cash',
+  CARD = 'card',
+  BANK_TRANSFER = 'bank_transfer',
+  CHECK = 'check',
+  FINANCING = 'financing'
+}
+
+export interface OrderBalance {
+  orderId: string;
+  totalAmount: number;
+  tradeInCredit: number;
+  paidAmount: number;
+  outstandingBalance: number;
+}
+
+export interface OrderDocument {
+  id: string;
+  orderId: string;
+  type: OrderDocumentType;
+  documentNumber: string;
+  filePath: string;
+  fileSize: number;
+  generatedAt: Date;
+}
+
+export enum OrderDocumentType {
+  INVOICE = 'invoice',
+  CONTRACT = 'contract'
+}
+
+export interface TradeIn {
+  id: string;
+  orderId?: string;
+  customerId?: string;
+  brand: string;
+  model: string;
+  year: number;
+  mileage: number;
+  conditionGrade: TradeInCondition;
+  appraisedValue: number;
+  appraisedBy?: string;
+  status: TradeInStatus;
+  vehicleId?: string;
+  notes?: string;
+  decidedBy?: string;
+  decidedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export enum TradeInCondition {
+  EXCELLENT = 'excellent',
+  GOOD = 'good',
+  FAIR = 'fair',
+  POOR = 'poor'
+}
+
+export enum TradeInStatus {
+  APPRAISED = 'appraised',
+  ACCEPTED = 'accepted',
+  REJECTED = 'rejected'
+}
+
+export interface TradeInFilters {
+  orderId?: string;
+  customerId?: string;
+  status?: TradeInStatus;
+}
+
+export interface FinancingRate {
+  id: string;
+  termMonths: number;
+  minVehicleAge: number;
+  maxVehicleAge?: number;
+  annualRate: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AmortizationEntry {
+  period: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export interface FinancingQuote {
+  vehicleId: string;
+  vehiclePrice: number;
+  downPayment: number;
+  principal: number;
+  termMonths: number;
+  annualRate: number;
+  rateSource: 'requested' | 'rate_table';
+  monthlyPayment: number;
+  totalInterest: number;
+  totalPaid: number;
+  schedule: AmortizationEntry[];
+}
+
 export interface PaginationParams {
   page: number;
   limit: number;
   offset: number;
 }
 
+export interface Brand {
+  id: string;
+  name: string;
+  aliases: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BrandModel {
+  id: string;
+  brandId: string;
+  name: string;
+  aliases: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Catalog entries with the number of listed vehicles currently available
+export interface BrandUsage extends Brand {
+  availableVehicles: number;
+}
+
+export interface BrandModelUsage extends BrandModel {
+  availableVehicles: number;
+}
+
 export interface VehicleFilters {
+  q?: string;
   brand?: string;
   model?: string;
   yearMin?: number;
@@ -83,15 +326,119 @@ export interface VehicleFilters {
   priceMax?: number;
   mileageMax?: number;
   status?: VehicleStatus;
+  transmission?: string[];
+  fuelType?: string[];
+  color?: string[];
+  doors?: number[];
+  seats?: number[];
+  powerMin?: number;
+  powerMax?: number;
+}
+
+export enum VehicleSortField {
+  PRICE = 'price',
+  YEAR = 'year',
+  MILEAGE = 'mileage',
+  CREATED_AT = 'created_at',
+  RELEVANCE = 'relevance',
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface VehicleListOptions {
+  sort?: VehicleSortField;
+  order?: SortOrder;
+  cursor?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface RangeFacetCount {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface VehicleFacets {
+  brand: FacetCount[];
+  fuelType: FacetCount[];
+  transmission: FacetCount[];
+  priceBand: RangeFacetCount[];
+  yearBand: RangeFacetCount[];
+}
+
+export interface OrderFilters {
+  userId?: string;
+  vehicleId?: string;
+  salespersonId?: string;
+  status?: OrderStatus;
+}
+
+export type ReportInterval = 'day' | 'week' | 'month';
+
+export interface SalesReportFilters {
+  dateFrom?: Date;
+  // Inclusive
+  dateTo?: Date;
+  // dateTo was given as a plain date, so the whole of that day is included
+  dateToIsDay?: boolean;
+  brand?: string;
+  salespersonId?: string;
+}
+
+export interface OrderStatusSummary {
+  count: number;
+  revenue: number;
+  averageOrderValue: number;
+}
+
+export interface SalesSeriesPoint {
+  period: Date;
+  orderCount: number;
+  salesCount: number;
+  revenue: number;
+  averageOrderValue: number;
+}
+
+export interface SalesReport {
+  totalOrders: number;
+  totalRevenue: number;
+  averageOrderValue: number;
+  ordersByStatus: Record<OrderStatus, OrderStatusSummary>;
+  interval: ReportInterval;
+  series: SalesSeriesPoint[];
+}
+
+export interface VehicleSearchMatch {
+  rank: number;
+  highlight: string;
+}
+
+// Reduction against the highest price held within the badge window
+export interface VehiclePriceDrop {
+  previousPrice: number;
+  amount: number;
+  percent: number;
+  since: Date;
+}
+
+export interface VehicleListItem extends Vehicle {
+  match?: VehicleSearchMatch;
+  priceDrop?: VehiclePriceDrop;
 }
 
 export interface VehicleListResponse {
-  vehicles: Vehicle[];
+  vehicles: VehicleListItem[];
   pagination: {
     page: number;
     limit: number;
     total: number;
     totalPages: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
   };
 }
 
@@ -131,10 +478,286 @@ export interface RedisConfig {
   password?: string;
 }
 
+export enum LockBackend {
+  REDIS = 'redis',
+  POSTGRES = 'postgres'
+}
+
+export interface LockHolder {
+  name: string;
+  backend: LockBackend;
+  // Instance (host:pid) holding the lease; for advisory locks held elsewhere, the database backend
+  holder: string;
+  acquiredAt?: Date;
+  // Remaining Redis lease; advisory locks last as long as the holder's session
+  expiresInMs?: number;
+}
+
 export interface PriceUpdate {
   vehicleId: string;
   newPrice: number;
   timestamp: Date;
+  // 1-based data row in the source file (header excluded)
+  row?: number;
+  // Recorded in the price history instead of the generic import reason
+  reason?: string;
+}
+
+export enum PriceUpdateRowStatus {
+  APPLIED = 'applied',
+  SKIPPED = 'skipped',
+  REJECTED = 'rejected'
+}
+
+export interface PriceUpdateRowResult {
+  row: number;
+  vehicleId: string;
+  newPrice: number | null;
+  oldPrice?: number;
+  status: PriceUpdateRowStatus;
+  reason?: string;
+}
+
+export interface PriceImportReport {
+  source: string;
+  startedAt: Date;
+  finishedAt: Date;
+  totalRows: number;
+  applied: number;
+  skipped: number;
+  rejected: number;
+  rows: PriceUpdateRowResult[];
+}
+
+export interface PriceChangePreviewRow {
+  row: number;
+  vehicleId: string;
+  oldPrice: number;
+  newPrice: number;
+  difference: number;
+  // Relative to the old price, rounded to two decimals
+  percentChange: number;
+  warning?: string;
+}
+
+export interface PriceChangePreview {
+  source: string;
+  totalRows: number;
+  thresholdPercent: number;
+  changes: PriceChangePreviewRow[];
+  unchanged: number;
+  rejected: PriceUpdateRowResult[];
+  warnings: number;
+  // True when at least one change exceeds the threshold; such files wait for an admin
+  requiresApproval: boolean;
+}
+
+export enum PriceImportSource {
+  S3 = 's3',
+  LOCAL = 'local',
+  UPLOAD = 'upload'
+}
+
+export enum PriceImportRunStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  PENDING_APPROVAL = 'pending_approval',
+  REJECTED = 'rejected'
+}
+
+export interface PriceImportRun {
+  id: string;
+  source: PriceImportSource;
+  objectKey: string;
+  fingerprint: string;
+  attempt: number;
+  status: PriceImportRunStatus;
+  totalRows: number;
+  appliedRows: number;
+  skippedRows: number;
+  rejectedRows: number;
+  report?: PriceUpdateRowResult[];
+  error?: string;
+  archivedPath?: string;
+  requestedBy?: string;
+  preview?: PriceChangePreview;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+}
+
+export interface PriceProcessingRun {
+  startedAt: Date;
+  finishedAt?: Date;
+  reports: PriceImportReport[];
+  error?: string;
+}
+
+export interface RepricingRule {
+  id: string;
+  name: string;
+  // Lower values are applied first
+  priority: number;
+  brand?: string;
+  minYear?: number;
+  maxYear?: number;
+  minMileage?: number;
+  maxMileage?: number;
+  startAfterDays: number;
+  // Without an interval the adjustment is applied once
+  intervalDays?: number;
+  // Negative values reduce the price
+  adjustmentPercent?: number;
+  roundTo?: number;
+  floorPrice?: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RepricingCandidate {
+  id: string;
+  brand: string;
+  model: string;
+  year: number;
+  mileage: number;
+  price: number;
+  createdAt: Date;
+  lastRuleChangeAt?: Date;
+}
+
+export interface RepricingStep {
+  date: string;
+  daysInStock: number;
+  oldPrice: number;
+  newPrice: number;
+  rules: string[];
+}
+
+export interface RepricingVehicleSimulation {
+  vehicleId: string;
+  brand: string;
+  model: string;
+  year: number;
+  currentPrice: number;
+  projectedPrice: number;
+  steps: RepricingStep[];
+}
+
+export interface RepricingSimulation {
+  days: number;
+  from: string;
+  to: string;
+  vehiclesAffected: number;
+  totalReduction: number;
+  vehicles: RepricingVehicleSimulation[];
+}
+
+export enum JobTrigger {
+  SCHEDULE = 'schedule',
+  MANUAL = 'manual'
+}
+
+export enum JobRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  TIMED_OUT = 'timed_out'
+}
+
+export interface JobLogEntry {
+  at: Date;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export interface JobRetryPolicy {
+  // Total attempts, the first one included
+  attempts: number;
+  // Wait before the second attempt; doubles after each failure
+  backoffMs: number;
+}
+
+export interface JobRun {
+  id: string;
+  jobName: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  attempts: number;
+  instance: string;
+  triggeredBy?: string;
+  result?: Record<string, unknown>;
+  error?: string;
+  logs: JobLogEntry[];
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+}
+
+export interface JobInfo {
+  name: string;
+  description: string;
+  schedule: string;
+  timeoutMs: number;
+  retry: JobRetryPolicy;
+  paused: boolean;
+  // Running on this instance; other replicas show up through the latest run
+  running: boolean;
+  lastRun: JobRun | null;
+}
+
+export enum QueueJobType {
+  ORDER_DOCUMENTS = 'order-documents',
+  PRICE_IMPORT = 'price-import',
+  VEHICLE_THUMBNAILS = 'vehicle-thumbnails'
+}
+
+export enum QueuedJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed'
+}
+
+export interface QueuedJob {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: QueuedJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy?: string;
+  lockedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface DeadLetterJob {
+  id: string;
+  jobId: string;
+  type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  error?: string;
+  enqueuedAt: Date;
+  failedAt: Date;
+  requeuedAt?: Date;
+  requeuedBy?: string;
+  requeuedJobId?: string;
+}
+
+export interface QueueStats {
+  // Per job type and status, completed jobs included
+  jobs: { type: string; status: QueuedJobStatus; count: number }[];
+  deadLetters: number;
+  // Seconds the oldest due pending job has been waiting, 0 when the queue is drained
+  oldestPendingSeconds: number;
 }
 
 export interface MetricsData {
@@ -0,0 +1,62 @@
+// Loaded before anything else: the database and queue settings are read when their modules load
+import 'dotenv/config';
+import http from 'http';
+import { logger } from '@/services/logger';
+import { closePool, testConnection } from '@/database/config';
+import { QueueWorker } from '@/services/jobQueue';
+import { queueHandlers } from '@/services/queueHandlers';
+import { metricsService } from '@/services/metrics';
+
+const METRICS_PORT = process.env.WORKER_METRICS_PORT || 9464;
+
+async function startWorker(): Promise<void> {
+  try {
+    const dbConnected = await testConnection();
+    if (!dbConnected) {
+      logger.error('Failed to connect to database');
+      process.exit(1);
+    }
+    logger.info('Database connected successfully');
+
+    const worker = new QueueWorker(queueHandlers);
+    worker.start();
+
+    // Job outcomes are recorded in this process, so it serves its own Prometheus endpoint
+    const metricsServer = http.createServer(async (req, res) => {
+      if (req.url !== '/metrics') {
+        res.writeHead(404).end();
+        return;
+      }
+      try {
+        const metrics = await metricsService.getMetrics();
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end(metrics);
+      } catch (error) {
+        logger.logError(error as Error, { operation: 'worker_metrics' });
+        res.writeHead(500).end();
+      }
+    });
+    metricsServer.listen(METRICS_PORT, () => {
+      logger.info(`Worker metrics available on port ${METRICS_PORT}`);
+    });
+
+    const shutdown = async (signal: string): Promise<void> => {
+      logger.info(`${signal} received, waiting for running jobs`);
+      metricsServer.close();
+      await worker.stop();
+      await closePool();
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error('Failed to start worker', { error: error.message });
+    } else {
+      logger.error('Failed to start worker', { error: String(error) });
+    }
+    process.exit(1);
+  }
+}
+
+startWorker();